@@ -11,6 +11,7 @@ const CONFIG = {
   API_BASE_URL: 'http://localhost:3000/api', // Change to production URL when deployed
   SYNC_INTERVAL: 60000, // Sync with API every minute
   BATCH_SIZE: 10, // Process tasks in batches
+  CONFIRMATION_HOLD_MINUTES: 24 * 60, // Keep tasks waiting on the rep off the server queue
 };
 
 // ============================================
@@ -34,9 +35,12 @@ class TaskQueue {
   }
 
   async addTask(task) {
+    // Server tasks keep their ID so results can be reported back; a re-claimed task is already queued
+    if (task.id && this.queue.some(t => t.id === task.id)) return;
+
     this.queue.push({
       ...task,
-      id: crypto.randomUUID(),
+      id: task.id || crypto.randomUUID(),
       status: 'pending',
       created_at: new Date().toISOString(),
     });
@@ -48,6 +52,11 @@ class TaskQueue {
     return this.queue.find(task => task.status === 'pending');
   }
 
+  async getTask(taskId) {
+    await this.loadQueue();
+    return this.queue.find(task => task.id === taskId);
+  }
+
   async updateTask(taskId, updates) {
     const taskIndex = this.queue.findIndex(t => t.id === taskId);
     if (taskIndex !== -1) {
@@ -69,14 +78,12 @@ class TaskQueue {
 class ChimeraAPI {
   constructor() {
     this.apiKey = null;
-    this.organizationId = null;
     this.loadCredentials();
   }
 
   async loadCredentials() {
-    const stored = await chrome.storage.sync.get(['apiKey', 'organizationId']);
+    const stored = await chrome.storage.sync.get('apiKey');
     this.apiKey = stored.apiKey;
-    this.organizationId = stored.organizationId;
   }
 
   async fetchPendingTasks() {
@@ -86,18 +93,29 @@ class ChimeraAPI {
     }
 
     try {
-      const response = await fetch(`${CONFIG.API_BASE_URL}/linkedin/tasks`, {
+      // Claiming leases the tasks to this account so another browser does not run them too
+      const response = await fetch(`${CONFIG.API_BASE_URL}/linkedin/tasks/claim`, {
+        method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.apiKey}`,
-          'X-Organization-Id': this.organizationId,
+          'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ limit: CONFIG.BATCH_SIZE }),
       });
 
+      // The key decides the organization and LinkedIn account; a rejected key needs replacing in settings
+      if (response.status === 401 || response.status === 403) {
+        const body = await response.json().catch(() => ({}));
+        console.error(`Extension API key rejected: ${body.error || response.status}`);
+        return [];
+      }
+
       if (!response.ok) {
         throw new Error(`API error: ${response.status}`);
       }
 
-      return await response.json();
+      const body = await response.json();
+      return body.tasks || [];
     } catch (error) {
       console.error('Failed to fetch tasks:', error);
       return [];
@@ -105,40 +123,53 @@ class ChimeraAPI {
   }
 
   async reportTaskResult(taskId, result) {
-    if (!this.apiKey) return;
-
-    try {
-      await fetch(`${CONFIG.API_BASE_URL}/linkedin/tasks/${taskId}/complete`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'X-Organization-Id': this.organizationId,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(result),
-      });
-    } catch (error) {
-      console.error('Failed to report task result:', error);
+    if (!this.apiKey) return false;
+
+    let action;
+    let payload;
+    if (result.awaiting_confirmation) {
+      // Hold the task on the server until the rep approves, sends or skips it
+      action = 'snooze';
+      payload = { minutes: CONFIG.CONFIRMATION_HOLD_MINUTES };
+    } else if (result.success) {
+      action = 'complete';
+      payload = { result, executed_at: new Date().toISOString() };
+    } else {
+      action = 'fail';
+      payload = { reason: result.reason || 'execution_error', message: result.error, retryable: result.retryable !== false };
     }
+
+    return this.postTaskAction(taskId, action, payload);
   }
 
-  async trackEvent(event) {
-    if (!this.apiKey) return;
+  async skipTask(taskId, reason) {
+    if (!this.apiKey) return false;
+
+    return this.postTaskAction(taskId, 'skip', { reason });
+  }
 
+  async postTaskAction(taskId, action, payload) {
     try {
-      await fetch(`${CONFIG.API_BASE_URL}/behavioral-events`, {
+      const response = await fetch(`${CONFIG.API_BASE_URL}/linkedin/tasks/${taskId}/${action}`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.apiKey}`,
-          'X-Organization-Id': this.organizationId,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(event),
+        body: JSON.stringify(payload),
       });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        console.error(`Task ${action} rejected: ${body.error || response.status}`);
+      }
+      return response.ok;
     } catch (error) {
-      console.error('Failed to track event:', error);
+      console.error(`Failed to ${action} task:`, error);
+      return false;
     }
   }
+
 }
 
 // ============================================
@@ -204,23 +235,13 @@ class TaskProcessor {
           throw new Error(`Unknown automation mode: ${task.mode}`);
       }
 
-      // Report result to API
+      // Report result to API; completing a task also records its behavioral event
       await this.api.reportTaskResult(task.id, result);
 
-      // Track behavioral event
-      await this.api.trackEvent({
-        event_type: `linkedin_${task.action}`,
-        event_data: {
-          task_id: task.id,
-          profile_url: task.profileUrl,
-          success: result.success,
-        },
-        lead_id: task.leadId,
-        source: 'linkedin',
-      });
-
       // Update or remove task
-      if (result.success) {
+      if (result.awaiting_confirmation) {
+        await this.queue.updateTask(task.id, { status: 'awaiting_confirmation' });
+      } else if (result.success) {
         await this.queue.removeTask(task.id);
       } else {
         await this.queue.updateTask(task.id, {
@@ -240,6 +261,70 @@ class TaskProcessor {
     }
   }
 
+  /**
+   * The rep answered a task's notification. Approving a semi_auto task runs it now; for a
+   * draft or manual task it confirms the rep did it. Only then is the task reported complete.
+   */
+  async confirmTask(taskId, approved) {
+    const task = await this.queue.getTask(taskId);
+    if (!task || task.status !== 'awaiting_confirmation') return;
+
+    chrome.notifications.clear(taskId);
+
+    if (!approved) {
+      if (await this.api.skipTask(taskId, 'skipped_by_rep')) {
+        await this.forgetTask(taskId);
+      }
+      return;
+    }
+
+    let result;
+    if (task.mode === AutomationModes.SEMI_AUTO) {
+      await this.queue.updateTask(taskId, { status: 'processing' });
+      try {
+        const tab = await this.getLinkedInTab();
+        if (!tab) throw new Error('Could not open LinkedIn tab');
+        result = await this.executeAutoTask(tab, task);
+      } catch (error) {
+        result = { success: false, error: error.message };
+      }
+    } else {
+      result = { success: true, confirmed_by_rep: true };
+    }
+
+    const reported = await this.api.reportTaskResult(taskId, result);
+    if (reported && result.success) {
+      await this.forgetTask(taskId);
+    } else {
+      await this.queue.updateTask(taskId, {
+        status: reported ? 'failed' : 'awaiting_confirmation',
+        error: result.error,
+      });
+    }
+  }
+
+  async forgetTask(taskId) {
+    await this.queue.removeTask(taskId);
+
+    const { manualTasks = [] } = await chrome.storage.local.get('manualTasks');
+    await chrome.storage.local.set({ manualTasks: manualTasks.filter(t => t.id !== taskId) });
+  }
+
+  notifyForConfirmation(task, title, confirmLabel) {
+    // The task id doubles as the notification id so the button handler can find the task
+    chrome.notifications.create(task.id, {
+      type: 'basic',
+      iconUrl: '/icons/icon-48.png',
+      title,
+      message: `${task.action} for ${task.leadName || 'lead'}`,
+      buttons: [
+        { title: confirmLabel },
+        { title: 'Skip' },
+      ],
+      requireInteraction: true,
+    });
+  }
+
   async executeAutoTask(tab, task) {
     // Send message to content script
     const response = await chrome.tabs.sendMessage(tab.id, {
@@ -251,27 +336,12 @@ class TaskProcessor {
   }
 
   async queueForReview(task) {
-    // Add to review queue for user approval
-    const reviewQueue = await chrome.storage.local.get('reviewQueue');
-    const queue = reviewQueue.reviewQueue || [];
-    queue.push(task);
-    await chrome.storage.local.set({ reviewQueue: queue });
-
-    // Show notification
-    chrome.notifications.create({
-      type: 'basic',
-      iconUrl: '/icons/icon-48.png',
-      title: 'LinkedIn Task Ready for Review',
-      message: `${task.action} for ${task.leadName}`,
-      buttons: [
-        { title: 'Approve' },
-        { title: 'Skip' },
-      ],
-    });
+    // The task stays in the local queue until the rep approves or skips it
+    this.notifyForConfirmation(task, 'LinkedIn Task Ready for Review', 'Approve');
 
     return {
       success: true,
-      queued_for_review: true,
+      awaiting_confirmation: true,
     };
   }
 
@@ -288,9 +358,12 @@ class TaskProcessor {
       task: task,
     });
 
+    this.notifyForConfirmation(task, 'LinkedIn Draft Ready to Send', 'Mark as sent');
+
     return {
       success: true,
       draft_created: true,
+      awaiting_confirmation: true,
     };
   }
 
@@ -304,9 +377,12 @@ class TaskProcessor {
     });
     await chrome.storage.local.set({ manualTasks: tasks });
 
+    this.notifyForConfirmation(task, 'LinkedIn Task to Do Manually', 'Mark as done');
+
     return {
       success: true,
       manual_task_created: true,
+      awaiting_confirmation: true,
     };
   }
 
@@ -381,14 +457,8 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
 // ============================================
 
 chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
-  // Handle review queue approval/rejection
-  if (buttonIndex === 0) {
-    // Approve - execute task
-    processApprovedTask(notificationId);
-  } else {
-    // Skip - mark as skipped
-    skipTask(notificationId);
-  }
+  // Notifications are keyed by task id: the first button approves or confirms, the second skips
+  processor.confirmTask(notificationId, buttonIndex === 0);
 });
 
 // ============================================
@@ -399,11 +469,25 @@ const taskQueue = new TaskQueue();
 const api = new ChimeraAPI();
 const processor = new TaskProcessor();
 
+// Pick up a new or replaced API key saved from the popup
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'sync' && changes.apiKey) {
+    api.loadCredentials();
+  }
+});
+
 // Sync with API periodically
 async function syncWithAPI() {
   const tasks = await api.fetchPendingTasks();
 
   for (const task of tasks) {
+    // Still waiting on the rep: hold it again rather than queueing a second run
+    const queued = await taskQueue.getTask(task.id);
+    if (queued?.status === 'awaiting_confirmation') {
+      await api.reportTaskResult(task.id, { awaiting_confirmation: true });
+      continue;
+    }
+
     await taskQueue.addTask(task);
   }
 
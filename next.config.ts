@@ -2,6 +2,9 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   // Instrumentation hook is now enabled by default in Next.js 16+
+
+  // MJML resolves its components and minifier with runtime requires the bundler cannot follow
+  serverExternalPackages: ["mjml", "juice"],
 };
 
 export default nextConfig;
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { createClient } from '@/lib/supabase/server';
+import { PlaybookTriggerService } from '@/lib/services/playbook-triggers';
+import { AutoEnrollmentEngine } from '@/lib/services/auto-enrollment';
+import { DuplicateDetectionService } from '@/lib/services/duplicate-detection';
 
 const textEncoder = new TextEncoder();
 
@@ -162,7 +165,7 @@ async function upsertLead(
 
   const tags = parseTags(record.tags || record.Tags);
 
-  const { error } = await supabase.from('sales_leads').insert({
+  const { data: lead, error } = await supabase.from('sales_leads').insert({
     organization_id: organizationId,
     name,
     email,
@@ -173,12 +176,25 @@ async function upsertLead(
     tags,
     utm_source: record.utm_source || null,
     utm_campaign: record.utm_campaign || null,
-  });
+  }).select('id').single();
 
   if (error) {
     return { status: 'error', field: 'supabase', message: error.message };
   }
 
+  await PlaybookTriggerService.emitEvent(organizationId, 'lead.created', {
+    lead_id: lead.id,
+    source: 'import',
+  });
+  await AutoEnrollmentEngine.emitTrigger(organizationId, 'lead_created', {
+    lead_id: lead.id,
+    source: 'import',
+  });
+  // Rows with a different email can still be the same person (another alias, same phone or profile)
+  await DuplicateDetectionService.detectForRecord('lead', lead.id, organizationId).catch((error) => {
+    console.error('Failed to check imported lead for duplicates:', error);
+  });
+
   return { status: 'success' };
 }
 
@@ -3,6 +3,8 @@ import { auth } from "@clerk/nextjs/server";
 import { SendEmailCommand } from "@aws-sdk/client-sesv2";
 import { createClient } from "@/lib/supabase/server";
 import { getSesClient } from "@/lib/email/ses-client";
+import { buildTemplateContext, renderTemplate } from "@/lib/email/template-engine";
+import { getCustomFieldValues } from "@/lib/services/custom-fields";
 
 export async function POST(request: Request) {
     try {
@@ -11,7 +13,7 @@ export async function POST(request: Request) {
             return new NextResponse("Unauthorized", { status: 401 });
         }
 
-        const { leadId, to, subject, body } = await request.json();
+        const { leadId, to, subject, body, strictVariables } = await request.json();
 
         if (!leadId || !to || !subject || !body) {
             return new NextResponse("Missing required fields", { status: 400 });
@@ -44,6 +46,31 @@ export async function POST(request: Request) {
             return new NextResponse("No verified email address configured", { status: 500 });
         }
 
+        const { data: lead } = await supabase
+            .from("sales_leads")
+            .select("*, account:sales_accounts(name, domain, industry, size, location, website)")
+            .eq("id", leadId)
+            .single();
+
+        const customFields = await getCustomFieldValues("sales_leads", [leadId], supabase);
+
+        const context = buildTemplateContext({
+            lead,
+            customFields: customFields[leadId],
+            sender: { name: fromName, email: fromEmail },
+        });
+        const renderedSubject = renderTemplate(subject, context);
+        const renderedBody = renderTemplate(body, context);
+
+        // Opt-in, as for sequences: refuse to send rather than mail a greeting with a blank name
+        const missing = [...new Set([...renderedSubject.missing, ...renderedBody.missing])];
+        if (strictVariables === true && missing.length > 0) {
+            return NextResponse.json(
+                { error: `Missing template variables: ${missing.join(", ")}`, missing },
+                { status: 422 }
+            );
+        }
+
         // 1. Send Email via SES
         const ses = getSesClient();
         const command = new SendEmailCommand({
@@ -54,9 +81,9 @@ export async function POST(request: Request) {
             },
             Content: {
                 Simple: {
-                    Subject: { Data: subject },
+                    Subject: { Data: renderedSubject.output },
                     Body: {
-                        Text: { Data: body },
+                        Text: { Data: renderedBody.output },
                         // We could add HTML support here later
                     },
                 },
@@ -69,7 +96,7 @@ export async function POST(request: Request) {
         const { error } = await supabase.from("crm_activities").insert({
             lead_id: leadId,
             type: "email",
-            content: `Subject: ${subject}\n\n${body}`,
+            content: `Subject: ${renderedSubject.output}\n\n${renderedBody.output}`,
             outcome: "Sent",
             occurred_at: new Date().toISOString(),
             created_by: userId,
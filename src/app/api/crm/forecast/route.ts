@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getForecast } from "@/lib/services/crm-forecast";
+import { pipelineErrorResponse } from "@/lib/utils/pipeline-error-response";
+
+export const dynamic = "force-dynamic";
+
+// ?pipeline_id=&from=YYYY-MM&months=6&assigned_to=
+export async function GET(req: NextRequest) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+
+    try {
+        const forecast = await getForecast(orgId ?? userId, {
+            pipelineId: searchParams.get("pipeline_id") ?? undefined,
+            from: searchParams.get("from") ?? undefined,
+            months: searchParams.has("months") ? parseInt(searchParams.get("months")!) : undefined,
+            assignedTo: searchParams.get("assigned_to") ?? undefined,
+        });
+
+        return NextResponse.json(forecast);
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
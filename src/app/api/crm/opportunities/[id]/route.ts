@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+    deleteOpportunity,
+    getOpportunity,
+    getStageHistory,
+    updateOpportunity,
+} from "@/lib/services/crm-opportunities";
+import { pipelineErrorResponse } from "@/lib/utils/pipeline-error-response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+        const opportunity = await getOpportunity(id, orgId ?? userId);
+        const history = await getStageHistory(id, orgId ?? userId);
+        return NextResponse.json({ ...opportunity, history });
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+        const body = await req.json();
+        const opportunity = await updateOpportunity(id, body, userId, orgId ?? userId);
+        return NextResponse.json(opportunity);
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
+
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+        await deleteOpportunity(id, orgId ?? userId);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
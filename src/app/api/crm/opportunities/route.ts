@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createOpportunity, listOpportunities } from "@/lib/services/crm-opportunities";
+import { OPPORTUNITY_STATUSES, type OpportunityStatus } from "@/lib/constants/opportunities";
+import { pipelineErrorResponse } from "@/lib/utils/pipeline-error-response";
+
+export async function GET(req: NextRequest) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status");
+
+    try {
+        const opportunities = await listOpportunities(orgId ?? userId, {
+            pipeline_id: searchParams.get("pipeline_id") ?? undefined,
+            stage_id: searchParams.get("stage_id") ?? undefined,
+            account_id: searchParams.get("account_id") ?? undefined,
+            assigned_to: searchParams.get("assigned_to") ?? undefined,
+            status: OPPORTUNITY_STATUSES.some((option) => option.value === status)
+                ? (status as OpportunityStatus)
+                : undefined,
+            limit: parseInt(searchParams.get("limit") ?? "500"),
+        });
+
+        return NextResponse.json({ opportunities });
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    try {
+        const body = await req.json();
+        const opportunity = await createOpportunity(body, userId, orgId ?? userId);
+        return NextResponse.json(opportunity, { status: 201 });
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
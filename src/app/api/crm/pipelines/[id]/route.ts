@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { deletePipeline, getPipeline, updatePipeline } from "@/lib/services/crm-pipelines";
+import { pipelineErrorResponse } from "@/lib/utils/pipeline-error-response";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+        const pipeline = await getPipeline(id, orgId ?? userId);
+        return NextResponse.json(pipeline);
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+        const body = await req.json();
+        const pipeline = await updatePipeline(id, orgId ?? userId, body);
+        return NextResponse.json(pipeline);
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
+
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+        await deletePipeline(id, orgId ?? userId);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
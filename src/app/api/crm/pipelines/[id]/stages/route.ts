@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { replaceStages } from "@/lib/services/crm-pipelines";
+import { pipelineErrorResponse } from "@/lib/utils/pipeline-error-response";
+
+// Replaces the whole stage list; body is { stages: [{ id?, name, probability?, stage_type? }] } in order
+export async function PUT(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { id } = await params;
+
+    try {
+        const body = await req.json();
+        const pipeline = await replaceStages(id, orgId ?? userId, body?.stages);
+        return NextResponse.json(pipeline);
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createPipeline, listPipelines } from "@/lib/services/crm-pipelines";
+import { pipelineErrorResponse } from "@/lib/utils/pipeline-error-response";
+
+export async function GET() {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    try {
+        const pipelines = await listPipelines(orgId ?? userId, userId);
+        return NextResponse.json({ pipelines });
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    try {
+        const body = await req.json();
+        const pipeline = await createPipeline(body, userId, orgId ?? userId);
+        return NextResponse.json(pipeline, { status: 201 });
+    } catch (error) {
+        return pipelineErrorResponse(error);
+    }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { currentUser } from "@clerk/nextjs/server";
 import { createClient } from "@/lib/supabase/server";
+import { SequenceExecutor } from "@/lib/services/sequence-executor";
 
 export async function PATCH(
     request: Request,
@@ -13,7 +14,8 @@ export async function PATCH(
         }
 
         const { id } = await params;
-        const json = await request.json();
+        // `outcome` is not a task column; it is passed on to the sequence step that created the task
+        const { outcome, ...json } = await request.json();
         const supabase = await createClient();
 
         const { error } = await supabase
@@ -26,6 +28,10 @@ export async function PATCH(
             return new NextResponse("Database Error", { status: 500 });
         }
 
+        if (json.status === "completed" || json.status === "cancelled") {
+            await SequenceExecutor.completeTaskStep({ crmTaskId: id }, json.status, outcome ?? null);
+        }
+
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error(error);
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { addSequenceJob } from '@/lib/queue/sequence-queue';
+
+export async function GET() {
+    // Each scheduled rule keeps its own interval; the job only evaluates the ones that are due
+    await addSequenceJob({ type: 'process_scheduled_enrollments' });
+
+    return NextResponse.json({ success: true, message: 'Scheduled enrollment job queued' });
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { addSequenceJob } from '@/lib/queue/sequence-queue';
+
+export async function GET() {
+    // Replies routed through SES arrive via the SNS webhook; this only drains the mailbox poller
+    await addSequenceJob({ type: 'poll_inbound_replies' });
+
+    return NextResponse.json({ success: true, message: 'Inbound reply poll job queued' });
+}
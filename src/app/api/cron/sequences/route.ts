@@ -2,8 +2,8 @@ import { NextResponse } from 'next/server';
 import { addSequenceJob } from '@/lib/queue/sequence-queue';
 
 export async function GET() {
-    // Instead of processing directly, we add a job to the queue
+    // Steps run from their own delayed jobs; this queues the sweep for any that were missed
     await addSequenceJob({ type: 'process_scheduled_steps' });
 
-    return NextResponse.json({ success: true, message: 'Sequence execution job queued' });
+    return NextResponse.json({ success: true, message: 'Sequence sweep job queued' });
 }
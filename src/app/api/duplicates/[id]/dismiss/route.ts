@@ -0,0 +1,34 @@
+/**
+ * Duplicate Dismiss API
+ * Marks a queued pair as distinct records so scans stop suggesting it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { DuplicateDetectionService, DuplicateError } from '@/lib/services/duplicate-detection';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const candidate = await DuplicateDetectionService.dismiss(id, orgId ?? userId, userId);
+
+    return NextResponse.json({ success: true, candidate });
+  } catch (error) {
+    if (error instanceof DuplicateError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Error dismissing duplicate:', error);
+    return NextResponse.json(
+      { error: 'Failed to dismiss duplicate' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Duplicate Merge API
+ * Merges one record of a queued pair into the other: { survivor_id, fields?: { [field]: 'merged' } }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { z } from 'zod';
+import { DuplicateError } from '@/lib/services/duplicate-detection';
+import { RecordMergeService } from '@/lib/services/record-merge';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const result = await RecordMergeService.mergeCandidate(
+      id,
+      orgId ?? userId,
+      userId,
+      await request.json().catch(() => ({}))
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof DuplicateError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid merge request', details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error merging duplicates:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge records' },
+      { status: 500 }
+    );
+  }
+}
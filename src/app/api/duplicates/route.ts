@@ -0,0 +1,47 @@
+/**
+ * Duplicate Review Queue API
+ * Lists likely duplicate leads, contacts and accounts with both records of each pair
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { z } from 'zod';
+import { DuplicateDetectionService } from '@/lib/services/duplicate-detection';
+
+const ListSchema = z.object({
+  entity_type: z.enum(['lead', 'contact', 'account']).optional(),
+  status: z.enum(['pending', 'merged', 'dismissed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const query = ListSchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+    const candidates = await DuplicateDetectionService.listCandidates(orgId ?? userId, {
+      entityType: query.entity_type,
+      status: query.status,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    return NextResponse.json({ candidates });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error listing duplicates:', error);
+    return NextResponse.json(
+      { error: 'Failed to list duplicates' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Duplicate Scan API
+ * Compares every record of one type in the organization and queues the likely duplicates
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { z } from 'zod';
+import { DuplicateDetectionService } from '@/lib/services/duplicate-detection';
+
+const ScanSchema = z.object({
+  entity_type: z.enum(['lead', 'contact', 'account']),
+});
+
+export async function POST(request: NextRequest) {
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const validated = ScanSchema.parse(await request.json().catch(() => ({})));
+    const result = await DuplicateDetectionService.scan(validated.entity_type, orgId ?? userId);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid scan request', details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error scanning for duplicates:', error);
+    return NextResponse.json(
+      { error: 'Failed to scan for duplicates' },
+      { status: 500 }
+    );
+  }
+}
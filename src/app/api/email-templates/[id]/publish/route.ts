@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { EmailTemplateService, EmailTemplateVersionError } from "@/lib/services/email-templates";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Publish the template's open draft
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  const payload = (await request.json().catch(() => ({}))) as { note?: string };
+
+  try {
+    const version = await EmailTemplateService.publish(id, {
+      publishedBy: userId,
+      note: payload.note?.trim() || null,
+    });
+    return NextResponse.json({ version });
+  } catch (error) {
+    if (error instanceof EmailTemplateVersionError) {
+      const status = error.code === "NOT_FOUND" ? 404 : error.code === "INVALID" ? 422 : 409;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+    console.error("Failed to publish email template", error);
+    return NextResponse.json(
+      { error: "Failed to publish template." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { EmailTemplateService, EmailTemplateVersionError } from "@/lib/services/email-templates";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Republish an earlier version as the newest version, discarding any open draft
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  const payload = (await request.json().catch(() => ({}))) as { version?: number };
+
+  if (!Number.isInteger(payload.version) || payload.version! < 1) {
+    return NextResponse.json({ error: "A version number is required." }, { status: 400 });
+  }
+
+  try {
+    const version = await EmailTemplateService.rollback(id, payload.version!, { publishedBy: userId });
+    return NextResponse.json({ version });
+  } catch (error) {
+    if (error instanceof EmailTemplateVersionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === "NOT_FOUND" ? 404 : 409 }
+      );
+    }
+    console.error("Failed to roll back email template", error);
+    return NextResponse.json(
+      { error: "Failed to roll back template." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { compileEmailTemplate } from "@/lib/email/compile-template";
+import {
+  compileEmailTemplate,
+  EmailCompileError,
+  validateAmpEmail,
+  type CompileIssue,
+} from "@/lib/email/compile-template";
+import { EmailTemplateService } from "@/lib/services/email-templates";
 
 type RouteContext = {
   params: Promise<{ id: string }>;
@@ -36,37 +42,51 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     mjml?: string;
     html?: string;
     design?: unknown;
+    amp?: string;
+    subjectLine?: string;
+    preheaderText?: string;
   };
 
   const updates: Record<string, unknown> = {};
   if (payload.name !== undefined) updates.name = payload.name;
   if (payload.description !== undefined) updates.description = payload.description;
   if (payload.design !== undefined) updates.design_json = payload.design;
-
-  if (payload.html !== undefined) {
-    updates.html = payload.html;
-    // If HTML is provided directly, we might want to clear AMP HTML or handle it if provided
-    // For now, assuming direct HTML update doesn't provide AMP unless we add that too.
-    // But if MJML is provided, it overwrites both.
-  }
-
-  if (payload.mjml !== undefined) {
-    try {
-      const compiled = compileEmailTemplate(payload.mjml);
+  if (payload.subjectLine !== undefined) updates.subject_line = payload.subjectLine;
+  if (payload.preheaderText !== undefined) updates.preheader_text = payload.preheaderText;
+
+  // Content is always stored compiled; MJML wins over a design, which wins over raw HTML
+  let warnings: CompileIssue[] = [];
+  try {
+    if (payload.mjml !== undefined || payload.design !== undefined || payload.html !== undefined) {
+      const compiled = await compileEmailTemplate({
+        mjml: payload.mjml,
+        design: payload.design,
+        html: payload.html,
+        amp: payload.amp,
+      });
       updates.html = compiled.html;
-      updates.amp_html = compiled.ampHtml;
-    } catch (error) {
-      console.error("MJML compile failure", error);
-      return NextResponse.json(
-        {
-          error:
-            error instanceof Error
-              ? error.message
-              : "Failed to compile MJML template.",
-        },
-        { status: 400 }
-      );
+      updates.mjml = payload.mjml ?? null;
+      if (payload.amp !== undefined) updates.amp_html = compiled.ampHtml;
+      warnings = compiled.warnings;
+    } else if (payload.amp !== undefined) {
+      const issues = payload.amp.trim() ? validateAmpEmail(payload.amp) : [];
+      if (issues.length > 0) {
+        throw new EmailCompileError("AMP email failed validation.", issues);
+      }
+      updates.amp_html = payload.amp.trim() ? payload.amp : null;
     }
+  } catch (error) {
+    console.error("Email template compile failure", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to compile email template.",
+        issues: error instanceof EmailCompileError ? error.issues : [],
+      },
+      { status: 400 }
+    );
   }
 
   if (Object.keys(updates).length === 0) {
@@ -91,12 +111,39 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     );
   }
 
-  return NextResponse.json({ template: data });
+  // Renaming does not change what is sent, so only content edits touch the draft
+  const contentKeys = ["html", "amp_html", "mjml", "design_json", "subject_line", "preheader_text"];
+  if (contentKeys.some((key) => key in updates)) {
+    try {
+      const version = await EmailTemplateService.saveDraft(id);
+      data.current_version = version.version_number;
+    } catch (versionError) {
+      console.error("Failed to save email template draft", versionError);
+      return NextResponse.json(
+        { error: "Template was updated but its draft could not be saved. Save again to retry." },
+        { status: 500 }
+      );
+    }
+  }
+
+  return NextResponse.json({ template: data, warnings });
 }
 
 export async function DELETE(_request: NextRequest, context: RouteContext) {
   const { id } = await context.params;
   const supabase = createAdminClient();
+
+  const usage = await EmailTemplateService.getUsage(id);
+  if (usage.length > 0) {
+    const names = [...new Set(usage.map((step) => step.sequence.name))];
+    return NextResponse.json(
+      {
+        error: `Template is used by ${names.length === 1 ? "sequence" : "sequences"} ${names.join(", ")}. Remove it from those steps first.`,
+        usage,
+      },
+      { status: 409 }
+    );
+  }
   const { error } = await supabase
     .from("email_templates")
     .delete()
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { EmailTemplateService } from "@/lib/services/email-templates";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Sequence steps that send this template, shown before it is edited or deleted
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+
+  try {
+    const usage = await EmailTemplateService.getUsage(id);
+    return NextResponse.json({ usage });
+  } catch (error) {
+    console.error("Failed to load email template usage", error);
+    return NextResponse.json(
+      { error: "Failed to load template usage." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { EmailTemplateService, EmailTemplateVersionError } from "@/lib/services/email-templates";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Line diff between two versions: ?from=<version>&to=<version>
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  const from = Number(request.nextUrl.searchParams.get("from"));
+  const to = Number(request.nextUrl.searchParams.get("to"));
+
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+    return NextResponse.json({ error: "from and to must be version numbers." }, { status: 400 });
+  }
+
+  try {
+    const diff = await EmailTemplateService.diff(id, from, to);
+    return NextResponse.json({ diff });
+  } catch (error) {
+    if (error instanceof EmailTemplateVersionError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Failed to diff email template versions", error);
+    return NextResponse.json(
+      { error: "Failed to compare versions." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { EmailTemplateService } from "@/lib/services/email-templates";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Versions of a template, newest first, with their draft or published status
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+
+  try {
+    const versions = await EmailTemplateService.listVersions(id);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error("Failed to load email template versions", error);
+    return NextResponse.json(
+      { error: "Failed to load template versions." },
+      { status: 500 }
+    );
+  }
+}
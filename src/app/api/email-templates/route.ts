@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { compileEmailTemplate } from "@/lib/email/compile-template";
+import {
+  compileEmailTemplate,
+  EmailCompileError,
+  type CompiledEmail,
+} from "@/lib/email/compile-template";
+import { EmailTemplateService } from "@/lib/services/email-templates";
 
 export const dynamic = "force-dynamic";
 
@@ -30,6 +35,9 @@ export async function POST(request: NextRequest) {
     mjml?: string;
     html?: string;
     design?: unknown;
+    amp?: string;
+    subjectLine?: string;
+    preheaderText?: string;
     createdBy?: string;
   };
 
@@ -37,33 +45,33 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Name is required." }, { status: 400 });
   }
 
-  if (!payload.mjml && !payload.html) {
+  if (!payload.mjml && !payload.html && !payload.design) {
     return NextResponse.json(
-      { error: "Either MJML or HTML payload is required." },
+      { error: "MJML, HTML or a builder design is required." },
       { status: 400 }
     );
   }
 
-  let htmlContent = payload.html;
-  let ampHtmlContent = null;
-
-  if (payload.mjml) {
-    try {
-      const compiled = compileEmailTemplate(payload.mjml);
-      htmlContent = compiled.html;
-      ampHtmlContent = compiled.ampHtml;
-    } catch (error) {
-      console.error("MJML compile failure", error);
-      return NextResponse.json(
-        {
-          error:
-            error instanceof Error
-              ? error.message
-              : "Failed to compile MJML template.",
-        },
-        { status: 400 }
-      );
-    }
+  let compiled: CompiledEmail;
+  try {
+    compiled = await compileEmailTemplate({
+      mjml: payload.mjml,
+      design: payload.design,
+      html: payload.html,
+      amp: payload.amp,
+    });
+  } catch (error) {
+    console.error("Email template compile failure", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to compile email template.",
+        issues: error instanceof EmailCompileError ? error.issues : [],
+      },
+      { status: 400 }
+    );
   }
 
   const { data, error } = await supabase
@@ -71,9 +79,12 @@ export async function POST(request: NextRequest) {
     .insert({
       name: payload.name,
       description: payload.description ?? null,
-      html: htmlContent,
-      amp_html: ampHtmlContent,
+      html: compiled.html,
+      amp_html: compiled.ampHtml,
+      mjml: payload.mjml ?? null,
       design_json: payload.design ?? null,
+      subject_line: payload.subjectLine ?? null,
+      preheader_text: payload.preheaderText ?? null,
       created_by: payload.createdBy ?? null,
     })
     .select("*")
@@ -87,5 +98,21 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  return NextResponse.json({ template: data }, { status: 201 });
+  try {
+    const version = await EmailTemplateService.saveDraft(data.id, payload.createdBy);
+    data.current_version = version.version_number;
+  } catch (versionError) {
+    console.error("Failed to save email template draft", versionError);
+    // A template without a draft cannot be published, so do not keep it
+    await supabase.from("email_templates").delete().eq("id", data.id);
+    return NextResponse.json(
+      { error: "Failed to save email template draft." },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(
+    { template: data, warnings: compiled.warnings },
+    { status: 201 }
+  );
 }
@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { PipelineError } from "@/lib/services/crm-pipelines";
+import {
+  LeadConversionError,
+  LeadConversionService,
+} from "@/lib/services/lead-conversion";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    const result = await LeadConversionService.convert(
+      id,
+      orgId ?? userId,
+      userId,
+      body
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof LeadConversionError || error instanceof PipelineError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid conversion options", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Lead conversion failed", error);
+    return NextResponse.json(
+      { error: "Failed to convert lead" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse, type NextRequest } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { AutoEnrollmentEngine } from "@/lib/services/auto-enrollment";
 import { LEAD_STATUSES } from "@/lib/constants/leads";
 
 export const dynamic = "force-dynamic";
@@ -22,7 +23,7 @@ export async function GET(_request: NextRequest, context: RouteContext) {
     supabase
       .from("sales_leads")
       .select(
-        "id, name, email, phone, company, status, message, current_solution, timeline, created_at, updated_at, assigned_to, admin_notes, raw_payload"
+        "id, name, email, phone, company, status, message, current_solution, timeline, created_at, updated_at, assigned_to, admin_notes, raw_payload, converted_at, converted_contact_id, converted_account_id, converted_opportunity_id"
       )
       .eq("id", id)
       .single(),
@@ -108,6 +109,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     "current_solution",
     "timeline",
     "admin_notes",
+    "tags",
   ];
 
   editableFields.forEach((field) => {
@@ -123,6 +125,19 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     );
   }
 
+  if (updates.status === "converted") {
+    return NextResponse.json(
+      { error: "Convert the lead to set this status." },
+      { status: 400 }
+    );
+  }
+
+  const { data: previous } = await supabase
+    .from("sales_leads")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
   const { data, error } = await supabase
     .from("sales_leads")
     .update(updates)
@@ -138,5 +153,9 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     );
   }
 
+  if (previous) {
+    await AutoEnrollmentEngine.emitLeadChanges(data.organization_id, data.id, previous, data);
+  }
+
   return NextResponse.json({ lead: data });
 }
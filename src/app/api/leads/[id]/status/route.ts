@@ -1,6 +1,7 @@
 import { NextResponse, type NextRequest } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { AutoEnrollmentEngine } from "@/lib/services/auto-enrollment";
 import { LEAD_STATUSES, type LeadStatus } from "@/lib/constants/leads";
 
 const ALLOWED_STATUSES = new Set(
@@ -33,13 +34,28 @@ export async function PATCH(
     );
   }
 
+  if (status === "converted") {
+    return NextResponse.json(
+      { error: "Convert the lead to set this status." },
+      { status: 400 }
+    );
+  }
+
   const supabase = createAdminClient();
-  const { error } = await supabase
+  const { data: previous } = await supabase
+    .from("sales_leads")
+    .select("status")
+    .eq("id", id)
+    .maybeSingle();
+
+  const { data: lead, error } = await supabase
     .from("sales_leads")
     .update({ status })
-    .eq("id", id);
+    .eq("id", id)
+    .select("id, status, organization_id")
+    .single();
 
-  if (error) {
+  if (error || !lead) {
     console.error(error);
     return NextResponse.json(
       { error: "Failed to update lead" },
@@ -47,5 +63,11 @@ export async function PATCH(
     );
   }
 
+  if (previous) {
+    await AutoEnrollmentEngine.emitLeadChanges(lead.organization_id, lead.id, previous, {
+      status: lead.status,
+    });
+  }
+
   return NextResponse.json({ success: true });
 }
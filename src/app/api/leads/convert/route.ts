@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  BulkConvertLeadsSchema,
+  LeadConversionService,
+} from "@/lib/services/lead-conversion";
+
+export const dynamic = "force-dynamic";
+
+// Bulk conversion: { lead_ids: [...], opportunity?: {...} }. Leads that fail are reported, not fatal.
+export async function POST(request: NextRequest) {
+  const { userId, orgId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = BulkConvertLeadsSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const { lead_ids, ...options } = parsed.data;
+  const result = await LeadConversionService.convertMany(
+    lead_ids,
+    orgId ?? userId,
+    userId,
+    options
+  );
+
+  return NextResponse.json({
+    ...result,
+    summary: {
+      requested: new Set(lead_ids).size,
+      converted: result.converted.length,
+      failed: result.failed.length,
+    },
+  });
+}
@@ -0,0 +1,52 @@
+/**
+ * LinkedIn Task Completion API
+ * Records a claimed task as done and advances the sequence waiting on it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ExtensionApiKeyService, ExtensionAuthError } from '@/lib/services/extension-api-keys';
+import { LinkedInTaskError, LinkedInTaskService } from '@/lib/services/linkedin-tasks';
+import { z } from 'zod';
+
+const CompleteSchema = z.object({
+  result: z.record(z.any()).nullable().optional(),
+  outcome: z.string().max(100).nullable().optional(),
+  executed_at: z.string().datetime().optional(),
+  execution_time_ms: z.number().int().min(0).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const principal = await ExtensionApiKeyService.authenticate(request, 'linkedin:tasks:write');
+    const { id } = await params;
+    const validated = CompleteSchema.parse(await request.json().catch(() => ({})));
+
+    const task = await LinkedInTaskService.complete(principal, id, {
+      result: validated.result,
+      outcome: validated.outcome,
+      executedAt: validated.executed_at,
+      executionTimeMs: validated.execution_time_ms,
+    });
+
+    return NextResponse.json({ success: true, task });
+
+  } catch (error) {
+    if (error instanceof ExtensionAuthError || error instanceof LinkedInTaskError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid completion data', details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error completing LinkedIn task:', error);
+    return NextResponse.json(
+      { error: 'Failed to complete task' },
+      { status: 500 }
+    );
+  }
+}
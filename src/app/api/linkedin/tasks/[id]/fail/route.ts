@@ -0,0 +1,52 @@
+/**
+ * LinkedIn Task Failure API
+ * Records a failed attempt; retryable failures are requeued with a backoff
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ExtensionApiKeyService, ExtensionAuthError } from '@/lib/services/extension-api-keys';
+import { LinkedInTaskError, LinkedInTaskService } from '@/lib/services/linkedin-tasks';
+import { z } from 'zod';
+
+const FailSchema = z.object({
+  reason: z.string().min(1).max(100),
+  message: z.string().max(2000).optional(),
+  retryable: z.boolean().optional(),
+  execution_time_ms: z.number().int().min(0).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const principal = await ExtensionApiKeyService.authenticate(request, 'linkedin:tasks:write');
+    const { id } = await params;
+    const validated = FailSchema.parse(await request.json());
+
+    const task = await LinkedInTaskService.fail(principal, id, {
+      reason: validated.reason,
+      message: validated.message,
+      retryable: validated.retryable,
+      executionTimeMs: validated.execution_time_ms,
+    });
+
+    return NextResponse.json({ success: true, task, will_retry: task.status === 'pending' });
+
+  } catch (error) {
+    if (error instanceof ExtensionAuthError || error instanceof LinkedInTaskError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid failure data', details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error failing LinkedIn task:', error);
+    return NextResponse.json(
+      { error: 'Failed to record task failure' },
+      { status: 500 }
+    );
+  }
+}
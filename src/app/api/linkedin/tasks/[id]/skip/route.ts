@@ -0,0 +1,44 @@
+/**
+ * LinkedIn Task Skip API
+ * Drops a task without doing it; the sequence still moves on
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ExtensionApiKeyService, ExtensionAuthError } from '@/lib/services/extension-api-keys';
+import { LinkedInTaskError, LinkedInTaskService } from '@/lib/services/linkedin-tasks';
+import { z } from 'zod';
+
+const SkipSchema = z.object({
+  reason: z.string().max(100).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const principal = await ExtensionApiKeyService.authenticate(request, 'linkedin:tasks:write');
+    const { id } = await params;
+    const validated = SkipSchema.parse(await request.json().catch(() => ({})));
+
+    const task = await LinkedInTaskService.skip(principal, id, validated.reason);
+
+    return NextResponse.json({ success: true, task });
+
+  } catch (error) {
+    if (error instanceof ExtensionAuthError || error instanceof LinkedInTaskError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid skip request', details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error skipping LinkedIn task:', error);
+    return NextResponse.json(
+      { error: 'Failed to skip task' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * LinkedIn Task Snooze API
+ * Puts a task back until a later time without using up an attempt
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ExtensionApiKeyService, ExtensionAuthError } from '@/lib/services/extension-api-keys';
+import { LinkedInTaskError, LinkedInTaskService } from '@/lib/services/linkedin-tasks';
+import { z } from 'zod';
+
+const SnoozeSchema = z.object({
+  until: z.string().datetime().optional(),
+  minutes: z.number().int().min(1).optional(),
+}).refine(data => data.until || data.minutes, {
+  message: 'Provide until or minutes',
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const principal = await ExtensionApiKeyService.authenticate(request, 'linkedin:tasks:write');
+    const { id } = await params;
+    const validated = SnoozeSchema.parse(await request.json());
+
+    const until = validated.until
+      ? new Date(validated.until)
+      : new Date(Date.now() + validated.minutes! * 60 * 1000);
+
+    const task = await LinkedInTaskService.snooze(principal, id, until);
+
+    return NextResponse.json({ success: true, task });
+
+  } catch (error) {
+    if (error instanceof ExtensionAuthError || error instanceof LinkedInTaskError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid snooze request', details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error snoozing LinkedIn task:', error);
+    return NextResponse.json(
+      { error: 'Failed to snooze task' },
+      { status: 500 }
+    );
+  }
+}
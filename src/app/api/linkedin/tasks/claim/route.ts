@@ -0,0 +1,47 @@
+/**
+ * LinkedIn Task Claim API
+ * Leases due tasks to the calling extension's LinkedIn account
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ExtensionApiKeyService, ExtensionAuthError } from '@/lib/services/extension-api-keys';
+import { LinkedInTaskService } from '@/lib/services/linkedin-tasks';
+import { z } from 'zod';
+
+const ClaimSchema = z.object({
+  limit: z.number().int().min(1).max(50).optional(),
+  lease_seconds: z.number().int().min(60).max(3600).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await ExtensionApiKeyService.authenticate(request, 'linkedin:tasks:write');
+    const body = await request.json().catch(() => ({}));
+    const validated = ClaimSchema.parse(body);
+
+    const tasks = await LinkedInTaskService.claim(principal, {
+      limit: validated.limit,
+      leaseSeconds: validated.lease_seconds,
+    });
+
+    return NextResponse.json({
+      tasks: tasks.map(task => LinkedInTaskService.toExtensionTask(task)),
+    });
+
+  } catch (error) {
+    if (error instanceof ExtensionAuthError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid claim request', details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Error claiming LinkedIn tasks:', error);
+    return NextResponse.json(
+      { error: 'Failed to claim tasks' },
+      { status: 500 }
+    );
+  }
+}
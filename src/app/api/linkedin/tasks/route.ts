@@ -0,0 +1,126 @@
+/**
+ * LinkedIn Tasks API
+ * Lists and creates LinkedIn tasks for the Chrome extension. Requests authenticate with an
+ * extension API key issued from the settings page; the key decides tenant and LinkedIn account.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { ExtensionApiKeyService, ExtensionAuthError } from '@/lib/services/extension-api-keys';
+import { LinkedInTaskService } from '@/lib/services/linkedin-tasks';
+import { z } from 'zod';
+
+// ============================================
+// SCHEMAS
+// ============================================
+
+const LinkedInTaskSchema = z.object({
+  action: z.enum(['connect', 'message', 'view_profile', 'like_post', 'extract_profile']),
+  profile_url: z.string().url().optional(),
+  post_url: z.string().url().optional(),
+  message: z.string().optional(),
+  lead_id: z.string().uuid(),
+  enrollment_id: z.string().uuid().optional(),
+  sequence_step_id: z.string().uuid().optional(),
+  mode: z.enum(['full_auto', 'semi_auto', 'assisted', 'manual']).default('semi_auto'),
+});
+
+// ============================================
+// GET - List pending LinkedIn tasks without claiming them
+// ============================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const principal = await ExtensionApiKeyService.authenticate(request, 'linkedin:tasks:read');
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit')) || undefined;
+
+    const tasks = await LinkedInTaskService.listPending(principal, limit);
+
+    return NextResponse.json(tasks.map(task => LinkedInTaskService.toExtensionTask(task)));
+
+  } catch (error) {
+    if (error instanceof ExtensionAuthError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Error fetching LinkedIn tasks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tasks' },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================
+// POST - Create new LinkedIn task
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const principal = await ExtensionApiKeyService.authenticate(request, 'linkedin:tasks:write');
+    const supabase = createAdminClient();
+    const body = await request.json();
+
+    // Validate input
+    const validated = LinkedInTaskSchema.parse(body);
+
+    const { data: lead } = await supabase
+      .from('sales_leads')
+      .select('id')
+      .eq('id', validated.lead_id)
+      .eq('organization_id', principal.organizationId)
+      .maybeSingle();
+
+    if (!lead) {
+      return NextResponse.json(
+        { error: 'Lead not found' },
+        { status: 404 }
+      );
+    }
+
+    // Create task
+    const { data: task, error } = await supabase
+      .from('linkedin_tasks')
+      .insert({
+        organization_id: principal.organizationId,
+        linkedin_account_id: principal.linkedinAccountId,
+        lead_id: validated.lead_id,
+        enrollment_id: validated.enrollment_id,
+        sequence_step_id: validated.sequence_step_id,
+        action_type: validated.action,
+        profile_url: validated.profile_url,
+        post_url: validated.post_url,
+        message_content: validated.message,
+        automation_mode: validated.mode,
+        status: 'pending',
+        priority: 100,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      success: true,
+      task_id: task.id,
+    });
+
+  } catch (error) {
+    if (error instanceof ExtensionAuthError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('Error creating LinkedIn task:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid task data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create task' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PlaybookTriggerService } from '@/lib/services/playbook-triggers';
+
+export const dynamic = 'force-dynamic';
+
+const SIGNATURE_HEADER = 'x-playbook-signature';
+const TIMESTAMP_HEADER = 'x-playbook-timestamp';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * Inbound webhook for webhook-triggered playbooks.
+ * Callers sign `${timestamp}.${body}` with the playbook's webhook secret.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const rawBody = await request.text();
+
+  let playbook;
+  try {
+    playbook = await PlaybookTriggerService.loadPlaybook(id);
+  } catch (error) {
+    console.error('Error loading playbook for trigger:', error);
+    return NextResponse.json({ error: 'Failed to load playbook' }, { status: 500 });
+  }
+
+  // Same response for unknown playbooks and bad signatures so ids can't be probed
+  const verification = playbook
+    ? PlaybookTriggerService.verifyWebhookSignature(
+        playbook,
+        rawBody,
+        request.headers.get(SIGNATURE_HEADER),
+        request.headers.get(TIMESTAMP_HEADER)
+      )
+    : { valid: false as const, reason: 'Invalid signature' };
+
+  if (!playbook || !verification.valid) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  if (playbook.status !== 'active') {
+    return NextResponse.json({ error: 'Playbook is not active' }, { status: 409 });
+  }
+
+  let payload: Record<string, unknown> = {};
+  if (rawBody) {
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+    }
+  }
+
+  const eventName = typeof payload.event === 'string' ? payload.event : undefined;
+  if (!PlaybookTriggerService.acceptsWebhookEvent(playbook, eventName)) {
+    return NextResponse.json({ status: 'ignored', event: eventName ?? null });
+  }
+
+  try {
+    const jobId = await PlaybookTriggerService.enqueueRun(playbook.id, {
+      type: 'webhook',
+      data: payload,
+    });
+
+    return NextResponse.json({ status: 'queued', jobId }, { status: 202 });
+  } catch (error) {
+    console.error('Error queueing playbook run:', error);
+    return NextResponse.json({ error: 'Failed to queue playbook run' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { PlaybookExecutor } from '@/lib/services/playbook-executor';
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId, orgId } = await auth();
+  if (!userId || !orgId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const execution = await PlaybookExecutor.getExecution(id, orgId);
+
+    if (!execution) {
+      return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+    }
+
+    const cancelled = await PlaybookExecutor.cancelExecution(id, orgId, userId);
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: `Execution is already ${execution.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ id, status: 'cancelled' });
+  } catch (error) {
+    console.error('Playbook cancel error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel playbook execution' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { PlaybookExecutor } from '@/lib/services/playbook-executor';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId, orgId } = await auth();
+  if (!userId || !orgId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const execution = await PlaybookExecutor.getExecution(id, orgId);
+
+    if (!execution) {
+      return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      id: execution.id,
+      playbookId: execution.playbook_id,
+      status: execution.status,
+      startedAt: execution.started_at,
+      completedAt: execution.completed_at,
+      resumeAt: execution.resume_at,
+      currentStepIndex: execution.current_step_index,
+      steps: execution.execution_log || [],
+      metrics: execution.metrics || {},
+      error: execution.error_message || null,
+    });
+  } catch (error) {
+    console.error('Playbook execution error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load playbook execution' },
+      { status: 500 }
+    );
+  }
+}
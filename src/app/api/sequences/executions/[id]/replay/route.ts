@@ -0,0 +1,44 @@
+/**
+ * API endpoint to replay a dead-lettered sequence execution
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { SequenceRetryService } from '@/lib/services/sequence-retry';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * POST /api/sequences/executions/[id]/replay
+ * Re-activate the failed enrollment and run the step again
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId, orgId } = await auth();
+    if (!userId || !orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const replayed = await SequenceRetryService.replay(id, orgId);
+
+    if (!replayed) {
+      return NextResponse.json(
+        { error: 'Execution not found or not in a replayable state' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error replaying execution:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to replay execution' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * API endpoint for dead-lettered sequence executions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { SequenceRetryService } from '@/lib/services/sequence-retry';
+
+/**
+ * GET /api/sequences/executions/failed
+ * List enrollments that failed after exhausting their retries
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+    if (!userId || !orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 100, 500);
+    const executions = await SequenceRetryService.listFailed(orgId, limit);
+
+    return NextResponse.json({ executions });
+  } catch (error) {
+    console.error('Error fetching failed executions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch failed executions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * API endpoints for sequence holiday calendars
+ * Steps are not scheduled on these dates in the recipient's local calendar
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { createClient } from '@/lib/supabase/server';
+import { z } from 'zod';
+
+const CreateHolidaySchema = z.object({
+  holiday_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  name: z.string().min(1).max(100),
+  country_code: z.string().length(2).transform((code) => code.toUpperCase()).nullable().optional(),
+});
+
+/**
+ * GET /api/sequences/holidays
+ * List the organization's holidays and the shared calendars
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+    if (!userId || !orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const country = searchParams.get('country');
+    const from = searchParams.get('from') || new Date().toISOString().slice(0, 10);
+
+    const supabase = await createClient();
+
+    let query = supabase
+      .from('sequence_holidays')
+      .select('*')
+      .or(`organization_id.is.null,organization_id.eq.${orgId}`)
+      .gte('holiday_date', from)
+      .order('holiday_date');
+
+    if (country) {
+      query = query.eq('country_code', country.toUpperCase());
+    }
+
+    const { data: holidays, error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({ holidays });
+  } catch (error) {
+    console.error('Error fetching holidays:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch holidays' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sequences/holidays
+ * Add a holiday to the organization's calendar; without a country it applies to every lead
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+    if (!userId || !orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validated = CreateHolidaySchema.parse(await request.json());
+
+    const supabase = await createClient();
+
+    const { data: holiday, error } = await supabase
+      .from('sequence_holidays')
+      .insert({
+        ...validated,
+        country_code: validated.country_code ?? null,
+        organization_id: orgId,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'Holiday already exists' }, { status: 409 });
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ holiday }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating holiday:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create holiday' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/sequences/holidays?id=
+ * Remove one of the organization's holidays; shared calendars cannot be edited here
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+    if (!userId || !orgId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+
+    const { data: deleted, error } = await supabase
+      .from('sequence_holidays')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', orgId)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!deleted?.length) {
+      return NextResponse.json({ error: 'Holiday not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting holiday:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete holiday' },
+      { status: 500 }
+    );
+  }
+}
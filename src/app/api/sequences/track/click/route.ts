@@ -1,89 +1,41 @@
 /**
  * Email click tracking endpoint
- * Logs the click event and redirects to the actual URL
+ * Resolves a signed short link id, logs the click and redirects to the stored URL.
+ * Destinations never come from the query string, so this cannot be used as an open redirect.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
+import { verifyTrackingToken } from '@/lib/email/tracking-links';
+import { describeRequest } from '@/lib/email/machine-events';
+import { EmailTrackingService } from '@/lib/services/email-tracking';
 
 export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const executionId = searchParams.get('eid');
-    const targetUrl = searchParams.get('url');
-
-    if (!targetUrl) {
-      return NextResponse.json({ error: 'Missing URL' }, { status: 400 });
-    }
+  const linkId = verifyTrackingToken('click', request.nextUrl.searchParams.get('l'));
 
-    // Decode the URL
-    const decodedUrl = decodeURIComponent(targetUrl);
+  if (!linkId) {
+    return NextResponse.json({ error: 'Invalid tracking link' }, { status: 400 });
+  }
 
-    if (executionId) {
-      // Log the click event (don't wait for it)
-      logClickEvent(executionId, decodedUrl, request);
-    }
+  const link = await EmailTrackingService.getLink(linkId);
 
-    // Redirect to the actual URL
-    return NextResponse.redirect(decodedUrl, {
-      status: 302,
-      headers: {
-        'Cache-Control': 'no-store, no-cache, must-revalidate',
-      },
-    });
-  } catch (error) {
-    console.error('Error tracking email click:', error);
-    // Redirect to home page as fallback
-    return NextResponse.redirect(process.env.NEXT_PUBLIC_APP_URL || '/', {
-      status: 302,
-    });
+  if (!link) {
+    return NextResponse.json({ error: 'Link not found' }, { status: 404 });
   }
-}
-
-async function logClickEvent(
-  executionId: string,
-  url: string,
-  request: NextRequest
-) {
-  const supabase = await createClient();
 
   try {
-    // Get execution details
-    const { data: execution } = await supabase
-      .from('sequence_step_executions')
-      .select('enrollment_id, clicked_at')
-      .eq('id', executionId)
-      .single();
-
-    if (!execution) return;
-
-    // Update execution with click timestamp (first click only)
-    if (!execution.clicked_at) {
-      await supabase
-        .from('sequence_step_executions')
-        .update({
-          clicked_at: new Date().toISOString(),
-        })
-        .eq('id', executionId);
-
-      // Update enrollment metrics
-      await supabase.rpc('increment_enrollment_metric', {
-        p_enrollment_id: execution.enrollment_id,
-        p_metric: 'emails_clicked',
-      });
-    }
-
-    // Log the event
-    const headers = request.headers;
-    await supabase.from('sequence_email_events').insert({
-      execution_id: executionId,
-      enrollment_id: execution.enrollment_id,
-      event_type: 'click',
-      link_url: url,
-      ip_address: headers.get('x-forwarded-for') || headers.get('x-real-ip'),
-      user_agent: headers.get('user-agent'),
-    });
+    await EmailTrackingService.recordClick(link, describeRequest(request));
   } catch (error) {
+    // The recipient still gets where they were going
     console.error('Error logging click event:', error);
   }
-}
\ No newline at end of file
+
+  return NextResponse.redirect(link.url, {
+    status: 302,
+    headers: {
+      'Cache-Control': 'no-store, no-cache, must-revalidate',
+    },
+  });
+}
+
+// Scanners often probe links with HEAD; it is recorded as a machine click
+export const HEAD = GET;
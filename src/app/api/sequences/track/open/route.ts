@@ -4,7 +4,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
+import { verifyTrackingToken } from '@/lib/email/tracking-links';
+import { describeRequest } from '@/lib/email/machine-events';
+import { EmailTrackingService } from '@/lib/services/email-tracking';
 
 // 1x1 transparent GIF
 const TRACKING_PIXEL = Buffer.from(
@@ -14,12 +16,12 @@ const TRACKING_PIXEL = Buffer.from(
 
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const executionId = searchParams.get('eid');
+    // Unsigned or forged pixels still get an image but are not counted
+    const executionId = verifyTrackingToken('open', request.nextUrl.searchParams.get('t'));
 
     if (executionId) {
-      // Log the open event
-      await logOpenEvent(executionId, request);
+      // Log the open event; machine fetches are flagged and not counted as opens
+      await EmailTrackingService.recordOpen(executionId, describeRequest(request));
     }
 
     // Return the tracking pixel
@@ -45,46 +47,4 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function logOpenEvent(executionId: string, request: NextRequest) {
-  const supabase = await createClient();
-
-  try {
-    // Get execution details
-    const { data: execution } = await supabase
-      .from('sequence_step_executions')
-      .select('enrollment_id, opened_at')
-      .eq('id', executionId)
-      .single();
-
-    if (!execution) return;
-
-    // Only log first open
-    if (!execution.opened_at) {
-      // Update execution with open timestamp
-      await supabase
-        .from('sequence_step_executions')
-        .update({
-          opened_at: new Date().toISOString(),
-        })
-        .eq('id', executionId);
-
-      // Update enrollment metrics
-      await supabase.rpc('increment_enrollment_metric', {
-        p_enrollment_id: execution.enrollment_id,
-        p_metric: 'emails_opened',
-      });
-    }
-
-    // Log the event
-    const headers = request.headers;
-    await supabase.from('sequence_email_events').insert({
-      execution_id: executionId,
-      enrollment_id: execution.enrollment_id,
-      event_type: 'open',
-      ip_address: headers.get('x-forwarded-for') || headers.get('x-real-ip'),
-      user_agent: headers.get('user-agent'),
-    });
-  } catch (error) {
-    console.error('Error logging open event:', error);
-  }
-}
\ No newline at end of file
+export const HEAD = GET;
@@ -1,10 +1,11 @@
 /**
  * Unsubscribe Handler API
- * Handles unsubscribe requests from email links and preference updates
+ * Handles unsubscribe requests from email links, RFC 8058 one-click POSTs and preference updates
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { SuppressionService } from '@/lib/services/suppression';
+import { isOneClickRequest } from '@/lib/email/list-unsubscribe';
 import { z } from 'zod';
 
 // ============================================
@@ -70,16 +71,7 @@ export async function GET(request: NextRequest) {
 
     // If action is 'all', immediately unsubscribe from everything
     if (action === 'all') {
-      await SuppressionService.updatePreferences(
-        preferences.lead_id!,
-        preferences.organization_id,
-        {
-          all_sequences: true,
-          marketing_emails: true,
-          email_enabled: false,
-          unsubscribe_reason: 'one_click_unsubscribe',
-        }
-      );
+      await SuppressionService.unsubscribeByToken(token);
 
       return new NextResponse(generateSuccessPage(preferences.email), {
         status: 200,
@@ -103,10 +95,17 @@ export async function GET(request: NextRequest) {
 }
 
 // ============================================
-// POST HANDLER - Update preferences
+// POST HANDLER - One-click unsubscribe or update preferences
 // ============================================
 
 export async function POST(request: NextRequest) {
+  const contentType = request.headers.get('content-type') || '';
+
+  // Mailbox providers POST a form body to the List-Unsubscribe URL; the preference page posts JSON
+  if (!contentType.includes('application/json')) {
+    return handleOneClick(request);
+  }
+
   try {
     const body = await request.json();
 
@@ -170,6 +169,31 @@ export async function POST(request: NextRequest) {
   }
 }
 
+async function handleOneClick(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+
+  if (!token || !z.string().uuid().safeParse(token).success) {
+    return NextResponse.json({ error: 'Invalid unsubscribe token' }, { status: 400 });
+  }
+
+  try {
+    if (!(await isOneClickRequest(request))) {
+      return NextResponse.json({ error: 'Expected List-Unsubscribe=One-Click' }, { status: 400 });
+    }
+
+    const unsubscribed = await SuppressionService.unsubscribeByToken(token);
+
+    if (!unsubscribed) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error handling one-click unsubscribe:', error);
+    return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 });
+  }
+}
+
 // ============================================
 // HTML GENERATORS
 // ============================================
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { currentUser } from "@clerk/nextjs/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
 import { CreateEmailIdentityCommand, GetEmailIdentityCommand } from "@aws-sdk/client-sesv2";
 import { createClient } from "@/lib/supabase/server";
 import { getSesClient } from "@/lib/email/ses-client";
@@ -35,6 +35,7 @@ export async function POST(request: Request) {
             return new NextResponse("Unauthorized", { status: 401 });
         }
 
+        const { orgId } = await auth();
         const { domain } = await request.json();
 
         if (!domain) {
@@ -68,8 +69,9 @@ export async function POST(request: Request) {
 
         // 2. Save to DB
         const supabase = await createClient();
+        // Same organization as the senders on this domain, which sequences look up by org
         const { error } = await supabase.from("email_domains").insert({
-            organization_id: user.id,
+            organization_id: orgId ?? user.id,
             domain,
             dkim_tokens: dkimTokens,
             status: "pending",
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { ExtensionApiKeyService } from "@/lib/services/extension-api-keys";
+
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await currentUser();
+        if (!user) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        const { id } = await params;
+        const { orgId } = await auth();
+
+        // Revoked keys stay listed so the settings page shows when they stopped working
+        const revoked = await ExtensionApiKeyService.revoke(id, orgId ?? user.id, user.id);
+        if (!revoked) {
+            return new NextResponse("Key not found", { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to revoke extension key", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
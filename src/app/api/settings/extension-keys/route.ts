@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+    EXTENSION_SCOPES,
+    ExtensionApiKeyService,
+    type ExtensionScope,
+} from "@/lib/services/extension-api-keys";
+
+export async function GET() {
+    try {
+        const user = await currentUser();
+        if (!user) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        const { orgId } = await auth();
+        const organizationId = orgId ?? user.id;
+
+        const supabase = createAdminClient();
+        const [keys, { data: accounts, error }] = await Promise.all([
+            ExtensionApiKeyService.list(organizationId, user.id),
+            supabase
+                .from("linkedin_accounts")
+                .select("id, account_name, linkedin_email, is_connected, last_connected_at, status")
+                .eq("organization_id", organizationId)
+                .eq("user_id", user.id)
+                .order("created_at"),
+        ]);
+
+        if (error) {
+            return new NextResponse("Database Error", { status: 500 });
+        }
+
+        return NextResponse.json({ keys, accounts: accounts || [] });
+    } catch (error) {
+        console.error("Failed to list extension keys", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const user = await currentUser();
+        if (!user) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        const { orgId } = await auth();
+        const organizationId = orgId ?? user.id;
+        const { name, linkedinAccountId, accountName, linkedinEmail, scopes } = await request.json();
+
+        if (!name || (!linkedinAccountId && !accountName)) {
+            return new NextResponse("Missing required fields", { status: 400 });
+        }
+
+        if (
+            scopes !== undefined &&
+            (!Array.isArray(scopes) || scopes.some((scope) => !EXTENSION_SCOPES.includes(scope)))
+        ) {
+            return new NextResponse(`scopes must be a subset of ${EXTENSION_SCOPES.join(", ")}`, { status: 400 });
+        }
+
+        // A key always acts through one LinkedIn account, so register the account on first use
+        let accountId = linkedinAccountId as string | undefined;
+        if (!accountId) {
+            const supabase = createAdminClient();
+            const { data: account, error } = await supabase
+                .from("linkedin_accounts")
+                .insert({
+                    organization_id: organizationId,
+                    user_id: user.id,
+                    account_name: accountName,
+                    linkedin_email: linkedinEmail || null,
+                })
+                .select("id")
+                .single();
+
+            if (error) {
+                console.error("DB Error", error);
+                return new NextResponse(
+                    error.code === "23505" ? "That LinkedIn account is already registered" : "Database Error",
+                    { status: error.code === "23505" ? 409 : 500 }
+                );
+            }
+            accountId = account.id;
+        }
+
+        const issued = await ExtensionApiKeyService.issue({
+            organizationId,
+            userId: user.id,
+            linkedinAccountId: accountId!,
+            name,
+            scopes: scopes as ExtensionScope[] | undefined,
+        });
+
+        if (!issued) {
+            return new NextResponse("LinkedIn account not found", { status: 404 });
+        }
+
+        // The token is shown once; only its hash is stored
+        return NextResponse.json(issued);
+    } catch (error) {
+        console.error("Failed to issue extension key", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
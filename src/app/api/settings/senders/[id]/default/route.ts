@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { currentUser } from "@clerk/nextjs/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
 import { createClient } from "@/lib/supabase/server";
 
 export async function PATCH(
@@ -13,6 +13,7 @@ export async function PATCH(
         }
 
         const { id } = await params;
+        const { orgId } = await auth();
 
         const supabase = await createClient();
 
@@ -24,10 +25,7 @@ export async function PATCH(
         await supabase
             .from("email_senders")
             .update({ is_default: false })
-            .eq("organization_id", user.id); // Assuming user.id is org_id for now based on previous code, or we need to fetch org_id
-
-        // Wait, in previous code `organization_id` was `user.id` (which is wrong if using Clerk Orgs, but consistent with my previous code).
-        // Let's stick to `user.id` as `organization_id` for consistency with `0015` migration usage in `POST` routes.
+            .eq("organization_id", orgId ?? user.id); // Same scoping as the POST route
 
         // 2. Set new default
         const { error } = await supabase
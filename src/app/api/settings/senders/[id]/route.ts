@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { currentUser } from "@clerk/nextjs/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
 import { createClient } from "@/lib/supabase/server";
 
 export async function DELETE(
@@ -31,3 +31,49 @@ export async function DELETE(
         return new NextResponse("Internal Error", { status: 500 });
     }
 }
+
+export async function PATCH(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await currentUser();
+        if (!user) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        const { id } = await params;
+        const { orgId } = await auth();
+        const { fromName, dailyLimit, isActive } = await request.json();
+
+        if (dailyLimit !== undefined && (!Number.isInteger(dailyLimit) || dailyLimit < 1)) {
+            return new NextResponse("dailyLimit must be a positive integer", { status: 400 });
+        }
+
+        const updates: Record<string, unknown> = {};
+        if (fromName !== undefined) updates.from_name = fromName;
+        if (dailyLimit !== undefined) updates.daily_limit = dailyLimit;
+        if (isActive !== undefined) updates.is_active = Boolean(isActive);
+
+        if (Object.keys(updates).length === 0) {
+            return new NextResponse("Nothing to update", { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        const { error } = await supabase
+            .from("email_senders")
+            .update(updates)
+            .eq("id", id)
+            .eq("organization_id", orgId ?? user.id);
+
+        if (error) {
+            return new NextResponse("Database Error", { status: 500 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to update sender", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
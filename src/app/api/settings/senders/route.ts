@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { currentUser } from "@clerk/nextjs/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
 import { createClient } from "@/lib/supabase/server";
 
 export async function GET(request: Request) {
@@ -33,7 +33,8 @@ export async function POST(request: Request) {
             return new NextResponse("Unauthorized", { status: 401 });
         }
 
-        const { domainId, localPart, fromName } = await request.json();
+        const { orgId } = await auth();
+        const { domainId, localPart, fromName, dailyLimit } = await request.json();
 
         if (!domainId || !localPart || !fromName) {
             return new NextResponse("Missing required fields", { status: 400 });
@@ -54,11 +55,13 @@ export async function POST(request: Request) {
 
         const email = `${localPart}@${domainRecord.domain}`;
 
+        // Sequences look senders up by organization, so store the Clerk org when there is one
         const { error } = await supabase.from("email_senders").insert({
-            organization_id: user.id,
+            organization_id: orgId ?? user.id,
             domain_id: domainId,
             email,
             from_name: fromName,
+            ...(dailyLimit ? { daily_limit: dailyLimit } : {}),
             created_by: user.id,
         });
 
@@ -1,9 +1,19 @@
-import { createHmac } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  isOneClickRequest,
+  verifyMarketingUnsubscribe,
+  type MarketingChannel,
+} from "@/lib/email/list-unsubscribe";
 
-const CHANNELS = new Set<marketing_channel>(["email", "sms", "push"]);
-type marketing_channel = "email" | "sms" | "push";
+const CHANNELS = new Set<MarketingChannel>(["email", "sms", "push"]);
+
+type UnsubscribeRequest = {
+  audienceId: string;
+  channel: MarketingChannel;
+  scope: string;
+  reason: string;
+};
 
 function renderHtml(message: string) {
   return new NextResponse(
@@ -32,34 +42,13 @@ function renderHtml(message: string) {
   );
 }
 
-function verifyToken(
-  audienceId: string,
-  channel: marketing_channel,
-  token: string | null
-) {
-  const secret = process.env.MARKETING_UNSUBSCRIBE_SECRET;
-  if (!secret) {
-    throw new Error(
-      "MARKETING_UNSUBSCRIBE_SECRET is not configured. Unable to verify unsubscribe links."
-    );
-  }
-
-  if (!token) {
-    return false;
-  }
-
-  const expected = createHmac("sha256", secret)
-    .update(`${audienceId}:${channel}`)
-    .digest("hex");
-
-  return token === expected;
-}
-
-export async function GET(request: NextRequest) {
+function parseRequest(
+  request: NextRequest
+): UnsubscribeRequest | NextResponse {
   const url = new URL(request.url);
   const audienceId = url.searchParams.get("audienceId");
   const channelParam = (url.searchParams.get("channel") ??
-    "email") as marketing_channel;
+    "email") as MarketingChannel;
   const token = url.searchParams.get("token");
   const scope = url.searchParams.get("scope") ?? "channel";
   const reason =
@@ -80,7 +69,7 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const valid = verifyToken(audienceId, channelParam, token);
+    const valid = verifyMarketingUnsubscribe(audienceId, channelParam, token);
     if (!valid) {
       return NextResponse.json({ error: "Invalid unsubscribe token." }, { status: 401 });
     }
@@ -92,6 +81,15 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  return { audienceId, channel: channelParam, scope, reason };
+}
+
+async function applyUnsubscribe({
+  audienceId,
+  channel,
+  scope,
+  reason,
+}: UnsubscribeRequest): Promise<boolean> {
   const supabase = createAdminClient();
   const preferenceUpdates: Record<string, unknown> = {
     audience_id: audienceId,
@@ -102,7 +100,7 @@ export async function GET(request: NextRequest) {
     preferenceUpdates.sms_status = "unsubscribed";
     preferenceUpdates.push_status = "unsubscribed";
   } else {
-    preferenceUpdates[`${channelParam}_status`] = "unsubscribed";
+    preferenceUpdates[`${channel}_status`] = "unsubscribed";
   }
 
   const { error } = await supabase
@@ -113,10 +111,7 @@ export async function GET(request: NextRequest) {
 
   if (error) {
     console.error("Failed to update marketing_subscription_preferences", error);
-    return NextResponse.json(
-      { error: "Unable to update subscription preferences." },
-      { status: 500 }
-    );
+    return false;
   }
 
   if (scope === "global") {
@@ -146,9 +141,49 @@ export async function GET(request: NextRequest) {
     }
   }
 
+  return true;
+}
+
+export async function GET(request: NextRequest) {
+  const parsed = parseRequest(request);
+  if (parsed instanceof NextResponse) {
+    return parsed;
+  }
+
+  if (!(await applyUnsubscribe(parsed))) {
+    return NextResponse.json(
+      { error: "Unable to update subscription preferences." },
+      { status: 500 }
+    );
+  }
+
   return renderHtml(
-    scope === "global"
+    parsed.scope === "global"
       ? "You will no longer receive marketing messages from Chimera."
-      : `You will no longer receive ${channelParam} updates.`
+      : `You will no longer receive ${parsed.channel} updates.`
   );
 }
+
+// RFC 8058 one-click unsubscribe, sent by mailbox providers to the List-Unsubscribe URL
+export async function POST(request: NextRequest) {
+  const parsed = parseRequest(request);
+  if (parsed instanceof NextResponse) {
+    return parsed;
+  }
+
+  if (!(await isOneClickRequest(request))) {
+    return NextResponse.json(
+      { error: "Expected List-Unsubscribe=One-Click" },
+      { status: 400 }
+    );
+  }
+
+  if (!(await applyUnsubscribe({ ...parsed, reason: "one_click_unsubscribe" }))) {
+    return NextResponse.json(
+      { error: "Unable to update subscription preferences." },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for the per-rule auto-enrollment webhook
+ */
+
+import { createHmac } from 'node:crypto';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { AutoEnrollmentEngine, type AutoEnrollmentRule } from '@/lib/services/auto-enrollment';
+
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }));
+jest.mock('@/lib/supabase/admin', () => ({ createAdminClient: jest.fn() }));
+jest.mock('@/lib/queue/sequence-queue', () => ({
+  addSequenceJob: jest.fn(),
+  queueDelayedEnrollment: jest.fn(),
+}));
+
+// Signature checks run for real; only the database and queue calls are stubbed
+jest.mock('@/lib/services/auto-enrollment', () => {
+  const { AutoEnrollmentEngine: actual } = jest.requireActual<typeof import('@/lib/services/auto-enrollment')>(
+    '@/lib/services/auto-enrollment'
+  );
+
+  return {
+    AutoEnrollmentEngine: {
+      verifyWebhookSignature: actual.verifyWebhookSignature.bind(actual),
+      loadRule: jest.fn(),
+      resolveWebhookLeads: jest.fn(),
+      emitTrigger: jest.fn(),
+    },
+  };
+});
+
+const mockEngine = jest.mocked(AutoEnrollmentEngine);
+
+const RULE_ID = '3d0f5b1e-2c4a-4e6b-8f9d-7a1b2c3d4e5f';
+const LEAD_ID = '9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c6b';
+
+const rule: AutoEnrollmentRule = {
+  id: RULE_ID,
+  organization_id: 'org-1',
+  name: 'Signup webhook',
+  template_id: 'template-1',
+  is_active: true,
+  priority: 100,
+  trigger_type: 'webhook',
+  trigger_config: {},
+  delay_minutes: 0,
+  total_enrollments: 0,
+  created_by: 'user-1',
+  webhook_secret: 'secret',
+};
+
+function signedRequest(body: string, secret = 'secret'): NextRequest {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+  return new NextRequest(`http://localhost/api/webhooks/auto-enrollment/${RULE_ID}`, {
+    method: 'POST',
+    body,
+    headers: {
+      'x-enrollment-signature': `sha256=${signature}`,
+      'x-enrollment-timestamp': timestamp,
+    },
+  });
+}
+
+function callRoute(request: NextRequest, ruleId = RULE_ID) {
+  return POST(request, { params: Promise.resolve({ ruleId }) });
+}
+
+describe('POST /api/webhooks/auto-enrollment/[ruleId]', () => {
+  beforeEach(() => {
+    mockEngine.loadRule.mockReset().mockResolvedValue(rule);
+    mockEngine.resolveWebhookLeads.mockReset().mockResolvedValue([LEAD_ID]);
+    mockEngine.emitTrigger.mockReset().mockResolvedValue(undefined);
+  });
+
+  it('should queue a webhook trigger for each resolved lead', async () => {
+    const body = JSON.stringify({ event: 'signup', lead_id: LEAD_ID, email: 'Ada@Example.com' });
+
+    const response = await callRoute(signedRequest(body));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ status: 'queued', leads: 1 });
+    expect(mockEngine.resolveWebhookLeads).toHaveBeenCalledWith(rule, [LEAD_ID], ['Ada@Example.com']);
+    expect(mockEngine.emitTrigger).toHaveBeenCalledWith('org-1', 'webhook', {
+      rule_id: RULE_ID,
+      lead_id: LEAD_ID,
+      event: 'signup',
+      data: undefined,
+    });
+  });
+
+  it('should answer unknown rules and bad signatures alike', async () => {
+    const body = JSON.stringify({ lead_id: LEAD_ID });
+
+    const badSignature = await callRoute(signedRequest(body, 'wrong'));
+    mockEngine.loadRule.mockResolvedValueOnce(null);
+    const unknownRule = await callRoute(signedRequest(body));
+    const malformedId = await callRoute(signedRequest(body), 'not-a-uuid');
+
+    for (const response of [badSignature, unknownRule, malformedId]) {
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'Invalid signature' });
+    }
+    expect(mockEngine.emitTrigger).not.toHaveBeenCalled();
+  });
+
+  it('should refuse inactive rules', async () => {
+    mockEngine.loadRule.mockResolvedValueOnce({ ...rule, is_active: false });
+
+    const response = await callRoute(signedRequest(JSON.stringify({ lead_id: LEAD_ID })));
+
+    expect(response.status).toBe(409);
+    expect(mockEngine.emitTrigger).not.toHaveBeenCalled();
+  });
+
+  it('should reject payloads that name no lead or are not valid', async () => {
+    const noLead = await callRoute(signedRequest(JSON.stringify({ event: 'signup' })));
+    const badEmail = await callRoute(signedRequest(JSON.stringify({ email: 'not-an-email' })));
+    const notJson = await callRoute(signedRequest('lead=1'));
+
+    expect(noLead.status).toBe(400);
+    expect(badEmail.status).toBe(400);
+    expect(await badEmail.json()).toMatchObject({ error: 'Invalid webhook payload' });
+    expect(notJson.status).toBe(400);
+    expect(await notJson.json()).toEqual({ error: 'Invalid JSON payload' });
+    expect(mockEngine.emitTrigger).not.toHaveBeenCalled();
+  });
+});
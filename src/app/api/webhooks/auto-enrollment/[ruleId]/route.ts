@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AutoEnrollmentEngine } from '@/lib/services/auto-enrollment';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const SIGNATURE_HEADER = 'x-enrollment-signature';
+const TIMESTAMP_HEADER = 'x-enrollment-timestamp';
+
+const MAX_LEADS_PER_REQUEST = 100;
+
+const WebhookPayloadSchema = z.object({
+  event: z.string().optional(),
+  lead_id: z.string().uuid().optional(),
+  lead_ids: z.array(z.string().uuid()).max(MAX_LEADS_PER_REQUEST).optional(),
+  email: z.string().email().optional(),
+  emails: z.array(z.string().email()).max(MAX_LEADS_PER_REQUEST).optional(),
+  data: z.record(z.string(), z.unknown()).optional(),
+});
+
+type RouteContext = {
+  params: Promise<{ ruleId: string }>;
+};
+
+/**
+ * Inbound webhook for webhook-triggered auto-enrollment rules.
+ * Callers sign `${timestamp}.${body}` with the rule's webhook secret and name leads by id or email.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { ruleId } = await context.params;
+  const rawBody = await request.text();
+
+  let rule;
+  try {
+    rule = z.string().uuid().safeParse(ruleId).success
+      ? await AutoEnrollmentEngine.loadRule(ruleId)
+      : null;
+  } catch (error) {
+    console.error('Error loading auto-enrollment rule for webhook:', error);
+    return NextResponse.json({ error: 'Failed to load rule' }, { status: 500 });
+  }
+
+  // Same response for unknown rules and bad signatures so ids can't be probed
+  const verification = rule
+    ? AutoEnrollmentEngine.verifyWebhookSignature(
+        rule,
+        rawBody,
+        request.headers.get(SIGNATURE_HEADER),
+        request.headers.get(TIMESTAMP_HEADER)
+      )
+    : { valid: false as const, reason: 'Invalid signature' };
+
+  if (!rule || !verification.valid) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  if (!rule.is_active) {
+    return NextResponse.json({ error: 'Rule is not active' }, { status: 409 });
+  }
+
+  let payload: z.infer<typeof WebhookPayloadSchema>;
+  try {
+    payload = WebhookPayloadSchema.parse(JSON.parse(rawBody || '{}'));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid webhook payload', details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const leadIds = [payload.lead_id, ...(payload.lead_ids || [])].filter((id): id is string => !!id);
+  const emails = [payload.email, ...(payload.emails || [])].filter((email): email is string => !!email);
+
+  if (leadIds.length === 0 && emails.length === 0) {
+    return NextResponse.json(
+      { error: 'Payload must name at least one lead by lead_id(s) or email(s)' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const resolved = await AutoEnrollmentEngine.resolveWebhookLeads(rule, leadIds, emails);
+
+    for (const leadId of resolved) {
+      await AutoEnrollmentEngine.emitTrigger(rule.organization_id, 'webhook', {
+        rule_id: rule.id,
+        lead_id: leadId,
+        event: payload.event,
+        data: payload.data,
+      });
+    }
+
+    return NextResponse.json({ status: 'queued', leads: resolved.length }, { status: 202 });
+  } catch (error) {
+    console.error('Error queueing auto-enrollment webhook:', error);
+    return NextResponse.json({ error: 'Failed to queue enrollment' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import MessageValidator from "sns-validator";
 import { recordSesNotification } from "@/lib/services/emails";
+import { ReplyDetectionService } from "@/lib/services/reply-detection";
 
 const validator = new MessageValidator();
 
@@ -24,6 +25,14 @@ async function validateMessage(message: unknown): Promise<SnsMessage> {
   });
 }
 
+function isInboundNotification(payload: unknown) {
+  return (
+    !!payload &&
+    typeof payload === "object" &&
+    (payload as { notificationType?: string }).notificationType === "Received"
+  );
+}
+
 async function confirmSubscription(subscribeUrl?: string) {
   if (!subscribeUrl) return;
   await fetch(subscribeUrl);
@@ -82,6 +91,19 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Receipt rules publish inbound mail to the same topic as sending events
+    if (isInboundNotification(notificationPayload)) {
+      try {
+        const result =
+          await ReplyDetectionService.processSesNotification(notificationPayload);
+        return NextResponse.json({ status: "inbound_processed", match: result.status });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to process inbound email";
+        return NextResponse.json({ error: message }, { status: 500 });
+      }
+    }
+
     try {
       await recordSesNotification(notificationPayload);
     } catch (error) {
@@ -0,0 +1,70 @@
+import Link from "next/link";
+import { Metadata } from "next";
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { DuplicateDetectionService } from "@/lib/services/duplicate-detection";
+import { DuplicateReviewQueue } from "@/components/crm/duplicate-review-queue";
+
+export const metadata: Metadata = {
+    title: "Duplicates | Chimera Dashboard",
+};
+
+export const revalidate = 0;
+
+const TABS = [
+    { value: "lead", label: "Leads" },
+    { value: "contact", label: "Contacts" },
+    { value: "account", label: "Accounts" },
+] as const;
+
+type PageProps = {
+    searchParams: Promise<{ type?: string }>;
+};
+
+export default async function DuplicatesPage({ searchParams }: PageProps) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        redirect("/sign-in");
+    }
+
+    const params = await searchParams;
+    const entityType = TABS.find((tab) => tab.value === params.type)?.value ?? "lead";
+    const candidates = await DuplicateDetectionService.listCandidates(orgId ?? userId, {
+        entityType,
+        limit: 50,
+    });
+
+    return (
+        <div className="space-y-6">
+            <header className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+                <p className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+                    Data quality
+                </p>
+                <h1 className="mt-2 text-2xl font-semibold text-slate-900 dark:text-slate-50">
+                    Duplicate review
+                </h1>
+                <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                    Records that share an email, LinkedIn profile, phone, name and company, or domain. Pick the
+                    record to keep and the values it should end up with.
+                </p>
+                <nav className="mt-3 flex flex-wrap gap-2">
+                    {TABS.map((tab) => (
+                        <Link
+                            key={tab.value}
+                            href={`/dashboard/duplicates?type=${tab.value}`}
+                            className={`rounded-full border px-3 py-1 text-xs font-semibold ${
+                                tab.value === entityType
+                                    ? "border-sky-500 text-sky-600 dark:text-sky-400"
+                                    : "border-slate-200 text-slate-500 dark:border-slate-700"
+                            }`}
+                        >
+                            {tab.label}
+                        </Link>
+                    ))}
+                </nav>
+            </header>
+
+            <DuplicateReviewQueue key={entityType} entityType={entityType} candidates={candidates} />
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 import { notFound } from "next/navigation";
 import { currentUser } from "@clerk/nextjs/server";
 import { AssignLeadButton } from "@/components/leads/assign-lead-button";
+import { ConvertLeadButton } from "@/components/leads/convert-lead-button";
 import { EditableField } from "@/components/ui/editable-field";
 import { ActivityTimeline } from "@/components/crm/activity-timeline";
 import { EmailComposer } from "@/components/crm/email-composer";
@@ -29,6 +30,9 @@ type LeadRecord = {
   assigned_to: string | null;
   admin_notes: string | null;
   raw_payload: Record<string, unknown> | null;
+  converted_at: string | null;
+  converted_contact_id: string | null;
+  converted_account_id: string | null;
 };
 
 type BookingRecord = {
@@ -134,7 +138,10 @@ export default async function LeadDetailPage({
 
   const isAssignedToCurrentUser = !!user?.id && lead.assigned_to === user.id;
   const leadPatchUrl = `/api/leads/${lead.id}`;
-  const statusOptions = LEAD_STATUSES.map((status) => ({
+  // "Converted" is set by the convert action, not picked from the list
+  const statusOptions = LEAD_STATUSES.filter(
+    (status) => status.value !== "converted" || lead.status === "converted"
+  ).map((status) => ({
     label: status.label,
     value: status.value,
   }));
@@ -177,6 +184,12 @@ export default async function LeadDetailPage({
               leadName={lead.name}
             />
             <EmailComposer leadId={lead.id} leadEmail={lead.email} />
+            <ConvertLeadButton
+              leadId={lead.id}
+              leadCompany={lead.company}
+              convertedContactId={lead.converted_contact_id}
+              convertedAccountId={lead.converted_account_id}
+            />
           </div>
         </header>
 
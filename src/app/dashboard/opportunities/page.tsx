@@ -0,0 +1,107 @@
+import Link from "next/link";
+import { Metadata } from "next";
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { listPipelines } from "@/lib/services/crm-pipelines";
+import { listOpportunities } from "@/lib/services/crm-opportunities";
+import { getForecast } from "@/lib/services/crm-forecast";
+import { OpportunitiesBoard } from "@/components/crm/opportunities-board";
+import { CreateOpportunitySheet } from "@/components/crm/create-opportunity-sheet";
+import { ForecastTable } from "@/components/crm/forecast-table";
+
+export const metadata: Metadata = {
+    title: "Opportunities | Chimera Dashboard",
+};
+
+export const revalidate = 0;
+
+type PageProps = {
+    searchParams: Promise<{ pipeline?: string }>;
+};
+
+export default async function OpportunitiesPage({ searchParams }: PageProps) {
+    const { userId, orgId } = await auth();
+    if (!userId) {
+        redirect("/sign-in");
+    }
+
+    const organizationId = orgId ?? userId;
+    const params = await searchParams;
+
+    const pipelines = await listPipelines(organizationId, userId);
+    const pipeline =
+        pipelines.find((candidate) => candidate.id === params.pipeline) ??
+        pipelines.find((candidate) => candidate.is_default) ??
+        pipelines[0];
+
+    const [opportunities, forecast] = await Promise.all([
+        listOpportunities(organizationId, { pipeline_id: pipeline.id, limit: 1000 }),
+        getForecast(organizationId, { pipelineId: pipeline.id }),
+    ]);
+
+    return (
+        <div className="space-y-6">
+            <header className="flex items-center justify-between rounded-2xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+                <div>
+                    <p className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-400">
+                        Revenue pipeline
+                    </p>
+                    <h1 className="mt-2 text-2xl font-semibold text-slate-900 dark:text-slate-50">
+                        {pipeline.name}
+                    </h1>
+                    <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                        Drag deals between stages; the forecast weights open deals by stage probability.
+                    </p>
+                    {pipelines.length > 1 && (
+                        <nav className="mt-3 flex flex-wrap gap-2">
+                            {pipelines.map((candidate) => (
+                                <Link
+                                    key={candidate.id}
+                                    href={`/dashboard/opportunities?pipeline=${candidate.id}`}
+                                    className={`rounded-full border px-3 py-1 text-xs font-semibold ${
+                                        candidate.id === pipeline.id
+                                            ? "border-sky-500 text-sky-600 dark:text-sky-400"
+                                            : "border-slate-200 text-slate-500 dark:border-slate-700"
+                                    }`}
+                                >
+                                    {candidate.name}
+                                </Link>
+                            ))}
+                        </nav>
+                    )}
+                </div>
+                <CreateOpportunitySheet
+                    pipelineId={pipeline.id}
+                    stages={pipeline.stages.filter((stage) => stage.stage_type === "open")}
+                />
+            </header>
+
+            <OpportunitiesBoard
+                key={pipeline.id}
+                currency={pipeline.currency}
+                stages={pipeline.stages}
+                opportunities={opportunities.map((opportunity) => ({
+                    id: opportunity.id,
+                    name: opportunity.name,
+                    amount: opportunity.amount,
+                    close_date: opportunity.close_date,
+                    probability: opportunity.probability,
+                    stage_id: opportunity.stage_id,
+                    account: opportunity.account ?? null,
+                }))}
+            />
+
+            <section className="rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+                <div className="border-b border-slate-100 px-6 py-4 dark:border-slate-800">
+                    <p className="text-sm font-semibold text-slate-900 dark:text-slate-50">
+                        Forecast by owner
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        Closed-won plus probability-weighted open deals, by expected close month.
+                    </p>
+                </div>
+                <ForecastTable forecast={forecast} />
+            </section>
+        </div>
+    );
+}
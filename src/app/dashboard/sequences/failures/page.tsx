@@ -0,0 +1,17 @@
+import { FailedExecutions } from '@/components/sequences/failed-executions';
+
+export default function FailedExecutionsPage() {
+    return (
+        <div className="flex-1 space-y-4 p-8 pt-6">
+            <div className="flex items-center justify-between space-y-2">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight">Failed Steps</h2>
+                    <p className="text-muted-foreground">
+                        Enrollments stopped after a step failed permanently or ran out of retries.
+                    </p>
+                </div>
+            </div>
+            <FailedExecutions />
+        </div>
+    );
+}
@@ -0,0 +1,10 @@
+import { ExtensionKeys } from "@/components/settings/extension-keys";
+
+export default function LinkedInSettingsPage() {
+  return (
+    <div className="container mx-auto py-10">
+      <h1 className="mb-8 text-3xl font-bold">LinkedIn Extension</h1>
+      <ExtensionKeys />
+    </div>
+  );
+}
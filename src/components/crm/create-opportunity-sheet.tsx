@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { Loader2, Plus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+    SheetTrigger,
+} from "@/components/ui/sheet";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+
+const formSchema = z.object({
+    name: z.string().min(1, "Name is required"),
+    amount: z.coerce.number().min(0, "Amount cannot be negative"),
+    close_date: z.string().optional(),
+    stage_id: z.string().min(1, "Pick a stage"),
+    account_id: z.string().optional(),
+    description: z.string().optional(),
+});
+
+interface CreateOpportunitySheetProps {
+    pipelineId: string;
+    stages: Array<{ id: string; name: string; probability: number }>;
+}
+
+export function CreateOpportunitySheet({ pipelineId, stages }: CreateOpportunitySheetProps) {
+    const [open, setOpen] = useState(false);
+    const [accounts, setAccounts] = useState<{ id: string; name: string }[]>([]);
+    const router = useRouter();
+    const { toast } = useToast();
+
+    const form = useForm<z.infer<typeof formSchema>>({
+        resolver: zodResolver(formSchema),
+        defaultValues: {
+            name: "",
+            amount: 0,
+            close_date: "",
+            stage_id: stages[0]?.id ?? "",
+            account_id: "none",
+            description: "",
+        },
+    });
+
+    const { isSubmitting } = form.formState;
+
+    useEffect(() => {
+        if (open) {
+            fetch("/api/crm/accounts?limit=100")
+                .then((res) => res.json())
+                .then((data) => {
+                    if (data.accounts) {
+                        setAccounts(data.accounts);
+                    }
+                })
+                .catch((err) => console.error("Failed to load accounts", err));
+        }
+    }, [open]);
+
+    async function onSubmit(values: z.infer<typeof formSchema>) {
+        try {
+            const response = await fetch("/api/crm/opportunities", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    ...values,
+                    pipeline_id: pipelineId,
+                    close_date: values.close_date || null,
+                    account_id: values.account_id === "none" ? null : values.account_id,
+                    description: values.description || null,
+                }),
+            });
+
+            if (!response.ok) {
+                throw new Error(await response.text());
+            }
+
+            toast({
+                title: "Opportunity created",
+                description: "The opportunity has been added to the pipeline.",
+            });
+
+            setOpen(false);
+            form.reset();
+            router.refresh();
+        } catch (error) {
+            toast({
+                title: "Error",
+                description: error instanceof Error && error.message ? error.message : "Failed to create opportunity.",
+                variant: "destructive",
+            });
+        }
+    }
+
+    return (
+        <Sheet open={open} onOpenChange={setOpen}>
+            <SheetTrigger asChild>
+                <Button>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Opportunity
+                </Button>
+            </SheetTrigger>
+            <SheetContent className="overflow-y-auto sm:max-w-[540px]">
+                <SheetHeader>
+                    <SheetTitle>Create Opportunity</SheetTitle>
+                    <SheetDescription>
+                        Track a deal with its value and expected close date.
+                    </SheetDescription>
+                </SheetHeader>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 py-6">
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="name">Opportunity Name</Label>
+                            <Input id="name" placeholder="Acme annual plan" {...form.register("name")} />
+                            {form.formState.errors.name && (
+                                <p className="text-sm text-red-500">{form.formState.errors.name.message}</p>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="amount">Amount</Label>
+                                <Input id="amount" type="number" min="0" step="0.01" {...form.register("amount")} />
+                                {form.formState.errors.amount && (
+                                    <p className="text-sm text-red-500">{form.formState.errors.amount.message}</p>
+                                )}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="close_date">Expected Close</Label>
+                                <Input id="close_date" type="date" {...form.register("close_date")} />
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="stage_id">Stage</Label>
+                            <Select
+                                onValueChange={(value) => form.setValue("stage_id", value)}
+                                defaultValue={form.getValues("stage_id")}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select a stage" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {stages.map((stage) => (
+                                        <SelectItem key={stage.id} value={stage.id}>
+                                            {stage.name} ({stage.probability}%)
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="account_id">Account</Label>
+                            <Select
+                                onValueChange={(value) => form.setValue("account_id", value)}
+                                defaultValue={form.getValues("account_id")}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select an account" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">No Account</SelectItem>
+                                    {accounts.map((account) => (
+                                        <SelectItem key={account.id} value={account.id}>
+                                            {account.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="description">Description</Label>
+                            <Textarea id="description" placeholder="Scope, next steps..." {...form.register("description")} />
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end gap-4">
+                        <Button variant="outline" type="button" onClick={() => setOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Create Opportunity
+                        </Button>
+                    </div>
+                </form>
+            </SheetContent>
+        </Sheet>
+    );
+}
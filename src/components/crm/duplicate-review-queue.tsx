@@ -0,0 +1,323 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+type EntityType = "lead" | "contact" | "account";
+
+type CandidateRow = {
+  id: string;
+  score: number;
+  reasons: string[];
+  record_id: string;
+  duplicate_id: string;
+  suggested_survivor_id: string;
+  record: Record<string, unknown>;
+  duplicate: Record<string, unknown>;
+};
+
+type DuplicateReviewQueueProps = {
+  entityType: EntityType;
+  candidates: CandidateRow[];
+};
+
+const COMPARED_FIELDS: Record<EntityType, Array<{ key: string; label: string }>> = {
+  lead: [
+    { key: "name", label: "Name" },
+    { key: "email", label: "Email" },
+    { key: "phone", label: "Phone" },
+    { key: "company", label: "Company" },
+    { key: "title", label: "Title" },
+    { key: "linkedin_url", label: "LinkedIn" },
+    { key: "status", label: "Status" },
+    { key: "assigned_to", label: "Owner" },
+  ],
+  contact: [
+    { key: "first_name", label: "First name" },
+    { key: "last_name", label: "Last name" },
+    { key: "email", label: "Email" },
+    { key: "phone", label: "Phone" },
+    { key: "title", label: "Title" },
+    { key: "linkedin_url", label: "LinkedIn" },
+    { key: "lifecycle_stage", label: "Lifecycle stage" },
+    { key: "assigned_to", label: "Owner" },
+  ],
+  account: [
+    { key: "name", label: "Name" },
+    { key: "domain", label: "Domain" },
+    { key: "website", label: "Website" },
+    { key: "industry", label: "Industry" },
+    { key: "size", label: "Size" },
+    { key: "linkedin_url", label: "LinkedIn" },
+    { key: "assigned_to", label: "Owner" },
+  ],
+};
+
+const REASON_LABELS: Record<string, string> = {
+  email: "Same email",
+  linkedin: "Same LinkedIn profile",
+  phone: "Same phone",
+  name_company: "Same name and company",
+  name_domain: "Same name and email domain",
+  domain: "Same domain",
+  name: "Same name",
+};
+
+export function DuplicateReviewQueue({ entityType, candidates }: DuplicateReviewQueueProps) {
+  const router = useRouter();
+  const [rows, setRows] = useState(candidates);
+  const [isScanning, setIsScanning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Pick up the new queue after a scan or a merge refreshes the page
+  useEffect(() => {
+    setRows(candidates);
+  }, [candidates]);
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/duplicates/scan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entity_type: entityType }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to scan");
+      }
+
+      const result = await response.json();
+      setMessage(`Checked ${result.scanned} records; ${result.queued} new pairs to review.`);
+      router.refresh();
+    } catch (err) {
+      console.error(err);
+      setMessage("Could not scan for duplicates. Please try again.");
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const removeRow = (candidateId: string) => {
+    setRows((current) => current.filter((row) => row.id !== candidateId));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {rows.length === 0 ? "Nothing to review." : `${rows.length} pairs to review`}
+        </p>
+        <button
+          onClick={handleScan}
+          disabled={isScanning}
+          className="rounded-lg border border-chimera-teal/30 bg-white px-4 py-2 text-sm font-semibold text-chimera-teal transition-colors hover:bg-chimera-teal/10 disabled:opacity-60 dark:border-chimera-teal/40 dark:bg-gray-900"
+        >
+          {isScanning ? "Scanning..." : "Scan for duplicates"}
+        </button>
+      </div>
+      {message ? (
+        <div className="rounded-lg border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-600 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-300">
+          {message}
+        </div>
+      ) : null}
+      {rows.map((candidate) => (
+        <DuplicatePairCard
+          key={candidate.id}
+          entityType={entityType}
+          candidate={candidate}
+          onResolved={() => removeRow(candidate.id)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function DuplicatePairCard({
+  entityType,
+  candidate,
+  onResolved,
+}: {
+  entityType: EntityType;
+  candidate: CandidateRow;
+  onResolved: () => void;
+}) {
+  const sides = [
+    { id: candidate.record_id, values: candidate.record },
+    { id: candidate.duplicate_id, values: candidate.duplicate },
+  ];
+  const fields = COMPARED_FIELDS[entityType];
+
+  const [survivorId, setSurvivorId] = useState(candidate.suggested_survivor_id);
+  // Which record each differing field takes its value from
+  const [picks, setPicks] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const survivor = sides.find((side) => side.id === survivorId)!;
+  const merged = sides.find((side) => side.id !== survivorId)!;
+
+  const pickFor = (field: string) => {
+    if (picks[field]) return picks[field];
+    const value = survivor.values[field];
+    return value === null || value === undefined || value === "" ? merged.id : survivor.id;
+  };
+
+  const handleMerge = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    const chosen = Object.fromEntries(
+      fields
+        .filter(({ key }) => !isSame(survivor.values[key], merged.values[key]) && pickFor(key) === merged.id)
+        .map(({ key }) => [key, "merged"])
+    );
+
+    try {
+      const response = await fetch(`/api/duplicates/${candidate.id}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ survivor_id: survivorId, fields: chosen }),
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? "Failed to merge");
+      }
+
+      onResolved();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Could not merge these records.");
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/duplicates/${candidate.id}/dismiss`, { method: "POST" });
+      if (!response.ok) {
+        throw new Error("Failed to dismiss");
+      }
+      onResolved();
+    } catch (err) {
+      console.error(err);
+      setError("Could not dismiss this pair. Please try again.");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <article className="rounded-2xl border border-gray-200 bg-white p-5 shadow-sm dark:border-gray-800 dark:bg-gray-900">
+      <header className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="rounded-full bg-chimera-teal/10 px-2.5 py-0.5 text-xs font-semibold text-chimera-teal">
+            {candidate.score}% match
+          </span>
+          {candidate.reasons.map((reason) => (
+            <span
+              key={reason}
+              className="rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-600 dark:bg-gray-800 dark:text-gray-300"
+            >
+              {REASON_LABELS[reason] ?? reason}
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleDismiss}
+            disabled={isSubmitting}
+            className="rounded-lg border border-gray-200 px-3 py-1.5 text-sm font-semibold text-gray-600 hover:bg-gray-50 disabled:opacity-60 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
+          >
+            Not duplicates
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={isSubmitting}
+            className="rounded-lg bg-chimera-teal px-3 py-1.5 text-sm font-semibold text-white hover:bg-chimera-teal/90 disabled:opacity-60"
+          >
+            {isSubmitting ? "Working..." : "Merge"}
+          </button>
+        </div>
+      </header>
+
+      <table className="w-full table-fixed text-left text-sm">
+        <thead>
+          <tr className="text-xs uppercase tracking-wide text-gray-400">
+            <th className="w-32 py-2" />
+            {sides.map((side) => (
+              <th key={side.id} className="py-2 pr-4">
+                <label className="flex items-center gap-2 font-semibold normal-case tracking-normal text-gray-700 dark:text-gray-200">
+                  <input
+                    type="radio"
+                    name={`survivor-${candidate.id}`}
+                    checked={survivorId === side.id}
+                    onChange={() => {
+                      setSurvivorId(side.id);
+                      setPicks({});
+                    }}
+                  />
+                  {survivorId === side.id ? "Keep this record" : "Merge into the other"}
+                </label>
+                <span className="text-xs font-normal normal-case tracking-normal text-gray-400">
+                  Created {formatDate(side.values.created_at)}
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+          {fields.map(({ key, label }) => {
+            const differs = !isSame(sides[0].values[key], sides[1].values[key]);
+            return (
+              <tr key={key}>
+                <td className="py-2 text-xs font-medium text-gray-500">{label}</td>
+                {sides.map((side) => (
+                  <td key={side.id} className="break-words py-2 pr-4">
+                    {differs ? (
+                      <label className="flex items-start gap-2">
+                        <input
+                          type="radio"
+                          name={`${candidate.id}-${key}`}
+                          checked={pickFor(key) === side.id}
+                          onChange={() => setPicks((current) => ({ ...current, [key]: side.id }))}
+                          className="mt-1"
+                        />
+                        <span className="text-gray-900 dark:text-gray-100">{display(side.values[key])}</span>
+                      </label>
+                    ) : (
+                      <span className="text-gray-500 dark:text-gray-400">{display(side.values[key])}</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="mt-3 text-xs text-gray-400">
+        Tags and custom fields from both records are kept. Activities, tasks, enrollments and history move to the
+        record you keep.
+      </p>
+      {error ? <p className="mt-2 text-xs text-red-600">{error}</p> : null}
+    </article>
+  );
+}
+
+function isSame(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function display(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  return String(value);
+}
+
+function formatDate(value: unknown) {
+  return typeof value === "string" ? new Date(value).toLocaleDateString() : "—";
+}
@@ -0,0 +1,93 @@
+import type { ForecastReport } from "@/lib/services/crm-forecast";
+
+type ForecastTableProps = {
+    forecast: ForecastReport;
+};
+
+export function ForecastTable({ forecast }: ForecastTableProps) {
+    const formatter = new Intl.NumberFormat(undefined, {
+        style: "currency",
+        currency: forecast.pipeline.currency,
+        maximumFractionDigits: 0,
+    });
+    const formatMonth = (month: string) =>
+        new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, {
+            month: "short",
+            year: "numeric",
+            timeZone: "UTC",
+        });
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+                <thead>
+                    <tr className="text-xs uppercase tracking-[0.2em] text-slate-400">
+                        <th className="px-6 py-3">Owner</th>
+                        {forecast.months.map((month) => (
+                            <th key={month} className="px-6 py-3 text-right">
+                                {formatMonth(month)}
+                            </th>
+                        ))}
+                        <th className="px-6 py-3 text-right">Total</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                    {forecast.owners.map((owner) => (
+                        <tr key={owner.owner_id ?? "unassigned"}>
+                            <td className="px-6 py-3 font-semibold text-slate-900 dark:text-slate-50">
+                                {owner.owner_name ?? (owner.owner_id ? owner.owner_id : "Unassigned")}
+                            </td>
+                            {forecast.months.map((month) => (
+                                <ForecastCell
+                                    key={month}
+                                    bucket={owner.months[month]}
+                                    format={formatter.format}
+                                />
+                            ))}
+                            <ForecastCell bucket={owner.total} format={formatter.format} />
+                        </tr>
+                    ))}
+                    {forecast.owners.length === 0 && (
+                        <tr>
+                            <td colSpan={forecast.months.length + 2} className="px-6 py-8 text-center text-slate-500">
+                                No open or won deals close in this period.
+                            </td>
+                        </tr>
+                    )}
+                </tbody>
+                {forecast.owners.length > 0 && (
+                    <tfoot className="border-t border-slate-200 dark:border-slate-700">
+                        <tr>
+                            <td className="px-6 py-3 font-semibold text-slate-900 dark:text-slate-50">All owners</td>
+                            {forecast.months.map((month) => (
+                                <ForecastCell
+                                    key={month}
+                                    bucket={forecast.totals.months[month]}
+                                    format={formatter.format}
+                                />
+                            ))}
+                            <ForecastCell bucket={forecast.totals.total} format={formatter.format} />
+                        </tr>
+                    </tfoot>
+                )}
+            </table>
+        </div>
+    );
+}
+
+function ForecastCell({
+    bucket,
+    format,
+}: {
+    bucket: ForecastReport["totals"]["total"];
+    format: (value: number) => string;
+}) {
+    return (
+        <td className="px-6 py-3 text-right">
+            <p className="font-semibold text-slate-900 dark:text-slate-50">{format(bucket.forecast_amount)}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+                {format(bucket.won_amount)} won · {format(bucket.open_amount)} open
+            </p>
+        </td>
+    );
+}
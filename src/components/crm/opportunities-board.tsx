@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+
+type OpportunityCard = {
+  id: string;
+  name: string;
+  amount: number;
+  close_date: string | null;
+  probability: number | null;
+  stage_id: string;
+  account: { id: string; name: string } | null;
+};
+
+type StageColumn = {
+  id: string;
+  name: string;
+  probability: number;
+  stage_type: "open" | "won" | "lost";
+};
+
+type OpportunitiesBoardProps = {
+  currency: string;
+  stages: StageColumn[];
+  opportunities: OpportunityCard[];
+};
+
+export function OpportunitiesBoard({ currency, stages, opportunities }: OpportunitiesBoardProps) {
+  const router = useRouter();
+  const [cards, setCards] = useState(opportunities);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [pendingStage, setPendingStage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick up deals added elsewhere on the page after a refresh
+  useEffect(() => {
+    setCards(opportunities);
+  }, [opportunities]);
+
+  const formatAmount = useMemo(() => {
+    const formatter = new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    });
+    return (value: number) => formatter.format(value);
+  }, [currency]);
+
+  const columns = useMemo(() => {
+    return stages.map((stage) => {
+      const items = cards.filter((card) => card.stage_id === stage.id);
+      const total = items.reduce((sum, card) => sum + Number(card.amount), 0);
+      const weighted = items.reduce(
+        (sum, card) => sum + (Number(card.amount) * Number(card.probability ?? stage.probability)) / 100,
+        0
+      );
+      return { ...stage, items, total, weighted };
+    });
+  }, [cards, stages]);
+
+  const cancelDrag = () => {
+    setDraggedId(null);
+    setPendingStage(null);
+  };
+
+  const handleDrop = async (stageId: string) => {
+    const card = cards.find((item) => item.id === draggedId);
+    if (!card || card.stage_id === stageId) {
+      cancelDrag();
+      return;
+    }
+
+    setPendingStage(stageId);
+    setError(null);
+    const previous = cards;
+    setCards(cards.map((item) => (item.id === card.id ? { ...item, stage_id: stageId } : item)));
+
+    try {
+      const response = await fetch(`/api/crm/opportunities/${card.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stage_id: stageId }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to move opportunity");
+      }
+
+      // Stage moves change the forecast below the board
+      router.refresh();
+    } catch (err) {
+      console.error(err);
+      setCards(previous);
+      setError("Could not move the opportunity. Please try again.");
+    } finally {
+      cancelDrag();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      ) : null}
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {columns.map((column) => (
+          <section
+            key={column.id}
+            onDragOver={(event) => event.preventDefault()}
+            onDrop={(event) => {
+              event.preventDefault();
+              handleDrop(column.id);
+            }}
+            className={`flex min-h-[420px] w-72 shrink-0 flex-col rounded-2xl border px-4 py-3 transition-colors ${
+              pendingStage === column.id
+                ? "border-chimera-teal/60 bg-chimera-teal/5"
+                : "border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-900"
+            }`}
+          >
+            <header className="mb-3 space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-semibold uppercase tracking-wide text-gray-500">
+                  {column.name}
+                </p>
+                <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-semibold text-gray-500 dark:bg-gray-800 dark:text-gray-300">
+                  {column.probability}%
+                </span>
+              </div>
+              <p className="text-xs text-gray-400">
+                {column.items.length} deals · {formatAmount(column.total)}
+                {column.stage_type === "open" ? ` · ${formatAmount(column.weighted)} weighted` : ""}
+              </p>
+            </header>
+
+            <div className="flex-1 space-y-3 overflow-auto pb-2">
+              {column.items.length === 0 ? (
+                <div className="rounded-xl border border-dashed border-gray-200 px-3 py-6 text-center text-xs text-gray-400 dark:border-gray-800">
+                  Drop deals here
+                </div>
+              ) : (
+                column.items.map((card) => (
+                  <article
+                    key={card.id}
+                    draggable
+                    onDragStart={() => setDraggedId(card.id)}
+                    onDragEnd={cancelDrag}
+                    className="cursor-grab space-y-1 rounded-xl border border-gray-200 bg-white/90 px-3 py-2.5 shadow-sm transition hover:border-chimera-teal/40 dark:border-gray-800 dark:bg-gray-900"
+                  >
+                    <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                      {card.name}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {card.account?.name ?? "No account"}
+                    </p>
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="font-semibold text-gray-700 dark:text-gray-200">
+                        {formatAmount(Number(card.amount))}
+                      </span>
+                      <span className="text-gray-400">
+                        {card.close_date ? `Closes ${card.close_date}` : "No close date"}
+                      </span>
+                    </div>
+                  </article>
+                ))
+              )}
+            </div>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -21,6 +21,9 @@ import {
   ChevronRight,
   Menu,
   Building2,
+  KeyRound,
+  CircleDollarSign,
+  CopyCheck,
 } from "lucide-react";
 
 interface DashboardShellProps {
@@ -132,10 +135,22 @@ const secondaryNavItems: Record<
     },
     {
       label: "Pipeline",
-      description: "Drag & drop deal stages",
+      description: "Drag & drop lead stages",
       href: "/dashboard/pipeline",
       icon: Briefcase,
     },
+    {
+      label: "Opportunities",
+      description: "Deals, amounts & forecast",
+      href: "/dashboard/opportunities",
+      icon: CircleDollarSign,
+    },
+    {
+      label: "Duplicates",
+      description: "Review & merge duplicates",
+      href: "/dashboard/duplicates",
+      icon: CopyCheck,
+    },
     {
       label: "Sequences",
       description: "Automated outreach campaigns",
@@ -172,6 +187,12 @@ const secondaryNavItems: Record<
       href: "/dashboard/settings/email",
       icon: Mail,
     },
+    {
+      label: "LinkedIn Extension",
+      description: "Issue extension API keys",
+      href: "/dashboard/settings/linkedin",
+      icon: KeyRound,
+    },
     {
       label: "Custom Fields",
       description: "Manage custom fields",
@@ -35,9 +35,13 @@ import {
   BarChart,
   LayoutTemplate,
   Download,
+  History,
 } from "lucide-react";
 import { renderToStaticMarkup, type TReaderBlock, type TReaderDocument, Reader } from "@usewaypoint/email-builder";
 import type { EmailTemplate } from "./manager";
+import type { EmailTemplateUsage } from "@/lib/services/email-templates";
+import type { CompileIssue } from "@/lib/email/compile-template";
+import { VersionHistory } from "./version-history";
 import { SubjectPreheaderWithAutocomplete } from "./subject-preheader-with-autocomplete";
 import { EnhancedVariableLibrary } from "./enhanced-variable-library";
 import { SimpleVariableAutocomplete } from "./simple-variable-autocomplete";
@@ -528,6 +532,8 @@ export function EmailTemplateBuilder({ template, onSaved }: BuilderProps) {
   const [name, setName] = useState(template?.name ?? "");
   const [description, setDescription] = useState(template?.description ?? "");
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [templateUsage, setTemplateUsage] = useState<EmailTemplateUsage[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [autosaveMessage, setAutosaveMessage] = useState("Draft saved");
   const [hasLocalDraft, setHasLocalDraft] = useState(false);
   const [canUndo, setCanUndo] = useState(false);
@@ -724,6 +730,15 @@ export function EmailTemplateBuilder({ template, onSaved }: BuilderProps) {
     }
   }, [recentlyUsedIds, recentlyUsedLoaded]);
 
+  // Sequences sending this template, so editors know who their changes reach
+  useEffect(() => {
+    if (!template?.id) return;
+    fetch(`/api/email-templates/${template.id}/usage`)
+      .then((res) => res.json())
+      .then((data) => setTemplateUsage(data.usage ?? []))
+      .catch((err) => console.error("Failed to fetch template usage:", err));
+  }, [template?.id]);
+
   // Fetch available variables when template loads
   useEffect(() => {
     if (template?.id) {
@@ -1267,10 +1282,14 @@ export function EmailTemplateBuilder({ template, onSaved }: BuilderProps) {
 
         if (!response.ok) {
           const body = await response.json().catch(() => ({}));
-          throw new Error(body.error ?? "Failed to save template.");
+          // Compile errors carry the offending lines so they can be fixed in place
+          const issues = (body.issues ?? []).slice(0, 3).map((issue: CompileIssue) =>
+            issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message
+          );
+          throw new Error([body.error ?? "Failed to save template.", ...issues].join(" "));
         }
 
-        const body = (await response.json()) as { template: EmailTemplate };
+        const body = (await response.json()) as { template: EmailTemplate; warnings?: CompileIssue[] };
         const savedTemplate = body.template;
         if (!savedTemplate?.id) {
           throw new Error("Template response was missing an ID.");
@@ -1281,7 +1300,11 @@ export function EmailTemplateBuilder({ template, onSaved }: BuilderProps) {
         }
         setHasLocalDraft(false);
         setAutosaveMessage("Synced to workspace");
-        setStatusMessage("Saved to workspace");
+        setStatusMessage(
+          body.warnings?.length
+            ? `Draft saved. ${body.warnings.map((warning) => warning.message).join(" ")}`
+            : "Draft saved. Publish it from Versions to send it."
+        );
         setTimeout(() => setStatusMessage(null), 4000);
         setLastSyncedAt(Date.now());
 
@@ -1665,6 +1688,16 @@ export function EmailTemplateBuilder({ template, onSaved }: BuilderProps) {
             </button>
           </div>
 
+          {template?.id && (
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="flex items-center gap-2 rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400"
+            >
+              <History className="h-4 w-4" />
+              Versions
+            </button>
+          )}
+
           <button
             onClick={handleSave}
             disabled={isPending}
@@ -1696,6 +1729,22 @@ export function EmailTemplateBuilder({ template, onSaved }: BuilderProps) {
         </div>
       )}
 
+      {templateUsage.length > 0 && (
+        <div className="border-b border-amber-200 bg-amber-50 px-6 py-2 text-sm text-amber-800">
+          Used by {[...new Set(templateUsage.map((step) => step.sequence.name))].join(", ")}.
+          {" "}Saving updates the draft; nothing changes for these sequences until you publish,
+          {" "}and steps pinned to a version keep sending it after that.
+        </div>
+      )}
+
+      {isHistoryOpen && template?.id && (
+        <VersionHistory
+          templateId={template.id}
+          onClose={() => setIsHistoryOpen(false)}
+          onRestored={() => window.location.reload()}
+        />
+      )}
+
       {/* Subject Line & Preheader Editor */}
       <SubjectPreheaderWithAutocomplete
         subjectLine={subjectLine}
@@ -12,6 +12,8 @@ export type EmailTemplate = {
   design_json?: unknown;
   subject_line?: string | null;
   preheader_text?: string | null;
+  current_version?: number;
+  published_version?: number | null;
   updated_at?: string;
 };
 
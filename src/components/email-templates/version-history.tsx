@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { X } from "lucide-react";
+import type { EmailTemplateVersionSummary } from "@/lib/services/email-templates";
+import type { DiffLine, TemplateDiff, TemplateDiffField } from "@/lib/email/template-diff";
+
+type VersionHistoryProps = {
+  templateId: string;
+  onClose: () => void;
+  onRestored: () => void;
+};
+
+const FIELD_LABELS: Record<TemplateDiffField, string> = {
+  subject_line: "Subject line",
+  preheader_text: "Preheader",
+  content: "Content",
+};
+
+const LINE_STYLES: Record<DiffLine["type"], string> = {
+  equal: "text-slate-500",
+  added: "bg-emerald-50 text-emerald-800",
+  removed: "bg-rose-50 text-rose-800",
+};
+
+const LINE_PREFIX: Record<DiffLine["type"], string> = { equal: " ", added: "+", removed: "-" };
+
+export function VersionHistory({ templateId, onClose, onRestored }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<EmailTemplateVersionSummary[]>([]);
+  const [note, setNote] = useState("");
+  const [comparison, setComparison] = useState<{ from: number; to: number; diff: TemplateDiff } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    const response = await fetch(`/api/email-templates/${templateId}/versions`);
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error ?? "Failed to load versions.");
+    return (body.versions ?? []) as EmailTemplateVersionSummary[];
+  }, [templateId]);
+
+  useEffect(() => {
+    loadVersions()
+      .then(setVersions)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load versions."));
+  }, [loadVersions]);
+
+  const draft = versions.find((version) => version.status === "draft");
+  const latestPublished = versions.find((version) => version.status === "published");
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handlePublish() {
+    run(async () => {
+      const response = await fetch(`/api/email-templates/${templateId}/publish`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ note }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.error ?? "Failed to publish.");
+      setNote("");
+      setVersions(await loadVersions());
+    });
+  }
+
+  function handleRestore(versionNumber: number) {
+    const message = draft
+      ? `Restore v${versionNumber}? Your unpublished draft (v${draft.version_number}) will be discarded.`
+      : `Restore v${versionNumber} as a new published version?`;
+    if (!window.confirm(message)) return;
+
+    run(async () => {
+      const response = await fetch(`/api/email-templates/${templateId}/rollback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version: versionNumber }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.error ?? "Failed to restore version.");
+      onRestored();
+    });
+  }
+
+  function handleCompare(from: number, to: number) {
+    run(async () => {
+      const response = await fetch(`/api/email-templates/${templateId}/versions/diff?from=${from}&to=${to}`);
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.error ?? "Failed to compare versions.");
+      setComparison({ from, to, diff: body.diff });
+    });
+  }
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-50 flex w-full max-w-xl flex-col border-l border-slate-200 bg-white shadow-xl">
+      <div className="flex items-center justify-between border-b border-slate-200 px-5 py-4">
+        <h2 className="text-base font-semibold text-slate-900">Versions</h2>
+        <button onClick={onClose} className="rounded-lg p-1 text-slate-500 hover:bg-slate-100" aria-label="Close">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 space-y-4 overflow-y-auto p-5">
+        {error && (
+          <p className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-600">{error}</p>
+        )}
+
+        {draft ? (
+          <div className="space-y-2 rounded-xl border border-amber-200 bg-amber-50 p-4">
+            <p className="text-sm text-amber-800">
+              Draft v{draft.version_number} has unpublished changes. Sequences keep sending
+              {latestPublished ? ` v${latestPublished.version_number}` : " nothing"} until you publish.
+            </p>
+            <input
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="What changed? (optional)"
+              className="w-full rounded-lg border border-amber-200 bg-white px-3 py-1.5 text-sm"
+            />
+            <button
+              onClick={handlePublish}
+              disabled={busy}
+              className="rounded-lg bg-slate-900 px-3 py-1.5 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              Publish v{draft.version_number}
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">No unpublished changes. Saving starts a new draft.</p>
+        )}
+
+        <ul className="divide-y divide-slate-100 rounded-xl border border-slate-200">
+          {versions.map((version, index) => {
+            const previous = versions[index + 1];
+            return (
+              <li key={version.id} className="flex items-center justify-between gap-3 px-4 py-3 text-sm">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-slate-900">v{version.version_number}</span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs ${
+                        version.status === "draft" ? "bg-amber-100 text-amber-700" : "bg-emerald-100 text-emerald-700"
+                      }`}
+                    >
+                      {version.status}
+                    </span>
+                    {version.id === latestPublished?.id && <span className="text-xs text-slate-400">live</span>}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {version.change_note || "No note"} ·{" "}
+                    {new Date(version.published_at ?? version.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  {previous && (
+                    <button
+                      onClick={() => handleCompare(previous.version_number, version.version_number)}
+                      disabled={busy}
+                      className="rounded-lg border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 hover:border-sky-200 hover:text-sky-600 disabled:opacity-50"
+                    >
+                      Compare
+                    </button>
+                  )}
+                  {version.status === "published" && version.id !== latestPublished?.id && (
+                    <button
+                      onClick={() => handleRestore(version.version_number)}
+                      disabled={busy}
+                      className="rounded-lg border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 hover:border-sky-200 hover:text-sky-600 disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {comparison && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-slate-900">
+              v{comparison.from} → v{comparison.to}
+            </h3>
+            {comparison.diff.changed.length === 0 && (
+              <p className="text-sm text-slate-500">These versions are identical.</p>
+            )}
+            {comparison.diff.changed.map((field) => (
+              <div key={field}>
+                <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-400">{FIELD_LABELS[field]}</p>
+                <pre className="max-h-80 overflow-auto rounded-lg border border-slate-200 text-xs">
+                  {comparison.diff[field].map((line, lineIndex) => (
+                    <div key={lineIndex} className={`whitespace-pre-wrap px-2 ${LINE_STYLES[line.type]}`}>
+                      {LINE_PREFIX[line.type]} {line.text}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
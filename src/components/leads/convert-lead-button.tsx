@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+type ConvertLeadButtonProps = {
+  leadId: string;
+  leadCompany: string;
+  convertedContactId: string | null;
+  convertedAccountId: string | null;
+};
+
+export function ConvertLeadButton({
+  leadId,
+  leadCompany,
+  convertedContactId,
+  convertedAccountId,
+}: ConvertLeadButtonProps) {
+  const router = useRouter();
+  const [withOpportunity, setWithOpportunity] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (convertedContactId) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <Link
+          href={`/dashboard/contacts/${convertedContactId}`}
+          className="rounded-lg border border-gray-200 bg-white px-3 py-2 font-semibold text-gray-700 hover:border-chimera-teal/40 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-200"
+        >
+          View contact
+        </Link>
+        {convertedAccountId ? (
+          <Link
+            href={`/dashboard/accounts/${convertedAccountId}`}
+            className="rounded-lg border border-gray-200 bg-white px-3 py-2 font-semibold text-gray-700 hover:border-chimera-teal/40 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-200"
+          >
+            View account
+          </Link>
+        ) : null}
+      </div>
+    );
+  }
+
+  const handleConvert = async () => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/leads/${leadId}/convert`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          withOpportunity ? { opportunity: { name: `${leadCompany} deal` } } : {}
+        ),
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? "Failed to convert lead");
+      }
+
+      router.refresh();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Could not convert lead.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleConvert}
+          disabled={isSubmitting}
+          className="rounded-lg bg-chimera-teal px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-chimera-teal/90 disabled:opacity-60"
+        >
+          {isSubmitting ? "Converting..." : "Convert"}
+        </button>
+        <label className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={withOpportunity}
+            onChange={(event) => setWithOpportunity(event.target.checked)}
+            disabled={isSubmitting}
+          />
+          Open opportunity
+        </label>
+      </div>
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+    </div>
+  );
+}
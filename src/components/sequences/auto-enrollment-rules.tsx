@@ -246,6 +246,10 @@ export function AutoEnrollmentRules() {
                                         <SelectItem value="lead_status_change">Status Changed</SelectItem>
                                         <SelectItem value="lead_score_threshold">Score Threshold</SelectItem>
                                         <SelectItem value="form_submission">Form Submission</SelectItem>
+                                        <SelectItem value="tag_added">Tag Added</SelectItem>
+                                        <SelectItem value="field_updated">Field Updated</SelectItem>
+                                        <SelectItem value="webhook">Inbound Webhook</SelectItem>
+                                        <SelectItem value="scheduled">Scheduled</SelectItem>
                                     </SelectContent>
                                 </Select>
                             </div>
@@ -338,6 +342,11 @@ export function AutoEnrollmentRules() {
                                     <TableCell className="font-medium">{rule.name}</TableCell>
                                     <TableCell>
                                         <Badge variant="secondary">{rule.trigger_type.replace(/_/g, ' ')}</Badge>
+                                        {rule.trigger_type === 'webhook' && (
+                                            <p className="mt-1 text-xs text-muted-foreground font-mono break-all">
+                                                /api/webhooks/auto-enrollment/{rule.id}
+                                            </p>
+                                        )}
                                     </TableCell>
                                     <TableCell>{rule.template?.name || 'Unknown'}</TableCell>
                                     <TableCell>
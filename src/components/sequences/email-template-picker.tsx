@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface TemplateOption {
+  id: string;
+  name: string;
+  published_version?: number | null;
+}
+
+interface VersionOption {
+  version_number: number;
+  status: 'draft' | 'published';
+  subject_line: string | null;
+  change_note: string | null;
+  published_at: string | null;
+}
+
+interface EmailTemplatePickerProps {
+  templateId?: string | null;
+  version?: number | null;
+  onChange: (selection: { email_template_id: string | null; email_template_version: number | null }) => void;
+}
+
+const LATEST = 'latest';
+
+export function EmailTemplatePicker({ templateId, version, onChange }: EmailTemplatePickerProps) {
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [versions, setVersions] = useState<VersionOption[]>([]);
+
+  useEffect(() => {
+    fetch('/api/email-templates')
+      .then((res) => res.json())
+      .then((data) => setTemplates(data.templates || []))
+      .catch((err) => console.error('Failed to load email templates:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!templateId) return;
+
+    fetch(`/api/email-templates/${templateId}/versions`)
+      .then((res) => res.json())
+      // Drafts are never sent, so only published versions can be pinned
+      .then((data) => setVersions((data.versions || []).filter((option: VersionOption) => option.status === 'published')))
+      .catch((err) => console.error('Failed to load template versions:', err));
+  }, [templateId]);
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <Label className="text-xs">Email Template</Label>
+        <Select
+          value={templateId || undefined}
+          onValueChange={(id) => {
+            // New selections pin the current published version so later publishes don't reach this step
+            const selected = templates.find((template) => template.id === id);
+            setVersions([]);
+            onChange({ email_template_id: id, email_template_version: selected?.published_version || null });
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Choose a template" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label className="text-xs">Version</Label>
+        <Select
+          value={version ? String(version) : LATEST}
+          disabled={!templateId}
+          onValueChange={(value) => onChange({
+            email_template_id: templateId || null,
+            email_template_version: value === LATEST ? null : Number(value),
+          })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={LATEST}>Latest published</SelectItem>
+            {versions.map((option) => (
+              <SelectItem key={option.version_number} value={String(option.version_number)}>
+                v{option.version_number} · {option.change_note || new Date(option.published_at!).toLocaleDateString()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/components/ui/use-toast';
+import type { FailedExecution } from '@/lib/services/sequence-retry';
+
+export function FailedExecutions() {
+    const [executions, setExecutions] = useState<FailedExecution[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [replayingId, setReplayingId] = useState<string | null>(null);
+    const { toast } = useToast();
+
+    const fetchExecutions = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await fetch('/api/sequences/executions/failed');
+            if (!response.ok) throw new Error(`Request failed with ${response.status}`);
+
+            const data = await response.json();
+            setExecutions(data.executions || []);
+        } catch (error) {
+            console.error('Error fetching failed executions:', error);
+            toast({
+                title: 'Error',
+                description: 'Failed to load failed executions',
+                variant: 'destructive',
+            });
+        } finally {
+            setLoading(false);
+        }
+    }, [toast]);
+
+    useEffect(() => {
+        fetchExecutions();
+    }, [fetchExecutions]);
+
+    const handleReplay = async (executionId: string) => {
+        setReplayingId(executionId);
+        try {
+            const response = await fetch(`/api/sequences/executions/${executionId}/replay`, {
+                method: 'POST',
+            });
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || 'Replay failed');
+            }
+
+            toast({
+                title: 'Success',
+                description: 'Step queued to run again',
+            });
+            fetchExecutions();
+        } catch (error) {
+            console.error('Error replaying execution:', error);
+            toast({
+                title: 'Error',
+                description: error instanceof Error ? error.message : 'Replay failed',
+                variant: 'destructive',
+            });
+        } finally {
+            setReplayingId(null);
+        }
+    };
+
+    return (
+        <div className="border rounded-md">
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Lead</TableHead>
+                        <TableHead>Sequence</TableHead>
+                        <TableHead>Step</TableHead>
+                        <TableHead>Error</TableHead>
+                        <TableHead>Attempts</TableHead>
+                        <TableHead>Failed On</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {loading ? (
+                        <TableRow>
+                            <TableCell colSpan={7} className="h-24 text-center">
+                                <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                            </TableCell>
+                        </TableRow>
+                    ) : executions.length === 0 ? (
+                        <TableRow>
+                            <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                                No failed executions.
+                            </TableCell>
+                        </TableRow>
+                    ) : (
+                        executions.map((item) => (
+                            <TableRow key={item.executionId}>
+                                <TableCell className="font-medium">{item.leadEmail || item.leadId}</TableCell>
+                                <TableCell>{item.templateName || '—'}</TableCell>
+                                <TableCell>
+                                    {item.stepNumber ?? '—'}
+                                    {item.stepType && (
+                                        <Badge variant="outline" className="ml-2">{item.stepType}</Badge>
+                                    )}
+                                </TableCell>
+                                <TableCell className="max-w-[320px]">
+                                    {item.errorCode && (
+                                        <Badge variant="destructive" className="mr-2">{item.errorCode}</Badge>
+                                    )}
+                                    <span className="text-sm text-muted-foreground">{item.errorMessage}</span>
+                                </TableCell>
+                                <TableCell>{item.attempts}</TableCell>
+                                <TableCell>
+                                    {item.failedAt ? format(new Date(item.failedAt), 'MMM d, yyyy HH:mm') : '—'}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => handleReplay(item.executionId)}
+                                        disabled={replayingId === item.executionId}
+                                    >
+                                        {replayingId === item.executionId ? (
+                                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        ) : (
+                                            <RotateCcw className="mr-2 h-4 w-4" />
+                                        )}
+                                        Replay
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        ))
+                    )}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
@@ -143,8 +143,11 @@ export function SequenceBuilder({ template, onSave }: SequenceBuilderProps) {
   const [templateDescription, setTemplateDescription] = useState(template?.description || '');
   const [templateSettings, setTemplateSettings] = useState(template?.settings || {
     pauseOnReply: true,
+    replyAction: 'pause' as const,
     pauseOnMeeting: true,
+    meetingAction: 'pause' as const,
     skipWeekends: true,
+    skipHolidays: true,
     dailyLimit: 50,
     timezone: 'America/New_York',
   });
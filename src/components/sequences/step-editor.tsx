@@ -9,6 +9,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { SequenceStep, TaskPriority, LinkedInStepConfig } from '@/lib/types/sequences';
 import { LinkedInStepEditor } from './linkedin-step-editor';
+import { EmailTemplatePicker } from './email-template-picker';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 interface StepEditorProps {
@@ -21,6 +22,7 @@ interface StepEditorProps {
 export function StepEditor({ step, isNew, onSave, onCancel }: StepEditorProps) {
   const [editedStep, setEditedStep] = useState<SequenceStep>(step);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [useSavedTemplate, setUseSavedTemplate] = useState(Boolean(step.email_template_id));
 
   const updateStep = (updates: Partial<SequenceStep>) => {
     setEditedStep({ ...editedStep, ...updates });
@@ -40,6 +42,12 @@ export function StepEditor({ step, isNew, onSave, onCancel }: StepEditorProps) {
 
     switch (editedStep.step_type) {
       case 'email':
+        if (useSavedTemplate) {
+          if (!editedStep.email_template_id) {
+            newErrors.email_template_id = 'Choose an email template';
+          }
+          break;
+        }
         if (!editedStep.email_subject) {
           newErrors.email_subject = 'Subject is required';
         }
@@ -84,7 +92,9 @@ export function StepEditor({ step, isNew, onSave, onCancel }: StepEditorProps) {
 
   const handleSave = () => {
     if (validate()) {
-      onSave(editedStep);
+      onSave(useSavedTemplate
+        ? editedStep
+        : { ...editedStep, email_template_id: null, email_template_version: null });
     }
   };
 
@@ -161,7 +171,38 @@ export function StepEditor({ step, isNew, onSave, onCancel }: StepEditorProps) {
         {editedStep.step_type === 'email' && (
           <>
             <div className="mb-4">
-              <Label htmlFor="email_subject">Subject Line *</Label>
+              <Label className="text-xs">Content</Label>
+              <Select
+                value={useSavedTemplate ? 'template' : 'inline'}
+                onValueChange={(value) => setUseSavedTemplate(value === 'template')}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="inline">Write email</SelectItem>
+                  <SelectItem value="template">Saved email template</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {useSavedTemplate && (
+              <div className="mb-4">
+                <EmailTemplatePicker
+                  templateId={editedStep.email_template_id}
+                  version={editedStep.email_template_version}
+                  onChange={updateStep}
+                />
+                {errors.email_template_id && (
+                  <p className="text-xs text-red-500 mt-1">{errors.email_template_id}</p>
+                )}
+              </div>
+            )}
+
+            <div className="mb-4">
+              <Label htmlFor="email_subject">
+                {useSavedTemplate ? 'Subject Line (overrides the template)' : 'Subject Line *'}
+              </Label>
               <Input
                 id="email_subject"
                 value={editedStep.email_subject || ''}
@@ -174,20 +215,22 @@ export function StepEditor({ step, isNew, onSave, onCancel }: StepEditorProps) {
               )}
             </div>
 
-            <div className="mb-4">
-              <Label htmlFor="email_body">Email Body *</Label>
-              <Textarea
-                id="email_body"
-                value={editedStep.email_body || ''}
-                onChange={(e) => updateStep({ email_body: e.target.value })}
-                placeholder="Hi {first_name},&#10;&#10;I noticed that..."
-                rows={10}
-                className={errors.email_body ? 'border-red-500' : ''}
-              />
-              {errors.email_body && (
-                <p className="text-xs text-red-500 mt-1">{errors.email_body}</p>
-              )}
-            </div>
+            {!useSavedTemplate && (
+              <div className="mb-4">
+                <Label htmlFor="email_body">Email Body *</Label>
+                <Textarea
+                  id="email_body"
+                  value={editedStep.email_body || ''}
+                  onChange={(e) => updateStep({ email_body: e.target.value })}
+                  placeholder="Hi {first_name},&#10;&#10;I noticed that..."
+                  rows={10}
+                  className={errors.email_body ? 'border-red-500' : ''}
+                />
+                {errors.email_body && (
+                  <p className="text-xs text-red-500 mt-1">{errors.email_body}</p>
+                )}
+              </div>
+            )}
 
             {getVariableHelp()}
 
@@ -53,6 +53,29 @@ export function TemplateSettings({ settings, onChange }: TemplateSettingsProps)
           />
         </div>
 
+        {settings.pauseOnReply && (
+          <div>
+            <Label htmlFor="replyAction" className="text-sm">
+              When a Reply Arrives
+            </Label>
+            <Select
+              value={settings.replyAction ?? 'pause'}
+              onValueChange={(value) => updateSetting('replyAction', value)}
+            >
+              <SelectTrigger id="replyAction" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pause">Pause enrollment</SelectItem>
+                <SelectItem value="stop">Stop enrollment</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              Paused enrollments can be resumed by a rep
+            </p>
+          </div>
+        )}
+
         <div className="flex items-center justify-between">
           <div>
             <Label htmlFor="pauseOnMeeting" className="text-sm">
@@ -69,6 +92,26 @@ export function TemplateSettings({ settings, onChange }: TemplateSettingsProps)
           />
         </div>
 
+        {settings.pauseOnMeeting && (
+          <div>
+            <Label htmlFor="meetingAction" className="text-sm">
+              When a Meeting is Booked
+            </Label>
+            <Select
+              value={settings.meetingAction ?? 'pause'}
+              onValueChange={(value) => updateSetting('meetingAction', value)}
+            >
+              <SelectTrigger id="meetingAction" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pause">Pause enrollment</SelectItem>
+                <SelectItem value="stop">Stop enrollment</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         <div className="flex items-center justify-between">
           <div>
             <Label htmlFor="skipWeekends" className="text-sm">
@@ -84,6 +127,22 @@ export function TemplateSettings({ settings, onChange }: TemplateSettingsProps)
             onCheckedChange={(checked) => updateSetting('skipWeekends', checked)}
           />
         </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="skipHolidays" className="text-sm">
+              Skip Holidays
+            </Label>
+            <p className="text-xs text-gray-500">
+              Don&apos;t send on holidays in the lead&apos;s country
+            </p>
+          </div>
+          <Switch
+            id="skipHolidays"
+            checked={settings.skipHolidays ?? true}
+            onCheckedChange={(checked) => updateSetting('skipHolidays', checked)}
+          />
+        </div>
       </div>
 
       {/* Daily Limit */}
@@ -126,7 +185,7 @@ export function TemplateSettings({ settings, onChange }: TemplateSettingsProps)
           </SelectContent>
         </Select>
         <p className="text-xs text-gray-500 mt-1">
-          Timezone for scheduling and time windows
+          Used for leads whose own timezone is unknown
         </p>
       </div>
     </div>
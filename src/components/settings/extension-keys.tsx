@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Plus, KeyRound, Copy, Check, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogDescription,
+} from "@/components/ui/dialog";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ExtensionApiKey } from "@/lib/services/extension-api-keys";
+
+interface LinkedInAccount {
+    id: string;
+    account_name: string;
+    linkedin_email: string | null;
+    is_connected: boolean | null;
+    last_connected_at: string | null;
+}
+
+const NEW_ACCOUNT = "new";
+
+export function ExtensionKeys() {
+    const [keys, setKeys] = useState<ExtensionApiKey[]>([]);
+    const [accounts, setAccounts] = useState<LinkedInAccount[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [accountChoice, setAccountChoice] = useState<string>(NEW_ACCOUNT);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [issuedToken, setIssuedToken] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        fetchData();
+    }, []);
+
+    async function fetchData() {
+        try {
+            const res = await fetch("/api/settings/extension-keys");
+            const data = await res.json();
+            setKeys(data.keys || []);
+            setAccounts(data.accounts || []);
+        } catch (error) {
+            console.error("Failed to fetch extension keys", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }
+
+    function handleDialogChange(open: boolean) {
+        setIsDialogOpen(open);
+        if (open) {
+            setAccountChoice(accounts[0]?.id ?? NEW_ACCOUNT);
+        } else {
+            setIssuedToken(null);
+            setCopied(false);
+        }
+    }
+
+    async function handleIssueKey(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        setIsSubmitting(true);
+        const formData = new FormData(e.currentTarget);
+
+        try {
+            const res = await fetch("/api/settings/extension-keys", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(
+                    accountChoice === NEW_ACCOUNT
+                        ? {
+                            name: formData.get("name"),
+                            accountName: formData.get("accountName"),
+                            linkedinEmail: formData.get("linkedinEmail") || undefined,
+                        }
+                        : { name: formData.get("name"), linkedinAccountId: accountChoice }
+                ),
+            });
+
+            if (!res.ok) throw new Error(await res.text());
+            const data = await res.json();
+            setIssuedToken(data.token);
+            fetchData();
+        } catch (error) {
+            alert(error instanceof Error && error.message ? error.message : "Failed to create key");
+        } finally {
+            setIsSubmitting(false);
+        }
+    }
+
+    async function handleRevoke(key: ExtensionApiKey) {
+        if (!window.confirm(`Revoke "${key.name}"? The extension using it will stop syncing immediately.`)) return;
+
+        try {
+            const res = await fetch(`/api/settings/extension-keys/${key.id}`, { method: "DELETE" });
+            if (!res.ok) throw new Error("Failed");
+            fetchData();
+        } catch {
+            alert("Failed to revoke key");
+        }
+    }
+
+    function copyToken() {
+        if (!issuedToken) return;
+        navigator.clipboard.writeText(issuedToken);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    }
+
+    if (isLoading) return <div className="p-8 text-center text-muted-foreground">Loading settings...</div>;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                    <h3 className="text-lg font-medium">Extension API Keys</h3>
+                    <p className="text-sm text-muted-foreground">
+                        Each key connects the Chrome extension to one of your LinkedIn accounts. Paste it into the
+                        extension settings; tasks it completes are recorded against that account.
+                    </p>
+                </div>
+                <Dialog open={isDialogOpen} onOpenChange={handleDialogChange}>
+                    <DialogTrigger asChild>
+                        <Button className="gap-2">
+                            <Plus className="h-4 w-4" /> Create Key
+                        </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                        <DialogHeader>
+                            <DialogTitle>{issuedToken ? "Copy your key" : "Create Extension Key"}</DialogTitle>
+                            <DialogDescription>
+                                {issuedToken
+                                    ? "This is the only time the key is shown. Store it in the extension now."
+                                    : "Choose the LinkedIn account the extension will act as."}
+                            </DialogDescription>
+                        </DialogHeader>
+                        {issuedToken ? (
+                            <div className="space-y-4">
+                                <div className="flex items-center gap-2">
+                                    <Input value={issuedToken} readOnly className="font-mono text-xs" />
+                                    <Button variant="outline" size="icon" onClick={copyToken} aria-label="Copy key">
+                                        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                                    </Button>
+                                </div>
+                                <Button className="w-full" onClick={() => handleDialogChange(false)}>
+                                    Done
+                                </Button>
+                            </div>
+                        ) : (
+                            <form onSubmit={handleIssueKey} className="space-y-4">
+                                <div className="space-y-2">
+                                    <Label>Key Name</Label>
+                                    <Input name="name" placeholder="Work laptop" required />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>LinkedIn Account</Label>
+                                    <Select value={accountChoice} onValueChange={setAccountChoice}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {accounts.map((account) => (
+                                                <SelectItem key={account.id} value={account.id}>
+                                                    {account.account_name}
+                                                    {account.linkedin_email ? ` (${account.linkedin_email})` : ""}
+                                                </SelectItem>
+                                            ))}
+                                            <SelectItem value={NEW_ACCOUNT}>Add a LinkedIn account…</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                {accountChoice === NEW_ACCOUNT && (
+                                    <>
+                                        <div className="space-y-2">
+                                            <Label>Account Name</Label>
+                                            <Input name="accountName" placeholder="Jane Doe" required />
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label>LinkedIn Email (optional)</Label>
+                                            <Input name="linkedinEmail" type="email" placeholder="jane@acme.com" />
+                                        </div>
+                                    </>
+                                )}
+                                <Button type="submit" disabled={isSubmitting} className="w-full">
+                                    {isSubmitting ? "Creating..." : "Create Key"}
+                                </Button>
+                            </form>
+                        )}
+                    </DialogContent>
+                </Dialog>
+            </div>
+
+            <div className="grid gap-4">
+                {keys.length === 0 && (
+                    <div className="flex h-[200px] flex-col items-center justify-center rounded-lg border border-dashed bg-muted/50 text-center">
+                        <KeyRound className="mb-4 h-8 w-8 text-muted-foreground" />
+                        <h3 className="text-lg font-semibold">No extension keys</h3>
+                        <p className="text-sm text-muted-foreground">
+                            Create a key to connect the Chrome extension.
+                        </p>
+                    </div>
+                )}
+                {keys.map((key) => (
+                    <Card key={key.id} className="flex flex-row items-center justify-between p-4">
+                        <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                                <h4 className="font-medium">{key.name}</h4>
+                                <Badge variant={key.revoked_at ? "secondary" : "default"} className="h-5 px-1.5 text-xs">
+                                    {key.revoked_at ? "Revoked" : "Active"}
+                                </Badge>
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                                <span className="font-mono">{key.token_prefix}…</span>
+                                {" · "}
+                                {key.linkedin_account?.account_name ?? "Unknown account"}
+                                {" · "}
+                                {key.revoked_at
+                                    ? `Revoked ${new Date(key.revoked_at).toLocaleDateString()}`
+                                    : key.last_used_at
+                                        ? `Last used ${new Date(key.last_used_at).toLocaleString()}`
+                                        : "Never used"}
+                            </p>
+                        </div>
+                        {!key.revoked_at && (
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleRevoke(key)}
+                                aria-label="Revoke key"
+                            >
+                                <Trash2 className="h-4 w-4 text-muted-foreground" />
+                            </Button>
+                        )}
+                    </Card>
+                ))}
+            </div>
+        </div>
+    );
+}
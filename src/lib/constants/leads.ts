@@ -6,6 +6,7 @@ export const LEAD_STATUSES = [
   { value: "negotiation", label: "Negotiation" },
   { value: "closed_won", label: "Closed Won" },
   { value: "closed_lost", label: "Closed Lost" },
+  { value: "converted", label: "Converted" },
   { value: "spam", label: "Spam" },
 ] as const;
 
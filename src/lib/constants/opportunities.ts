@@ -0,0 +1,23 @@
+export const OPPORTUNITY_STATUSES = [
+  { value: "open", label: "Open" },
+  { value: "won", label: "Won" },
+  { value: "lost", label: "Lost" },
+] as const;
+
+export type OpportunityStatus = (typeof OPPORTUNITY_STATUSES)[number]["value"];
+
+export type StageType = OpportunityStatus;
+
+// Stages given to an organization's first pipeline
+export const DEFAULT_PIPELINE_STAGES: Array<{
+  name: string;
+  probability: number;
+  stage_type: StageType;
+}> = [
+  { name: "Qualification", probability: 10, stage_type: "open" },
+  { name: "Discovery", probability: 25, stage_type: "open" },
+  { name: "Proposal", probability: 50, stage_type: "open" },
+  { name: "Negotiation", probability: 75, stage_type: "open" },
+  { name: "Closed Won", probability: 100, stage_type: "won" },
+  { name: "Closed Lost", probability: 0, stage_type: "lost" },
+];
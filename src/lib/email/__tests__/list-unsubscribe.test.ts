@@ -0,0 +1,112 @@
+/**
+ * Test Suite for List-Unsubscribe support
+ * Verifies the RFC 8058 headers, signed marketing URLs, one-click detection and footer links
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  buildMarketingUnsubscribeUrl,
+  buildSequenceUnsubscribeUrl,
+  injectUnsubscribeFooter,
+  isOneClickRequest,
+  listUnsubscribeHeaders,
+  verifyMarketingUnsubscribe,
+} from '../list-unsubscribe';
+
+const ENV = { ...process.env };
+
+beforeEach(() => {
+  process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com';
+  process.env.MARKETING_UNSUBSCRIBE_SECRET = 'test-secret';
+  delete process.env.EMAIL_UNSUBSCRIBE_MAILTO;
+});
+
+afterEach(() => {
+  process.env = { ...ENV };
+});
+
+describe('listUnsubscribeHeaders', () => {
+  it('should offer one-click unsubscribe at the URL', () => {
+    expect(listUnsubscribeHeaders('https://app.example.com/u?token=abc')).toEqual({
+      'List-Unsubscribe': '<https://app.example.com/u?token=abc>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+  });
+
+  it('should add a mailto target when one is configured', () => {
+    process.env.EMAIL_UNSUBSCRIBE_MAILTO = 'unsubscribe@example.com';
+
+    expect(listUnsubscribeHeaders('https://app.example.com/u')['List-Unsubscribe']).toBe(
+      '<https://app.example.com/u>, <mailto:unsubscribe@example.com?subject=unsubscribe>'
+    );
+  });
+});
+
+describe('unsubscribe URLs', () => {
+  it('should encode the sequence token', () => {
+    expect(buildSequenceUnsubscribeUrl('a+b/c')).toBe(
+      'https://app.example.com/api/sequences/unsubscribe?token=a%2Bb%2Fc'
+    );
+  });
+
+  it('should sign marketing URLs for the audience member and channel', () => {
+    const url = new URL(buildMarketingUnsubscribeUrl('audience-1', 'sms'));
+    const token = url.searchParams.get('token');
+
+    expect(url.pathname).toBe('/api/unsubscribe');
+    expect(url.searchParams.get('audienceId')).toBe('audience-1');
+    expect(url.searchParams.get('channel')).toBe('sms');
+    expect(verifyMarketingUnsubscribe('audience-1', 'sms', token)).toBe(true);
+    expect(verifyMarketingUnsubscribe('audience-1', 'email', token)).toBe(false);
+    expect(verifyMarketingUnsubscribe('audience-2', 'sms', token)).toBe(false);
+    expect(verifyMarketingUnsubscribe('audience-1', 'sms', null)).toBe(false);
+  });
+});
+
+describe('isOneClickRequest', () => {
+  it('should accept the RFC 8058 form body', async () => {
+    const request = new Request('https://app.example.com/u', {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: 'List-Unsubscribe=One-Click',
+    });
+
+    await expect(isOneClickRequest(request)).resolves.toBe(true);
+  });
+
+  it('should accept a multipart body', async () => {
+    const form = new FormData();
+    form.set('List-Unsubscribe', 'One-Click');
+
+    await expect(isOneClickRequest(new Request('https://app.example.com/u', { method: 'POST', body: form })))
+      .resolves.toBe(true);
+  });
+
+  it('should reject any other body', async () => {
+    const request = new Request('https://app.example.com/u', { method: 'POST', body: 'confirm=yes' });
+
+    await expect(isOneClickRequest(request)).resolves.toBe(false);
+  });
+});
+
+describe('injectUnsubscribeFooter', () => {
+  const url = 'https://app.example.com/u?a=1&b=2';
+
+  it('should add the link before the closing body tag and to the text part', () => {
+    const result = injectUnsubscribeFooter({ html: '<html><body><p>Hi</p></body></html>', text: 'Hi' }, url);
+
+    expect(result.html).toMatch(/<a href="https:\/\/app\.example\.com\/u\?a=1&amp;b=2"[^>]*>Unsubscribe<\/a>\.<\/p><\/body><\/html>$/);
+    expect(result.text).toBe(`Hi\n\nUnsubscribe: ${url}`);
+  });
+
+  it('should leave content that already links to the URL alone', () => {
+    const html = '<p><a href="https://app.example.com/u?a=1&amp;b=2">Opt out</a></p>';
+    const text = `Opt out: ${url}`;
+
+    expect(injectUnsubscribeFooter({ html, text }, url)).toEqual({ html, text });
+  });
+
+  it('should skip parts that are missing', () => {
+    expect(injectUnsubscribeFooter({ html: null, text: null }, url)).toEqual({ html: null, text: null });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Test Suite for the Template Engine
+ * Verifies variables, filters, conditionals, loops, strict mode and the lead context
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildTemplateContext,
+  extractTemplateVariables,
+  renderTemplate,
+  TemplateRenderError,
+} from '../template-engine';
+
+const render = (template: string, context: Record<string, unknown>) => renderTemplate(template, context).output;
+
+describe('renderTemplate', () => {
+  it('should substitute variables in either case style and legacy single braces', () => {
+    const context = { first_name: 'Jane', account: { companyName: 'Acme' } };
+
+    expect(render('Hi {{firstName}} at {{account.company_name}}', context)).toBe('Hi Jane at Acme');
+    expect(render('Hi {first_name}', context)).toBe('Hi Jane');
+  });
+
+  it('should apply filters left to right and fall back to defaults', () => {
+    const context = { company: 'acme widgets, Inc.', name: '', tags: ['a', 'b'] };
+
+    expect(render('{{company | first_word | capitalize}}', context)).toBe('Acme');
+    expect(render('{{company | title}}', context)).toBe('Acme Widgets, Inc.');
+    expect(render('{{name|default:"there"}}', context)).toBe('there');
+    expect(render('{{tags | join:" / "}}', context)).toBe('a / b');
+    expect(render('{{company | truncate:8}}', context)).toBe('acme wi…');
+    expect(render('{{when | date:"MMMM D, YYYY"}}', { when: '2026-03-05T12:00:00Z' })).toBe('March 5, 2026');
+  });
+
+  it('should render conditionals and loops', () => {
+    const context = {
+      account: { industry: 'SaaS' },
+      tools: [{ name: 'Slack' }, { name: 'Jira' }],
+      empty: [],
+    };
+
+    expect(render('{{#if account.industry}}In {{account.industry}}{{else}}Hi{{/if}}', context)).toBe('In SaaS');
+    expect(render('{{#unless account.industry}}none{{else}}some{{/unless}}', context)).toBe('some');
+    expect(render('{{#each tools}}{{@index}}:{{name}}{{#unless @last}}, {{/unless}}{{/each}}', context))
+      .toBe('0:Slack, 1:Jira');
+    expect(render('{{#each empty}}x{{else}}nothing{{/each}}', context)).toBe('nothing');
+  });
+
+  it('should report missing variables and throw in strict mode', () => {
+    const result = renderTemplate('Hi {{first_name}} from {{company|default:"us"}}', {});
+
+    expect(result).toEqual({ output: 'Hi  from us', missing: ['first_name'] });
+    expect(() => renderTemplate('Hi {{first_name}}', {}, { strict: true })).toThrow(TemplateRenderError);
+  });
+
+  it('should escape values for HTML and keep unresolved tags for previews', () => {
+    expect(renderTemplate('<b>{{name}}</b>', { name: '<Tom & "Jerry">' }, { escapeHtml: true }).output)
+      .toBe('<b>&lt;Tom &amp; &quot;Jerry&quot;&gt;</b>');
+    expect(renderTemplate('Hi {{ first_name }}', {}, { keepUnresolved: true }).output).toBe('Hi {{first_name}}');
+  });
+
+  it('should read tags whose quotes were entity-encoded by the HTML compiler', () => {
+    expect(render('{{name|default:&quot;there&quot;}}', {})).toBe('there');
+  });
+});
+
+describe('extractTemplateVariables', () => {
+  it('should list variables outside loop bodies, including conditions', () => {
+    expect(extractTemplateVariables(
+      '{{first_name}} {{#if account.industry}}{{#each tools}}{{this}}{{@index}}{{/each}}{{/if}} {legacy}'
+    )).toEqual(['first_name', 'account.industry', 'tools', 'legacy']);
+  });
+});
+
+describe('buildTemplateContext', () => {
+  it('should expose lead fields, split names and namespaced sources', () => {
+    const context = buildTemplateContext({
+      lead: {
+        name: 'Jane van Doe',
+        company: 'Acme',
+        apollo_data: { seniority: 'vp' },
+        account: { name: 'Acme Corp' },
+      },
+      sender: { name: 'Sam' },
+    });
+
+    expect(render('{{first_name}}|{{last_name}}|{{lead.company}}', context)).toBe('Jane|van Doe|Acme');
+    expect(render('{{account.name}}|{{enrichment.seniority}}|{{sender.name}}', context)).toBe('Acme Corp|vp|Sam');
+  });
+
+  it('should expose custom fields at the top level without shadowing lead fields', () => {
+    const context = buildTemplateContext({
+      lead: { name: 'Jane Doe', company: 'Acme' },
+      customFields: { pain_point: 'churn', company: 'Not Acme' },
+    });
+
+    expect(render('{{pain_point}}|{{custom.pain_point}}', context)).toBe('churn|churn');
+    expect(render('{{company}}|{{custom.company}}', context)).toBe('Acme|Not Acme');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Test Suite for tracking link signing
+ * Verifies that open and click tokens verify only for the ids and kinds they were issued for
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  buildClickUrl,
+  buildOpenUrl,
+  createLinkId,
+  isTrackingEnabled,
+  signTrackingId,
+  verifyTrackingToken,
+} from '../tracking-links';
+
+const ENV = { ...process.env };
+
+beforeEach(() => {
+  process.env.EMAIL_TRACKING_SECRET = 'test-secret';
+  process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com';
+});
+
+afterEach(() => {
+  process.env = { ...ENV };
+});
+
+describe('tracking link signing', () => {
+  it('should round-trip a signed id', () => {
+    const token = signTrackingId('click', 'abc123');
+
+    expect(token.startsWith('abc123.')).toBe(true);
+    expect(verifyTrackingToken('click', token)).toBe('abc123');
+  });
+
+  it('should keep ids that contain dots', () => {
+    const token = signTrackingId('open', 'exec.with.dots');
+
+    expect(verifyTrackingToken('open', token)).toBe('exec.with.dots');
+  });
+
+  it('should reject a token replayed as the other kind', () => {
+    const token = signTrackingId('open', 'exec-1');
+
+    expect(verifyTrackingToken('click', token)).toBeNull();
+  });
+
+  it('should reject tampered, malformed and missing tokens', () => {
+    const [, signature] = signTrackingId('click', 'link-1').split('.');
+
+    expect(verifyTrackingToken('click', `link-2.${signature}`)).toBeNull();
+    expect(verifyTrackingToken('click', 'link-1.short')).toBeNull();
+    expect(verifyTrackingToken('click', 'link-1')).toBeNull();
+    expect(verifyTrackingToken('click', `.${signature}`)).toBeNull();
+    expect(verifyTrackingToken('click', null)).toBeNull();
+  });
+
+  it('should reject tokens signed with another secret', () => {
+    const token = signTrackingId('click', 'link-1');
+    process.env.EMAIL_TRACKING_SECRET = 'rotated-secret';
+
+    expect(verifyTrackingToken('click', token)).toBeNull();
+  });
+
+  it('should refuse to sign and disable tracking without a secret', () => {
+    delete process.env.EMAIL_TRACKING_SECRET;
+
+    expect(isTrackingEnabled()).toBe(false);
+    expect(() => signTrackingId('open', 'exec-1')).toThrow('EMAIL_TRACKING_SECRET');
+    expect(verifyTrackingToken('open', 'exec-1.anything')).toBeNull();
+  });
+
+  it('should build open and click URLs on the app origin', () => {
+    const linkId = createLinkId();
+
+    expect(linkId).toMatch(/^[A-Za-z0-9_-]{12}$/);
+    expect(buildOpenUrl('exec-1')).toBe(
+      `https://app.example.com/api/sequences/track/open?t=${signTrackingId('open', 'exec-1')}`
+    );
+    expect(buildClickUrl(linkId)).toBe(
+      `https://app.example.com/api/sequences/track/click?l=${signTrackingId('click', linkId)}`
+    );
+  });
+});
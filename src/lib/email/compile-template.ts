@@ -1,7 +1,187 @@
-export function compileEmailTemplate(mjmlMarkup: string) {
-  console.warn("MJML compilation is disabled. Returning raw markup.");
-  return {
-    html: mjmlMarkup, // Fallback
-    ampHtml: "",
-  };
+/**
+ * Email Template Compiler
+ *
+ * Turns MJML markup, email-builder block documents or raw HTML into inlined, client-safe HTML,
+ * and validates an optional AMP for Email document sent alongside it.
+ *
+ * Template variables ({{first_name}}, {{#if ...}}) pass through untouched so one compiled
+ * artifact can be rendered for every recipient.
+ */
+
+import mjml2html from "mjml";
+import juice from "juice";
+import { renderToStaticMarkup, type TReaderDocument } from "@usewaypoint/email-builder";
+
+export interface CompileSource {
+  mjml?: string | null;
+  design?: unknown;
+  html?: string | null;
+  amp?: string | null;
+}
+
+export interface CompileIssue {
+  message: string;
+  line?: number;
+  tagName?: string;
+}
+
+export interface CompiledEmail {
+  html: string;
+  ampHtml: string | null;
+  warnings: CompileIssue[];
+}
+
+export class EmailCompileError extends Error {
+  constructor(
+    message: string,
+    readonly issues: CompileIssue[]
+  ) {
+    super(message);
+    this.name = "EmailCompileError";
+  }
+}
+
+// Gmail clips messages larger than this, hiding the footer and unsubscribe link
+const CLIP_THRESHOLD_BYTES = 102 * 1024;
+
+const AMP_CSS_LIMIT_BYTES = 75_000;
+const AMP_SCRIPT_REGEX = /^https:\/\/cdn\.ampproject\.org\/v0(\/amp-[a-z-]+-\d+\.\d+)?\.js$/;
+const AMP_DISALLOWED_TAGS = ["img", "video", "audio", "iframe", "frame", "frameset", "object", "embed", "base", "link"];
+
+/**
+ * Compile a template. MJML takes precedence over a builder document, which takes precedence
+ * over raw HTML. Throws EmailCompileError with every problem found when the source is invalid.
+ */
+export async function compileEmailTemplate(source: string | CompileSource): Promise<CompiledEmail> {
+  const input = typeof source === "string" ? { mjml: source } : source;
+  const warnings: CompileIssue[] = [];
+
+  let html: string;
+  if (input.mjml) {
+    html = await compileMjml(input.mjml);
+  } else if (input.design) {
+    html = compileDesign(input.design);
+  } else if (input.html) {
+    html = inlineCss(input.html);
+  } else {
+    throw new EmailCompileError("Nothing to compile: provide MJML, a builder design or HTML.", []);
+  }
+
+  html = sanitizeEmailHtml(html);
+
+  const size = new TextEncoder().encode(html).length;
+  if (size > CLIP_THRESHOLD_BYTES) {
+    warnings.push({
+      message: `Compiled HTML is ${Math.round(size / 1024)} KB; Gmail clips messages over 102 KB.`,
+    });
+  }
+
+  let ampHtml: string | null = null;
+  if (input.amp?.trim()) {
+    const issues = validateAmpEmail(input.amp);
+    if (issues.length > 0) {
+      throw new EmailCompileError("AMP email failed validation.", issues);
+    }
+    ampHtml = input.amp;
+  }
+
+  return { html, ampHtml, warnings };
+}
+
+/**
+ * Structural checks from the AMP for Email spec. This is not the full AMP validator, but it
+ * catches the mistakes that make mail clients fall back to the HTML part.
+ */
+export function validateAmpEmail(amp: string): CompileIssue[] {
+  const issues: CompileIssue[] = [];
+  const lineOf = (index: number) => amp.slice(0, index).split("\n").length;
+
+  if (!/<html[^>]*\s(⚡4email|amp4email)(\s|>|=)/i.test(amp)) {
+    issues.push({ message: "The <html> tag must carry the ⚡4email or amp4email attribute.", tagName: "html" });
+  }
+  if (!/<meta\s+charset=["']?utf-8["']?\s*\/?>/i.test(amp)) {
+    issues.push({ message: "A <meta charset=\"utf-8\"> tag is required.", tagName: "meta" });
+  }
+  if (!/<script\s+async\s+src=["']https:\/\/cdn\.ampproject\.org\/v0\.js["']\s*><\/script>/i.test(amp)) {
+    issues.push({ message: "The AMP runtime script (https://cdn.ampproject.org/v0.js) must be loaded async.", tagName: "script" });
+  }
+  if (!/<style\s+amp4email-boilerplate[^>]*>\s*body\s*\{\s*visibility:\s*hidden;?\s*\}\s*<\/style>/i.test(amp)) {
+    issues.push({ message: "The amp4email-boilerplate style is missing or altered.", tagName: "style" });
+  }
+
+  for (const match of amp.matchAll(/<script\b([^>]*)>/gi)) {
+    const src = /\bsrc=["']([^"']+)["']/i.exec(match[1])?.[1];
+    const isJson = /type=["']application\/json["']/i.test(match[1]);
+    if (!isJson && (!src || !AMP_SCRIPT_REGEX.test(src))) {
+      issues.push({ message: "Only AMP runtime and extension scripts are allowed.", line: lineOf(match.index), tagName: "script" });
+    }
+  }
+
+  for (const tag of AMP_DISALLOWED_TAGS) {
+    for (const match of amp.matchAll(new RegExp(`<${tag}\\b`, "gi"))) {
+      issues.push({
+        message: tag === "img" ? "Use <amp-img> instead of <img>." : `<${tag}> is not allowed in AMP emails.`,
+        line: lineOf(match.index),
+        tagName: tag,
+      });
+    }
+  }
+
+  for (const match of amp.matchAll(/\son[a-z]+\s*=/gi)) {
+    issues.push({ message: "Inline event handlers are not allowed; use the on attribute.", line: lineOf(match.index) });
+  }
+
+  const customCss = /<style\s+amp-custom[^>]*>([\s\S]*?)<\/style>/i.exec(amp)?.[1] || "";
+  if (new TextEncoder().encode(customCss).length > AMP_CSS_LIMIT_BYTES) {
+    issues.push({ message: "<style amp-custom> exceeds the 75,000 byte limit.", tagName: "style" });
+  }
+  if (/!important/i.test(customCss)) {
+    issues.push({ message: "!important is not allowed in AMP CSS.", tagName: "style" });
+  }
+
+  return issues;
+}
+
+/**
+ * Remove markup mail clients strip or flag as dangerous: scripts, embedded frames,
+ * inline event handlers and javascript: URLs
+ */
+export function sanitizeEmailHtml(html: string): string {
+  return html
+    .replace(/<script\b[\s\S]*?<\/script\s*>/gi, "")
+    .replace(/<(iframe|object|embed|frame|frameset)\b[\s\S]*?(<\/\1\s*>|\/>)/gi, "")
+    .replace(/\son[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, "")
+    .replace(/(href|src)\s*=\s*(["'])\s*javascript:[^"']*\2/gi, '$1="#"');
+}
+
+async function compileMjml(markup: string): Promise<string> {
+  const result = await mjml2html(markup, { validationLevel: "soft", keepComments: false });
+
+  if (result.errors.length > 0) {
+    throw new EmailCompileError(
+      `MJML has ${result.errors.length} error${result.errors.length === 1 ? "" : "s"}.`,
+      result.errors.map((error) => ({ message: error.message, line: error.line, tagName: error.tagName }))
+    );
+  }
+
+  return result.html;
+}
+
+function compileDesign(design: unknown): string {
+  const document = design as TReaderDocument;
+  if (!document || typeof document !== "object" || !document.root) {
+    throw new EmailCompileError("Builder design is missing its root block.", [{ message: "Missing root block" }]);
+  }
+
+  try {
+    return inlineCss(renderToStaticMarkup(document, { rootBlockId: "root" }));
+  } catch (error) {
+    throw new EmailCompileError("Builder design could not be rendered.", [
+      { message: error instanceof Error ? error.message : String(error) },
+    ]);
+  }
+}
+
+function inlineCss(html: string): string {
+  return juice(html, { preserveMediaQueries: true, preserveFontFaces: true, removeStyleTags: false });
 }
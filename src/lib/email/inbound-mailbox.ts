@@ -0,0 +1,93 @@
+/**
+ * Inbound mailbox access for reply detection
+ * Production replies arrive through SES receipt rules; the mailbox poller covers
+ * reply-to inboxes that are not routed through SES.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface InboundRawMessage {
+  id: string;
+  raw: string;
+}
+
+export interface InboundMailbox {
+  /**
+   * Fetch messages that have not been acknowledged yet
+   */
+  fetchUnprocessed(limit: number): Promise<InboundRawMessage[]>;
+
+  /**
+   * Mark a message as handled so it is not returned again
+   */
+  acknowledge(id: string): Promise<void>;
+}
+
+/**
+ * Local stand-in for an IMAP inbox.
+ * Reads `.eml` files from a directory and moves them to `processed/` once handled.
+ */
+export class LocalDirectoryMailbox implements InboundMailbox {
+  constructor(private readonly directory: string) {}
+
+  async fetchUnprocessed(limit: number): Promise<InboundRawMessage[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const files = entries.filter((name) => name.endsWith('.eml')).sort().slice(0, limit);
+
+    return Promise.all(
+      files.map(async (name) => ({
+        id: name,
+        raw: await fs.readFile(path.join(this.directory, name), 'utf8'),
+      }))
+    );
+  }
+
+  async acknowledge(id: string): Promise<void> {
+    const processedDir = path.join(this.directory, 'processed');
+    await fs.mkdir(processedDir, { recursive: true });
+    await fs.rename(path.join(this.directory, id), path.join(processedDir, id));
+  }
+}
+
+/**
+ * Resolve the configured mailbox, or null when polling is disabled
+ */
+export function getInboundMailbox(): InboundMailbox | null {
+  const directory = process.env.INBOUND_MAILDIR;
+  if (!directory) return null;
+
+  return new LocalDirectoryMailbox(directory);
+}
+
+/**
+ * Parse the header block of a raw RFC 5322 message.
+ * Header names are lower-cased and folded lines are unfolded.
+ */
+export function parseRawHeaders(raw: string): Record<string, string> {
+  const headerBlock = raw.split(/\r?\n\r?\n/, 1)[0] || '';
+  const unfolded = headerBlock.replace(/\r?\n[ \t]+/g, ' ');
+  const headers: Record<string, string> = {};
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    // Keep the first occurrence; later duplicates are usually added by relays
+    if (!(name in headers)) {
+      headers[name] = value;
+    }
+  }
+
+  return headers;
+}
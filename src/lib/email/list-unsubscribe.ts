@@ -0,0 +1,116 @@
+/**
+ * List-Unsubscribe support
+ * RFC 2369 / RFC 8058 one-click unsubscribe headers and the matching footer link. Gmail and
+ * Yahoo require both for bulk senders; the URLs point at routes that accept the one-click POST.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export type MarketingChannel = 'email' | 'sms' | 'push';
+
+// Body a mailbox provider POSTs to the List-Unsubscribe URL (RFC 8058 section 3.1)
+const ONE_CLICK_BODY = 'List-Unsubscribe=One-Click';
+
+/**
+ * Headers for a message whose recipient can unsubscribe at `url`
+ */
+export function listUnsubscribeHeaders(url: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'List-Unsubscribe': `<${url}>`,
+    'List-Unsubscribe-Post': ONE_CLICK_BODY,
+  };
+
+  // Some clients only offer unsubscribe for a mailto: target
+  const mailbox = process.env.EMAIL_UNSUBSCRIBE_MAILTO;
+  if (mailbox) {
+    headers['List-Unsubscribe'] += `, <mailto:${mailbox}?subject=unsubscribe>`;
+  }
+
+  return headers;
+}
+
+/**
+ * Preference-center URL for a sequence recipient. A GET shows preferences; the one-click POST
+ * unsubscribes. Scanners that prefetch links therefore never unsubscribe anyone.
+ */
+export function buildSequenceUnsubscribeUrl(token: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/sequences/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Signed unsubscribe URL for a marketing audience member
+ */
+export function buildMarketingUnsubscribeUrl(audienceId: string, channel: MarketingChannel = 'email'): string {
+  const params = new URLSearchParams({
+    audienceId,
+    channel,
+    token: signMarketingUnsubscribe(audienceId, channel),
+  });
+
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/unsubscribe?${params.toString()}`;
+}
+
+export function signMarketingUnsubscribe(audienceId: string, channel: MarketingChannel): string {
+  const secret = process.env.MARKETING_UNSUBSCRIBE_SECRET;
+  if (!secret) {
+    throw new Error('MARKETING_UNSUBSCRIBE_SECRET is not configured. Unable to sign unsubscribe links.');
+  }
+
+  return createHmac('sha256', secret).update(`${audienceId}:${channel}`).digest('hex');
+}
+
+export function verifyMarketingUnsubscribe(
+  audienceId: string,
+  channel: MarketingChannel,
+  token: string | null
+): boolean {
+  if (!token) return false;
+
+  const expected = Buffer.from(signMarketingUnsubscribe(audienceId, channel));
+  const provided = Buffer.from(token);
+
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+/**
+ * Whether a POST is an RFC 8058 one-click request. Providers send the body as
+ * application/x-www-form-urlencoded or multipart/form-data.
+ */
+export async function isOneClickRequest(request: Request): Promise<boolean> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const form = await request.formData();
+    return form.get('List-Unsubscribe') === 'One-Click';
+  }
+
+  const body = await request.text();
+  return new URLSearchParams(body).get('List-Unsubscribe') === 'One-Click';
+}
+
+/**
+ * Add a visible unsubscribe link unless the content already links to `url`
+ */
+export function injectUnsubscribeFooter(
+  content: { html?: string | null; text?: string | null },
+  url: string
+): { html: string | null; text: string | null } {
+  let html = content.html ?? null;
+  let text = content.text ?? null;
+
+  const escapedUrl = url.replace(/&/g, '&amp;');
+
+  if (html && !html.includes(url) && !html.includes(escapedUrl)) {
+    const footer =
+      '<p style="margin:24px 0 0;font-size:12px;line-height:18px;color:#6b7280;">' +
+      `Don't want these emails? <a href="${escapedUrl}" style="color:#6b7280;">Unsubscribe</a>.</p>`;
+
+    html = /<\/body>/i.test(html) ? html.replace(/<\/body>/i, `${footer}</body>`) : html + footer;
+  }
+
+  if (text && !text.includes(url)) {
+    text = `${text}\n\nUnsubscribe: ${url}`;
+  }
+
+  return { html, text };
+}
@@ -0,0 +1,130 @@
+/**
+ * Machine engagement detection
+ * Security scanners, link-preview fetchers, prefetching clients and privacy proxies (Apple Mail
+ * Privacy Protection) request tracking URLs without a person reading the email. These heuristics
+ * flag such requests so only human opens and clicks count.
+ */
+
+export type MachineReason = 'user_agent' | 'ip_range' | 'prefetch' | 'too_fast' | 'link_burst';
+
+export interface EngagementRequest {
+  method: string;
+  userAgent: string | null;
+  ip: string | null;
+  purpose: string | null; // Purpose / Sec-Purpose / X-Purpose / X-Moz header
+}
+
+export interface EngagementTiming {
+  sentAt: string | null;
+  occurredAt: Date;
+  // Most recent click on a different link of the same email, for clicks
+  previousClickAt?: string | null;
+}
+
+export interface MachineClassification {
+  isMachine: boolean;
+  reason: MachineReason | null;
+}
+
+// Delivery lands within a couple of seconds of the send; engagement inside this window is
+// a scanner acting on arrival, not a person
+const MIN_HUMAN_DELAY_MS = 3000;
+
+// A scanner walks every link in an email at once; people click one at a time
+const LINK_BURST_WINDOW_MS = 2000;
+
+const MACHINE_USER_AGENTS = [
+  /bot\b|crawler|spider|slurp/i,
+  /headless|phantomjs|puppeteer|playwright/i,
+  /python-requests|python-urllib|aiohttp|curl\/|wget\/|go-http-client|okhttp|java\/|libwww|httpclient/i,
+  /barracuda|mimecast|proofpoint|urldefense|safelinks|forcepoint|trendmicro|symantec|sophos|fortiguard|zscaler/i,
+  /microsoft office|ms-office|msoffice|skypeuripreview|linkpreview|preview/i,
+];
+
+// IPv4 ranges (CIDR) that belong to proxies and mail scanners
+const MACHINE_IP_RANGES: Array<[string, number]> = [
+  ['17.0.0.0', 8], // Apple, including Mail Privacy Protection
+  ['66.249.64.0', 19], // Googlebot
+  ['40.92.0.0', 15], // Exchange Online Protection
+  ['40.107.0.0', 16],
+  ['52.100.0.0', 14],
+  ['104.47.0.0', 17],
+];
+
+/**
+ * Read the request details the heuristics use
+ */
+export function describeRequest(request: Request): EngagementRequest {
+  const headers = request.headers;
+  const forwarded = headers.get('x-forwarded-for');
+
+  return {
+    method: request.method,
+    userAgent: headers.get('user-agent'),
+    ip: forwarded ? forwarded.split(',')[0].trim() : headers.get('x-real-ip'),
+    purpose:
+      headers.get('purpose') ||
+      headers.get('sec-purpose') ||
+      headers.get('x-purpose') ||
+      headers.get('x-moz'),
+  };
+}
+
+/**
+ * Decide whether an open or click came from a machine. The first matching reason wins.
+ */
+export function classifyEngagement(
+  request: EngagementRequest,
+  timing: EngagementTiming
+): MachineClassification {
+  if (request.method === 'HEAD' || (request.purpose && /prefetch|preview/i.test(request.purpose))) {
+    return { isMachine: true, reason: 'prefetch' };
+  }
+
+  const userAgent = request.userAgent?.trim() || '';
+  // Apple's proxy sends a bare "Mozilla/5.0"; real clients add platform details
+  if (!userAgent || userAgent === 'Mozilla/5.0' || MACHINE_USER_AGENTS.some((pattern) => pattern.test(userAgent))) {
+    return { isMachine: true, reason: 'user_agent' };
+  }
+
+  if (request.ip && isMachineIp(request.ip)) {
+    return { isMachine: true, reason: 'ip_range' };
+  }
+
+  const occurredAt = timing.occurredAt.getTime();
+
+  if (timing.sentAt && occurredAt - new Date(timing.sentAt).getTime() < MIN_HUMAN_DELAY_MS) {
+    return { isMachine: true, reason: 'too_fast' };
+  }
+
+  if (timing.previousClickAt && occurredAt - new Date(timing.previousClickAt).getTime() < LINK_BURST_WINDOW_MS) {
+    return { isMachine: true, reason: 'link_burst' };
+  }
+
+  return { isMachine: false, reason: null };
+}
+
+function isMachineIp(ip: string): boolean {
+  const address = ipv4ToNumber(ip.replace(/^::ffff:/, ''));
+  if (address === null) return false;
+
+  return MACHINE_IP_RANGES.some(([base, bits]) => {
+    const network = ipv4ToNumber(base)!;
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((address & mask) >>> 0) === ((network & mask) >>> 0);
+  });
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d{1,3}$/.test(part) || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+
+  return value;
+}
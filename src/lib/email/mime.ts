@@ -0,0 +1,103 @@
+/**
+ * Raw MIME builder
+ * SES `Simple` content cannot carry arbitrary headers such as List-Unsubscribe, so sends that
+ * need them go out as a raw multipart/alternative message built here.
+ */
+
+import { randomBytes } from 'node:crypto';
+
+export interface MimeAddress {
+  email: string;
+  name?: string | null;
+}
+
+export interface MimeMessage {
+  from: MimeAddress;
+  to: string[];
+  replyTo?: string[];
+  subject: string;
+  html?: string | null;
+  text?: string | null;
+  headers?: Record<string, string>;
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Build an RFC 5322 message with text and HTML alternatives.
+ * Bodies are base64 encoded so any content survives SMTP line-length limits.
+ */
+export function buildMimeMessage(message: MimeMessage): string {
+  const headers: Array<[string, string]> = [
+    ['From', formatAddress(message.from)],
+    ['To', message.to.join(', ')],
+  ];
+
+  if (message.replyTo?.length) {
+    headers.push(['Reply-To', message.replyTo.join(', ')]);
+  }
+
+  headers.push(
+    ['Subject', encodeHeaderValue(message.subject)],
+    ['Date', new Date().toUTCString().replace('GMT', '+0000')],
+    ['MIME-Version', '1.0']
+  );
+
+  for (const [name, value] of Object.entries(message.headers || {})) {
+    headers.push([name, value]);
+  }
+
+  const parts: Array<[string, string]> = [];
+  if (message.text) parts.push(['text/plain', message.text]);
+  if (message.html) parts.push(['text/html', message.html]);
+
+  if (parts.length === 0) {
+    throw new Error('A MIME message needs a text or HTML body');
+  }
+
+  const head = headers.map(([name, value]) => `${name}: ${value}`).join(CRLF);
+
+  if (parts.length === 1) {
+    const [type, body] = parts[0];
+    return [head, ...partHeaders(type), '', encodeBody(body)].join(CRLF);
+  }
+
+  const boundary = `=_alt_${randomBytes(12).toString('hex')}`;
+  const lines = [head, `Content-Type: multipart/alternative; boundary="${boundary}"`, ''];
+
+  for (const [type, body] of parts) {
+    lines.push(`--${boundary}`, ...partHeaders(type), '', encodeBody(body));
+  }
+  lines.push(`--${boundary}--`, '');
+
+  return lines.join(CRLF);
+}
+
+/**
+ * RFC 2047 encoded-word for header values that are not plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ');
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+
+  return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function formatAddress(address: MimeAddress): string {
+  if (!address.name) return address.email;
+
+  const name = address.name.replace(/[\r\n]+/g, ' ');
+  const display = /^[\x20-\x7e]*$/.test(name)
+    ? `"${name.replace(/(["\\])/g, '\\$1')}"`
+    : encodeHeaderValue(name);
+
+  return `${display} <${address.email}>`;
+}
+
+function partHeaders(type: string): string[] {
+  return [`Content-Type: ${type}; charset=UTF-8`, 'Content-Transfer-Encoding: base64'];
+}
+
+function encodeBody(body: string): string {
+  return Buffer.from(body, 'utf8').toString('base64').replace(/.{76}/g, `$&${CRLF}`);
+}
@@ -4,6 +4,10 @@
  */
 
 import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
+import { buildClickUrl, buildOpenUrl, createLinkId, isTrackingEnabled } from './tracking-links';
+import { injectUnsubscribeFooter, listUnsubscribeHeaders } from './list-unsubscribe';
+import { buildMimeMessage } from './mime';
+import { EmailTrackingService, type TrackedLink } from '@/lib/services/email-tracking';
 
 // Initialize SES client
 const sesClient = new SESv2Client({
@@ -25,12 +29,15 @@ export interface SendSequenceEmailParams {
   enrollmentId: string;
   stepId: string;
   executionId?: string;
+  unsubscribeUrl: string; // Recipient's preference center; sent as one-click List-Unsubscribe
 }
 
 export interface SendSequenceEmailResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  errorCode?: string;    // SES exception name, e.g. TooManyRequestsException
+  retryable?: boolean;   // set when the SDK marks the failure as retryable
 }
 
 /**
@@ -40,42 +47,43 @@ export async function sendSequenceEmail(
   params: SendSequenceEmailParams
 ): Promise<SendSequenceEmailResult> {
   try {
+    // Every sequence email carries a visible unsubscribe link as well as the headers
+    const withFooter = injectUnsubscribeFooter(
+      { html: params.bodyHtml, text: params.bodyText },
+      params.unsubscribeUrl
+    );
+
     // Add tracking pixel for opens
     const trackingPixel = generateTrackingPixel(params.enrollmentId, params.executionId);
-    const trackedHtml = params.bodyHtml + trackingPixel;
+    const trackedHtml = withFooter.html + trackingPixel;
 
     // Add tracking to links for clicks
-    const trackedHtmlWithLinks = addLinkTracking(
+    const trackedHtmlWithLinks = await addLinkTracking(
       trackedHtml,
       params.enrollmentId,
       params.executionId
     );
 
+    // List-Unsubscribe needs custom headers, which only the raw MIME path can carry
+    const rawMessage = buildMimeMessage({
+      from: { email: params.from, name: params.fromName },
+      to: [params.to],
+      replyTo: params.replyTo ? [params.replyTo] : undefined,
+      subject: params.subject,
+      html: trackedHtmlWithLinks,
+      text: withFooter.text,
+      headers: listUnsubscribeHeaders(params.unsubscribeUrl),
+    });
+
     // Prepare the email command
     const command = new SendEmailCommand({
-      FromEmailAddress: params.fromName
-        ? `"${params.fromName}" <${params.from}>`
-        : params.from,
-      ReplyToAddresses: params.replyTo ? [params.replyTo] : undefined,
+      FromEmailAddress: params.from,
       Destination: {
         ToAddresses: [params.to],
       },
       Content: {
-        Simple: {
-          Subject: {
-            Data: params.subject,
-            Charset: 'UTF-8',
-          },
-          Body: {
-            Html: {
-              Data: trackedHtmlWithLinks,
-              Charset: 'UTF-8',
-            },
-            Text: {
-              Data: params.bodyText,
-              Charset: 'UTF-8',
-            },
-          },
+        Raw: {
+          Data: Buffer.from(rawMessage, 'utf8'),
         },
       },
       // Add custom headers for tracking
@@ -103,6 +111,8 @@ export async function sendSequenceEmail(
     return {
       success: false,
       error: error.message || 'Failed to send email',
+      errorCode: error.name,
+      retryable: error.$retryable || error.$metadata?.httpStatusCode >= 500 ? true : undefined,
     };
   }
 }
@@ -111,34 +121,49 @@ export async function sendSequenceEmail(
  * Generate a tracking pixel for email opens
  */
 function generateTrackingPixel(enrollmentId: string, executionId?: string): string {
-  if (!executionId) return '';
+  if (!executionId || !isTrackingEnabled()) return '';
 
-  const trackingUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/sequences/track/open?eid=${executionId}&t=${Date.now()}`;
+  const trackingUrl = buildOpenUrl(executionId);
 
   return `<img src="${trackingUrl}" width="1" height="1" style="display:none;" alt="" />`;
 }
 
 /**
- * Add click tracking to links in HTML
+ * Add click tracking to links in HTML. Each link gets a short signed id that the click
+ * route resolves to the stored destination.
  */
-function addLinkTracking(html: string, enrollmentId: string, executionId?: string): string {
-  if (!executionId) return html;
+async function addLinkTracking(html: string, enrollmentId: string, executionId?: string): Promise<string> {
+  if (!executionId || !isTrackingEnabled()) return html;
 
   // Simple regex to find links (more sophisticated parsing might be needed)
   const linkRegex = /<a\s+([^>]*href=["']([^"']+)["'][^>]*)>/gi;
-
-  return html.replace(linkRegex, (match, attributes, url) => {
-    // Skip if already tracked or if it's an unsubscribe link
-    if (url.includes('/api/sequences/track/') || url.includes('unsubscribe')) {
+  const links: TrackedLink[] = [];
+
+  const trackedHtml = html.replace(linkRegex, (match, attributes, url: string) => {
+    // Skip if already tracked, an unsubscribe link, or not a web link (mailto:, tel:, #anchor)
+    if (
+      url.includes('/api/sequences/track/') ||
+      url.includes('unsubscribe') ||
+      !/^https?:\/\//i.test(url)
+    ) {
       return match;
     }
 
-    // Create tracking URL
-    const trackingUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/sequences/track/click?eid=${executionId}&url=${encodeURIComponent(url)}&t=${Date.now()}`;
+    const link: TrackedLink = {
+      id: createLinkId(),
+      execution_id: executionId,
+      enrollment_id: enrollmentId,
+      url: url.replace(/&amp;/g, '&'),
+      link_position: links.length + 1,
+    };
+    links.push(link);
 
     // Replace the original URL with tracking URL
-    return match.replace(url, trackingUrl);
+    return match.replace(url, buildClickUrl(link.id));
   });
+
+  // Untracked links beat tracked links that lead nowhere
+  return (await EmailTrackingService.registerLinks(links)) ? trackedHtml : html;
 }
 
 /**
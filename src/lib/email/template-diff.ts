@@ -0,0 +1,135 @@
+/**
+ * Template Version Diff
+ *
+ * Line diffs between two email template versions. Builder designs are compared as
+ * key-sorted, pretty-printed JSON so a change to one block shows up as a few lines.
+ */
+
+export type DiffLine = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+export type TemplateDiffField = "subject_line" | "preheader_text" | "content";
+
+export type TemplateDiff = Record<TemplateDiffField, DiffLine[]> & {
+  changed: TemplateDiffField[];
+};
+
+type DiffableVersion = {
+  subject_line: string | null;
+  preheader_text: string | null;
+  mjml?: string | null;
+  design_json?: unknown;
+  html?: string | null;
+};
+
+// Above this many line pairs the LCS table gets too large; fall back to a coarser diff
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Diff two versions field by field
+ * @param from - Older version
+ * @param to - Newer version
+ * @returns Line diffs per field and the list of fields that changed
+ */
+export function diffTemplateVersions(from: DiffableVersion, to: DiffableVersion): TemplateDiff {
+  const diff = {
+    subject_line: diffLines(from.subject_line || "", to.subject_line || ""),
+    preheader_text: diffLines(from.preheader_text || "", to.preheader_text || ""),
+    content: diffLines(contentText(from), contentText(to)),
+  };
+
+  const changed = (Object.keys(diff) as TemplateDiffField[]).filter((field) =>
+    diff[field].some((line) => line.type !== "equal")
+  );
+
+  return { ...diff, changed };
+}
+
+/**
+ * Longest-common-subsequence line diff
+ * @param before - Original text
+ * @param after - Changed text
+ * @returns Lines marked equal, added or removed, in display order
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  // Common prefix and suffix never need the table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = a.slice(0, start).map((text): DiffLine => ({ type: "equal", text }));
+  const suffix = a.slice(endA).map((text): DiffLine => ({ type: "equal", text }));
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+
+  if (middleA.length * middleB.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...middleA.map((text): DiffLine => ({ type: "removed", text })),
+      ...middleB.map((text): DiffLine => ({ type: "added", text })),
+      ...suffix,
+    ];
+  }
+
+  return [...prefix, ...lcsDiff(middleA, middleB), ...suffix];
+}
+
+function lcsDiff(a: string[], b: string[]): DiffLine[] {
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+
+  return lines;
+}
+
+function contentText(version: DiffableVersion): string {
+  if (version.mjml) return version.mjml;
+  if (version.design_json) return JSON.stringify(sortKeys(version.design_json), null, 2);
+  return version.html || "";
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,468 @@
+/**
+ * Template Engine
+ *
+ * One renderer for sequence steps, CRM emails and template previews.
+ *
+ * Syntax:
+ *   {{first_name}}                         variable (camelCase and snake_case both resolve)
+ *   {{firstName|default:"there"}}          fallback when the value is empty
+ *   {{company | first_word | capitalize}}  filters, applied left to right
+ *   {{#if account.industry}}...{{else}}...{{/if}}   ({{#unless}} negates)
+ *   {{#each enrichment.technologies}}{{this}}{{/each}}   (@index, @first, @last)
+ *   {first_name}                           legacy single-brace variable
+ *
+ * Pure functions only, so it runs in the browser for previews as well as on the server.
+ */
+
+export type TemplateContext = Record<string, unknown>;
+
+export interface RenderOptions {
+  /** Throw when a variable without a default resolves to nothing */
+  strict?: boolean;
+  /** Escape substituted values for HTML output */
+  escapeHtml?: boolean;
+  /** Leave unresolved variables in place instead of rendering them empty (previews) */
+  keepUnresolved?: boolean;
+}
+
+export interface RenderResult {
+  output: string;
+  missing: string[];
+}
+
+export class TemplateRenderError extends Error {
+  constructor(
+    message: string,
+    readonly missing: string[]
+  ) {
+    super(message);
+    this.name = "TemplateRenderError";
+  }
+}
+
+type Filter = { name: string; args: string[] };
+type Expression = { path: string; filters: Filter[]; raw: string };
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; expr: Expression }
+  | { type: "if"; negate: boolean; expr: Expression; body: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: "each"; expr: Expression; body: TemplateNode[]; alternate: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: "if" | "each" }>;
+
+const TAG_REGEX = /\{\{\s*([#/]?)\s*([^}]*?)\s*\}\}/g;
+
+// {first_name} but not {{first_name}}; CSS rules never match because they contain ':' or spaces
+const LEGACY_VARIABLE_REGEX = /(^|[^{])\{([a-zA-Z_][a-zA-Z0-9_.]*)\}(?!\})/g;
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Legal suffixes dropped by first_word so "Acme, Inc." still reads as "Acme"
+const COMPANY_SUFFIXES = /[,.]?\s+(inc|llc|ltd|gmbh|corp|co|plc|sa|bv|ag)\.?$/i;
+
+const FILTERS: Record<string, (value: unknown, args: string[]) => unknown> = {
+  default: (value, [fallback = ""]) => (isEmpty(value) ? fallback : value),
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  capitalize: (value) => {
+    const text = toText(value).trim();
+    return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+  },
+  title: (value) => toText(value).toLowerCase().replace(/\b\p{L}/gu, (c) => c.toUpperCase()),
+  first_word: (value) => toText(value).trim().replace(COMPANY_SUFFIXES, "").split(/\s+/)[0] || "",
+  truncate: (value, [length = "50"]) => {
+    const text = toText(value);
+    const max = Number(length);
+    return text.length > max ? `${text.slice(0, Math.max(0, max - 1)).trimEnd()}…` : text;
+  },
+  join: (value, [separator = ", "]) => (Array.isArray(value) ? value.map(toText).join(separator) : value),
+  date: (value, [format = "medium"]) => formatDate(value, format),
+};
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Render a template against a context.
+ * In strict mode a variable without a default that resolves to nothing throws
+ * TemplateRenderError listing every such variable.
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  options: RenderOptions = {}
+): RenderResult {
+  if (!template) return { output: template || "", missing: [] };
+
+  const missing = new Set<string>();
+  const output = renderNodes(parseTemplate(template), [context], options, missing);
+
+  if (options.strict && missing.size > 0) {
+    const names = [...missing];
+    throw new TemplateRenderError(`Missing template variables: ${names.join(", ")}`, names);
+  }
+
+  return { output, missing: [...missing] };
+}
+
+/**
+ * Variable paths referenced by a template, including those only used in conditions and loops
+ */
+export function extractTemplateVariables(template: string): string[] {
+  if (!template) return [];
+
+  const paths = new Set<string>();
+  const visit = (nodes: TemplateNode[], loopDepth: number) => {
+    for (const node of nodes) {
+      if (node.type === "text") continue;
+      // Paths inside a loop body that start with "this" or "@" are relative to the item
+      if (loopDepth === 0 || !/^(this|@)/.test(node.expr.path)) {
+        paths.add(node.expr.path);
+      }
+      if (node.type === "if") {
+        visit(node.body, loopDepth);
+        visit(node.alternate, loopDepth);
+      } else if (node.type === "each") {
+        visit(node.body, loopDepth + 1);
+        visit(node.alternate, loopDepth);
+      }
+    }
+  };
+
+  visit(parseTemplate(template), 0);
+  return [...paths];
+}
+
+/**
+ * Build the rendering context for a lead. Lead fields are available at the top level and
+ * under `lead.`, custom fields under `custom.` and at the top level where no lead field has the
+ * same name, the linked account under `account.` and Apollo enrichment under `enrichment.`.
+ * Custom field values live outside `sales_leads`, so callers load them (see
+ * `getCustomFieldValues`) and pass them in.
+ */
+export function buildTemplateContext(sources: {
+  lead?: Record<string, unknown> | null;
+  account?: Record<string, unknown> | null;
+  customFields?: Record<string, unknown> | null;
+  sender?: { name?: string | null; email?: string | null } | null;
+  extra?: TemplateContext;
+}): TemplateContext {
+  const lead = sources.lead || {};
+  const [firstFromName, ...restOfName] = String(lead.name || "").trim().split(/\s+/);
+
+  const leadFields = {
+    ...lead,
+    first_name: lead.first_name || firstFromName || "",
+    last_name: lead.last_name || restOfName.join(" "),
+  };
+
+  const customFields = sources.customFields || {};
+
+  return {
+    ...customFields,
+    ...leadFields,
+    lead: leadFields,
+    custom: customFields,
+    account: sources.account || lead.account || {},
+    enrichment: lead.apollo_data || {},
+    sender: sources.sender || {},
+    today: new Date().toISOString(),
+    ...sources.extra,
+  };
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+function parseTemplate(template: string): TemplateNode[] {
+  const source = template.replace(LEGACY_VARIABLE_REGEX, "$1{{$2}}");
+
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; inElse: boolean }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.alternate : top.node.body;
+  };
+
+  let lastIndex = 0;
+  const regex = new RegExp(TAG_REGEX);
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(source)) !== null) {
+    if (match.index > lastIndex) {
+      current().push({ type: "text", value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const [raw, sigil] = match;
+    // Tags inside compiled HTML arrive with their quotes entity-encoded
+    const body = decodeEntities(match[2]);
+
+    if (sigil === "#") {
+      const [keyword, ...rest] = body.split(/\s+/);
+      const expr = parseExpression(rest.join(" "));
+      const node: BlockNode = keyword === "each"
+        ? { type: "each", expr, body: [], alternate: [] }
+        : { type: "if", negate: keyword === "unless", expr, body: [], alternate: [] };
+
+      if (keyword !== "if" && keyword !== "unless" && keyword !== "each") {
+        current().push({ type: "text", value: raw });
+        continue;
+      }
+
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (sigil === "/") {
+      // An unmatched closing tag is kept as text rather than failing the whole render
+      if (stack.length === 0) {
+        current().push({ type: "text", value: raw });
+      } else {
+        stack.pop();
+      }
+    } else if (body === "else" && stack.length > 0) {
+      stack[stack.length - 1].inElse = true;
+    } else if (body) {
+      current().push({ type: "var", expr: parseExpression(body) });
+    } else {
+      current().push({ type: "text", value: raw });
+    }
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ type: "text", value: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+const ENTITIES: Record<string, string> = {
+  "&quot;": '"', "&#34;": '"', "&#x22;": '"',
+  "&#39;": "'", "&#x27;": "'", "&apos;": "'",
+  "&lt;": "<", "&gt;": ">", "&nbsp;": " ", "&#160;": " ", "&amp;": "&",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(quot|apos|lt|gt|nbsp|amp|#34|#39|#160|#x22|#x27);/gi, (entity) => ENTITIES[entity.toLowerCase()] ?? entity);
+}
+
+function parseExpression(raw: string): Expression {
+  const [path, ...filterParts] = splitOutsideQuotes(raw, "|").map((part) => part.trim());
+
+  const filters = filterParts.filter(Boolean).map((part) => {
+    const colon = part.indexOf(":");
+    if (colon === -1) return { name: part, args: [] };
+    return {
+      name: part.slice(0, colon).trim(),
+      args: splitOutsideQuotes(part.slice(colon + 1), ",").map((arg) => unquote(arg.trim())),
+    };
+  });
+
+  return { path, filters, raw };
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let current = "";
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function unquote(text: string): string {
+  const quoted = /^(["'])(.*)\1$/.exec(text);
+  return quoted ? quoted[2] : text;
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scopes: TemplateContext[],
+  options: RenderOptions,
+  missing: Set<string>
+): string {
+  let output = "";
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+
+      case "var": {
+        const value = evaluate(node.expr, scopes);
+        const hasDefault = node.expr.filters.some((filter) => filter.name === "default");
+
+        if (isEmpty(value) && !hasDefault) {
+          missing.add(node.expr.path);
+          if (options.keepUnresolved) {
+            output += `{{${node.expr.raw}}}`;
+            break;
+          }
+        }
+
+        const text = toText(value);
+        output += options.escapeHtml ? escapeHtml(text) : text;
+        break;
+      }
+
+      case "if": {
+        const truthy = !isEmpty(evaluate(node.expr, scopes));
+        const branch = truthy !== node.negate ? node.body : node.alternate;
+        output += renderNodes(branch, scopes, options, missing);
+        break;
+      }
+
+      case "each": {
+        const items = evaluate(node.expr, scopes);
+        if (!Array.isArray(items) || items.length === 0) {
+          output += renderNodes(node.alternate, scopes, options, missing);
+          break;
+        }
+
+        items.forEach((item, index) => {
+          const itemScope: TemplateContext = {
+            ...(item && typeof item === "object" ? item : {}),
+            this: item,
+            "@index": index,
+            "@first": index === 0,
+            "@last": index === items.length - 1,
+          };
+          output += renderNodes(node.body, [itemScope, ...scopes], options, missing);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+function evaluate(expr: Expression, scopes: TemplateContext[]): unknown {
+  let value = resolvePath(expr.path, scopes);
+
+  for (const filter of expr.filters) {
+    const apply = FILTERS[filter.name];
+    if (apply) value = apply(value, filter.args);
+  }
+
+  return value;
+}
+
+/**
+ * Look a dotted path up through the scopes (innermost first), trying the camelCase and
+ * snake_case spelling of each segment
+ */
+function resolvePath(path: string, scopes: TemplateContext[]): unknown {
+  const segments = path.split(".");
+
+  for (const scope of scopes) {
+    // Flat keys such as "custom.industry" in preview sample data
+    if (path in scope) return scope[path];
+
+    let value: unknown = scope;
+    for (const segment of segments) {
+      value = readKey(value, segment);
+      if (value === undefined) break;
+    }
+    if (value !== undefined) return value;
+  }
+
+  return undefined;
+}
+
+function readKey(target: unknown, key: string): unknown {
+  if (!target || typeof target !== "object") return undefined;
+  const record = target as Record<string, unknown>;
+
+  if (key in record) return record[key];
+
+  const snake = key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+  if (snake in record) return record[snake];
+
+  const camel = key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+  if (camel in record) return record[camel];
+
+  return undefined;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined
+    || value === null
+    || value === false
+    || (typeof value === "string" && value.trim() === "")
+    || (Array.isArray(value) && value.length === 0);
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null || value === false) return "";
+  if (Array.isArray(value)) return value.map(toText).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Format a date with a named style (short, medium, long, full) or a pattern using
+ * YYYY, MMMM, MMM, MM, M, DD, D, dddd and ddd. Dates are formatted in UTC.
+ */
+function formatDate(value: unknown, format: string): string {
+  if (isEmpty(value)) return "";
+
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (Number.isNaN(date.getTime())) return toText(value);
+
+  if (["short", "medium", "long", "full"].includes(format)) {
+    return date.toLocaleDateString("en-US", {
+      dateStyle: format as "short" | "medium" | "long" | "full",
+      timeZone: "UTC",
+    });
+  }
+
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MMMM: MONTHS[date.getUTCMonth()],
+    MMM: MONTHS[date.getUTCMonth()].slice(0, 3),
+    MM: String(date.getUTCMonth() + 1).padStart(2, "0"),
+    M: String(date.getUTCMonth() + 1),
+    DD: String(date.getUTCDate()).padStart(2, "0"),
+    D: String(date.getUTCDate()),
+    dddd: WEEKDAYS[date.getUTCDay()],
+    ddd: WEEKDAYS[date.getUTCDay()].slice(0, 3),
+  };
+
+  return format.replace(/YYYY|MMMM|MMM|MM|M|DD|D|dddd|ddd/g, (token) => tokens[token]);
+}
@@ -0,0 +1,80 @@
+/**
+ * Tracking link signing
+ * Open pixels and click redirects carry `<id>.<signature>` tokens so the tracking routes only
+ * act on ids we issued, and click redirects never take a destination from the query string.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// 96 bits of HMAC keeps links short while making forgery impractical
+const SIGNATURE_LENGTH = 16;
+
+function getSecret(): string | null {
+  return process.env.EMAIL_TRACKING_SECRET || null;
+}
+
+/**
+ * Tracking needs a signing secret; without one emails go out untracked rather than with
+ * links the click route would have to trust
+ */
+export function isTrackingEnabled(): boolean {
+  return !!getSecret() && !!process.env.NEXT_PUBLIC_APP_URL;
+}
+
+/**
+ * Sign an id for a tracking URL
+ * @returns `<id>.<signature>`
+ */
+export function signTrackingId(kind: 'open' | 'click', id: string): string {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error('EMAIL_TRACKING_SECRET is not configured');
+  }
+
+  return `${id}.${sign(secret, kind, id)}`;
+}
+
+/**
+ * Check a token produced by signTrackingId
+ * @returns The id, or null when the token is malformed or the signature does not match
+ */
+export function verifyTrackingToken(kind: 'open' | 'click', token: string | null): string | null {
+  const secret = getSecret();
+  if (!secret || !token) return null;
+
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const id = token.slice(0, separator);
+  const provided = Buffer.from(token.slice(separator + 1));
+  const expected = Buffer.from(sign(secret, kind, id));
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  return id;
+}
+
+/**
+ * Random short id for a tracked link
+ */
+export function createLinkId(): string {
+  return randomBytes(9).toString('base64url');
+}
+
+export function buildOpenUrl(executionId: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/sequences/track/open?t=${signTrackingId('open', executionId)}`;
+}
+
+export function buildClickUrl(linkId: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/sequences/track/click?l=${signTrackingId('click', linkId)}`;
+}
+
+// The kind is part of the signed message so an open token cannot be replayed as a click
+function sign(secret: string, kind: string, id: string): string {
+  return createHmac('sha256', secret)
+    .update(`${kind}:${id}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH);
+}
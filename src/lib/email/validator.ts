@@ -58,6 +58,32 @@ const DISPOSABLE_DOMAINS = new Set([
   'tempinbox.com',
 ]);
 
+// Consumer mailbox providers; their domain says nothing about the sender's company
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'ymail.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'mac.com',
+  'aol.com',
+  'protonmail.com',
+  'proton.me',
+  'fastmail.com',
+  'gmx.com',
+  'gmx.net',
+  'mail.com',
+  'zoho.com',
+  'yandex.com',
+  'qq.com',
+  '163.com',
+]);
+
 // Common role-based email prefixes
 const ROLE_ACCOUNTS = new Set([
   'admin',
@@ -148,6 +174,16 @@ export class EmailValidator {
     return { valid, domain, is_disposable };
   }
 
+  /**
+   * Company domain of an email address, or null for free and disposable mailboxes
+   */
+  static getCompanyDomain(email: string | null | undefined): string | null {
+    const domain = email?.split('@')[1]?.trim().toLowerCase();
+    if (!domain || !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) return null;
+
+    return FREE_EMAIL_DOMAINS.has(domain) || DISPOSABLE_DOMAINS.has(domain) ? null : domain;
+  }
+
   /**
    * Check if email is a role account
    */
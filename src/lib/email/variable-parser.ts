@@ -3,8 +3,11 @@
  *
  * Handles extraction, replacement, and validation of variables in email templates.
  * Variables use the syntax: {{variableName}} or {{variableName|default:"fallback"}}
+ * Rendering is delegated to the template engine so previews match what is sent.
  */
 
+import { extractTemplateVariables, renderTemplate } from "./template-engine";
+
 export type VariableCategory = "contact" | "custom" | "campaign" | "system";
 
 export interface VariableDefinition {
@@ -42,17 +45,7 @@ const VARIABLE_REGEX = /\{\{([a-zA-Z0-9._]+)(?:\|default:"([^"]*)")?\}\}/g;
  * @returns Array of unique variable keys
  */
 export function extractVariables(text: string): string[] {
-  if (!text) return [];
-
-  const matches: string[] = [];
-  const regex = new RegExp(VARIABLE_REGEX);
-  let match;
-
-  while ((match = regex.exec(text)) !== null) {
-    matches.push(match[1]);
-  }
-
-  return [...new Set(matches)];
+  return extractTemplateVariables(text);
 }
 
 /**
@@ -93,29 +86,13 @@ export function replaceVariables(
 ): string {
   if (!text) return text;
 
-  return text.replace(
-    VARIABLE_REGEX,
-    (match, key, defaultVal) => {
-      // First priority: provided value
-      if (values[key] !== undefined && values[key] !== null) {
-        return values[key];
-      }
-
-      // Second priority: inline default value
-      if (defaultVal !== undefined) {
-        return defaultVal;
-      }
+  const rendered = renderTemplate(text, values, { keepUnresolved: true }).output;
 
-      // Third priority: definition default value
-      const def = definitions.find((d) => d.key === key);
-      if (def?.defaultValue) {
-        return def.defaultValue;
-      }
-
-      // Fallback: return original syntax (variable not replaced)
-      return match;
-    }
-  );
+  // Definition defaults fill whatever the values and inline defaults left unresolved
+  return rendered.replace(VARIABLE_REGEX, (match, key) => {
+    const def = definitions.find((d) => d.key === key);
+    return def?.defaultValue || match;
+  });
 }
 
 /**
@@ -0,0 +1,239 @@
+/**
+ * LinkedIn Profile Normalizer
+ *
+ * Cleans up what the Chrome extension scrapes from a profile page: canonical profile URL,
+ * name without credentials or pronouns, the current position from experience (or the
+ * headline), and a location broken into city, region and ISO country code.
+ */
+
+export interface RawLinkedInExperience {
+  title?: string | null;
+  company?: string | null;
+  duration?: string | null;
+}
+
+export interface RawLinkedInProfile {
+  name?: string | null;
+  headline?: string | null;
+  location?: string | null;
+  about?: string | null;
+  experience?: RawLinkedInExperience[] | null;
+  skills?: (string | null)[] | null;
+}
+
+export interface LinkedInExperience {
+  title: string | null;
+  company: string | null;
+  employmentType: string | null;
+  startDate: string | null; // YYYY-MM, or YYYY when LinkedIn only shows the year
+  endDate: string | null;
+  current: boolean;
+}
+
+export interface LinkedInLocation {
+  raw: string;
+  city: string | null;
+  region: string | null; // State or province code when recognized, otherwise the name
+  countryCode: string | null; // ISO 3166-1 alpha-2
+}
+
+export interface NormalizedLinkedInProfile {
+  profileUrl: string;
+  fullName: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  headline: string | null;
+  title: string | null;
+  company: string | null;
+  location: LinkedInLocation | null;
+  about: string | null;
+  experience: LinkedInExperience[];
+  skills: string[];
+}
+
+const MONTHS: Record<string, string> = {
+  jan: "01", feb: "02", mar: "03", apr: "04", may: "05", jun: "06",
+  jul: "07", aug: "08", sep: "09", oct: "10", nov: "11", dec: "12",
+};
+
+const COUNTRY_CODES: Record<string, string> = {
+  "united states": "US", "united states of america": "US", usa: "US",
+  canada: "CA", "united kingdom": "GB", england: "GB", scotland: "GB",
+  ireland: "IE", germany: "DE", france: "FR", spain: "ES", italy: "IT",
+  netherlands: "NL", belgium: "BE", switzerland: "CH", sweden: "SE",
+  norway: "NO", denmark: "DK", finland: "FI", poland: "PL", portugal: "PT",
+  australia: "AU", "new zealand": "NZ", japan: "JP", singapore: "SG",
+  india: "IN", israel: "IL", brazil: "BR", mexico: "MX",
+  "united arab emirates": "AE",
+};
+
+const REGION_CODES: Record<string, Record<string, string>> = {
+  US: {
+    "new york": "NY", california: "CA", texas: "TX", florida: "FL", illinois: "IL",
+    arizona: "AZ", colorado: "CO", washington: "WA", massachusetts: "MA", georgia: "GA",
+  },
+  CA: { ontario: "ON", "british columbia": "BC", quebec: "QC" },
+};
+
+// LinkedIn metro areas ("Greater Boston", "San Francisco Bay Area") name no country or state
+const METRO_AREAS: Array<[RegExp, string, string]> = [
+  [/new york/i, "US", "NY"],
+  [/san francisco|bay area|los angeles|san diego/i, "US", "CA"],
+  [/seattle/i, "US", "WA"],
+  [/boston/i, "US", "MA"],
+  [/chicago/i, "US", "IL"],
+  [/austin|dallas|houston/i, "US", "TX"],
+  [/denver/i, "US", "CO"],
+  [/atlanta/i, "US", "GA"],
+  [/miami/i, "US", "FL"],
+  [/phoenix/i, "US", "AZ"],
+  [/toronto/i, "CA", "ON"],
+  [/vancouver/i, "CA", "BC"],
+  [/montr[eé]al/i, "CA", "QC"],
+  [/london/i, "GB", ""],
+];
+
+/**
+ * Canonical form of a LinkedIn profile URL: https://www.linkedin.com/in/<slug>
+ * @returns null when the URL is not a LinkedIn member profile
+ */
+export function normalizeLinkedInUrl(url: string | null | undefined): string | null {
+  if (!url) return null;
+
+  const match = /linkedin\.com\/in\/([^/?#\s]+)/i.exec(url.trim());
+  if (!match) return null;
+
+  let slug = match[1];
+  try {
+    slug = decodeURIComponent(slug);
+  } catch {
+    // Keep the encoded slug when it is not valid percent-encoding
+  }
+
+  return `https://www.linkedin.com/in/${slug.toLowerCase()}`;
+}
+
+/**
+ * Normalize a scraped profile
+ * @param raw - Data returned by the extension's extract_profile action
+ * @param profileUrl - URL of the profile page the data came from
+ */
+export function normalizeLinkedInProfile(
+  raw: RawLinkedInProfile,
+  profileUrl: string
+): NormalizedLinkedInProfile {
+  const canonicalUrl = normalizeLinkedInUrl(profileUrl) ?? profileUrl;
+  const fullName = cleanName(raw.name);
+  const [firstName, ...rest] = fullName ? fullName.split(" ") : [];
+  const headline = clean(raw.headline);
+
+  const experience = (raw.experience || [])
+    .map(normalizeExperience)
+    .filter((entry) => entry.title || entry.company);
+
+  const current = experience.find((entry) => entry.current) ?? experience[0] ?? null;
+  const fromHeadline = parseHeadline(headline);
+
+  return {
+    profileUrl: canonicalUrl,
+    fullName,
+    firstName: firstName || null,
+    lastName: rest.join(" ") || null,
+    headline,
+    title: current?.title ?? fromHeadline.title,
+    company: current?.company ?? fromHeadline.company,
+    location: parseLinkedInLocation(raw.location),
+    about: clean(raw.about),
+    experience,
+    skills: [...new Set((raw.skills || []).map(clean).filter((skill): skill is string => !!skill))],
+  };
+}
+
+/**
+ * Split a LinkedIn location line ("Austin, Texas, United States", "Greater Boston")
+ */
+export function parseLinkedInLocation(location: string | null | undefined): LinkedInLocation | null {
+  const raw = clean(location);
+  if (!raw) return null;
+
+  const parts = raw.split(",").map((part) => part.trim()).filter(Boolean);
+  let countryCode = COUNTRY_CODES[parts[parts.length - 1]?.toLowerCase()] ?? null;
+  if (countryCode) parts.pop();
+
+  let region: string | null = null;
+  let city: string | null = null;
+
+  if (parts.length > 0) {
+    const regionName = parts.length > 1 ? parts[parts.length - 1] : null;
+    const knownRegion = countryCode && regionName ? REGION_CODES[countryCode]?.[regionName.toLowerCase()] : undefined;
+    if (regionName) {
+      region = knownRegion ?? regionName;
+      parts.pop();
+    }
+    city = parts[0] ?? null;
+  }
+
+  // Metro-area names fill in what the line leaves out
+  const metro = METRO_AREAS.find(([pattern]) => pattern.test(raw));
+  if (metro && (!countryCode || countryCode === metro[1])) {
+    countryCode = metro[1];
+    if (metro[2] && (!region || !/^[A-Z]{2}$/.test(region))) region = metro[2];
+  }
+
+  if (city) city = city.replace(/^greater\s+/i, "").replace(/\s+(metropolitan|bay)?\s*area$/i, "").trim() || null;
+
+  return { raw, city, region, countryCode };
+}
+
+function normalizeExperience(entry: RawLinkedInExperience): LinkedInExperience {
+  // Company lines look like "Acme Corp · Full-time"
+  const [company, employmentType] = (clean(entry.company) ?? "").split(/\s+·\s+/);
+  const duration = clean(entry.duration) ?? "";
+  const [start, end] = duration.split(/\s+[-–]\s+/);
+
+  return {
+    title: clean(entry.title),
+    company: company || null,
+    employmentType: employmentType || null,
+    startDate: parseMonth(start),
+    endDate: /present/i.test(end ?? "") ? null : parseMonth(end),
+    current: /present/i.test(end ?? ""),
+  };
+}
+
+function parseMonth(text: string | undefined): string | null {
+  if (!text) return null;
+  const match = /(?:([a-z]{3})[a-z]*\s+)?(\d{4})/i.exec(text);
+  if (!match) return null;
+  const month = match[1] ? MONTHS[match[1].toLowerCase()] : undefined;
+  return month ? `${match[2]}-${month}` : match[2];
+}
+
+// "VP Sales at Acme | Helping teams grow" -> { title: "VP Sales", company: "Acme" }
+function parseHeadline(headline: string | null): { title: string | null; company: string | null } {
+  if (!headline) return { title: null, company: null };
+
+  const primary = headline.split(/\s+[|•]\s+/)[0];
+  const match = /^(.+?)\s+(?:at|@)\s+(.+)$/i.exec(primary);
+  if (!match) return { title: null, company: null };
+
+  return { title: match[1].trim(), company: match[2].trim() };
+}
+
+function cleanName(name: string | null | undefined): string | null {
+  const value = clean(name);
+  if (!value) return null;
+
+  return clean(
+    value
+      .replace(/\s*\([^)]*\)/g, "") // pronouns, maiden names
+      .replace(/,.*$/, "") // credentials: "Jane Doe, MBA"
+      .replace(/[^\p{L}\p{M}\s.'-]/gu, "") // emoji and decoration
+  );
+}
+
+function clean(value: string | null | undefined): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.replace(/\s+/g, " ").trim();
+  return trimmed || null;
+}
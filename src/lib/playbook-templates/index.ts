@@ -562,14 +562,20 @@ export const playbookTemplates: PlaybookTemplate[] = [
               {
                 type: 'map',
                 config: {
-                  expression: 'item.engagement_level = item.event_duration > 30 ? "high" : "low"',
+                  fields: {
+                    engagement_level: {
+                      when: { field: 'event_duration', operator: 'greater_than', value: 30 },
+                      then: 'high',
+                      else: 'low',
+                    },
+                  },
                 },
               },
               {
                 type: 'sort',
                 config: {
                   field: 'engagement_level',
-                  order: 'desc',
+                  order: 'asc', // 'high' sorts before 'low'
                 },
               },
             ],
@@ -0,0 +1,79 @@
+import { Queue, type JobsOptions } from 'bullmq';
+import { redisConfig } from '@/lib/redis/client';
+
+const connection = {
+    host: redisConfig.connection.host,
+    port: redisConfig.connection.port,
+    password: redisConfig.connection.password,
+    db: redisConfig.connection.db,
+};
+
+export const playbookQueue = new Queue(redisConfig.queues.playbooks, {
+    connection,
+    defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+            type: 'exponential',
+            delay: 2000,
+        },
+        removeOnComplete: { count: 200 },
+        removeOnFail: { count: 100 },
+    },
+});
+
+export type PlaybookEventName = 'lead.created' | 'lead.score_changed' | 'enrichment.completed';
+
+export type PlaybookTriggerSource = {
+    type: 'manual' | 'schedule' | 'webhook' | 'event';
+    data?: Record<string, unknown>;
+};
+
+// executionId is stored on the job once a run starts so a re-processed (stalled) job resumes
+// the same execution; `claimed` marks a resume job that already took ownership of its row.
+export type PlaybookJobData =
+    | { type: 'run_playbook'; playbookId: string; trigger: PlaybookTriggerSource; executionId?: string }
+    | { type: 'resume_execution'; executionId: string; claimed?: boolean }
+    | { type: 'dispatch_event'; orgId: string; event: PlaybookEventName; data: Record<string, unknown> };
+
+// A playbook run is not idempotent (it enrolls and assigns leads), so it is never retried
+// as a whole; steps carry their own retry settings.
+const RUN_JOB_OPTIONS = { attempts: 1 };
+
+export const addPlaybookJob = async (data: PlaybookJobData, opts?: JobsOptions) => {
+    const baseOptions = data.type === 'dispatch_event' ? undefined : RUN_JOB_OPTIONS;
+    return playbookQueue.add(data.type, data, { ...baseOptions, ...opts });
+};
+
+const scheduleId = (playbookId: string) => `playbook-schedule:${playbookId}`;
+
+/**
+ * Register (or replace) the repeatable job that runs a scheduled playbook
+ */
+export const schedulePlaybook = async (playbookId: string, cron: string, timezone?: string) => {
+    const data: PlaybookJobData = {
+        type: 'run_playbook',
+        playbookId,
+        trigger: { type: 'schedule', data: { cron } },
+    };
+
+    return playbookQueue.upsertJobScheduler(
+        scheduleId(playbookId),
+        { pattern: cron, tz: timezone },
+        { name: data.type, data, opts: RUN_JOB_OPTIONS }
+    );
+};
+
+export const unschedulePlaybook = async (playbookId: string) => {
+    return playbookQueue.removeJobScheduler(scheduleId(playbookId));
+};
+
+/**
+ * Playbook ids that currently have a repeatable job registered
+ */
+export const listScheduledPlaybookIds = async (): Promise<string[]> => {
+    const schedulers = await playbookQueue.getJobSchedulers();
+    return schedulers
+        .map((scheduler) => scheduler.key)
+        .filter((key) => key.startsWith('playbook-schedule:'))
+        .map((key) => key.slice('playbook-schedule:'.length));
+};
@@ -1,5 +1,6 @@
 import { Queue } from 'bullmq';
 import Redis from 'ioredis';
+import type { TriggerType } from '@/lib/services/auto-enrollment';
 
 // Use environment variables for Redis connection
 const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
@@ -20,10 +21,51 @@ export const sequenceQueue = new Queue('sequence-execution', {
 });
 
 export type SequenceJobData =
-    | { type: 'execute_step'; enrollmentId: string }
-    | { type: 'process_auto_enrollment'; leadId: string; orgId: string }
-    | { type: 'process_scheduled_steps' };
+    | { type: 'execute_step'; enrollmentId: string; scheduledFor?: string }
+    | { type: 'process_auto_enrollment'; triggerType: TriggerType; triggerData: Record<string, unknown>; orgId: string }
+    | { type: 'enroll_delayed'; ruleId: string; leadId: string; triggerData: Record<string, unknown> }
+    | { type: 'process_scheduled_steps' }
+    | { type: 'process_scheduled_enrollments' }
+    | { type: 'poll_inbound_replies' };
 
 export const addSequenceJob = async (data: SequenceJobData) => {
     return sequenceQueue.add(data.type, data);
 };
+
+/**
+ * Queue a delayed job that runs an enrollment's next step at its scheduled time.
+ * The job id is derived from the schedule, so scheduling the same step twice adds one job.
+ * A retry keeps the original schedule (and so the same execution claim) but runs at `retryAt`.
+ */
+export const scheduleEnrollmentStep = async (enrollmentId: string, scheduledFor: Date, retryAt?: Date) => {
+    const data: SequenceJobData = {
+        type: 'execute_step',
+        enrollmentId,
+        scheduledFor: scheduledFor.toISOString(),
+    };
+    const runAt = retryAt || scheduledFor;
+    const jobId = `step-${enrollmentId}-${scheduledFor.getTime()}`;
+
+    return sequenceQueue.add(data.type, data, {
+        jobId: retryAt ? `${jobId}-retry-${retryAt.getTime()}` : jobId,
+        delay: Math.max(0, runAt.getTime() - Date.now()),
+    });
+};
+
+/**
+ * Queue a rule's enrollment of a lead to run after the rule's delay. One job per rule and lead
+ * is pending at a time; repeated triggers during the delay add nothing.
+ */
+export const queueDelayedEnrollment = async (
+    ruleId: string,
+    leadId: string,
+    triggerData: Record<string, unknown>,
+    delayMinutes: number
+) => {
+    const data: SequenceJobData = { type: 'enroll_delayed', ruleId, leadId, triggerData };
+
+    return sequenceQueue.add(data.type, data, {
+        jobId: `enroll-${ruleId}-${leadId}`,
+        delay: delayMinutes * 60 * 1000,
+    });
+};
@@ -16,6 +16,7 @@ export interface RedisConfig {
     webhooks: 'apollo-webhooks';
     scoring: 'ai-scoring';
     sequences: 'sequence-execution';
+    playbooks: 'playbook-execution';
   };
   cache: {
     ttl: {
@@ -41,6 +42,7 @@ export const redisConfig: RedisConfig = {
     webhooks: 'apollo-webhooks',
     scoring: 'ai-scoring',
     sequences: 'sequence-execution',
+    playbooks: 'playbook-execution',
   },
   cache: {
     ttl: {
@@ -0,0 +1,202 @@
+/**
+ * Tests for auto-enrollment trigger emission, trigger matching and webhook signatures
+ */
+
+import { createHmac } from 'node:crypto';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { AutoEnrollmentEngine, type AutoEnrollmentRule } from '../auto-enrollment';
+import { addSequenceJob } from '@/lib/queue/sequence-queue';
+
+jest.mock('@/lib/supabase/server', () => ({ createClient: jest.fn() }));
+jest.mock('@/lib/supabase/admin', () => ({ createAdminClient: jest.fn() }));
+
+jest.mock('@/lib/queue/sequence-queue', () => ({
+  addSequenceJob: jest.fn(),
+  queueDelayedEnrollment: jest.fn(),
+}));
+
+const mockAddSequenceJob = jest.mocked(addSequenceJob);
+
+// Trigger matching is private; reach it the way the rule processor does
+const engine = AutoEnrollmentEngine as unknown as {
+  matchesTriggerConditions(rule: AutoEnrollmentRule, triggerData: Record<string, unknown>): boolean;
+};
+
+function buildRule(overrides: Partial<AutoEnrollmentRule> = {}): AutoEnrollmentRule {
+  return {
+    id: 'rule-1',
+    organization_id: 'org-1',
+    name: 'Rule',
+    template_id: 'template-1',
+    is_active: true,
+    priority: 100,
+    trigger_type: 'webhook',
+    trigger_config: {},
+    delay_minutes: 0,
+    total_enrollments: 0,
+    created_by: 'user-1',
+    webhook_secret: 'secret',
+    ...overrides,
+  };
+}
+
+function sign(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+function emittedTriggers() {
+  return mockAddSequenceJob.mock.calls.map(([job]) => job);
+}
+
+describe('AutoEnrollmentEngine.emitLeadChanges', () => {
+  beforeEach(() => {
+    mockAddSequenceJob.mockReset();
+  });
+
+  it('should emit status, tag and field triggers for what changed', async () => {
+    await AutoEnrollmentEngine.emitLeadChanges(
+      'org-1',
+      'lead-1',
+      { status: 'cold', tags: ['a'], industry: 'SaaS', company: 'Acme' },
+      { status: 'warm', tags: ['a', 'b'], industry: 'Fintech', company: 'Acme' }
+    );
+
+    expect(emittedTriggers()).toEqual([
+      {
+        type: 'process_auto_enrollment',
+        triggerType: 'lead_status_change',
+        triggerData: { lead_id: 'lead-1', old_status: 'cold', new_status: 'warm' },
+        orgId: 'org-1',
+      },
+      {
+        type: 'process_auto_enrollment',
+        triggerType: 'tag_added',
+        triggerData: { lead_id: 'lead-1', tag: 'b' },
+        orgId: 'org-1',
+      },
+      {
+        type: 'process_auto_enrollment',
+        triggerType: 'field_updated',
+        triggerData: { lead_id: 'lead-1', field_name: 'status', old_value: 'cold', new_value: 'warm' },
+        orgId: 'org-1',
+      },
+      {
+        type: 'process_auto_enrollment',
+        triggerType: 'field_updated',
+        triggerData: { lead_id: 'lead-1', field_name: 'industry', old_value: 'SaaS', new_value: 'Fintech' },
+        orgId: 'org-1',
+      },
+    ]);
+  });
+
+  it('should skip untracked fields and fields missing from the previous row', async () => {
+    await AutoEnrollmentEngine.emitLeadChanges(
+      'org-1',
+      'lead-1',
+      { updated_at: '2026-01-01T00:00:00Z' },
+      { updated_at: '2026-01-02T00:00:00Z', industry: 'SaaS' }
+    );
+
+    expect(mockAddSequenceJob).not.toHaveBeenCalled();
+  });
+
+  it('should not emit for a lead without an organization', async () => {
+    await AutoEnrollmentEngine.emitLeadChanges(null, 'lead-1', { status: 'cold' }, { status: 'warm' });
+
+    expect(mockAddSequenceJob).not.toHaveBeenCalled();
+  });
+
+  it('should swallow queue failures so the lead update still succeeds', async () => {
+    mockAddSequenceJob.mockRejectedValueOnce(new Error('redis down'));
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    await expect(
+      AutoEnrollmentEngine.emitTrigger('org-1', 'lead_created', { lead_id: 'lead-1' })
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('AutoEnrollmentEngine trigger matching', () => {
+  it('should only match webhook events addressed to the rule', () => {
+    const rule = buildRule({ trigger_config: { events: ['signup'] } });
+
+    expect(engine.matchesTriggerConditions(rule, { rule_id: 'rule-1', event: 'signup' })).toBe(true);
+    expect(engine.matchesTriggerConditions(rule, { rule_id: 'rule-1', event: 'churn' })).toBe(false);
+    expect(engine.matchesTriggerConditions(rule, { rule_id: 'rule-2', event: 'signup' })).toBe(false);
+  });
+
+  it('should filter lead_created triggers by source when configured', () => {
+    const anySource = buildRule({ trigger_type: 'lead_created' });
+    const apolloOnly = buildRule({ trigger_type: 'lead_created', trigger_config: { sources: ['apollo'] } });
+
+    expect(engine.matchesTriggerConditions(anySource, { source: 'ingest' })).toBe(true);
+    expect(engine.matchesTriggerConditions(apolloOnly, { source: 'apollo' })).toBe(true);
+    expect(engine.matchesTriggerConditions(apolloOnly, { source: 'ingest' })).toBe(false);
+  });
+
+  it('should match scheduled rules once their interval has passed', () => {
+    const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+    const config = { interval_minutes: 30 };
+
+    expect(engine.matchesTriggerConditions(buildRule({ trigger_type: 'scheduled' }), {})).toBe(true);
+    expect(
+      engine.matchesTriggerConditions(
+        buildRule({ trigger_type: 'scheduled', trigger_config: config, last_evaluated_at: minutesAgo(45) }),
+        {}
+      )
+    ).toBe(true);
+    expect(
+      engine.matchesTriggerConditions(
+        buildRule({ trigger_type: 'scheduled', trigger_config: config, last_evaluated_at: minutesAgo(10) }),
+        {}
+      )
+    ).toBe(false);
+  });
+});
+
+describe('AutoEnrollmentEngine.verifyWebhookSignature', () => {
+  const body = JSON.stringify({ lead_id: 'lead-1' });
+  const now = () => String(Math.floor(Date.now() / 1000));
+
+  it('should accept a body signed with the rule secret', () => {
+    const timestamp = now();
+
+    expect(
+      AutoEnrollmentEngine.verifyWebhookSignature(buildRule(), body, sign('secret', timestamp, body), timestamp)
+    ).toEqual({ valid: true });
+  });
+
+  it('should reject a signature made with another secret or over another body', () => {
+    const timestamp = now();
+
+    expect(
+      AutoEnrollmentEngine.verifyWebhookSignature(buildRule(), body, sign('other', timestamp, body), timestamp)
+    ).toEqual({ valid: false, reason: 'Invalid signature' });
+    expect(
+      AutoEnrollmentEngine.verifyWebhookSignature(buildRule(), '{}', sign('secret', timestamp, body), timestamp)
+    ).toEqual({ valid: false, reason: 'Invalid signature' });
+  });
+
+  it('should reject stale timestamps', () => {
+    const timestamp = String(Math.floor(Date.now() / 1000) - 600);
+
+    expect(
+      AutoEnrollmentEngine.verifyWebhookSignature(buildRule(), body, sign('secret', timestamp, body), timestamp)
+    ).toEqual({ valid: false, reason: 'Signature timestamp outside tolerance' });
+  });
+
+  it('should reject rules that are not webhook-triggered or have no secret', () => {
+    const timestamp = now();
+    const signature = sign('secret', timestamp, body);
+
+    expect(
+      AutoEnrollmentEngine.verifyWebhookSignature(buildRule({ trigger_type: 'lead_created' }), body, signature, timestamp)
+    ).toEqual({ valid: false, reason: 'Rule is not webhook-triggered' });
+    expect(
+      AutoEnrollmentEngine.verifyWebhookSignature(buildRule({ webhook_secret: undefined }), body, signature, timestamp)
+    ).toEqual({ valid: false, reason: 'Webhook secret is not configured' });
+    expect(
+      AutoEnrollmentEngine.verifyWebhookSignature(buildRule(), body, null, timestamp)
+    ).toEqual({ valid: false, reason: 'Missing signature headers' });
+  });
+});
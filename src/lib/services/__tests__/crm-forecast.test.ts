@@ -0,0 +1,99 @@
+/**
+ * Test Suite for the opportunity forecast
+ * Verifies bucketing by owner and close month, stage-weighted amounts and rounding
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { summarizeForecast } from '../crm-forecast';
+
+const STAGES = [
+  { id: 'discovery', probability: 10 },
+  { id: 'proposal', probability: 50 },
+];
+
+const MONTHS = ['2026-01', '2026-02'];
+
+function opportunity(overrides: Partial<Parameters<typeof summarizeForecast>[0][number]>) {
+  return {
+    stage_id: 'discovery',
+    amount: 1000,
+    close_date: '2026-01-15',
+    probability: null,
+    status: 'open' as const,
+    assigned_to: 'user-a',
+    ...overrides,
+  };
+}
+
+describe('summarizeForecast', () => {
+  it('should weight open deals by their stage probability and count won deals in full', () => {
+    const report = summarizeForecast(
+      [
+        opportunity({ stage_id: 'proposal', amount: 2000 }),
+        opportunity({ status: 'won', amount: 500, close_date: '2026-02-03' }),
+      ],
+      STAGES,
+      MONTHS
+    );
+
+    expect(report.totals.months['2026-01']).toEqual({
+      open_count: 1,
+      open_amount: 2000,
+      weighted_amount: 1000,
+      won_count: 0,
+      won_amount: 0,
+      forecast_amount: 1000,
+    });
+    expect(report.totals.months['2026-02']).toMatchObject({ won_count: 1, won_amount: 500, forecast_amount: 500 });
+    expect(report.totals.total.forecast_amount).toBe(1500);
+  });
+
+  it('should prefer a probability set on the deal over its stage default', () => {
+    const report = summarizeForecast([opportunity({ probability: 75 })], STAGES, MONTHS);
+
+    expect(report.totals.total.weighted_amount).toBe(750);
+  });
+
+  it('should leave out deals closing outside the range or without a close date', () => {
+    const report = summarizeForecast(
+      [
+        opportunity({ close_date: '2025-12-31' }),
+        opportunity({ close_date: null }),
+        opportunity({ close_date: '2026-03-01' }),
+      ],
+      STAGES,
+      MONTHS
+    );
+
+    expect(report.owners).toEqual([]);
+    expect(report.totals.total.open_count).toBe(0);
+  });
+
+  it('should group by owner, largest forecast first, with unassigned deals under a null owner', () => {
+    const report = summarizeForecast(
+      [
+        opportunity({ assigned_to: 'user-a', amount: 100 }),
+        opportunity({ assigned_to: null, stage_id: 'proposal', amount: 10000 }),
+        opportunity({ assigned_to: 'user-a', amount: 300, close_date: '2026-02-10' }),
+      ],
+      STAGES,
+      MONTHS
+    );
+
+    expect(report.owners.map((owner) => owner.owner_id)).toEqual([null, 'user-a']);
+    expect(report.owners[1].months['2026-01'].weighted_amount).toBe(10);
+    expect(report.owners[1].months['2026-02'].weighted_amount).toBe(30);
+    expect(report.owners[1].total.open_count).toBe(2);
+  });
+
+  it('should round amounts to cents', () => {
+    const report = summarizeForecast(
+      [opportunity({ amount: 333.333, probability: 33 })],
+      STAGES,
+      MONTHS
+    );
+
+    expect(report.totals.total.open_amount).toBe(333.33);
+    expect(report.totals.total.weighted_amount).toBe(110);
+  });
+});
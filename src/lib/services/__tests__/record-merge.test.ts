@@ -0,0 +1,89 @@
+/**
+ * Test Suite for Record Merge field resolution
+ * Verifies which values a merge writes to the surviving lead, contact or account
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { RecordMergeService } from '../record-merge';
+
+const resolveFields = RecordMergeService['resolveFields'].bind(RecordMergeService);
+
+describe('RecordMergeService.resolveFields', () => {
+  it('should keep survivor values and fill its empty fields from the merged record', () => {
+    const { updates, fields } = resolveFields(
+      'lead',
+      { name: 'Jane Doe', email: 'jane@acme.com', phone: null, title: 'CEO', status: 'new' },
+      { name: 'Jane D.', email: 'jane@acme.com', phone: '555-0102', title: 'Founder', status: 'new' },
+      {}
+    );
+
+    expect(fields).toEqual({ name: 'survivor', phone: 'merged', title: 'survivor' });
+    expect(updates).toEqual({ phone: '555-0102' });
+  });
+
+  it('should take fields the reviewer chose from the merged record', () => {
+    const { updates, fields } = resolveFields(
+      'contact',
+      { first_name: 'Jane', title: 'CEO', metadata: {} },
+      { first_name: 'Janet', title: 'Founder', metadata: {} },
+      { title: 'merged' }
+    );
+
+    expect(fields).toEqual({ first_name: 'survivor', title: 'merged' });
+    expect(updates).toEqual({ title: 'Founder' });
+  });
+
+  it('should carry field provenance with a value taken from the merged record', () => {
+    const linkedin = { source: 'linkedin', captured_at: '2026-01-01T00:00:00.000Z' };
+    const { updates } = resolveFields(
+      'lead',
+      { title: null, headline: 'Builder', field_sources: { headline: linkedin } },
+      { title: 'CTO', headline: 'Engineer', field_sources: { title: linkedin } },
+      { headline: 'merged' }
+    );
+
+    expect(updates).toEqual({
+      title: 'CTO',
+      headline: 'Engineer',
+      field_sources: { title: linkedin },
+    });
+  });
+
+  it('should union lead tags and keep the later last contact', () => {
+    const { updates } = resolveFields(
+      'lead',
+      { tags: ['vip', 'webinar'], last_contacted_at: '2026-03-01T00:00:00.000Z' },
+      { tags: ['webinar', 'apollo'], last_contacted_at: '2026-04-01T00:00:00.000Z' },
+      {}
+    );
+
+    expect(updates).toEqual({
+      tags: ['vip', 'webinar', 'apollo'],
+      last_contacted_at: '2026-04-01T00:00:00.000Z',
+    });
+  });
+
+  it('should keep a converted lead converted whichever record survives', () => {
+    const { updates } = resolveFields(
+      'lead',
+      { status: 'qualified', converted_at: null },
+      { status: 'converted', converted_at: '2026-02-01T00:00:00.000Z' },
+      {}
+    );
+
+    expect(updates).toEqual({ converted_at: '2026-02-01T00:00:00.000Z', status: 'converted' });
+  });
+
+  it('should merge account metadata with the survivor winning and tags unioned', () => {
+    const { updates } = resolveFields(
+      'account',
+      { name: 'Acme', metadata: { tier: 'gold', tags: ['customer'] } },
+      { name: 'Acme', metadata: { tier: 'silver', region: 'emea', tags: ['partner'] } },
+      {}
+    );
+
+    expect(updates).toEqual({
+      metadata: { tier: 'gold', region: 'emea', tags: ['customer', 'partner'] },
+    });
+  });
+});
@@ -1,6 +1,9 @@
 import { createClient } from '@/lib/supabase/server';
 import { CacheManager, RateLimiter, redisConfig } from '@/lib/redis/client';
 import { queueManager } from '@/lib/queue/apollo-queue';
+import { PlaybookTriggerService } from '@/lib/services/playbook-triggers';
+import { AutoEnrollmentEngine } from '@/lib/services/auto-enrollment';
+import { DuplicateDetectionService } from '@/lib/services/duplicate-detection';
 
 const APOLLO_API_BASE = 'https://api.apollo.io/v1';
 
@@ -605,6 +608,18 @@ export class ApolloService {
             .single();
 
         if (error) throw error;
+
+        await PlaybookTriggerService.emitEvent(organizationId, 'lead.created', {
+            lead_id: newLead.id,
+            source: 'apollo_import',
+        });
+        await AutoEnrollmentEngine.emitTrigger(organizationId, 'lead_created', {
+            lead_id: newLead.id,
+            source: 'apollo_import',
+        });
+        await DuplicateDetectionService.detectForRecord('lead', newLead.id, organizationId).catch((error) => {
+            console.error('Failed to check imported lead for duplicates:', error);
+        });
         return newLead.id;
     }
 }
@@ -3,8 +3,12 @@
  * Handles automated sequence enrollment based on triggers and rules
  */
 
+import { createHmac, timingSafeEqual } from 'node:crypto';
 import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { addSequenceJob, queueDelayedEnrollment } from '@/lib/queue/sequence-queue';
 import { SequenceEnrollmentService } from './sequences';
+import { getCustomFieldValues } from './custom-fields';
 import { z } from 'zod';
 
 // ============================================
@@ -39,6 +43,8 @@ export interface AutoEnrollmentRule {
   execute_between_end?: string;
   execute_on_days?: number[];
   last_triggered_at?: string;
+  last_evaluated_at?: string;
+  webhook_secret?: string;
   total_enrollments: number;
   created_by: string;
 }
@@ -63,6 +69,28 @@ export interface ProcessResult {
   errors: string[];
 }
 
+// A sales_leads row as read for enrollment
+type LeadRow = Record<string, unknown> & { id: string };
+
+export type WebhookVerification =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+// Scheduled rules re-run their audience this often unless trigger_config.interval_minutes is set
+const DEFAULT_SCHEDULE_INTERVAL_MINUTES = 60;
+
+// Most leads one scheduled evaluation enrolls, unless trigger_config.limit is set
+const SCHEDULED_AUDIENCE_LIMIT = 500;
+
+// Lead ids per page go into an `in` filter on the logs table, so pages stay small
+const AUDIENCE_PAGE_SIZE = 100;
+
+// Signed webhook requests older than this are rejected to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Lead columns that never raise field_updated (tags raise tag_added instead)
+const UNTRACKED_FIELDS = new Set(['tags', 'updated_at', 'raw_payload', 'field_sources']);
+
 // ============================================
 // VALIDATION SCHEMAS
 // ============================================
@@ -173,7 +201,7 @@ export class AutoEnrollmentEngine {
     triggerData: Record<string, any>,
     orgId: string
   ): Promise<ProcessResult> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
     const result: ProcessResult = {
       processed: 0,
       enrolled: 0,
@@ -184,13 +212,19 @@ export class AutoEnrollmentEngine {
 
     try {
       // Get active rules for this trigger type
-      const { data: rules } = await supabase
+      let query = supabase
         .from('sequence_auto_enrollment_rules')
         .select('*')
         .eq('organization_id', orgId)
         .eq('trigger_type', triggerType)
-        .eq('is_active', true)
-        .order('priority', { ascending: true });
+        .eq('is_active', true);
+
+      // Webhook events are addressed to one rule
+      if (triggerData.rule_id) {
+        query = query.eq('id', triggerData.rule_id);
+      }
+
+      const { data: rules } = await query.order('priority', { ascending: true });
 
       if (!rules || rules.length === 0) {
         return result;
@@ -231,13 +265,16 @@ export class AutoEnrollmentEngine {
     rule: AutoEnrollmentRule,
     triggerData: Record<string, any>
   ): Promise<{ enrolled: number; skipped: number; errors: string[] }> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
     const result = { enrolled: 0, skipped: 0, errors: [] as string[] };
 
     // Check if rule matches trigger conditions
     if (!this.matchesTriggerConditions(rule, triggerData)) {
       result.skipped++;
-      await this.logEnrollment(rule.id, triggerData.lead_id, 'skipped', 'trigger_conditions_not_met', triggerData);
+      // Scheduled rules are checked on every cron tick; only lead events are worth a log row
+      if (triggerData.lead_id) {
+        await this.logEnrollment(rule.id, triggerData.lead_id, 'skipped', 'trigger_conditions_not_met', triggerData);
+      }
       return result;
     }
 
@@ -248,6 +285,15 @@ export class AutoEnrollmentEngine {
       return result;
     }
 
+    if (rule.trigger_type === 'scheduled') {
+      await supabase
+        .from('sequence_auto_enrollment_rules')
+        .update({ last_evaluated_at: new Date().toISOString() })
+        .eq('id', rule.id);
+    }
+
+    let remaining = Infinity;
+
     // Check daily limit
     if (rule.max_enrollments_per_day) {
       const today = new Date();
@@ -265,23 +311,32 @@ export class AutoEnrollmentEngine {
         await this.logEnrollment(rule.id, triggerData.lead_id, 'skipped', 'daily_limit_reached', triggerData);
         return result;
       }
+
+      remaining = rule.max_enrollments_per_day - (count || 0);
     }
 
     // Check total limit
-    if (rule.max_total_enrollments && rule.total_enrollments >= rule.max_total_enrollments) {
-      result.skipped++;
-      await this.logEnrollment(rule.id, triggerData.lead_id, 'skipped', 'total_limit_reached', triggerData);
-      return result;
+    if (rule.max_total_enrollments) {
+      if (rule.total_enrollments >= rule.max_total_enrollments) {
+        result.skipped++;
+        await this.logEnrollment(rule.id, triggerData.lead_id, 'skipped', 'total_limit_reached', triggerData);
+        return result;
+      }
+
+      remaining = Math.min(remaining, rule.max_total_enrollments - rule.total_enrollments);
     }
 
     // Get leads to enroll based on trigger type
     const leads = await this.getLeadsToEnroll(rule, triggerData);
+    const customFields = await this.loadFilterCustomFields(rule, leads);
 
     // Process each lead
     for (const lead of leads) {
+      if (result.enrolled >= remaining) break;
+
       try {
         // Check lead filters
-        if (!this.matchesLeadFilters(lead, rule.lead_filters)) {
+        if (!this.matchesLeadFilters(lead, rule.lead_filters, customFields[lead.id])) {
           result.skipped++;
           await this.logEnrollment(rule.id, lead.id, 'skipped', 'filters_not_matched', triggerData, rule.lead_filters);
           continue;
@@ -290,25 +345,30 @@ export class AutoEnrollmentEngine {
         // Schedule enrollment with delay
         if (rule.delay_minutes > 0) {
           await this.scheduleDelayedEnrollment(lead.id, rule, triggerData);
-        } else {
-          // Enroll immediately
-          await SequenceEnrollmentService.enroll({
-            lead_id: lead.id,
-            template_id: rule.template_id,
-          }, 'auto_enrollment');
-
-          result.enrolled++;
-          await this.logEnrollment(rule.id, lead.id, 'enrolled', undefined, triggerData);
-
-          // Update rule enrollment count
-          await supabase
-            .from('sequence_auto_enrollment_rules')
-            .update({
-              total_enrollments: rule.total_enrollments + 1,
-              last_triggered_at: new Date().toISOString(),
-            })
-            .eq('id', rule.id);
+          continue;
+        }
+
+        // Enroll immediately
+        const outcome = await this.enrollLead(rule, lead.id, triggerData);
+        if (outcome.status === 'already_enrolled') {
+          result.skipped++;
+          continue;
+        }
+        if (outcome.status === 'failed') {
+          result.errors.push(`Lead ${lead.id}: ${outcome.error}`);
+          continue;
         }
+
+        result.enrolled++;
+
+        // Update rule enrollment count
+        await supabase
+          .from('sequence_auto_enrollment_rules')
+          .update({
+            total_enrollments: rule.total_enrollments + result.enrolled,
+            last_triggered_at: new Date().toISOString(),
+          })
+          .eq('id', rule.id);
       } catch (error: any) {
         result.errors.push(`Lead ${lead.id}: ${error.message}`);
         await this.logEnrollment(rule.id, lead.id, 'failed', undefined, triggerData, undefined, error.message);
@@ -330,8 +390,9 @@ export class AutoEnrollmentEngine {
     switch (rule.trigger_type) {
       case 'lead_status_change':
         return (
-          config.from_status === triggerData.old_status &&
-          config.to_status === triggerData.new_status
+          triggerData.old_status !== triggerData.new_status &&
+          (!config.from_status || config.from_status === triggerData.old_status) &&
+          (!config.to_status || config.to_status === triggerData.new_status)
         );
 
       case 'lead_score_threshold':
@@ -341,7 +402,7 @@ export class AutoEnrollmentEngine {
         );
 
       case 'tag_added':
-        return config.tags?.includes(triggerData.tag);
+        return !!config.tags?.includes(triggerData.tag);
 
       case 'field_updated':
         return (
@@ -353,9 +414,17 @@ export class AutoEnrollmentEngine {
         return config.form_id === triggerData.form_id;
 
       case 'lead_created':
-      case 'scheduled':
+        // Optionally only leads from some sources, e.g. ['ingest', 'apollo']
+        return !config.sources?.length || config.sources.includes(triggerData.source);
+
       case 'webhook':
-        return true;
+        return (
+          triggerData.rule_id === rule.id &&
+          (!config.events?.length || config.events.includes(triggerData.event))
+        );
+
+      case 'scheduled':
+        return this.isScheduleDue(rule);
 
       default:
         return false;
@@ -384,6 +453,16 @@ export class AutoEnrollmentEngine {
     return true;
   }
 
+  /**
+   * Whether a scheduled rule's interval has passed since its last evaluation
+   */
+  private static isScheduleDue(rule: AutoEnrollmentRule): boolean {
+    if (!rule.last_evaluated_at) return true;
+
+    const intervalMinutes = Number(rule.trigger_config.interval_minutes) || DEFAULT_SCHEDULE_INTERVAL_MINUTES;
+    return Date.now() - new Date(rule.last_evaluated_at).getTime() >= intervalMinutes * 60 * 1000;
+  }
+
   /**
    * Get leads to enroll based on trigger
    */
@@ -391,7 +470,7 @@ export class AutoEnrollmentEngine {
     rule: AutoEnrollmentRule,
     triggerData: Record<string, any>
   ): Promise<any[]> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     // For single lead triggers
     if (triggerData.lead_id) {
@@ -405,27 +484,77 @@ export class AutoEnrollmentEngine {
       return lead ? [lead] : [];
     }
 
-    // For batch triggers (scheduled, webhook)
-    if (rule.trigger_type === 'scheduled' || rule.trigger_type === 'webhook') {
+    if (rule.trigger_type === 'scheduled') {
+      return this.getScheduledAudience(rule);
+    }
+
+    return [];
+  }
+
+  /**
+   * Re-run a scheduled rule's audience: leads matching trigger_config and lead_filters that the
+   * rule has not enrolled yet, oldest first
+   */
+  private static async getScheduledAudience(rule: AutoEnrollmentRule): Promise<LeadRow[]> {
+    const supabase = createAdminClient();
+    const limit = Number(rule.trigger_config.limit) || SCHEDULED_AUDIENCE_LIMIT;
+    const audience: LeadRow[] = [];
+
+    for (let from = 0; audience.length < limit; from += AUDIENCE_PAGE_SIZE) {
       let query = supabase
         .from('sales_leads')
         .select('*')
         .eq('organization_id', rule.organization_id);
 
-      // Apply basic filters from trigger config
+      // Apply basic filters from trigger config and lead filters
       if (rule.trigger_config.lead_status) {
         query = query.eq('status', rule.trigger_config.lead_status);
       }
 
-      if (rule.trigger_config.limit) {
-        query = query.limit(rule.trigger_config.limit);
+      if (Array.isArray(rule.lead_filters?.status) && rule.lead_filters.status.length > 0) {
+        query = query.in('status', rule.lead_filters.status);
+      }
+
+      const { data: leads, error } = await query
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + AUDIENCE_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      if (!leads || leads.length === 0) break;
+
+      const { data: enrolled } = await supabase
+        .from('sequence_auto_enrollment_logs')
+        .select('lead_id')
+        .eq('rule_id', rule.id)
+        .eq('status', 'enrolled')
+        .in('lead_id', leads.map((lead) => lead.id));
+
+      const enrolledIds = new Set((enrolled || []).map((row) => row.lead_id));
+      const customFields = await this.loadFilterCustomFields(rule, leads);
+
+      for (const lead of leads) {
+        if (!enrolledIds.has(lead.id) && this.matchesLeadFilters(lead, rule.lead_filters, customFields[lead.id])) {
+          audience.push(lead);
+        }
       }
 
-      const { data: leads } = await query;
-      return leads || [];
+      if (leads.length < AUDIENCE_PAGE_SIZE) break;
     }
 
-    return [];
+    return audience.slice(0, limit);
+  }
+
+  /**
+   * Custom field values of the leads by lead id, loaded only when the rule filters on them
+   */
+  private static async loadFilterCustomFields(
+    rule: AutoEnrollmentRule,
+    leads: LeadRow[]
+  ): Promise<Record<string, Record<string, unknown>>> {
+    if (!rule.lead_filters?.custom_fields || leads.length === 0) return {};
+
+    return getCustomFieldValues('sales_leads', leads.map((lead) => lead.id));
   }
 
   /**
@@ -433,7 +562,8 @@ export class AutoEnrollmentEngine {
    */
   private static matchesLeadFilters(
     lead: any,
-    filters?: Record<string, any>
+    filters?: Record<string, any>,
+    customFields: Record<string, unknown> = {}
   ): boolean {
     if (!filters) return true;
 
@@ -470,8 +600,6 @@ export class AutoEnrollmentEngine {
 
     // Custom fields filter
     if (filters.custom_fields) {
-      const customFields = lead.custom_fields || {};
-
       for (const [field, value] of Object.entries(filters.custom_fields)) {
         if (customFields[field] !== value) {
           return false;
@@ -483,15 +611,14 @@ export class AutoEnrollmentEngine {
   }
 
   /**
-   * Schedule delayed enrollment
+   * Queue the enrollment for the sequence worker to run once the rule's delay has passed
    */
   private static async scheduleDelayedEnrollment(
     leadId: string,
     rule: AutoEnrollmentRule,
     triggerData: Record<string, any>
   ): Promise<void> {
-    // In production, this would integrate with a job queue (Bull, BullMQ, etc.)
-    // For now, we'll log it for manual processing
+    await queueDelayedEnrollment(rule.id, leadId, triggerData, rule.delay_minutes);
     await this.logEnrollment(
       rule.id,
       leadId,
@@ -501,6 +628,77 @@ export class AutoEnrollmentEngine {
     );
   }
 
+  /**
+   * Claim the lead for the rule and enroll it, releasing the claim when enrollment fails
+   */
+  private static async enrollLead(
+    rule: AutoEnrollmentRule,
+    leadId: string,
+    triggerData: Record<string, unknown>
+  ): Promise<{ status: 'enrolled' | 'already_enrolled' } | { status: 'failed'; error: string }> {
+    const claimId = await this.claimEnrollment(rule.id, leadId, triggerData);
+    if (!claimId) {
+      await this.logEnrollment(rule.id, leadId, 'skipped', 'already_enrolled_by_rule', triggerData);
+      return { status: 'already_enrolled' };
+    }
+
+    try {
+      await SequenceEnrollmentService.enroll({
+        lead_id: leadId,
+        template_id: rule.template_id,
+      }, 'auto_enrollment');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.releaseClaim(claimId, message);
+      return { status: 'failed', error: message };
+    }
+
+    return { status: 'enrolled' };
+  }
+
+  /**
+   * Write the enrolled log row before enrolling. The unique index on (rule_id, lead_id) over
+   * enrolled rows makes this the point where concurrent or repeated triggers are de-duplicated.
+   * @returns The log row id, or null when the rule already enrolled this lead
+   */
+  private static async claimEnrollment(
+    ruleId: string,
+    leadId: string,
+    triggerData: Record<string, unknown>
+  ): Promise<string | null> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('sequence_auto_enrollment_logs')
+      .insert({
+        rule_id: ruleId,
+        lead_id: leadId,
+        status: 'enrolled',
+        trigger_data: triggerData,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') return null;
+      throw error;
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Turn a claim into a failed log row so a later trigger can try again
+   */
+  private static async releaseClaim(logId: string, errorMessage: string): Promise<void> {
+    const supabase = createAdminClient();
+
+    await supabase
+      .from('sequence_auto_enrollment_logs')
+      .update({ status: 'failed', error_message: errorMessage })
+      .eq('id', logId);
+  }
+
   /**
    * Log enrollment attempt
    */
@@ -513,7 +711,7 @@ export class AutoEnrollmentEngine {
     filtersEvaluated?: Record<string, any>,
     errorMessage?: string
   ): Promise<void> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     await supabase
       .from('sequence_auto_enrollment_logs')
@@ -571,4 +769,241 @@ export class AutoEnrollmentEngine {
   static async processScheduledRules(orgId: string): Promise<ProcessResult> {
     return this.processTrigger('scheduled', {}, orgId);
   }
+
+  /**
+   * Process due scheduled rules for every organization that has one
+   */
+  static async processDueScheduledRules(): Promise<ProcessResult> {
+    const supabase = createAdminClient();
+    const result: ProcessResult = { processed: 0, enrolled: 0, skipped: 0, failed: 0, errors: [] };
+
+    const { data: rules, error } = await supabase
+      .from('sequence_auto_enrollment_rules')
+      .select('organization_id')
+      .eq('trigger_type', 'scheduled')
+      .eq('is_active', true);
+
+    if (error) throw error;
+
+    const orgIds = [...new Set((rules || []).map((rule) => rule.organization_id as string))];
+
+    for (const orgId of orgIds) {
+      const orgResult = await this.processScheduledRules(orgId);
+      result.processed += orgResult.processed;
+      result.enrolled += orgResult.enrolled;
+      result.skipped += orgResult.skipped;
+      result.failed += orgResult.failed;
+      result.errors.push(...orgResult.errors);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run an enrollment queued by a rule with a delay. The rule and the lead are checked again,
+   * since either may have changed while the job waited.
+   */
+  static async processDelayedEnrollment(
+    ruleId: string,
+    leadId: string,
+    triggerData: Record<string, unknown>
+  ): Promise<void> {
+    const rule = await this.loadRule(ruleId);
+    if (!rule?.is_active) {
+      await this.logEnrollment(ruleId, leadId, 'skipped', 'rule_inactive', triggerData);
+      return;
+    }
+
+    if (rule.max_total_enrollments && rule.total_enrollments >= rule.max_total_enrollments) {
+      await this.logEnrollment(rule.id, leadId, 'skipped', 'total_limit_reached', triggerData);
+      return;
+    }
+
+    const [lead] = await this.getLeadsToEnroll(rule, { lead_id: leadId });
+    if (!lead) {
+      await this.logEnrollment(rule.id, leadId, 'skipped', 'lead_not_found', triggerData);
+      return;
+    }
+
+    const customFields = await this.loadFilterCustomFields(rule, [lead]);
+    if (!this.matchesLeadFilters(lead, rule.lead_filters, customFields[lead.id])) {
+      await this.logEnrollment(rule.id, leadId, 'skipped', 'filters_not_matched', triggerData, rule.lead_filters);
+      return;
+    }
+
+    const outcome = await this.enrollLead(rule, leadId, triggerData);
+    if (outcome.status === 'failed') {
+      throw new Error(`Delayed enrollment of lead ${leadId} failed: ${outcome.error}`);
+    }
+
+    if (outcome.status === 'enrolled') {
+      const supabase = createAdminClient();
+      await supabase
+        .from('sequence_auto_enrollment_rules')
+        .update({
+          total_enrollments: rule.total_enrollments + 1,
+          last_triggered_at: new Date().toISOString(),
+        })
+        .eq('id', rule.id);
+    }
+  }
+
+  // ============================================
+  // EVENTS
+  // ============================================
+
+  /**
+   * Queue a trigger for the sequence worker. Failures are logged rather than surfaced
+   * so the request that changed the lead still succeeds.
+   */
+  static async emitTrigger(
+    orgId: string | null | undefined,
+    triggerType: TriggerType,
+    triggerData: Record<string, unknown>
+  ): Promise<void> {
+    if (!orgId) return;
+
+    try {
+      await addSequenceJob({ type: 'process_auto_enrollment', triggerType, triggerData, orgId });
+    } catch (error) {
+      console.error(`Error emitting auto-enrollment trigger ${triggerType}:`, error);
+    }
+  }
+
+  /**
+   * Emit lead_status_change, tag_added and field_updated triggers for a lead update
+   * @param before - Lead row as it was before the update
+   * @param after - Lead row as returned by the update
+   */
+  static async emitLeadChanges(
+    orgId: string | null | undefined,
+    leadId: string,
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+  ): Promise<void> {
+    if (after.status !== undefined && before.status !== after.status) {
+      await this.emitTrigger(orgId, 'lead_status_change', {
+        lead_id: leadId,
+        old_status: before.status ?? null,
+        new_status: after.status,
+      });
+    }
+
+    const previousTags = new Set(Array.isArray(before.tags) ? before.tags : []);
+    for (const tag of Array.isArray(after.tags) ? after.tags : []) {
+      if (!previousTags.has(tag)) {
+        await this.emitTrigger(orgId, 'tag_added', { lead_id: leadId, tag });
+      }
+    }
+
+    for (const [field, value] of Object.entries(after)) {
+      if (UNTRACKED_FIELDS.has(field) || !(field in before)) continue;
+      if (JSON.stringify(before[field]) === JSON.stringify(value)) continue;
+
+      await this.emitTrigger(orgId, 'field_updated', {
+        lead_id: leadId,
+        field_name: field,
+        old_value: before[field] ?? null,
+        new_value: value,
+      });
+    }
+  }
+
+  // ============================================
+  // WEBHOOKS
+  // ============================================
+
+  /**
+   * Load a rule by id for its inbound webhook
+   */
+  static async loadRule(ruleId: string): Promise<AutoEnrollmentRule | null> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('sequence_auto_enrollment_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as AutoEnrollmentRule | null;
+  }
+
+  /**
+   * Verify `x-enrollment-signature: sha256=<hex>` over `${timestamp}.${body}`
+   */
+  static verifyWebhookSignature(
+    rule: AutoEnrollmentRule,
+    rawBody: string,
+    signature: string | null,
+    timestamp: string | null
+  ): WebhookVerification {
+    if (rule.trigger_type !== 'webhook') {
+      return { valid: false, reason: 'Rule is not webhook-triggered' };
+    }
+
+    if (!rule.webhook_secret) {
+      return { valid: false, reason: 'Webhook secret is not configured' };
+    }
+
+    if (!signature || !timestamp) {
+      return { valid: false, reason: 'Missing signature headers' };
+    }
+
+    const issuedAt = Number(timestamp);
+    if (!Number.isFinite(issuedAt) || Math.abs(Date.now() / 1000 - issuedAt) > SIGNATURE_TOLERANCE_SECONDS) {
+      return { valid: false, reason: 'Signature timestamp outside tolerance' };
+    }
+
+    const provided = signature.startsWith('sha256=') ? signature.slice(7) : signature;
+    const expected = createHmac('sha256', rule.webhook_secret).update(`${timestamp}.${rawBody}`).digest('hex');
+
+    const providedBuffer = Buffer.from(provided);
+    const expectedBuffer = Buffer.from(expected);
+
+    if (
+      providedBuffer.length !== expectedBuffer.length ||
+      !timingSafeEqual(providedBuffer, expectedBuffer)
+    ) {
+      return { valid: false, reason: 'Invalid signature' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Lead ids in the rule's organization named by a webhook payload, by id or email
+   */
+  static async resolveWebhookLeads(
+    rule: AutoEnrollmentRule,
+    leadIds: string[],
+    emails: string[]
+  ): Promise<string[]> {
+    const supabase = createAdminClient();
+    const resolved = new Set<string>();
+
+    if (leadIds.length > 0) {
+      const { data, error } = await supabase
+        .from('sales_leads')
+        .select('id')
+        .eq('organization_id', rule.organization_id)
+        .in('id', leadIds);
+
+      if (error) throw error;
+      (data || []).forEach((lead) => resolved.add(lead.id));
+    }
+
+    if (emails.length > 0) {
+      const { data, error } = await supabase
+        .from('sales_leads')
+        .select('id')
+        .eq('organization_id', rule.organization_id)
+        .in('email', emails.map((email) => email.toLowerCase()));
+
+      if (error) throw error;
+      (data || []).forEach((lead) => resolved.add(lead.id));
+    }
+
+    return [...resolved];
+  }
 }
\ No newline at end of file
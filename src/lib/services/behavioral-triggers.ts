@@ -4,6 +4,7 @@
  */
 
 import { createClient } from '@/lib/supabase/server';
+import { AutoEnrollmentEngine } from './auto-enrollment';
 import { z } from 'zod';
 
 // ============================================
@@ -675,7 +676,7 @@ export class BehavioralTriggersService {
 
     const { data: lead } = await supabase
       .from('sales_leads')
-      .select('tags')
+      .select('tags, organization_id')
       .eq('id', leadId)
       .single();
 
@@ -683,10 +684,16 @@ export class BehavioralTriggersService {
     const newTags = Array.isArray(config.tags) ? config.tags : [config.tag];
     const updatedTags = [...new Set([...currentTags, ...newTags])];
 
-    return supabase
+    const result = await supabase
       .from('sales_leads')
       .update({ tags: updatedTags })
       .eq('id', leadId);
+
+    if (!result.error && lead) {
+      await AutoEnrollmentEngine.emitLeadChanges(lead.organization_id, leadId, { tags: currentTags }, { tags: updatedTags });
+    }
+
+    return result;
   }
 
   private static async updateField(leadId: string, config: any) {
@@ -700,10 +707,24 @@ export class BehavioralTriggersService {
       Object.assign(updates, config.fields);
     }
 
-    return supabase
+    const { data: previous } = await supabase
+      .from('sales_leads')
+      .select('*')
+      .eq('id', leadId)
+      .maybeSingle();
+
+    const result = await supabase
       .from('sales_leads')
       .update(updates)
-      .eq('id', leadId);
+      .eq('id', leadId)
+      .select('*')
+      .single();
+
+    if (!result.error && previous && result.data) {
+      await AutoEnrollmentEngine.emitLeadChanges(previous.organization_id, leadId, previous, result.data);
+    }
+
+    return result;
   }
 
   private static async createTask(leadId: string, config: any) {
@@ -1,5 +1,6 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { BookingWebhookPayload } from "@/lib/ingest/schemas";
+import type { SequenceSettings } from "@/lib/types/sequences";
 
 type DB = SupabaseClient;
 
@@ -122,5 +123,144 @@ export async function upsertBooking(
     );
   }
 
+  if (leadId) {
+    await handleMeetingBooked(supabase, leadId, data.id, {
+      title: baseRecord.event_title,
+      startTime,
+      meetingUrl: baseRecord.meeting_url,
+    });
+  }
+
   return data.id;
 }
+
+type BookedMeeting = {
+  title: string | null;
+  startTime: string | null;
+  meetingUrl: string | null;
+};
+
+// Statuses that a booked demo should not move the lead back from
+const STATUSES_PAST_DEMO = new Set([
+  "demo_scheduled",
+  "negotiation",
+  "closed_won",
+  "closed_lost",
+  "converted",
+  "spam",
+]);
+
+/**
+ * Reacts to a newly booked meeting: halts the lead's sequences according to
+ * each template's pauseOnMeeting/meetingAction settings, logs the meeting on
+ * the lead timeline and advances the lead to demo_scheduled.
+ */
+async function handleMeetingBooked(
+  supabase: DB,
+  leadId: string,
+  bookingId: string,
+  meeting: BookedMeeting
+) {
+  await haltEnrollmentsForMeeting(supabase, leadId);
+
+  const { error: activityError } = await supabase
+    .from("crm_activities")
+    .insert({
+      lead_id: leadId,
+      type: "meeting",
+      content: meeting.title ?? "Meeting booked",
+      occurred_at: meeting.startTime ?? new Date().toISOString(),
+      metadata: {
+        source: "booking_webhook",
+        booking_id: bookingId,
+        meeting_url: meeting.meetingUrl,
+      },
+    });
+
+  if (activityError) {
+    throw new Error(
+      `Failed to log meeting activity: ${activityError.message}`
+    );
+  }
+
+  const { data: lead, error: leadError } = await supabase
+    .from("sales_leads")
+    .select("status")
+    .eq("id", leadId)
+    .maybeSingle();
+
+  if (leadError) {
+    throw new Error(`Failed to load lead for booking: ${leadError.message}`);
+  }
+
+  if (lead && !STATUSES_PAST_DEMO.has(lead.status)) {
+    const { error: statusError } = await supabase
+      .from("sales_leads")
+      .update({ status: "demo_scheduled" })
+      .eq("id", leadId);
+
+    if (statusError) {
+      throw new Error(
+        `Failed to update lead status for booking: ${statusError.message}`
+      );
+    }
+  }
+}
+
+async function haltEnrollmentsForMeeting(supabase: DB, leadId: string) {
+  const { data: enrollments, error } = await supabase
+    .from("sequence_enrollments")
+    .select("id, status, template:sequence_templates(settings)")
+    .eq("lead_id", leadId)
+    .in("status", ["active", "paused"]);
+
+  if (error) {
+    throw new Error(
+      `Failed to load enrollments for booking: ${error.message}`
+    );
+  }
+
+  const now = new Date().toISOString();
+
+  for (const enrollment of enrollments ?? []) {
+    const template = Array.isArray(enrollment.template)
+      ? enrollment.template[0]
+      : enrollment.template;
+    const settings: Partial<SequenceSettings> = template?.settings ?? {};
+
+    await supabase.rpc("increment_enrollment_metric", {
+      p_enrollment_id: enrollment.id,
+      p_metric: "meetings_booked",
+    });
+
+    if (!settings.pauseOnMeeting) continue;
+
+    const shouldStop = settings.meetingAction === "stop";
+    // Paused enrollments only change when the template asks for a full stop
+    if (enrollment.status === "paused" && !shouldStop) continue;
+
+    const { error: updateError } = await supabase
+      .from("sequence_enrollments")
+      .update(
+        shouldStop
+          ? {
+              status: "stopped",
+              stopped_at: now,
+              stopped_reason: "Meeting booked with lead",
+              next_step_scheduled_at: null,
+            }
+          : {
+              status: "paused",
+              paused_at: now,
+              paused_reason: "Meeting booked with lead",
+            }
+      )
+      .eq("id", enrollment.id);
+
+    if (updateError) {
+      throw new Error(
+        `Failed to halt enrollment ${enrollment.id}: ${updateError.message}`
+      );
+    }
+  }
+}
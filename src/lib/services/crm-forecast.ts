@@ -0,0 +1,220 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { effectiveProbability, type OpportunityRecord } from "@/lib/services/crm-opportunities";
+import { getDefaultPipeline, getPipeline, type PipelineStageRecord } from "@/lib/services/crm-pipelines";
+
+export type ForecastBucket = {
+    open_count: number;
+    open_amount: number;
+    weighted_amount: number;
+    won_count: number;
+    won_amount: number;
+    // Closed-won plus the probability-weighted open pipeline
+    forecast_amount: number;
+};
+
+export type OwnerForecast = {
+    owner_id: string | null;
+    owner_name: string | null;
+    months: Record<string, ForecastBucket>;
+    total: ForecastBucket;
+};
+
+export type ForecastReport = {
+    pipeline: {
+        id: string;
+        name: string;
+        currency: string;
+    };
+    months: string[];
+    owners: OwnerForecast[];
+    totals: {
+        months: Record<string, ForecastBucket>;
+        total: ForecastBucket;
+    };
+};
+
+export type ForecastOptions = {
+    pipelineId?: string;
+    // First month of the report, YYYY-MM; defaults to the current month
+    from?: string;
+    months?: number;
+    assignedTo?: string;
+};
+
+type ForecastOpportunity = Pick<
+    OpportunityRecord,
+    "stage_id" | "amount" | "close_date" | "probability" | "status" | "assigned_to"
+>;
+
+const DEFAULT_MONTHS = 6;
+const MAX_MONTHS = 24;
+const PAGE_SIZE = 1000;
+
+/**
+ * Weighted forecast for one pipeline by owner and close month. Lost deals and deals without a
+ * close date are left out.
+ */
+export async function getForecast(orgId: string, options: ForecastOptions = {}): Promise<ForecastReport> {
+    const pipeline = options.pipelineId
+        ? await getPipeline(options.pipelineId, orgId)
+        : await getDefaultPipeline(orgId);
+
+    const months = monthRange(options.from, options.months);
+    const start = `${months[0]}-01`;
+    const end = `${nextMonth(months[months.length - 1])}-01`;
+
+    const supabase = createAdminClient();
+    const opportunities: ForecastOpportunity[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        let query = supabase
+            .from("sales_opportunities")
+            .select("stage_id, amount, close_date, probability, status, assigned_to")
+            .eq("organization_id", orgId)
+            .eq("pipeline_id", pipeline.id)
+            .in("status", ["open", "won"])
+            .gte("close_date", start)
+            .lt("close_date", end)
+            .order("id", { ascending: true })
+            .range(offset, offset + PAGE_SIZE - 1);
+
+        if (options.assignedTo) query = query.eq("assigned_to", options.assignedTo);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        opportunities.push(...((data ?? []) as ForecastOpportunity[]));
+        if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const report = summarizeForecast(opportunities, pipeline.stages, months);
+    const ownerNames = await loadOwnerNames(report.owners.map((owner) => owner.owner_id));
+
+    return {
+        pipeline: { id: pipeline.id, name: pipeline.name, currency: pipeline.currency },
+        months,
+        owners: report.owners.map((owner) => ({
+            ...owner,
+            owner_name: owner.owner_id ? ownerNames.get(owner.owner_id) ?? null : null,
+        })),
+        totals: report.totals,
+    };
+}
+
+/**
+ * Bucket opportunities by owner and close month
+ */
+export function summarizeForecast(
+    opportunities: ForecastOpportunity[],
+    stages: Array<Pick<PipelineStageRecord, "id" | "probability">>,
+    months: string[]
+): Pick<ForecastReport, "owners" | "totals"> {
+    const stagesById = new Map(stages.map((stage) => [stage.id, stage]));
+    const owners = new Map<string | null, OwnerForecast>();
+    const totals = { months: emptyMonths(months), total: emptyBucket() };
+
+    for (const opportunity of opportunities) {
+        const month = opportunity.close_date?.slice(0, 7);
+        if (!month || !totals.months[month]) continue;
+
+        const ownerId = opportunity.assigned_to ?? null;
+        let owner = owners.get(ownerId);
+        if (!owner) {
+            owner = { owner_id: ownerId, owner_name: null, months: emptyMonths(months), total: emptyBucket() };
+            owners.set(ownerId, owner);
+        }
+
+        const amount = Number(opportunity.amount) || 0;
+        const probability = effectiveProbability(opportunity, stagesById.get(opportunity.stage_id));
+
+        for (const bucket of [owner.months[month], owner.total, totals.months[month], totals.total]) {
+            if (opportunity.status === "won") {
+                bucket.won_count += 1;
+                bucket.won_amount += amount;
+            } else {
+                bucket.open_count += 1;
+                bucket.open_amount += amount;
+                bucket.weighted_amount += (amount * probability) / 100;
+            }
+            bucket.forecast_amount = bucket.won_amount + bucket.weighted_amount;
+        }
+    }
+
+    const sorted = [...owners.values()].sort((a, b) => b.total.forecast_amount - a.total.forecast_amount);
+    return { owners: sorted.map(roundOwner), totals: roundTotals(totals) };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function monthRange(from: string | undefined, count: number | undefined): string[] {
+    const first = from && /^\d{4}-(0[1-9]|1[0-2])$/.test(from) ? from : new Date().toISOString().slice(0, 7);
+    const length = Number.isFinite(count) ? Math.min(Math.max(Math.trunc(count!), 1), MAX_MONTHS) : DEFAULT_MONTHS;
+
+    const months = [first];
+    while (months.length < length) {
+        months.push(nextMonth(months[months.length - 1]));
+    }
+    return months;
+}
+
+function nextMonth(month: string): string {
+    const [year, value] = month.split("-").map(Number);
+    return value === 12 ? `${year + 1}-01` : `${year}-${String(value + 1).padStart(2, "0")}`;
+}
+
+function emptyBucket(): ForecastBucket {
+    return {
+        open_count: 0,
+        open_amount: 0,
+        weighted_amount: 0,
+        won_count: 0,
+        won_amount: 0,
+        forecast_amount: 0,
+    };
+}
+
+function emptyMonths(months: string[]): Record<string, ForecastBucket> {
+    return Object.fromEntries(months.map((month) => [month, emptyBucket()]));
+}
+
+function roundBucket(bucket: ForecastBucket): ForecastBucket {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+        ...bucket,
+        open_amount: round(bucket.open_amount),
+        weighted_amount: round(bucket.weighted_amount),
+        won_amount: round(bucket.won_amount),
+        forecast_amount: round(bucket.forecast_amount),
+    };
+}
+
+function roundMonths(months: Record<string, ForecastBucket>) {
+    return Object.fromEntries(Object.entries(months).map(([month, bucket]) => [month, roundBucket(bucket)]));
+}
+
+function roundOwner(owner: OwnerForecast): OwnerForecast {
+    return { ...owner, months: roundMonths(owner.months), total: roundBucket(owner.total) };
+}
+
+function roundTotals(totals: ForecastReport["totals"]): ForecastReport["totals"] {
+    return { months: roundMonths(totals.months), total: roundBucket(totals.total) };
+}
+
+async function loadOwnerNames(ownerIds: Array<string | null>) {
+    const ids = ownerIds.filter((id): id is string => Boolean(id));
+    const names = new Map<string, string>();
+    if (!ids.length) return names;
+
+    const supabase = createAdminClient();
+    const { data } = await supabase
+        .from("admin_users")
+        .select("clerk_user_id, display_name, email")
+        .in("clerk_user_id", ids);
+
+    for (const user of data ?? []) {
+        names.set(user.clerk_user_id, user.display_name || user.email);
+    }
+    return names;
+}
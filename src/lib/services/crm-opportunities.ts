@@ -0,0 +1,417 @@
+import { z } from "zod";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { OpportunityStatus } from "@/lib/constants/opportunities";
+import {
+    getDefaultPipeline,
+    getPipeline,
+    PipelineError,
+    type PipelineRecord,
+    type PipelineStageRecord,
+} from "@/lib/services/crm-pipelines";
+
+export type OpportunityContact = {
+    contact_id: string;
+    role: string | null;
+    is_primary: boolean;
+    contact?: {
+        id: string;
+        first_name: string | null;
+        last_name: string | null;
+        email: string | null;
+        title: string | null;
+    } | null;
+};
+
+export type OpportunityRecord = {
+    id: string;
+    organization_id: string;
+    pipeline_id: string;
+    stage_id: string;
+    account_id: string | null;
+    lead_id: string | null;
+    name: string;
+    amount: number;
+    close_date: string | null;
+    probability: number | null;
+    status: OpportunityStatus;
+    lost_reason: string | null;
+    description: string | null;
+    assigned_to: string | null;
+    created_by: string | null;
+    stage_entered_at: string;
+    closed_at: string | null;
+    created_at: string;
+    updated_at: string;
+    metadata: Record<string, unknown>;
+    stage?: Pick<PipelineStageRecord, "id" | "name" | "probability" | "stage_type"> | null;
+    account?: {
+        id: string;
+        name: string;
+    } | null;
+    contacts?: OpportunityContact[];
+};
+
+export type StageHistoryRecord = {
+    id: string;
+    opportunity_id: string;
+    from_stage_id: string | null;
+    to_stage_id: string | null;
+    amount: number | null;
+    probability: number | null;
+    seconds_in_stage: number | null;
+    changed_by: string | null;
+    changed_at: string;
+};
+
+const ContactLinkSchema = z.object({
+    contact_id: z.string().uuid(),
+    role: z.string().max(50).nullish(),
+    is_primary: z.boolean().optional(),
+});
+
+const OpportunityFieldsSchema = z.object({
+    name: z.string().trim().min(1).max(200),
+    amount: z.number().min(0).max(999_999_999_999),
+    close_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullable(),
+    probability: z.number().min(0).max(100).nullable(),
+    pipeline_id: z.string().uuid(),
+    stage_id: z.string().uuid(),
+    account_id: z.string().uuid().nullable(),
+    lead_id: z.string().uuid().nullable(),
+    assigned_to: z.string().nullable(),
+    description: z.string().max(5000).nullable(),
+    lost_reason: z.string().max(500).nullable(),
+    contacts: z.array(ContactLinkSchema).max(50),
+});
+
+export const CreateOpportunitySchema = OpportunityFieldsSchema.partial().extend({
+    name: OpportunityFieldsSchema.shape.name,
+});
+
+export const UpdateOpportunitySchema = OpportunityFieldsSchema.partial();
+
+export type CreateOpportunityParams = z.input<typeof CreateOpportunitySchema>;
+export type UpdateOpportunityParams = z.input<typeof UpdateOpportunitySchema>;
+
+export type OpportunityFilters = {
+    pipeline_id?: string;
+    stage_id?: string;
+    status?: OpportunityStatus;
+    account_id?: string;
+    assigned_to?: string;
+    limit?: number;
+};
+
+const OPPORTUNITY_SELECT = `
+      *,
+      stage:sales_pipeline_stages(id, name, probability, stage_type),
+      account:sales_accounts(id, name),
+      contacts:sales_opportunity_contacts(contact_id, role, is_primary, contact:sales_contacts(id, first_name, last_name, email, title))
+    `;
+
+export async function listOpportunities(orgId: string, filters: OpportunityFilters = {}) {
+    const supabase = createAdminClient();
+    let query = supabase
+        .from("sales_opportunities")
+        .select(OPPORTUNITY_SELECT)
+        .eq("organization_id", orgId)
+        .order("updated_at", { ascending: false })
+        .limit(Math.min(filters.limit ?? 500, 1000));
+
+    if (filters.pipeline_id) query = query.eq("pipeline_id", filters.pipeline_id);
+    if (filters.stage_id) query = query.eq("stage_id", filters.stage_id);
+    if (filters.status) query = query.eq("status", filters.status);
+    if (filters.account_id) query = query.eq("account_id", filters.account_id);
+    if (filters.assigned_to) query = query.eq("assigned_to", filters.assigned_to);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data as OpportunityRecord[];
+}
+
+export async function getOpportunity(id: string, orgId: string) {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+        .from("sales_opportunities")
+        .select(OPPORTUNITY_SELECT)
+        .eq("id", id)
+        .eq("organization_id", orgId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new PipelineError("Opportunity not found", "NOT_FOUND");
+
+    return data as OpportunityRecord;
+}
+
+export async function getStageHistory(opportunityId: string, orgId: string) {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+        .from("sales_opportunity_stage_history")
+        .select("*")
+        .eq("opportunity_id", opportunityId)
+        .eq("organization_id", orgId)
+        .order("changed_at", { ascending: true });
+
+    if (error) throw error;
+    return data as StageHistoryRecord[];
+}
+
+/**
+ * Create an opportunity. Without a pipeline it goes into the organization's default pipeline;
+ * without a stage it starts in the pipeline's first open stage.
+ */
+export async function createOpportunity(input: CreateOpportunityParams, userId: string, orgId: string) {
+    const { contacts, pipeline_id, stage_id, ...params } = CreateOpportunitySchema.parse(input);
+
+    const pipeline = pipeline_id
+        ? await getPipeline(pipeline_id, orgId)
+        : await getDefaultPipeline(orgId, userId);
+    const stage = resolveStage(pipeline, stage_id);
+
+    await assertLinksInOrg(orgId, params.account_id, params.lead_id, contacts);
+
+    const now = new Date().toISOString();
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+        .from("sales_opportunities")
+        .insert({
+            ...params,
+            ...closingFields(stage, params.close_date ?? null),
+            organization_id: orgId,
+            pipeline_id: pipeline.id,
+            stage_id: stage.id,
+            assigned_to: params.assigned_to ?? userId,
+            created_by: userId,
+            stage_entered_at: now,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+
+    if (contacts?.length) {
+        await setContacts(data.id, contacts);
+    }
+
+    await recordStageChange(data as OpportunityRecord, null, stage, userId, null);
+
+    return getOpportunity(data.id, orgId);
+}
+
+/**
+ * Update an opportunity. Moving it to another stage (or pipeline) records stage history and
+ * keeps status and closed_at in line with the new stage.
+ */
+export async function updateOpportunity(
+    id: string,
+    input: UpdateOpportunityParams,
+    userId: string,
+    orgId: string
+) {
+    const { contacts, pipeline_id, stage_id, ...params } = UpdateOpportunitySchema.parse(input);
+    const current = await getOpportunity(id, orgId);
+
+    await assertLinksInOrg(orgId, params.account_id, params.lead_id, contacts);
+
+    const update: Record<string, unknown> = { ...params };
+    const pipelineChanged = pipeline_id !== undefined && pipeline_id !== current.pipeline_id;
+    const stageChanged = pipelineChanged || (stage_id !== undefined && stage_id !== current.stage_id);
+
+    let nextStage: PipelineStageRecord | null = null;
+    if (stageChanged) {
+        const pipeline = await getPipeline(pipeline_id ?? current.pipeline_id, orgId);
+        nextStage = resolveStage(pipeline, stage_id);
+
+        Object.assign(update, {
+            ...closingFields(nextStage, params.close_date ?? current.close_date),
+            pipeline_id: pipeline.id,
+            stage_id: nextStage.id,
+            stage_entered_at: new Date().toISOString(),
+        });
+
+        // A reopened deal keeps no lost reason
+        if (nextStage.stage_type !== "lost" && params.lost_reason === undefined) {
+            update.lost_reason = null;
+        }
+    }
+
+    const supabase = createAdminClient();
+    if (Object.keys(update).length) {
+        const { error } = await supabase
+            .from("sales_opportunities")
+            .update(update)
+            .eq("id", id)
+            .eq("organization_id", orgId);
+
+        if (error) throw error;
+    }
+
+    if (contacts) {
+        await setContacts(id, contacts);
+    }
+
+    const updated = await getOpportunity(id, orgId);
+
+    if (nextStage) {
+        await recordStageChange(updated, current.stage_id, nextStage, userId, current.stage_entered_at);
+    }
+
+    return updated;
+}
+
+export async function deleteOpportunity(id: string, orgId: string) {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+        .from("sales_opportunities")
+        .delete()
+        .eq("id", id)
+        .eq("organization_id", orgId)
+        .select("id");
+
+    if (error) throw error;
+    if (!data?.length) throw new PipelineError("Opportunity not found", "NOT_FOUND");
+}
+
+/**
+ * Win probability used for weighting: the opportunity override, else its stage's
+ */
+export function effectiveProbability(
+    opportunity: Pick<OpportunityRecord, "probability" | "status">,
+    stage: Pick<PipelineStageRecord, "probability"> | null | undefined
+): number {
+    if (opportunity.status === "won") return 100;
+    if (opportunity.status === "lost") return 0;
+    return Number(opportunity.probability ?? stage?.probability ?? 0);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function resolveStage(pipeline: PipelineRecord, stageId?: string) {
+    const stage = stageId
+        ? pipeline.stages.find((candidate) => candidate.id === stageId)
+        : pipeline.stages.find((candidate) => candidate.stage_type === "open");
+
+    if (!stage) {
+        throw new PipelineError(
+            stageId ? "Stage does not belong to the pipeline" : "Pipeline has no open stage",
+            "INVALID"
+        );
+    }
+
+    return stage;
+}
+
+// Closing a deal without a close date dates it today so it lands in the right forecast month
+function closingFields(stage: PipelineStageRecord, closeDate: string | null) {
+    if (stage.stage_type === "open") {
+        return { status: "open", closed_at: null };
+    }
+
+    const now = new Date();
+    return {
+        status: stage.stage_type,
+        closed_at: now.toISOString(),
+        close_date: closeDate ?? now.toISOString().slice(0, 10),
+    };
+}
+
+async function assertLinksInOrg(
+    orgId: string,
+    accountId: string | null | undefined,
+    leadId: string | null | undefined,
+    contacts: Array<{ contact_id: string }> | undefined
+) {
+    const supabase = createAdminClient();
+
+    if (accountId) {
+        const { data } = await supabase
+            .from("sales_accounts")
+            .select("id")
+            .eq("id", accountId)
+            .eq("organization_id", orgId)
+            .maybeSingle();
+
+        if (!data) throw new PipelineError("Account not found", "INVALID");
+    }
+
+    // Leads created before organizations were tracked have no organization_id
+    if (leadId) {
+        const { data } = await supabase
+            .from("sales_leads")
+            .select("id")
+            .eq("id", leadId)
+            .or(`organization_id.eq.${orgId},organization_id.is.null`)
+            .maybeSingle();
+
+        if (!data) throw new PipelineError("Lead not found", "INVALID");
+    }
+
+    const contactIds = [...new Set((contacts ?? []).map((contact) => contact.contact_id))];
+    if (contactIds.length) {
+        const { count } = await supabase
+            .from("sales_contacts")
+            .select("id", { count: "exact", head: true })
+            .in("id", contactIds)
+            .eq("organization_id", orgId);
+
+        if (count !== contactIds.length) throw new PipelineError("Contact not found", "INVALID");
+    }
+}
+
+async function setContacts(opportunityId: string, contacts: Array<z.infer<typeof ContactLinkSchema>>) {
+    const supabase = createAdminClient();
+
+    const { error: deleteError } = await supabase
+        .from("sales_opportunity_contacts")
+        .delete()
+        .eq("opportunity_id", opportunityId);
+
+    if (deleteError) throw deleteError;
+    if (!contacts.length) return;
+
+    // Only one primary contact; the first one flagged wins
+    const primaryId = contacts.find((contact) => contact.is_primary)?.contact_id ?? contacts[0].contact_id;
+    const unique = new Map(contacts.map((contact) => [contact.contact_id, contact]));
+
+    const { error } = await supabase.from("sales_opportunity_contacts").insert(
+        [...unique.values()].map((contact) => ({
+            opportunity_id: opportunityId,
+            contact_id: contact.contact_id,
+            role: contact.role ?? null,
+            is_primary: contact.contact_id === primaryId,
+        }))
+    );
+
+    if (error) throw error;
+}
+
+async function recordStageChange(
+    opportunity: OpportunityRecord,
+    fromStageId: string | null,
+    toStage: PipelineStageRecord,
+    userId: string,
+    previousEnteredAt: string | null
+) {
+    const supabase = createAdminClient();
+    const { error } = await supabase.from("sales_opportunity_stage_history").insert({
+        opportunity_id: opportunity.id,
+        organization_id: opportunity.organization_id,
+        from_stage_id: fromStageId,
+        to_stage_id: toStage.id,
+        amount: opportunity.amount,
+        probability: effectiveProbability(opportunity, toStage),
+        seconds_in_stage: previousEnteredAt
+            ? Math.max(0, Math.round((Date.now() - new Date(previousEnteredAt).getTime()) / 1000))
+            : null,
+        changed_by: userId,
+    });
+
+    // History is for reporting; the move itself already succeeded
+    if (error) {
+        console.error("Failed to record opportunity stage change", error);
+    }
+}
@@ -0,0 +1,336 @@
+import { z } from "zod";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { DEFAULT_PIPELINE_STAGES, type StageType } from "@/lib/constants/opportunities";
+
+export type PipelineStageRecord = {
+    id: string;
+    pipeline_id: string;
+    organization_id: string;
+    name: string;
+    position: number;
+    probability: number;
+    stage_type: StageType;
+    created_at: string;
+    updated_at: string;
+};
+
+export type PipelineRecord = {
+    id: string;
+    organization_id: string;
+    name: string;
+    currency: string;
+    is_default: boolean;
+    created_by: string | null;
+    created_at: string;
+    updated_at: string;
+    stages: PipelineStageRecord[];
+};
+
+export const StageInputSchema = z.object({
+    id: z.string().uuid().optional(),
+    name: z.string().trim().min(1).max(100),
+    probability: z.number().min(0).max(100).optional(),
+    stage_type: z.enum(["open", "won", "lost"]).default("open"),
+});
+
+export const CreatePipelineSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    currency: z.string().length(3).toUpperCase().default("USD"),
+    is_default: z.boolean().optional(),
+    stages: z.array(StageInputSchema).min(1).max(30).optional(),
+});
+
+export const UpdatePipelineSchema = z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    currency: z.string().length(3).toUpperCase().optional(),
+    is_default: z.literal(true).optional(),
+});
+
+export type StageInput = z.input<typeof StageInputSchema>;
+
+export class PipelineError extends Error {
+    constructor(
+        message: string,
+        public readonly code: "NOT_FOUND" | "INVALID" | "CONFLICT"
+    ) {
+        super(message);
+        this.name = "PipelineError";
+    }
+
+    get status(): number {
+        if (this.code === "NOT_FOUND") return 404;
+        return this.code === "CONFLICT" ? 409 : 400;
+    }
+}
+
+const PIPELINE_SELECT = "*, stages:sales_pipeline_stages(*)";
+
+/**
+ * List an organization's pipelines with their stages in order.
+ * An organization without any gets the default pipeline created on first use.
+ */
+export async function listPipelines(orgId: string, userId?: string) {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+        .from("sales_pipelines")
+        .select(PIPELINE_SELECT)
+        .eq("organization_id", orgId)
+        .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    if (!data?.length) {
+        try {
+            return [await createPipeline({ name: "Sales Pipeline", is_default: true }, userId ?? null, orgId)];
+        } catch (createError) {
+            // Another request created the default pipeline first
+            if ((createError as { code?: string })?.code === "23505") return listPipelines(orgId, userId);
+            throw createError;
+        }
+    }
+
+    return (data as PipelineRecord[]).map(sortStages);
+}
+
+export async function getPipeline(id: string, orgId: string) {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+        .from("sales_pipelines")
+        .select(PIPELINE_SELECT)
+        .eq("id", id)
+        .eq("organization_id", orgId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new PipelineError("Pipeline not found", "NOT_FOUND");
+
+    return sortStages(data as PipelineRecord);
+}
+
+/**
+ * The pipeline new opportunities land in when none is given
+ */
+export async function getDefaultPipeline(orgId: string, userId?: string) {
+    const pipelines = await listPipelines(orgId, userId);
+    return pipelines.find((pipeline) => pipeline.is_default) ?? pipelines[0];
+}
+
+export async function createPipeline(
+    input: z.input<typeof CreatePipelineSchema>,
+    userId: string | null,
+    orgId: string
+) {
+    const params = CreatePipelineSchema.parse(input);
+    const stages = normalizeStages(params.stages ?? DEFAULT_PIPELINE_STAGES);
+    const supabase = createAdminClient();
+
+    if (params.is_default) {
+        await clearDefault(orgId);
+    }
+
+    const { data: pipeline, error } = await supabase
+        .from("sales_pipelines")
+        .insert({
+            organization_id: orgId,
+            name: params.name,
+            currency: params.currency,
+            is_default: params.is_default ?? false,
+            created_by: userId,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+
+    const { error: stageError } = await supabase
+        .from("sales_pipeline_stages")
+        .insert(stages.map((stage) => ({
+            pipeline_id: pipeline.id,
+            organization_id: orgId,
+            name: stage.name,
+            position: stage.position,
+            probability: stage.probability,
+            stage_type: stage.stage_type,
+        })));
+
+    if (stageError) {
+        await supabase.from("sales_pipelines").delete().eq("id", pipeline.id);
+        throw stageError;
+    }
+
+    return getPipeline(pipeline.id, orgId);
+}
+
+export async function updatePipeline(
+    id: string,
+    orgId: string,
+    input: z.input<typeof UpdatePipelineSchema>
+) {
+    const params = UpdatePipelineSchema.parse(input);
+    await getPipeline(id, orgId);
+
+    if (params.is_default) {
+        await clearDefault(orgId);
+    }
+
+    const supabase = createAdminClient();
+    const { error } = await supabase
+        .from("sales_pipelines")
+        .update(params)
+        .eq("id", id)
+        .eq("organization_id", orgId);
+
+    if (error) throw error;
+    return getPipeline(id, orgId);
+}
+
+/**
+ * Delete a pipeline that has no opportunities. The default pipeline cannot be deleted.
+ */
+export async function deletePipeline(id: string, orgId: string) {
+    const pipeline = await getPipeline(id, orgId);
+
+    if (pipeline.is_default) {
+        throw new PipelineError("Make another pipeline the default before deleting this one", "CONFLICT");
+    }
+
+    const supabase = createAdminClient();
+    const { count } = await supabase
+        .from("sales_opportunities")
+        .select("id", { count: "exact", head: true })
+        .eq("pipeline_id", id);
+
+    if (count) {
+        throw new PipelineError(`Pipeline still has ${count} opportunities`, "CONFLICT");
+    }
+
+    const { error } = await supabase.from("sales_pipelines").delete().eq("id", id);
+    if (error) throw error;
+}
+
+/**
+ * Replace a pipeline's stages with `input`, in order. Stages keep their id when it is passed,
+ * so opportunities in them stay put; stages left out are deleted and must be empty.
+ */
+export async function replaceStages(pipelineId: string, orgId: string, input: StageInput[]) {
+    const pipeline = await getPipeline(pipelineId, orgId);
+    const stages = normalizeStages(z.array(StageInputSchema).min(1).max(30).parse(input));
+    const supabase = createAdminClient();
+
+    const existing = new Map(pipeline.stages.map((stage) => [stage.id, stage]));
+    for (const stage of stages) {
+        if (stage.id && !existing.has(stage.id)) {
+            throw new PipelineError(`Stage ${stage.id} does not belong to this pipeline`, "INVALID");
+        }
+    }
+
+    const kept = new Set(stages.map((stage) => stage.id).filter(Boolean));
+    const removed = pipeline.stages.filter((stage) => !kept.has(stage.id));
+
+    if (removed.length) {
+        const { count } = await supabase
+            .from("sales_opportunities")
+            .select("id", { count: "exact", head: true })
+            .in("stage_id", removed.map((stage) => stage.id));
+
+        if (count) {
+            throw new PipelineError(
+                `Move the ${count} opportunities out of ${removed.map((stage) => stage.name).join(", ")} before removing it`,
+                "CONFLICT"
+            );
+        }
+
+        const { error } = await supabase
+            .from("sales_pipeline_stages")
+            .delete()
+            .in("id", removed.map((stage) => stage.id));
+
+        if (error) throw error;
+    }
+
+    for (const stage of stages) {
+        if (!stage.id) {
+            const { error } = await supabase.from("sales_pipeline_stages").insert({
+                pipeline_id: pipelineId,
+                organization_id: orgId,
+                name: stage.name,
+                position: stage.position,
+                probability: stage.probability,
+                stage_type: stage.stage_type,
+            });
+
+            if (error) throw error;
+            continue;
+        }
+
+        const { error } = await supabase
+            .from("sales_pipeline_stages")
+            .update({
+                name: stage.name,
+                position: stage.position,
+                probability: stage.probability,
+                stage_type: stage.stage_type,
+            })
+            .eq("id", stage.id);
+
+        if (error) throw error;
+
+        // Opportunities follow their stage when it becomes a closing stage or reopens
+        if (existing.get(stage.id)!.stage_type !== stage.stage_type) {
+            const { error: syncError } = await supabase
+                .from("sales_opportunities")
+                .update({
+                    status: stage.stage_type,
+                    closed_at: stage.stage_type === "open" ? null : new Date().toISOString(),
+                })
+                .eq("stage_id", stage.id);
+
+            if (syncError) throw syncError;
+        }
+    }
+
+    return getPipeline(pipelineId, orgId);
+}
+
+// Closing stages have fixed probabilities and every pipeline needs somewhere to work deals
+function normalizeStages(stages: StageInput[]) {
+    if (!stages.some((stage) => (stage.stage_type ?? "open") === "open")) {
+        throw new PipelineError("A pipeline needs at least one open stage", "INVALID");
+    }
+
+    const names = new Set<string>();
+    return stages.map((stage, position) => {
+        const name = stage.name.trim();
+        if (names.has(name.toLowerCase())) {
+            throw new PipelineError(`Duplicate stage name "${name}"`, "INVALID");
+        }
+        names.add(name.toLowerCase());
+
+        const stageType = stage.stage_type ?? "open";
+        return {
+            id: stage.id,
+            name,
+            position,
+            stage_type: stageType,
+            probability: stageType === "won" ? 100 : stageType === "lost" ? 0 : stage.probability ?? 0,
+        };
+    });
+}
+
+async function clearDefault(orgId: string) {
+    const supabase = createAdminClient();
+    const { error } = await supabase
+        .from("sales_pipelines")
+        .update({ is_default: false })
+        .eq("organization_id", orgId)
+        .eq("is_default", true);
+
+    if (error) throw error;
+}
+
+function sortStages(pipeline: PipelineRecord): PipelineRecord {
+    return {
+        ...pipeline,
+        stages: [...(pipeline.stages ?? [])].sort((a, b) => a.position - b.position),
+    };
+}
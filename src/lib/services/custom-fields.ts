@@ -127,3 +127,63 @@ export async function upsertCustomFieldValue(
     throw new Error(`Failed to save custom field value: ${error.message}`);
   }
 }
+
+/**
+ * Custom field values for a set of records, keyed by record id and then field key
+ */
+export async function getCustomFieldValues(
+  entityType: CustomEntityType,
+  entityIds: string[],
+  supabase: SupabaseClient = createAdminClient()
+): Promise<Record<string, Record<string, unknown>>> {
+  const values: Record<string, Record<string, unknown>> = {};
+  if (entityIds.length === 0) return values;
+
+  const { data, error } = await supabase
+    .from("custom_field_values")
+    .select(
+      "entity_id,value_text,value_number,value_boolean,value_date,value_json,definition:custom_field_definitions(field_key,field_type)"
+    )
+    .eq("entity_type", entityType)
+    .in("entity_id", [...new Set(entityIds)]);
+
+  if (error) {
+    throw new Error(`Failed to load custom field values: ${error.message}`);
+  }
+
+  for (const row of data ?? []) {
+    const definition = (Array.isArray(row.definition) ? row.definition[0] : row.definition) as
+      | Pick<CustomFieldDefinition, "field_key" | "field_type">
+      | null;
+    if (!definition) continue;
+
+    values[row.entity_id] ??= {};
+    values[row.entity_id][definition.field_key] = readCustomFieldValue(row, definition.field_type);
+  }
+
+  return values;
+}
+
+function readCustomFieldValue(
+  row: {
+    value_text: string | null;
+    value_number: number | null;
+    value_boolean: boolean | null;
+    value_date: string | null;
+    value_json: unknown;
+  },
+  fieldType: CustomFieldType
+) {
+  switch (fieldType) {
+    case "number":
+      return row.value_number;
+    case "boolean":
+      return row.value_boolean;
+    case "date":
+      return row.value_date;
+    case "multiselect":
+      return row.value_json;
+    default:
+      return row.value_text;
+  }
+}
@@ -0,0 +1,439 @@
+/**
+ * Duplicate Detection Service
+ * Finds leads, contacts and accounts that are probably the same person or company and
+ * keeps them in a review queue until someone merges or dismisses the pair
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  accountKeys,
+  findDuplicatePairs,
+  matchReasons,
+  duplicateScore,
+  personKeys,
+  type DuplicateEntityType,
+  type DuplicateKeys,
+  type DuplicatePair,
+  type DuplicateReason,
+} from '@/lib/utils/duplicate-keys';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export const DUPLICATE_ENTITY_TYPES: DuplicateEntityType[] = ['lead', 'contact', 'account'];
+
+export type DuplicateStatus = 'pending' | 'merged' | 'dismissed';
+
+export interface DuplicateCandidateRecord {
+  id: string;
+  organization_id: string;
+  entity_type: DuplicateEntityType;
+  record_id: string;
+  duplicate_id: string;
+  score: number;
+  reasons: DuplicateReason[];
+  status: DuplicateStatus;
+  detected_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+export interface DuplicateCandidateWithRecords extends DuplicateCandidateRecord {
+  record: Record<string, unknown>;
+  duplicate: Record<string, unknown>;
+  // The older record, which keeps its id when the pair is merged as suggested
+  suggested_survivor_id: string;
+}
+
+export interface DuplicateScanResult {
+  scanned: number;
+  pairs: number;
+  queued: number;
+}
+
+export class DuplicateError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'INVALID' | 'CONFLICT'
+  ) {
+    super(message);
+    this.name = 'DuplicateError';
+  }
+
+  get status(): number {
+    if (this.code === 'NOT_FOUND') return 404;
+    return this.code === 'CONFLICT' ? 409 : 400;
+  }
+}
+
+// Rows selected with the column lists below; the select strings are not typed per table
+type RecordRow = Record<string, unknown>;
+
+interface EntityConfig {
+  table: string;
+  // Columns needed to compute match keys
+  keyColumns: string;
+  // Columns shown side by side in the review queue
+  displayColumns: string;
+  keys: (row: RecordRow) => DuplicateKeys;
+  // Leads captured from the website have no organization yet and belong to every org's queue
+  sharedWhenUnowned: boolean;
+}
+
+const ENTITY_CONFIG: Record<DuplicateEntityType, EntityConfig> = {
+  lead: {
+    table: 'sales_leads',
+    keyColumns: 'id, name, email, phone, company, linkedin_url',
+    displayColumns:
+      'id, name, email, phone, company, title, linkedin_url, status, tags, assigned_to, created_at, updated_at',
+    keys: (row) =>
+      personKeys({
+        name: text(row.name),
+        email: text(row.email),
+        phone: text(row.phone),
+        company: text(row.company),
+        linkedin_url: text(row.linkedin_url),
+      }),
+    sharedWhenUnowned: true,
+  },
+  contact: {
+    table: 'sales_contacts',
+    keyColumns: 'id, first_name, last_name, email, phone, linkedin_url, account:sales_accounts(name)',
+    displayColumns:
+      'id, first_name, last_name, email, phone, title, linkedin_url, lifecycle_stage, assigned_to, created_at, updated_at, account:sales_accounts(id, name)',
+    keys: (row) =>
+      personKeys({
+        name: [text(row.first_name), text(row.last_name)].filter(Boolean).join(' '),
+        email: text(row.email),
+        phone: text(row.phone),
+        company: isRecordRow(row.account) ? text(row.account.name) : null,
+        linkedin_url: text(row.linkedin_url),
+      }),
+    sharedWhenUnowned: false,
+  },
+  account: {
+    table: 'sales_accounts',
+    keyColumns: 'id, name, domain, website, linkedin_url',
+    displayColumns: 'id, name, domain, website, industry, size, linkedin_url, assigned_to, created_at, updated_at',
+    keys: (row) =>
+      accountKeys({
+        name: text(row.name),
+        domain: text(row.domain),
+        website: text(row.website),
+        linkedin_url: text(row.linkedin_url),
+      }),
+    sharedWhenUnowned: false,
+  },
+};
+
+const SCAN_PAGE_SIZE = 1000;
+const MAX_SCAN_RECORDS = 20000;
+const MAX_LOOKUP_MATCHES = 200;
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class DuplicateDetectionService {
+  /**
+   * Compare one record against the rest of the organization and queue any likely duplicates.
+   * Called after imports create a record; the full scan also catches near-misses such as
+   * dotted Gmail addresses that a lookup by column cannot find.
+   */
+  static async detectForRecord(
+    entityType: DuplicateEntityType,
+    recordId: string,
+    orgId: string
+  ): Promise<DuplicatePair[]> {
+    const config = ENTITY_CONFIG[entityType];
+    const supabase = createAdminClient();
+
+    const { data: record, error } = await this.scoped(
+      supabase.from(config.table).select<string, RecordRow>(config.keyColumns).eq('id', recordId),
+      entityType,
+      orgId
+    ).maybeSingle();
+
+    if (error) throw error;
+    if (!record) throw new DuplicateError('Record not found', 'NOT_FOUND');
+
+    const keys = config.keys(record);
+    const filters = this.lookupFilters(entityType, keys);
+    if (filters.length === 0) return [];
+
+    const { data: matches, error: matchError } = await this.scoped(
+      supabase.from(config.table).select<string, RecordRow>(config.keyColumns).or(filters.join(',')).neq('id', recordId),
+      entityType,
+      orgId
+    ).limit(MAX_LOOKUP_MATCHES);
+
+    if (matchError) throw matchError;
+
+    const pairs: DuplicatePair[] = [];
+    for (const match of matches ?? []) {
+      const reasons = matchReasons(keys, config.keys(match));
+      if (reasons.length === 0) continue;
+
+      const [first, second] = [recordId, String(match.id)].sort();
+      pairs.push({ recordId: first, duplicateId: second, reasons, score: duplicateScore(reasons) });
+    }
+
+    await this.queuePairs(entityType, orgId, pairs);
+    return pairs.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Compare every record of one type in the organization and queue the pairs found.
+   * Pairs already in the queue, including dismissed ones, are left as they are.
+   */
+  static async scan(entityType: DuplicateEntityType, orgId: string): Promise<DuplicateScanResult> {
+    const config = ENTITY_CONFIG[entityType];
+    const supabase = createAdminClient();
+    const records: Array<{ id: string; keys: DuplicateKeys }> = [];
+
+    for (let from = 0; from < MAX_SCAN_RECORDS; from += SCAN_PAGE_SIZE) {
+      const { data, error } = await this.scoped(
+        supabase.from(config.table).select<string, RecordRow>(config.keyColumns),
+        entityType,
+        orgId
+      )
+        .order('id')
+        .range(from, from + SCAN_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      for (const row of data ?? []) {
+        records.push({ id: String(row.id), keys: config.keys(row) });
+      }
+      if (!data || data.length < SCAN_PAGE_SIZE) break;
+    }
+
+    const pairs = findDuplicatePairs(records);
+    const queued = await this.queuePairs(entityType, orgId, pairs);
+
+    return { scanned: records.length, pairs: pairs.length, queued };
+  }
+
+  /**
+   * The review queue, strongest matches first, with both records of each pair
+   */
+  static async listCandidates(
+    orgId: string,
+    options: {
+      entityType?: DuplicateEntityType;
+      status?: DuplicateStatus;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<DuplicateCandidateWithRecords[]> {
+    const supabase = createAdminClient();
+    const limit = Math.min(options.limit ?? 50, 200);
+    const offset = options.offset ?? 0;
+
+    let query = supabase
+      .from('duplicate_candidates')
+      .select('*')
+      .eq('organization_id', orgId)
+      .eq('status', options.status ?? 'pending')
+      .order('score', { ascending: false })
+      .order('detected_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (options.entityType) {
+      query = query.eq('entity_type', options.entityType);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const candidates = (data ?? []) as DuplicateCandidateRecord[];
+    const records = new Map<string, Record<string, unknown>>();
+
+    for (const entityType of DUPLICATE_ENTITY_TYPES) {
+      const ids = candidates
+        .filter((candidate) => candidate.entity_type === entityType)
+        .flatMap((candidate) => [candidate.record_id, candidate.duplicate_id]);
+      if (ids.length === 0) continue;
+
+      const config = ENTITY_CONFIG[entityType];
+      const { data: rows, error: rowsError } = await supabase
+        .from(config.table)
+        .select<string, RecordRow>(config.displayColumns)
+        .in('id', [...new Set(ids)]);
+
+      if (rowsError) throw rowsError;
+      for (const row of rows ?? []) {
+        records.set(String(row.id), row);
+      }
+    }
+
+    // Records deleted outside a merge leave pairs that can no longer be reviewed
+    const stale = candidates.filter(
+      (candidate) => !records.has(candidate.record_id) || !records.has(candidate.duplicate_id)
+    );
+    if (stale.length > 0 && (options.status ?? 'pending') === 'pending') {
+      await supabase
+        .from('duplicate_candidates')
+        .delete()
+        .in('id', stale.map((candidate) => candidate.id));
+    }
+
+    return candidates
+      .filter((candidate) => !stale.includes(candidate))
+      .map((candidate) => {
+        const record = records.get(candidate.record_id)!;
+        const duplicate = records.get(candidate.duplicate_id)!;
+        const recordIsOlder = String(record.created_at) <= String(duplicate.created_at);
+
+        return {
+          ...candidate,
+          record,
+          duplicate,
+          suggested_survivor_id: recordIsOlder ? candidate.record_id : candidate.duplicate_id,
+        };
+      });
+  }
+
+  static async getCandidate(candidateId: string, orgId: string): Promise<DuplicateCandidateRecord> {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from('duplicate_candidates')
+      .select('*')
+      .eq('id', candidateId)
+      .eq('organization_id', orgId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new DuplicateError('Duplicate candidate not found', 'NOT_FOUND');
+
+    return data as DuplicateCandidateRecord;
+  }
+
+  /**
+   * Mark a pair as not duplicates; scans will not queue it again
+   */
+  static async dismiss(candidateId: string, orgId: string, userId: string): Promise<DuplicateCandidateRecord> {
+    const candidate = await this.getCandidate(candidateId, orgId);
+    if (candidate.status !== 'pending') {
+      throw new DuplicateError(`Duplicate candidate is already ${candidate.status}`, 'CONFLICT');
+    }
+
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from('duplicate_candidates')
+      .update({ status: 'dismissed', resolved_at: new Date().toISOString(), resolved_by: userId })
+      .eq('id', candidateId)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new DuplicateError('Duplicate candidate was resolved by someone else', 'CONFLICT');
+
+    return data as DuplicateCandidateRecord;
+  }
+
+  // ============================================
+  // HELPER METHODS
+  // ============================================
+
+  private static scoped<T extends { eq(column: string, value: string): T; or(filters: string): T }>(
+    query: T,
+    entityType: DuplicateEntityType,
+    orgId: string
+  ): T {
+    return ENTITY_CONFIG[entityType].sharedWhenUnowned
+      ? query.or(`organization_id.eq.${orgId},organization_id.is.null`)
+      : query.eq('organization_id', orgId);
+  }
+
+  /**
+   * PostgREST filters that find every record which could share a key with this one. They
+   * over-match on purpose; the keys of each result are compared exactly afterwards.
+   */
+  private static lookupFilters(entityType: DuplicateEntityType, keys: DuplicateKeys): string[] {
+    const filters: string[] = [];
+
+    if (keys.email) {
+      const [local, domain] = keys.email.split('@');
+      filters.push(`email.ilike.${quote(`${local}%@${domain}`)}`);
+    }
+
+    if (keys.phone) {
+      // Digits in order with anything between them, so formatting differences still match
+      filters.push(`phone.ilike.${quote(`%${keys.phone.slice(-7).split('').join('%')}`)}`);
+    }
+
+    if (keys.linkedin) {
+      filters.push(`linkedin_url.ilike.${quote(`%linkedin.com/${keys.linkedin}%`)}`);
+    }
+
+    const name = keys.name_company ?? keys.name_domain;
+    if (name) {
+      const tokens = name.split('|')[0].split(' ');
+      if (entityType === 'contact') {
+        filters.push(
+          `and(first_name.ilike.${quote(`%${tokens[0]}%`)},last_name.ilike.${quote(`%${tokens[tokens.length - 1]}%`)})`
+        );
+      } else {
+        filters.push(`name.ilike.${quote(`%${tokens.join('%')}%`)}`);
+      }
+    }
+
+    if (keys.domain) {
+      filters.push(`domain.ilike.${quote(`%${keys.domain}`)}`);
+      filters.push(`website.ilike.${quote(`%${keys.domain}%`)}`);
+    }
+
+    if (keys.name) {
+      filters.push(`name.ilike.${quote(`%${keys.name.split(' ').join('%')}%`)}`);
+    }
+
+    return filters;
+  }
+
+  private static async queuePairs(
+    entityType: DuplicateEntityType,
+    orgId: string,
+    pairs: DuplicatePair[]
+  ): Promise<number> {
+    const supabase = createAdminClient();
+    let queued = 0;
+
+    for (let index = 0; index < pairs.length; index += 500) {
+      const rows = pairs.slice(index, index + 500).map((pair) => ({
+        organization_id: orgId,
+        entity_type: entityType,
+        record_id: pair.recordId,
+        duplicate_id: pair.duplicateId,
+        score: pair.score,
+        reasons: pair.reasons,
+      }));
+
+      const { data, error } = await supabase
+        .from('duplicate_candidates')
+        .upsert(rows, { onConflict: 'entity_type,record_id,duplicate_id', ignoreDuplicates: true })
+        .select('id');
+
+      if (error) throw error;
+      queued += data?.length ?? 0;
+    }
+
+    return queued;
+  }
+}
+
+/**
+ * Quote a value for a PostgREST or() filter, where commas and parentheses are syntax
+ */
+function quote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function isRecordRow(value: unknown): value is RecordRow {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
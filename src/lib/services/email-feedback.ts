@@ -0,0 +1,239 @@
+/**
+ * Email Feedback Service
+ * Applies SES bounce and complaint notifications to suppressions and sequence enrollments
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { SuppressionService } from '@/lib/services/suppression';
+import type { SesSnsPayload } from '@/lib/services/emails';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export type BounceClass = 'hard' | 'soft';
+
+interface SequenceSend {
+  executionId: string;
+  enrollmentId: string;
+  organizationId: string;
+}
+
+// Transient sub-types that mean the mailbox will never accept mail from us
+const PERMANENT_TRANSIENT_SUBTYPES = new Set(['ContentRejected', 'AttachmentRejected']);
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class EmailFeedbackService {
+  /**
+   * SES reports Permanent, Transient or Undetermined; only Permanent (and a couple of
+   * transient rejections that will not change on retry) are treated as hard
+   */
+  static classifyBounce(bounceType?: string, bounceSubType?: string): BounceClass {
+    if (bounceType === 'Permanent') return 'hard';
+    if (bounceSubType && PERMANENT_TRANSIENT_SUBTYPES.has(bounceSubType)) return 'hard';
+    return 'soft';
+  }
+
+  /**
+   * Handle a bounce or complaint notification. Other event types are ignored.
+   */
+  static async processSesEvent(eventType: string, event: SesSnsPayload): Promise<void> {
+    if (eventType === 'bounce' && event.bounce) {
+      await this.processBounce(event);
+    } else if (eventType === 'complaint' && event.complaint) {
+      await this.processComplaint(event);
+    }
+  }
+
+  private static async processBounce(event: SesSnsPayload): Promise<void> {
+    const bounce = event.bounce!;
+    const bounceClass = this.classifyBounce(bounce.bounceType, bounce.bounceSubType);
+    const occurredAt = bounce.timestamp || new Date().toISOString();
+    const send = await this.findSequenceSend(event.mail?.messageId);
+
+    for (const recipient of bounce.bouncedRecipients || []) {
+      const email = recipient.emailAddress;
+      if (!email) continue;
+
+      const reason = recipient.diagnosticCode || bounce.bounceSubType || bounce.bounceType || null;
+
+      if (send) {
+        await this.recordSequenceBounce(send, bounceClass, reason, occurredAt);
+      }
+
+      for (const orgId of await this.resolveOrganizations(email, send)) {
+        const { suppressed } = await SuppressionService.handleBounce(email, orgId, bounceClass, {
+          message_id: event.mail?.messageId,
+          bounce_sub_type: bounce.bounceSubType,
+          diagnostic_code: recipient.diagnosticCode,
+        });
+
+        if (suppressed) {
+          await this.stopEnrollments(
+            email,
+            orgId,
+            bounceClass === 'hard' ? 'Email hard bounced' : 'Email soft bounced repeatedly'
+          );
+        }
+      }
+    }
+  }
+
+  private static async processComplaint(event: SesSnsPayload): Promise<void> {
+    const complaint = event.complaint!;
+
+    // Feedback reports marked not-spam are informational
+    if (complaint.complaintFeedbackType === 'not-spam') return;
+
+    const occurredAt = complaint.timestamp || new Date().toISOString();
+    const send = await this.findSequenceSend(event.mail?.messageId);
+
+    for (const recipient of complaint.complainedRecipients || []) {
+      const email = recipient.emailAddress;
+      if (!email) continue;
+
+      if (send) {
+        await this.recordSequenceComplaint(send, occurredAt);
+      }
+
+      for (const orgId of await this.resolveOrganizations(email, send)) {
+        await SuppressionService.handleComplaint(email, orgId, {
+          message_id: event.mail?.messageId,
+          feedback_type: complaint.complaintFeedbackType,
+        });
+        await this.stopEnrollments(email, orgId, 'Recipient marked email as spam');
+      }
+    }
+  }
+
+  /**
+   * The sequence step execution that sent a message, if it was a sequence email
+   */
+  private static async findSequenceSend(messageId?: string): Promise<SequenceSend | null> {
+    if (!messageId) return null;
+
+    const supabase = createAdminClient();
+    const { data } = await supabase
+      .from('sequence_step_executions')
+      .select('id, enrollment:sequence_enrollments!inner(id, organization_id)')
+      .eq('email_message_id', messageId)
+      .maybeSingle<{ id: string; enrollment: { id: string; organization_id: string } | null }>();
+
+    const enrollment = data?.enrollment;
+    if (!data || !enrollment) return null;
+
+    return {
+      executionId: data.id,
+      enrollmentId: enrollment.id,
+      organizationId: enrollment.organization_id,
+    };
+  }
+
+  /**
+   * Organizations to suppress the address in. A sequence send belongs to one organization;
+   * any other send applies to every organization that has the address as a lead.
+   */
+  private static async resolveOrganizations(email: string, send: SequenceSend | null): Promise<string[]> {
+    if (send) return [send.organizationId];
+
+    const supabase = createAdminClient();
+    const { data: leads } = await supabase
+      .from('sales_leads')
+      .select('organization_id')
+      .ilike('email', escapeLike(email))
+      .not('organization_id', 'is', null);
+
+    return [...new Set((leads || []).map((lead) => lead.organization_id as string))];
+  }
+
+  private static async recordSequenceBounce(
+    send: SequenceSend,
+    bounceClass: BounceClass,
+    reason: string | null,
+    occurredAt: string
+  ): Promise<void> {
+    const supabase = createAdminClient();
+
+    // SNS redelivers; only the first notification for a send counts
+    const { data: updated } = await supabase
+      .from('sequence_step_executions')
+      .update({ bounced_at: occurredAt })
+      .eq('id', send.executionId)
+      .is('bounced_at', null)
+      .select('id');
+
+    if (!updated?.length) return;
+
+    await supabase.from('sequence_email_events').insert({
+      execution_id: send.executionId,
+      enrollment_id: send.enrollmentId,
+      event_type: 'bounce',
+      occurred_at: occurredAt,
+      bounce_type: bounceClass,
+      bounce_reason: reason,
+    });
+
+    await supabase.rpc('increment_enrollment_metric', {
+      p_enrollment_id: send.enrollmentId,
+      p_metric: 'emails_bounced',
+    });
+  }
+
+  private static async recordSequenceComplaint(send: SequenceSend, occurredAt: string): Promise<void> {
+    const supabase = createAdminClient();
+
+    const { count } = await supabase
+      .from('sequence_email_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('execution_id', send.executionId)
+      .eq('event_type', 'spam');
+
+    if (count) return;
+
+    await supabase.from('sequence_email_events').insert({
+      execution_id: send.executionId,
+      enrollment_id: send.enrollmentId,
+      event_type: 'spam',
+      occurred_at: occurredAt,
+    });
+  }
+
+  /**
+   * Stop every active or paused enrollment for the address in an organization
+   */
+  private static async stopEnrollments(email: string, orgId: string, reason: string): Promise<void> {
+    const supabase = createAdminClient();
+
+    const { data: leads } = await supabase
+      .from('sales_leads')
+      .select('id')
+      .ilike('email', escapeLike(email))
+      .eq('organization_id', orgId);
+
+    const leadIds = (leads || []).map((lead) => lead.id);
+    if (leadIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('sequence_enrollments')
+      .update({
+        status: 'stopped',
+        stopped_at: new Date().toISOString(),
+        stopped_reason: reason,
+        next_step_scheduled_at: null,
+      })
+      .eq('organization_id', orgId)
+      .in('lead_id', leadIds)
+      .in('status', ['active', 'paused']);
+
+    if (error) {
+      throw new Error(`Failed to stop enrollments for ${email}: ${error.message}`);
+    }
+  }
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
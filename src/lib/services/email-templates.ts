@@ -0,0 +1,443 @@
+/**
+ * Email Template Service
+ * Draft and published template versions, and rendering them for sequence and transactional sends
+ */
+
+import type { TReaderDocument } from '@usewaypoint/email-builder';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { compileEmailTemplate } from '@/lib/email/compile-template';
+import { renderTemplate, TemplateContext, TemplateRenderError } from '@/lib/email/template-engine';
+import { diffTemplateVersions, TemplateDiff } from '@/lib/email/template-diff';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export type EmailTemplateVersionStatus = 'draft' | 'published';
+
+export interface EmailTemplateVersion {
+  id: string;
+  template_id: string;
+  version_number: number;
+  status: EmailTemplateVersionStatus;
+  published_at: string | null;
+  published_by: string | null;
+  change_note: string | null;
+  subject_line: string | null;
+  preheader_text: string | null;
+  html: string | null;
+  design_json: TReaderDocument | null;
+  mjml: string | null;
+  amp_html: string | null;
+  compiled_html: string | null;
+  compiled_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface EmailTemplateUsage {
+  step_id: string;
+  step_number: number;
+  pinned_version: number | null; // null follows the latest version
+  sequence: { id: string; name: string; is_active: boolean };
+}
+
+// A sequence step as getUsage selects it; the embedded sequence is one row, not a list
+interface UsageStepRow {
+  id: string;
+  step_number: number;
+  email_template_version: number | null;
+  sequence: EmailTemplateUsage['sequence'];
+}
+
+export type EmailTemplateVersionSummary = Pick<
+  EmailTemplateVersion,
+  'id' | 'template_id' | 'version_number' | 'status' | 'subject_line' | 'preheader_text'
+  | 'change_note' | 'published_at' | 'published_by' | 'created_by' | 'created_at'
+>;
+
+export class EmailTemplateVersionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NO_DRAFT' | 'NOT_PUBLISHED' | 'INVALID'
+  ) {
+    super(message);
+    this.name = 'EmailTemplateVersionError';
+  }
+}
+
+const CONTENT_COLUMNS = 'subject_line, preheader_text, html, amp_html, mjml, design_json';
+
+export interface RenderedEmailTemplate {
+  subject: string;
+  html: string;
+  missing: string[];
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class EmailTemplateService {
+  /**
+   * Copy the template's working content into its open draft, starting a new draft
+   * version when none is open. Published versions are never touched.
+   */
+  static async saveDraft(templateId: string, createdBy?: string | null): Promise<EmailTemplateVersion> {
+    const supabase = createAdminClient();
+
+    const { data: template, error: fetchError } = await supabase
+      .from('email_templates')
+      .select(`id, current_version, ${CONTENT_COLUMNS}`)
+      .eq('id', templateId)
+      .single();
+
+    if (fetchError || !template) {
+      throw new EmailTemplateVersionError('Email template not found', 'NOT_FOUND');
+    }
+
+    const content = {
+      subject_line: template.subject_line,
+      preheader_text: template.preheader_text,
+      html: template.html,
+      amp_html: template.amp_html,
+      mjml: template.mjml,
+      design_json: template.design_json,
+      ...(await this.compileContent(template)),
+    };
+
+    const { data: draft } = await supabase
+      .from('email_template_versions')
+      .select('id')
+      .eq('template_id', templateId)
+      .eq('status', 'draft')
+      .maybeSingle();
+
+    if (draft) {
+      const { data: updated, error } = await supabase
+        .from('email_template_versions')
+        .update(content)
+        .eq('id', draft.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save template draft: ${error.message}`);
+      }
+      return updated as EmailTemplateVersion;
+    }
+
+    const versionNumber = (template.current_version || 0) + 1;
+
+    const { data: version, error } = await supabase
+      .from('email_template_versions')
+      .insert({
+        ...content,
+        template_id: templateId,
+        version_number: versionNumber,
+        status: 'draft',
+        created_by: createdBy ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // The unique constraints catch two saves racing to open a draft
+      throw new Error(
+        error.code === '23505'
+          ? 'Template was saved by someone else; reload and try again'
+          : `Failed to create template version: ${error.message}`
+      );
+    }
+
+    await supabase
+      .from('email_templates')
+      .update({ current_version: versionNumber })
+      .eq('id', templateId);
+
+    return version as EmailTemplateVersion;
+  }
+
+  /**
+   * Freeze the open draft. Steps and sends that follow the latest version switch to it.
+   */
+  static async publish(
+    templateId: string,
+    options: { publishedBy?: string | null; note?: string | null } = {}
+  ): Promise<EmailTemplateVersion> {
+    const supabase = createAdminClient();
+
+    const { data: draft } = await supabase
+      .from('email_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .eq('status', 'draft')
+      .maybeSingle();
+
+    if (!draft) {
+      throw new EmailTemplateVersionError('There is no draft to publish', 'NO_DRAFT');
+    }
+
+    // A version that does not compile must never become sendable
+    let compiledHtml: string;
+    try {
+      compiledHtml = await this.getCompiledHtml(draft as EmailTemplateVersion);
+    } catch (error) {
+      throw new EmailTemplateVersionError(
+        `Draft does not compile: ${error instanceof Error ? error.message : String(error)}`,
+        'INVALID'
+      );
+    }
+
+    const { data: published, error } = await supabase
+      .from('email_template_versions')
+      .update({
+        status: 'published',
+        compiled_html: compiledHtml,
+        published_at: new Date().toISOString(),
+        published_by: options.publishedBy ?? null,
+        change_note: options.note ?? null,
+      })
+      .eq('id', draft.id)
+      .eq('status', 'draft')
+      .select()
+      .single();
+
+    if (error || !published) {
+      throw new Error(`Failed to publish template: ${error?.message ?? 'draft changed'}`);
+    }
+
+    await supabase
+      .from('email_templates')
+      .update({ published_version: published.version_number })
+      .eq('id', templateId);
+
+    return published as EmailTemplateVersion;
+  }
+
+  /**
+   * Publish an earlier version's content again as a new version. The open draft, if any,
+   * is discarded and the working copy is reset to the restored content.
+   */
+  static async rollback(
+    templateId: string,
+    versionNumber: number,
+    options: { publishedBy?: string | null } = {}
+  ): Promise<EmailTemplateVersion> {
+    const supabase = createAdminClient();
+
+    const source = await this.getVersion(templateId, versionNumber);
+    if (!source) {
+      throw new EmailTemplateVersionError(`Version ${versionNumber} not found`, 'NOT_FOUND');
+    }
+    if (source.status !== 'published') {
+      throw new EmailTemplateVersionError('Only published versions can be restored', 'NOT_PUBLISHED');
+    }
+
+    const { data: template } = await supabase
+      .from('email_templates')
+      .select('current_version')
+      .eq('id', templateId)
+      .single();
+
+    await supabase
+      .from('email_template_versions')
+      .delete()
+      .eq('template_id', templateId)
+      .eq('status', 'draft');
+
+    const content = {
+      subject_line: source.subject_line,
+      preheader_text: source.preheader_text,
+      html: source.html,
+      amp_html: source.amp_html,
+      mjml: source.mjml,
+      design_json: source.design_json,
+    };
+
+    // Numbers are never reused, so the discarded draft's number stays retired
+    const restoredNumber = (template?.current_version || 0) + 1;
+    const now = new Date().toISOString();
+
+    const { data: restored, error } = await supabase
+      .from('email_template_versions')
+      .insert({
+        ...content,
+        template_id: templateId,
+        version_number: restoredNumber,
+        status: 'published',
+        compiled_html: source.compiled_html,
+        compiled_at: source.compiled_at,
+        published_at: now,
+        published_by: options.publishedBy ?? null,
+        created_by: options.publishedBy ?? null,
+        change_note: `Rolled back to v${versionNumber}`,
+      })
+      .select()
+      .single();
+
+    if (error || !restored) {
+      throw new Error(`Failed to restore version ${versionNumber}: ${error?.message}`);
+    }
+
+    await supabase
+      .from('email_templates')
+      .update({ ...content, current_version: restoredNumber, published_version: restoredNumber })
+      .eq('id', templateId);
+
+    return restored as EmailTemplateVersion;
+  }
+
+  static async diff(templateId: string, fromVersion: number, toVersion: number): Promise<TemplateDiff> {
+    const [from, to] = await Promise.all([
+      this.getVersion(templateId, fromVersion),
+      this.getVersion(templateId, toVersion),
+    ]);
+
+    if (!from || !to) {
+      throw new EmailTemplateVersionError(`Version ${from ? toVersion : fromVersion} not found`, 'NOT_FOUND');
+    }
+
+    return diffTemplateVersions(from, to);
+  }
+
+  /**
+   * The version's compiled HTML, compiling and caching it on the row the first time
+   */
+  static async getCompiledHtml(version: EmailTemplateVersion): Promise<string> {
+    if (version.compiled_html) return version.compiled_html;
+
+    const { html } = await compileEmailTemplate({
+      mjml: version.mjml,
+      design: version.design_json,
+      html: version.html,
+    });
+
+    const supabase = createAdminClient();
+    await supabase
+      .from('email_template_versions')
+      .update({ compiled_html: html, compiled_at: new Date().toISOString() })
+      .eq('id', version.id);
+
+    version.compiled_html = html;
+    return html;
+  }
+
+  /**
+   * A specific version, or the latest published version when none is pinned
+   */
+  static async getVersion(templateId: string, versionNumber?: number | null): Promise<EmailTemplateVersion | null> {
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from('email_template_versions')
+      .select('*')
+      .eq('template_id', templateId);
+
+    query = versionNumber
+      ? query.eq('version_number', versionNumber)
+      : query.eq('status', 'published').order('version_number', { ascending: false }).limit(1);
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load template version: ${error.message}`);
+    }
+
+    return data as EmailTemplateVersion | null;
+  }
+
+  static async listVersions(templateId: string): Promise<EmailTemplateVersionSummary[]> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('email_template_versions')
+      .select('id, template_id, version_number, status, subject_line, preheader_text, change_note, published_at, published_by, created_by, created_at')
+      .eq('template_id', templateId)
+      .order('version_number', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load template versions: ${error.message}`);
+    }
+
+    return (data || []) as EmailTemplateVersionSummary[];
+  }
+
+  /**
+   * Sequence steps that send this template
+   */
+  static async getUsage(templateId: string): Promise<EmailTemplateUsage[]> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('sequence_steps')
+      .select('id, step_number, email_template_version, sequence:sequence_templates!inner(id, name, is_active)')
+      .eq('email_template_id', templateId)
+      .order('step_number');
+
+    if (error) {
+      throw new Error(`Failed to load template usage: ${error.message}`);
+    }
+
+    return ((data || []) as unknown as UsageStepRow[]).map((step) => ({
+      step_id: step.id,
+      step_number: step.step_number,
+      pinned_version: step.email_template_version,
+      sequence: step.sequence,
+    }));
+  }
+
+  /**
+   * Render a version's subject and compiled HTML for one recipient
+   */
+  static async render(
+    version: EmailTemplateVersion,
+    context: TemplateContext,
+    options: { strict?: boolean; subjectOverride?: string | null } = {}
+  ): Promise<RenderedEmailTemplate> {
+    const missing = new Set<string>();
+    const render = (text: string, escapeHtml: boolean) => {
+      const result = renderTemplate(text, context, { escapeHtml });
+      result.missing.forEach((name) => missing.add(name));
+      return result.output;
+    };
+
+    const subject = render(options.subjectOverride || version.subject_line || '', false);
+    let html = render(await this.getCompiledHtml(version), true);
+
+    const preheader = version.preheader_text ? render(version.preheader_text, true) : '';
+    if (preheader) {
+      // Hidden preview text shown next to the subject in the inbox
+      const hidden = `<div style="display:none;max-height:0;overflow:hidden;opacity:0">${preheader}</div>`;
+      html = /<body[^>]*>/i.test(html) ? html.replace(/<body[^>]*>/i, (tag) => tag + hidden) : hidden + html;
+    }
+
+    if (options.strict && missing.size > 0) {
+      const names = [...missing];
+      throw new TemplateRenderError(`Missing template variables: ${names.join(', ')}`, names);
+    }
+
+    return { subject, html, missing: [...missing] };
+  }
+
+  /**
+   * Compiled HTML for saved content; a failure is logged and retried when the version is published or sent
+   */
+  private static async compileContent(content: {
+    mjml?: string | null;
+    design_json?: unknown;
+    html?: string | null;
+  }): Promise<{ compiled_html: string | null; compiled_at: string | null }> {
+    try {
+      const { html } = await compileEmailTemplate({
+        mjml: content.mjml,
+        design: content.design_json,
+        html: content.html,
+      });
+      return { compiled_html: html, compiled_at: new Date().toISOString() };
+    } catch (error) {
+      console.error('Failed to compile email template content:', error);
+      return { compiled_html: null, compiled_at: null };
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Email Tracking Service
+ * Stores tracked links and records opens and clicks, counting only human engagement
+ * toward execution timestamps and enrollment metrics
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  classifyEngagement,
+  type EngagementRequest,
+  type MachineClassification,
+} from '@/lib/email/machine-events';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface TrackedLink {
+  id: string;
+  execution_id: string;
+  enrollment_id: string;
+  url: string;
+  link_position: number;
+}
+
+interface TrackedExecution {
+  id: string;
+  enrollment_id: string;
+  executed_at: string;
+  sent_at: string | null;
+  opened_at: string | null;
+  clicked_at: string | null;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class EmailTrackingService {
+  /**
+   * Save the links rewritten for one email
+   * @returns false when the links could not be stored, in which case the email must go out untracked
+   */
+  static async registerLinks(links: TrackedLink[]): Promise<boolean> {
+    if (links.length === 0) return true;
+
+    const supabase = createAdminClient();
+    const { error } = await supabase.from('sequence_tracked_links').insert(links);
+
+    if (error) {
+      console.error('Error saving tracked links:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  static async getLink(linkId: string): Promise<TrackedLink | null> {
+    const supabase = createAdminClient();
+
+    const { data } = await supabase
+      .from('sequence_tracked_links')
+      .select('id, execution_id, enrollment_id, url, link_position')
+      .eq('id', linkId)
+      .maybeSingle();
+
+    return (data as TrackedLink | null) ?? null;
+  }
+
+  /**
+   * Record a pixel fetch. Machine fetches are logged but do not mark the email opened.
+   */
+  static async recordOpen(executionId: string, request: EngagementRequest): Promise<MachineClassification | null> {
+    const supabase = createAdminClient();
+    const occurredAt = new Date();
+
+    const execution = await this.getExecution(executionId);
+    if (!execution) return null;
+
+    const classification = classifyEngagement(request, {
+      sentAt: execution.sent_at ?? execution.executed_at,
+      occurredAt,
+    });
+
+    await supabase.from('sequence_email_events').insert({
+      execution_id: execution.id,
+      enrollment_id: execution.enrollment_id,
+      event_type: 'open',
+      occurred_at: occurredAt.toISOString(),
+      ip_address: request.ip,
+      user_agent: request.userAgent,
+      is_machine: classification.isMachine,
+      machine_reason: classification.reason,
+    });
+
+    if (!classification.isMachine) {
+      await this.markFirst(execution, 'opened_at', occurredAt);
+    }
+
+    return classification;
+  }
+
+  /**
+   * Record a click on a tracked link. A human click also counts as an open, since privacy
+   * proxies and image blocking hide many real opens.
+   */
+  static async recordClick(link: TrackedLink, request: EngagementRequest): Promise<MachineClassification | null> {
+    const supabase = createAdminClient();
+    const occurredAt = new Date();
+
+    const execution = await this.getExecution(link.execution_id);
+    if (!execution) return null;
+
+    const { data: previousClick } = await supabase
+      .from('sequence_email_events')
+      .select('occurred_at')
+      .eq('execution_id', execution.id)
+      .eq('event_type', 'click')
+      .neq('link_id', link.id)
+      .order('occurred_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const classification = classifyEngagement(request, {
+      sentAt: execution.sent_at ?? execution.executed_at,
+      occurredAt,
+      previousClickAt: previousClick?.occurred_at ?? null,
+    });
+
+    await supabase.from('sequence_email_events').insert({
+      execution_id: execution.id,
+      enrollment_id: execution.enrollment_id,
+      event_type: 'click',
+      occurred_at: occurredAt.toISOString(),
+      link_id: link.id,
+      link_url: link.url,
+      link_position: link.link_position,
+      ip_address: request.ip,
+      user_agent: request.userAgent,
+      is_machine: classification.isMachine,
+      machine_reason: classification.reason,
+    });
+
+    if (!classification.isMachine) {
+      await this.markFirst(execution, 'clicked_at', occurredAt);
+      await this.markFirst(execution, 'opened_at', occurredAt);
+    }
+
+    return classification;
+  }
+
+  // ============================================
+  // HELPER METHODS
+  // ============================================
+
+  private static async getExecution(executionId: string): Promise<TrackedExecution | null> {
+    const supabase = createAdminClient();
+
+    const { data } = await supabase
+      .from('sequence_step_executions')
+      .select('id, enrollment_id, executed_at, sent_at, opened_at, clicked_at')
+      .eq('id', executionId)
+      .maybeSingle();
+
+    return (data as TrackedExecution | null) ?? null;
+  }
+
+  /**
+   * Set the first-engagement timestamp and bump the enrollment counter, once per execution
+   */
+  private static async markFirst(
+    execution: TrackedExecution,
+    column: 'opened_at' | 'clicked_at',
+    occurredAt: Date
+  ): Promise<void> {
+    if (execution[column]) return;
+
+    const supabase = createAdminClient();
+
+    // Conditional update so concurrent requests count once
+    const { data: updated } = await supabase
+      .from('sequence_step_executions')
+      .update({ [column]: occurredAt.toISOString() })
+      .eq('id', execution.id)
+      .is(column, null)
+      .select('id');
+
+    if (!updated?.length) return;
+
+    await supabase.rpc('increment_enrollment_metric', {
+      p_enrollment_id: execution.enrollment_id,
+      p_metric: column === 'opened_at' ? 'emails_opened' : 'emails_clicked',
+    });
+  }
+}
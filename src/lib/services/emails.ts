@@ -1,6 +1,12 @@
 import { SendEmailCommand } from "@aws-sdk/client-sesv2";
 import { getSesClient } from "@/lib/email/ses-client";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { EmailFeedbackService } from "@/lib/services/email-feedback";
+import { EmailTemplateService } from "@/lib/services/email-templates";
+import { htmlToText } from "@/lib/email/sequence-email-sender";
+import { injectUnsubscribeFooter, listUnsubscribeHeaders } from "@/lib/email/list-unsubscribe";
+import { buildMimeMessage } from "@/lib/email/mime";
+import type { TemplateContext } from "@/lib/email/template-engine";
 
 export type EmailTag = {
   name: string;
@@ -9,9 +15,18 @@ export type EmailTag = {
 
 export type EmailCategory = "transactional" | "marketing";
 
+export type TransactionalTemplate = {
+  id: string;
+  // Pinned published version; the latest published version when omitted
+  version?: number | null;
+  context?: TemplateContext;
+};
+
 export type SendTransactionalEmailParams = {
   to: string | string[];
-  subject: string;
+  // Optional with a template, where it overrides the template's subject line
+  subject?: string;
+  template?: TransactionalTemplate;
   htmlBody?: string;
   textBody?: string;
   from?: string;
@@ -20,6 +35,8 @@ export type SendTransactionalEmailParams = {
   tags?: EmailTag[];
   metadata?: Record<string, unknown>;
   category?: EmailCategory;
+  // Required for marketing sends, which carry one-click List-Unsubscribe headers and a footer link
+  unsubscribeUrl?: string;
 };
 
 export type SendTransactionalEmailResult = {
@@ -37,10 +54,52 @@ export async function sendTransactionalEmail(
     throw new Error("sendTransactionalEmail requires at least one recipient");
   }
 
-  if (!params.htmlBody && !params.textBody) {
+  if (category === "marketing") {
+    if (!params.unsubscribeUrl) {
+      throw new Error("Marketing emails require an unsubscribeUrl");
+    }
+    // The unsubscribe link identifies a single recipient
+    if (recipients.length > 1) {
+      throw new Error("Marketing emails must be sent to one recipient at a time");
+    }
+  }
+
+  let subject = params.subject;
+  let htmlBody = params.htmlBody;
+  let textBody = params.textBody;
+  let metadata = params.metadata ?? {};
+
+  if (params.template) {
+    const version = await EmailTemplateService.getVersion(params.template.id, params.template.version);
+    if (!version || version.status !== "published") {
+      throw new Error(
+        `Email template ${params.template.id} has no published version${params.template.version ? ` ${params.template.version}` : ""}`
+      );
+    }
+
+    const rendered = await EmailTemplateService.render(version, params.template.context ?? {}, {
+      subjectOverride: params.subject,
+    });
+    subject = rendered.subject;
+    htmlBody = rendered.html;
+    textBody = params.textBody ?? htmlToText(rendered.html);
+    metadata = { ...metadata, templateId: version.template_id, templateVersion: version.version_number };
+  }
+
+  if (!subject) {
+    throw new Error("sendTransactionalEmail requires a subject or a template with a subject line");
+  }
+
+  if (!htmlBody && !textBody) {
     throw new Error("sendTransactionalEmail requires htmlBody or textBody");
   }
 
+  if (params.unsubscribeUrl) {
+    const withFooter = injectUnsubscribeFooter({ html: htmlBody, text: textBody }, params.unsubscribeUrl);
+    htmlBody = withFooter.html ?? undefined;
+    textBody = withFooter.text ?? undefined;
+  }
+
   const fromEmail = params.from || process.env.EMAIL_FROM_ADDRESS;
   if (!fromEmail) {
     throw new Error(
@@ -58,12 +117,12 @@ export async function sendTransactionalEmail(
     .insert({
       to_email: recipients.join(","),
       from_email: fromEmail,
-      subject: params.subject,
+      subject,
       status: "queued",
       tags: params.tags ?? [],
       configuration_set: configurationSetName,
       category,
-      metadata: params.metadata ?? {},
+      metadata,
     })
     .select("id")
     .single();
@@ -83,19 +142,37 @@ export async function sendTransactionalEmail(
     ReplyToAddresses: params.replyTo,
     ConfigurationSetName: configurationSetName,
     EmailTags: params.tags?.map((tag) => ({ Name: tag.name, Value: tag.value })),
-    Content: {
-      Simple: {
-        Subject: { Data: params.subject, Charset: DEFAULT_CHARSET },
-        Body: {
-          Html: params.htmlBody
-            ? { Data: params.htmlBody, Charset: DEFAULT_CHARSET }
-            : undefined,
-          Text: params.textBody
-            ? { Data: params.textBody, Charset: DEFAULT_CHARSET }
-            : undefined,
+    // List-Unsubscribe headers need a raw message; Simple content cannot carry them
+    Content: params.unsubscribeUrl
+      ? {
+          Raw: {
+            Data: Buffer.from(
+              buildMimeMessage({
+                from: { email: fromEmail },
+                to: recipients,
+                replyTo: params.replyTo,
+                subject,
+                html: htmlBody,
+                text: textBody,
+                headers: listUnsubscribeHeaders(params.unsubscribeUrl),
+              }),
+              "utf8"
+            ),
+          },
+        }
+      : {
+          Simple: {
+            Subject: { Data: subject, Charset: DEFAULT_CHARSET },
+            Body: {
+              Html: htmlBody
+                ? { Data: htmlBody, Charset: DEFAULT_CHARSET }
+                : undefined,
+              Text: textBody
+                ? { Data: textBody, Charset: DEFAULT_CHARSET }
+                : undefined,
+            },
+          },
         },
-      },
-    },
   });
 
   try {
@@ -150,9 +227,9 @@ const EVENT_STATUS_MAP: Record<string, string> = {
   renderingfailure: "failed",
 };
 
-type SesRecipient = { emailAddress?: string };
+type SesRecipient = { emailAddress?: string; diagnosticCode?: string };
 
-type SesSnsPayload = {
+export type SesSnsPayload = {
   eventType?: string;
   notificationType?: string;
   mail?: {
@@ -162,8 +239,15 @@ type SesSnsPayload = {
   };
   send?: { timestamp?: string };
   delivery?: { timestamp?: string; recipients?: string[] };
-  bounce?: { timestamp?: string; bounceType?: string; bouncedRecipients?: SesRecipient[] };
+  bounce?: {
+    feedbackId?: string;
+    timestamp?: string;
+    bounceType?: string;
+    bounceSubType?: string;
+    bouncedRecipients?: SesRecipient[];
+  };
   complaint?: {
+    feedbackId?: string;
     timestamp?: string;
     complaintFeedbackType?: string;
     complainedRecipients?: SesRecipient[];
@@ -191,15 +275,27 @@ export async function recordSesNotification(payload: unknown) {
     event.mail?.timestamp ||
     new Date().toISOString();
 
+  // SNS redelivers notifications; a bounce or complaint is applied once per SES feedback id
+  const feedbackId = event.bounce?.feedbackId ?? event.complaint?.feedbackId ?? null;
+
   const supabase = createAdminClient();
 
-  await supabase.from("email_events").insert({
-    message_id: messageId,
-    event_type: eventType,
-    recipient,
-    occurred_at: new Date(occurredAt).toISOString(),
-    payload: event,
-  });
+  const { data: stored, error: insertError } = await supabase
+    .from("email_events")
+    .insert({
+      message_id: messageId,
+      event_type: eventType,
+      recipient,
+      occurred_at: new Date(occurredAt).toISOString(),
+      feedback_id: feedbackId,
+      payload: event,
+    })
+    .select("id")
+    .single();
+
+  if (insertError?.code === "23505") {
+    return;
+  }
 
   const status = EVENT_STATUS_MAP[eventType];
   if (messageId && status) {
@@ -212,6 +308,17 @@ export async function recordSesNotification(payload: unknown) {
       })
       .eq("message_id", messageId);
   }
+
+  // Suppress bounced and complaining addresses and stop their sequences
+  try {
+    await EmailFeedbackService.processSesEvent(eventType, event);
+  } catch (error) {
+    // Release the feedback id so the redelivery is applied
+    if (feedbackId && stored) {
+      await supabase.from("email_events").delete().eq("id", stored.id);
+    }
+    throw error;
+  }
 }
 
 function resolveTimestamp(event: SesSnsPayload) {
@@ -0,0 +1,245 @@
+/**
+ * Extension API Key Service
+ * Issues, verifies and revokes the bearer tokens the Chrome extension uses for /api/linkedin
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export const EXTENSION_SCOPES = ['linkedin:tasks:read', 'linkedin:tasks:write'] as const;
+
+export type ExtensionScope = (typeof EXTENSION_SCOPES)[number];
+
+export interface ExtensionApiKey {
+  id: string;
+  created_at: string;
+  organization_id: string;
+  user_id: string;
+  linkedin_account_id: string;
+  name: string;
+  token_prefix: string;
+  scopes: ExtensionScope[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  linkedin_account?: { id: string; account_name: string; linkedin_email: string | null } | null;
+}
+
+/** What a verified token is allowed to act as */
+export interface ExtensionPrincipal {
+  keyId: string;
+  organizationId: string;
+  userId: string;
+  linkedinAccountId: string;
+  scopes: ExtensionScope[];
+}
+
+export interface IssueExtensionKeyInput {
+  organizationId: string;
+  userId: string;
+  linkedinAccountId: string;
+  name: string;
+  scopes?: ExtensionScope[];
+  expiresAt?: string | null;
+}
+
+export class ExtensionAuthError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'MISSING_TOKEN' | 'INVALID_TOKEN' | 'REVOKED' | 'EXPIRED' | 'INSUFFICIENT_SCOPE' | 'ACCOUNT_INACTIVE'
+  ) {
+    super(message);
+    this.name = 'ExtensionAuthError';
+  }
+
+  get status(): number {
+    return this.code === 'INSUFFICIENT_SCOPE' || this.code === 'ACCOUNT_INACTIVE' ? 403 : 401;
+  }
+}
+
+const TOKEN_PREFIX = 'chx_';
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 8;
+
+const KEY_COLUMNS = `
+  id, created_at, organization_id, user_id, linkedin_account_id, name, token_prefix,
+  scopes, last_used_at, expires_at, revoked_at, revoked_by
+`;
+
+// Skip the last_used_at write when the key was seen this recently; the extension polls every minute
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class ExtensionApiKeyService {
+  /**
+   * Issue a key for one of the user's LinkedIn accounts. The plaintext token is
+   * only returned here; afterwards only its hash and prefix are kept.
+   * @returns null when the account does not belong to the user
+   */
+  static async issue(input: IssueExtensionKeyInput): Promise<{ key: ExtensionApiKey; token: string } | null> {
+    const supabase = createAdminClient();
+
+    const { data: account } = await supabase
+      .from('linkedin_accounts')
+      .select('id')
+      .eq('id', input.linkedinAccountId)
+      .eq('organization_id', input.organizationId)
+      .eq('user_id', input.userId)
+      .maybeSingle();
+
+    if (!account) return null;
+
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const { data, error } = await supabase
+      .from('extension_api_keys')
+      .insert({
+        organization_id: input.organizationId,
+        user_id: input.userId,
+        linkedin_account_id: input.linkedinAccountId,
+        name: input.name,
+        token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        token_hash: this.hashToken(token),
+        scopes: input.scopes?.length ? input.scopes : [...EXTENSION_SCOPES],
+        expires_at: input.expiresAt ?? null,
+      })
+      .select(KEY_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    return { key: data as ExtensionApiKey, token };
+  }
+
+  /**
+   * Keys issued to a user, newest first, including revoked ones
+   */
+  static async list(organizationId: string, userId: string): Promise<ExtensionApiKey[]> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('extension_api_keys')
+      .select(`${KEY_COLUMNS}, linkedin_account:linkedin_accounts(id, account_name, linkedin_email)`)
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []) as unknown as ExtensionApiKey[];
+  }
+
+  /**
+   * Revoke one of the user's keys. Returns false when no active key matched.
+   */
+  static async revoke(keyId: string, organizationId: string, userId: string): Promise<boolean> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('extension_api_keys')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: userId })
+      .eq('id', keyId)
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) throw error;
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Resolve the bearer token on a request and check it carries the scope
+   * @throws ExtensionAuthError when the token is missing, unknown, revoked, expired or under-scoped
+   */
+  static async authenticate(request: Request, scope: ExtensionScope): Promise<ExtensionPrincipal> {
+    const header = request.headers.get('authorization') || '';
+    const match = /^Bearer\s+(\S+)$/i.exec(header);
+    if (!match) {
+      throw new ExtensionAuthError('Missing bearer token', 'MISSING_TOKEN');
+    }
+
+    return this.verify(match[1], scope);
+  }
+
+  /**
+   * Verify a plaintext token
+   */
+  static async verify(token: string, scope: ExtensionScope): Promise<ExtensionPrincipal> {
+    if (!token.startsWith(TOKEN_PREFIX)) {
+      throw new ExtensionAuthError('Invalid token', 'INVALID_TOKEN');
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: key } = await supabase
+      .from('extension_api_keys')
+      .select(`${KEY_COLUMNS}, linkedin_account:linkedin_accounts(is_active)`)
+      .eq('token_hash', this.hashToken(token))
+      .maybeSingle();
+
+    if (!key) {
+      throw new ExtensionAuthError('Invalid token', 'INVALID_TOKEN');
+    }
+    if (key.revoked_at) {
+      throw new ExtensionAuthError('Token has been revoked', 'REVOKED');
+    }
+    if (key.expires_at && new Date(key.expires_at).getTime() <= Date.now()) {
+      throw new ExtensionAuthError('Token has expired', 'EXPIRED');
+    }
+    if (!(key.scopes as string[]).includes(scope)) {
+      throw new ExtensionAuthError(`Token is missing the ${scope} scope`, 'INSUFFICIENT_SCOPE');
+    }
+
+    const account = key.linkedin_account as unknown as { is_active: boolean | null } | null;
+    if (!account || account.is_active === false) {
+      throw new ExtensionAuthError('LinkedIn account is inactive', 'ACCOUNT_INACTIVE');
+    }
+
+    await this.touch(key.id, key.linkedin_account_id, key.last_used_at);
+
+    return {
+      keyId: key.id,
+      organizationId: key.organization_id,
+      userId: key.user_id,
+      linkedinAccountId: key.linkedin_account_id,
+      scopes: key.scopes as ExtensionScope[],
+    };
+  }
+
+  // ============================================
+  // HELPER METHODS
+  // ============================================
+
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Record key usage and mark the LinkedIn account as connected through the extension
+   */
+  private static async touch(keyId: string, linkedinAccountId: string, lastUsedAt: string | null): Promise<void> {
+    if (lastUsedAt && Date.now() - new Date(lastUsedAt).getTime() < LAST_USED_RESOLUTION_MS) {
+      return;
+    }
+
+    const supabase = createAdminClient();
+    const now = new Date().toISOString();
+
+    await Promise.all([
+      supabase.from('extension_api_keys').update({ last_used_at: now }).eq('id', keyId),
+      supabase
+        .from('linkedin_accounts')
+        .update({ is_connected: true, last_connected_at: now, updated_at: now })
+        .eq('id', linkedinAccountId),
+    ]);
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * Lead Conversion Service
+ * Turns a qualified lead into a contact at an account, optionally with an opportunity,
+ * and moves the lead's activity, tasks and enrollments onto the new records
+ */
+
+import { z } from 'zod';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { EmailValidator } from '@/lib/email/validator';
+import { AutoEnrollmentEngine } from '@/lib/services/auto-enrollment';
+import { createOpportunity } from '@/lib/services/crm-opportunities';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export const ConvertLeadSchema = z.object({
+  // Use these records instead of matching
+  account_id: z.string().uuid().nullish(),
+  contact_id: z.string().uuid().nullish(),
+  // Set to open an opportunity for the converted contact
+  opportunity: z
+    .object({
+      name: z.string().trim().min(1).max(200).optional(),
+      amount: z.number().min(0).optional(),
+      close_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish(),
+      pipeline_id: z.string().uuid().optional(),
+      stage_id: z.string().uuid().optional(),
+    })
+    .nullish(),
+});
+
+export const BulkConvertLeadsSchema = ConvertLeadSchema.omit({ account_id: true, contact_id: true }).extend({
+  lead_ids: z.array(z.string().uuid()).min(1).max(100),
+});
+
+export type ConvertLeadOptions = z.infer<typeof ConvertLeadSchema>;
+
+export interface LeadConversionResult {
+  leadId: string;
+  accountId: string | null;
+  contactId: string;
+  opportunityId: string | null;
+  created: { account: boolean; contact: boolean };
+  repointed: { activities: number; tasks: number; enrollments: number };
+}
+
+export interface BulkConversionResult {
+  converted: LeadConversionResult[];
+  failed: Array<{ leadId: string; error: string }>;
+}
+
+export class LeadConversionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'ALREADY_CONVERTED' | 'INVALID'
+  ) {
+    super(message);
+    this.name = 'LeadConversionError';
+  }
+
+  get status(): number {
+    if (this.code === 'NOT_FOUND') return 404;
+    return this.code === 'ALREADY_CONVERTED' ? 409 : 400;
+  }
+}
+
+interface ConvertibleLead {
+  id: string;
+  organization_id: string | null;
+  name: string;
+  email: string;
+  phone: string | null;
+  company: string | null;
+  industry: string | null;
+  company_size: string | null;
+  title: string | null;
+  location: string | null;
+  linkedin_url: string | null;
+  timezone: string | null;
+  status: string;
+  assigned_to: string | null;
+  account_id: string | null;
+  converted_at: string | null;
+}
+
+// Records a conversion created, removed again when it fails
+interface CreatedRecords {
+  accountId: string | null;
+  contactId: string | null;
+  opportunityId: string | null;
+}
+
+const LEAD_COLUMNS =
+  'id, organization_id, name, email, phone, company, industry, company_size, title, location, linkedin_url, timezone, status, assigned_to, account_id, converted_at';
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class LeadConversionService {
+  /**
+   * Convert one lead. The account is the one given, the one the lead is already linked to, or
+   * the account with the lead's email domain, created when none matches. The contact is the
+   * one given or the organization's contact with the same email, created when none matches.
+   */
+  static async convert(
+    leadId: string,
+    orgId: string,
+    userId: string,
+    input: ConvertLeadOptions = {}
+  ): Promise<LeadConversionResult> {
+    const options = ConvertLeadSchema.parse(input);
+    const lead = await this.claimLead(leadId, orgId, userId);
+
+    try {
+      return await this.completeConversion(lead, orgId, userId, options);
+    } catch (error) {
+      await this.releaseLead(lead.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert several leads with the same options. Each lead matches its own account and contact;
+   * one failure does not stop the rest.
+   */
+  static async convertMany(
+    leadIds: string[],
+    orgId: string,
+    userId: string,
+    input: Omit<ConvertLeadOptions, 'account_id' | 'contact_id'> = {}
+  ): Promise<BulkConversionResult> {
+    const result: BulkConversionResult = { converted: [], failed: [] };
+
+    // Sequential so leads at the same company share the account the first one creates
+    for (const leadId of [...new Set(leadIds)]) {
+      try {
+        result.converted.push(await this.convert(leadId, orgId, userId, input));
+      } catch (error) {
+        result.failed.push({
+          leadId,
+          error: error instanceof Error ? error.message : 'Conversion failed',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  // ============================================
+  // HELPER METHODS
+  // ============================================
+
+  private static async completeConversion(
+    lead: ConvertibleLead,
+    orgId: string,
+    userId: string,
+    options: ConvertLeadOptions
+  ): Promise<LeadConversionResult> {
+    const supabase = createAdminClient();
+    const ownerId = lead.assigned_to ?? userId;
+    const created: CreatedRecords = { accountId: null, contactId: null, opportunityId: null };
+
+    let result: LeadConversionResult;
+    try {
+      const account = await this.resolveAccount(lead, orgId, userId, ownerId, options.account_id);
+      if (account?.created) created.accountId = account.id;
+
+      const contact = await this.resolveContact(lead, orgId, userId, ownerId, account?.id ?? null, options.contact_id);
+      if (contact.created) created.contactId = contact.id;
+
+      if (options.opportunity) {
+        const opportunity = await createOpportunity(
+          {
+            ...options.opportunity,
+            name: options.opportunity.name ?? `${lead.company || lead.name} opportunity`,
+            account_id: account?.id ?? null,
+            lead_id: lead.id,
+            assigned_to: ownerId,
+            contacts: [{ contact_id: contact.id, is_primary: true }],
+          },
+          userId,
+          orgId
+        );
+        created.opportunityId = opportunity.id;
+      }
+
+      const { data: repointed, error } = await supabase.rpc('finish_lead_conversion', {
+        p_lead_id: lead.id,
+        p_organization_id: orgId,
+        p_contact_id: contact.id,
+        p_account_id: account?.id ?? null,
+        p_opportunity_id: created.opportunityId,
+        p_converted_by: userId,
+        p_activity_metadata: {
+          previous_status: lead.status,
+          contact_created: contact.created,
+          account_created: account?.created ?? false,
+          opportunity_id: created.opportunityId,
+        },
+      });
+
+      if (error) throw error;
+
+      result = {
+        leadId: lead.id,
+        accountId: account?.id ?? null,
+        contactId: contact.id,
+        opportunityId: created.opportunityId,
+        created: { account: account?.created ?? false, contact: contact.created },
+        repointed: repointed as LeadConversionResult['repointed'],
+      };
+    } catch (error) {
+      await this.removeCreated(created);
+      throw error;
+    }
+
+    await AutoEnrollmentEngine.emitLeadChanges(orgId, lead.id, { status: lead.status }, { status: 'converted' });
+
+    return result;
+  }
+
+  /**
+   * Mark the lead as being converted so concurrent conversions of the same lead cannot both run
+   */
+  private static async claimLead(leadId: string, orgId: string, userId: string): Promise<ConvertibleLead> {
+    const supabase = createAdminClient();
+
+    const { data: lead } = await supabase
+      .from('sales_leads')
+      .select(LEAD_COLUMNS)
+      .eq('id', leadId)
+      .maybeSingle();
+
+    // Leads captured from the website have no organization yet; conversion adopts them
+    if (!lead || (lead.organization_id && lead.organization_id !== orgId)) {
+      throw new LeadConversionError('Lead not found', 'NOT_FOUND');
+    }
+
+    if (lead.converted_at) {
+      throw new LeadConversionError('Lead has already been converted', 'ALREADY_CONVERTED');
+    }
+
+    const { data: claimed, error } = await supabase
+      .from('sales_leads')
+      .update({ converted_at: new Date().toISOString(), converted_by: userId })
+      .eq('id', leadId)
+      .is('converted_at', null)
+      .select('id');
+
+    if (error) throw error;
+    if (!claimed?.length) {
+      throw new LeadConversionError('Lead has already been converted', 'ALREADY_CONVERTED');
+    }
+
+    return lead as ConvertibleLead;
+  }
+
+  private static async releaseLead(leadId: string): Promise<void> {
+    const supabase = createAdminClient();
+    const { error } = await supabase
+      .from('sales_leads')
+      .update({ converted_at: null, converted_by: null })
+      .eq('id', leadId);
+
+    if (error) {
+      console.error(`Failed to release conversion claim on lead ${leadId}:`, error);
+    }
+  }
+
+  /**
+   * Delete what a failed conversion created so a retry does not open a second opportunity.
+   * The opportunity goes first since it links the contact and account.
+   */
+  private static async removeCreated(created: CreatedRecords): Promise<void> {
+    const supabase = createAdminClient();
+    const removals: Array<[string, string | null]> = [
+      ['sales_opportunities', created.opportunityId],
+      ['sales_contacts', created.contactId],
+      ['sales_accounts', created.accountId],
+    ];
+
+    for (const [table, id] of removals) {
+      if (!id) continue;
+
+      const { error } = await supabase.from(table).delete().eq('id', id);
+      if (error) {
+        console.error(`Failed to remove ${table} ${id} after a failed lead conversion:`, error);
+      }
+    }
+  }
+
+  private static async resolveAccount(
+    lead: ConvertibleLead,
+    orgId: string,
+    userId: string,
+    ownerId: string,
+    accountId: string | null | undefined
+  ): Promise<{ id: string; created: boolean } | null> {
+    const supabase = createAdminClient();
+
+    const requestedId = accountId ?? lead.account_id;
+    if (requestedId) {
+      const { data } = await supabase
+        .from('sales_accounts')
+        .select('id')
+        .eq('id', requestedId)
+        .eq('organization_id', orgId)
+        .maybeSingle();
+
+      if (data) return { id: data.id, created: false };
+      if (accountId) throw new LeadConversionError('Account not found', 'INVALID');
+    }
+
+    const domain = EmailValidator.getCompanyDomain(lead.email);
+    if (domain) {
+      const { data } = await supabase
+        .from('sales_accounts')
+        .select('id')
+        .eq('organization_id', orgId)
+        .or(`domain.ilike.${domain},domain.ilike.www.${domain}`)
+        .order('created_at')
+        .limit(1);
+
+      if (data?.[0]) return { id: data[0].id, created: false };
+    }
+
+    const name = lead.company?.trim() || domain;
+    if (!name) return null;
+
+    const { data, error } = await supabase
+      .from('sales_accounts')
+      .insert({
+        organization_id: orgId,
+        name,
+        domain,
+        website: domain ? `https://${domain}` : null,
+        industry: lead.industry,
+        size: lead.company_size,
+        status: 'active',
+        assigned_to: ownerId,
+        created_by: userId,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return { id: data.id, created: true };
+  }
+
+  private static async resolveContact(
+    lead: ConvertibleLead,
+    orgId: string,
+    userId: string,
+    ownerId: string,
+    accountId: string | null,
+    contactId: string | null | undefined
+  ): Promise<{ id: string; created: boolean }> {
+    const supabase = createAdminClient();
+
+    let existing: { id: string; account_id: string | null } | null = null;
+
+    if (contactId) {
+      const { data } = await supabase
+        .from('sales_contacts')
+        .select('id, account_id')
+        .eq('id', contactId)
+        .eq('organization_id', orgId)
+        .maybeSingle();
+
+      if (!data) throw new LeadConversionError('Contact not found', 'INVALID');
+      existing = data;
+    } else if (lead.email) {
+      const { data } = await supabase
+        .from('sales_contacts')
+        .select('id, account_id')
+        .eq('organization_id', orgId)
+        .ilike('email', escapeLike(lead.email.trim()))
+        .order('created_at')
+        .limit(1);
+
+      existing = data?.[0] ?? null;
+    }
+
+    if (existing) {
+      // A contact without an account joins the converted lead's
+      if (!existing.account_id && accountId) {
+        await supabase.from('sales_contacts').update({ account_id: accountId }).eq('id', existing.id);
+      }
+      return { id: existing.id, created: false };
+    }
+
+    const [firstName, ...rest] = lead.name.trim().split(/\s+/);
+
+    const { data, error } = await supabase
+      .from('sales_contacts')
+      .insert({
+        organization_id: orgId,
+        account_id: accountId,
+        first_name: firstName || null,
+        last_name: rest.join(' ') || null,
+        email: lead.email,
+        phone: lead.phone,
+        title: lead.title,
+        location: lead.location,
+        linkedin_url: lead.linkedin_url,
+        timezone: lead.timezone,
+        status: 'active',
+        lifecycle_stage: 'sql',
+        assigned_to: ownerId,
+        created_by: userId,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return { id: data.id, created: true };
+  }
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
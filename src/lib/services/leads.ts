@@ -1,5 +1,8 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { SalesWebhookPayload } from "@/lib/ingest/schemas";
+import { PlaybookTriggerService } from "@/lib/services/playbook-triggers";
+import { AutoEnrollmentEngine } from "@/lib/services/auto-enrollment";
+import { DuplicateDetectionService } from "@/lib/services/duplicate-detection";
 
 type DB = SupabaseClient;
 
@@ -89,7 +92,7 @@ export async function upsertSalesLead(
   const { data, error } = await supabase
     .from("sales_leads")
     .insert(insertPayload)
-    .select("id")
+    .select("id, organization_id")
     .single();
 
   if (error || !data) {
@@ -98,5 +101,24 @@ export async function upsertSalesLead(
     );
   }
 
+  // Ingested leads are not org-scoped yet; single-tenant installs fall back to the allowed org
+  const organizationId = data.organization_id ?? process.env.CLERK_ALLOWED_ORG_ID;
+
+  await PlaybookTriggerService.emitEvent(organizationId, "lead.created", {
+    lead_id: data.id,
+    source: "ingest",
+  });
+  await AutoEnrollmentEngine.emitTrigger(organizationId, "lead_created", {
+    lead_id: data.id,
+    source: "ingest",
+  });
+
+  // Exact email and original id matches update the lead above; fuzzier matches go to review
+  if (organizationId) {
+    await DuplicateDetectionService.detectForRecord("lead", data.id, organizationId).catch(
+      (detectError) => console.error("Failed to check ingested lead for duplicates", detectError)
+    );
+  }
+
   return data.id;
 }
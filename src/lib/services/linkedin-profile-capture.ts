@@ -0,0 +1,506 @@
+/**
+ * LinkedIn Profile Capture Service
+ * Merges profiles scraped by the Chrome extension into leads, contacts and accounts
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { TimezoneService } from '@/lib/services/timezone';
+import { queueManager } from '@/lib/queue/apollo-queue';
+import {
+  normalizeLinkedInProfile,
+  normalizeLinkedInUrl,
+  type NormalizedLinkedInProfile,
+  type RawLinkedInProfile,
+} from '@/lib/linkedin/profile-normalizer';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface FieldSource {
+  source: string;
+  captured_at: string;
+  profile_url?: string;
+}
+
+export type FieldSources = Record<string, FieldSource>;
+
+export interface FieldConflict {
+  entity: 'lead' | 'contact';
+  id: string;
+  field: string;
+  current: unknown;
+  captured: unknown;
+  current_source: string | null;
+}
+
+export interface ProfileCaptureInput {
+  organizationId: string;
+  userId: string;
+  profileUrl: string;
+  profile: RawLinkedInProfile;
+  leadId?: string | null; // Lead the capture was requested for, e.g. by an extract_profile task
+}
+
+export interface ProfileCaptureResult {
+  profileId: string;
+  leadId: string | null;
+  contactId: string | null;
+  accountId: string | null;
+  created: { contact: boolean; account: boolean };
+  updatedFields: { lead: string[]; contact: string[] };
+  conflicts: FieldConflict[];
+}
+
+// A lead or contact as selected by LEAD_COLUMNS or CONTACT_COLUMNS
+interface CapturedRecord {
+  id: string;
+  email: string | null;
+  title: string | null;
+  headline: string | null;
+  location: string | null;
+  linkedin_url: string | null;
+  account_id: string | null;
+  timezone: string | null;
+  field_sources: FieldSources | null;
+  [column: string]: unknown;
+}
+
+interface LeadRow extends CapturedRecord {
+  name: string | null;
+  company: string | null;
+  country: string | null;
+  phone: string | null;
+}
+
+interface ContactRow extends CapturedRecord {
+  first_name: string | null;
+  last_name: string | null;
+}
+
+interface MergeResult {
+  updates: Record<string, unknown>;
+  fieldSources: FieldSources;
+  changed: string[];
+  conflicts: Omit<FieldConflict, 'entity' | 'id'>[];
+}
+
+const SOURCE = 'linkedin';
+
+const LEAD_COLUMNS = 'id, name, email, company, title, headline, location, linkedin_url, account_id, country, timezone, phone, field_sources';
+const CONTACT_COLUMNS = 'id, first_name, last_name, email, title, headline, location, linkedin_url, account_id, timezone, field_sources';
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class LinkedInProfileCaptureService {
+  /**
+   * Store a captured profile and merge it into the matching lead, contact and account.
+   * Empty fields are filled; fields that came from an earlier LinkedIn capture are
+   * refreshed; anything entered by hand or by another source is kept and reported as a conflict.
+   * @returns null when the capture holds nothing usable
+   */
+  static async capture(input: ProfileCaptureInput): Promise<ProfileCaptureResult | null> {
+    const profile = normalizeLinkedInProfile(input.profile, input.profileUrl);
+    if (!profile.fullName && !profile.headline) {
+      return null;
+    }
+
+    const capturedAt = new Date().toISOString();
+    const stamp: FieldSource = { source: SOURCE, captured_at: capturedAt, profile_url: profile.profileUrl };
+
+    const profileId = await this.saveProfile(profile, capturedAt);
+
+    const result: ProfileCaptureResult = {
+      profileId,
+      leadId: null,
+      contactId: null,
+      accountId: null,
+      created: { contact: false, account: false },
+      updatedFields: { lead: [], contact: [] },
+      conflicts: [],
+    };
+
+    const lead = await this.findLead(input.organizationId, profile, input.leadId);
+    let contact = await this.findContact(input.organizationId, profile, lead?.email ?? null);
+
+    // Account: the lead's or contact's own account wins over a name match
+    let accountId: string | null = lead?.account_id ?? contact?.account_id ?? null;
+    if (!accountId && profile.company) {
+      const account = await this.findOrCreateAccount(input.organizationId, profile.company, stamp);
+      accountId = account.id;
+      result.created.account = account.created;
+    }
+    result.accountId = accountId;
+
+    // Nobody to merge into: keep the person as a contact (leads require an email address)
+    if (!lead && !contact) {
+      contact = await this.createContact(input.organizationId, profile, accountId, stamp);
+      result.created.contact = true;
+    }
+
+    if (lead) {
+      result.leadId = lead.id;
+      const timezone = this.detectTimezone(profile, lead);
+      const merge = this.mergeFields(lead, {
+        title: profile.title,
+        headline: profile.headline,
+        location: profile.location?.raw ?? null,
+        linkedin_url: profile.profileUrl,
+        company: profile.company,
+        country: profile.location?.countryCode ?? null,
+        account_id: accountId,
+        timezone,
+      }, stamp);
+
+      await this.applyMerge('sales_leads', lead.id, merge, profileId);
+      result.updatedFields.lead = merge.changed;
+      result.conflicts.push(...merge.conflicts.map(conflict => ({ ...conflict, entity: 'lead' as const, id: lead.id })));
+
+      if (merge.changed.length > 0) {
+        await this.queueScoring(input, lead, merge.updates);
+      }
+    }
+
+    if (contact && !result.created.contact) {
+      const merge = this.mergeFields(contact, {
+        first_name: profile.firstName,
+        last_name: profile.lastName,
+        title: profile.title,
+        headline: profile.headline,
+        location: profile.location?.raw ?? null,
+        linkedin_url: profile.profileUrl,
+        account_id: accountId,
+        timezone: this.detectTimezone(profile, contact),
+      }, stamp);
+
+      await this.applyMerge('sales_contacts', contact.id, merge, profileId);
+      result.updatedFields.contact = merge.changed;
+      result.conflicts.push(...merge.conflicts.map(conflict => ({ ...conflict, entity: 'contact' as const, id: contact!.id })));
+    }
+    result.contactId = contact?.id ?? null;
+
+    return result;
+  }
+
+  /**
+   * Decide which captured values are written to a record and how its provenance changes
+   */
+  static mergeFields(
+    record: CapturedRecord,
+    captured: Record<string, unknown>,
+    stamp: FieldSource
+  ): MergeResult {
+    const fieldSources: FieldSources = { ...(record.field_sources || {}) };
+    const updates: Record<string, unknown> = {};
+    const changed: string[] = [];
+    const conflicts: MergeResult['conflicts'] = [];
+
+    for (const [field, value] of Object.entries(captured)) {
+      if (value === null || value === undefined || value === '') continue;
+
+      const current = record[field];
+      const currentSource = fieldSources[field]?.source ?? null;
+
+      if (current === null || current === undefined || current === '') {
+        updates[field] = value;
+        fieldSources[field] = stamp;
+        changed.push(field);
+      } else if (sameValue(current, value)) {
+        if (currentSource === SOURCE) fieldSources[field] = stamp;
+      } else if (currentSource === SOURCE) {
+        updates[field] = value;
+        fieldSources[field] = stamp;
+        changed.push(field);
+      } else {
+        conflicts.push({ field, current, captured: value, current_source: currentSource });
+      }
+    }
+
+    return { updates, fieldSources, changed, conflicts };
+  }
+
+  // ============================================
+  // HELPER METHODS
+  // ============================================
+
+  private static async saveProfile(profile: NormalizedLinkedInProfile, capturedAt: string): Promise<string> {
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from('linkedin_profiles')
+      .select('id, scrape_count')
+      .eq('profile_url', profile.profileUrl)
+      .maybeSingle();
+
+    const fields = {
+      full_name: profile.fullName,
+      headline: profile.headline,
+      location: profile.location?.raw ?? null,
+      about: profile.about,
+      current_company: profile.company,
+      current_title: profile.title,
+      experience: profile.experience,
+      skills: profile.skills,
+      last_scraped_at: capturedAt,
+    };
+
+    if (existing) {
+      const { error } = await supabase
+        .from('linkedin_profiles')
+        .update({ ...fields, scrape_count: (existing.scrape_count ?? 0) + 1 })
+        .eq('id', existing.id);
+      if (error) throw error;
+      return existing.id;
+    }
+
+    const { data, error } = await supabase
+      .from('linkedin_profiles')
+      .insert({ ...fields, profile_url: profile.profileUrl, scrape_count: 1 })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  }
+
+  /**
+   * Requested lead first, then the same profile URL, then the same name at the same company
+   */
+  private static async findLead(
+    organizationId: string,
+    profile: NormalizedLinkedInProfile,
+    leadId?: string | null
+  ): Promise<LeadRow | null> {
+    const supabase = createAdminClient();
+
+    if (leadId) {
+      const { data } = await supabase
+        .from('sales_leads')
+        .select(LEAD_COLUMNS)
+        .eq('id', leadId)
+        .eq('organization_id', organizationId)
+        .maybeSingle();
+      if (data) return data;
+    }
+
+    const byUrl = await this.findByProfileUrl<LeadRow>('sales_leads', LEAD_COLUMNS, organizationId, profile.profileUrl);
+    if (byUrl) return byUrl;
+
+    if (profile.fullName && profile.company) {
+      const { data } = await supabase
+        .from('sales_leads')
+        .select(LEAD_COLUMNS)
+        .eq('organization_id', organizationId)
+        .ilike('name', escapeLike(profile.fullName))
+        .ilike('company', escapeLike(profile.company))
+        .order('created_at', { ascending: false })
+        .limit(1);
+      if (data?.[0]) return data[0];
+    }
+
+    return null;
+  }
+
+  /**
+   * Same profile URL, then the lead's email, then the same first and last name
+   */
+  private static async findContact(
+    organizationId: string,
+    profile: NormalizedLinkedInProfile,
+    email: string | null
+  ): Promise<ContactRow | null> {
+    const supabase = createAdminClient();
+
+    const byUrl = await this.findByProfileUrl<ContactRow>('sales_contacts', CONTACT_COLUMNS, organizationId, profile.profileUrl);
+    if (byUrl) return byUrl;
+
+    if (email) {
+      const { data } = await supabase
+        .from('sales_contacts')
+        .select(CONTACT_COLUMNS)
+        .eq('organization_id', organizationId)
+        .ilike('email', escapeLike(email))
+        .limit(1);
+      if (data?.[0]) return data[0];
+    }
+
+    if (profile.firstName && profile.lastName) {
+      const { data } = await supabase
+        .from('sales_contacts')
+        .select(`${CONTACT_COLUMNS}, account:sales_accounts(name)`)
+        .eq('organization_id', organizationId)
+        .ilike('first_name', escapeLike(profile.firstName))
+        .ilike('last_name', escapeLike(profile.lastName))
+        .limit(5);
+
+      // A shared name alone is not enough; the company has to agree too
+      const match = (data || []).find(contact => {
+        const accountName = (contact.account as unknown as { name: string } | null)?.name;
+        return profile.company && accountName && sameValue(accountName, profile.company);
+      });
+      if (match) return match;
+    }
+
+    return null;
+  }
+
+  private static async findByProfileUrl<T extends CapturedRecord>(
+    table: 'sales_leads' | 'sales_contacts',
+    columns: string,
+    organizationId: string,
+    profileUrl: string
+  ): Promise<T | null> {
+    const supabase = createAdminClient();
+    const slug = profileUrl.split('/in/')[1];
+    if (!slug) return null;
+
+    // Stored URLs vary (http, no www, trailing slash, query strings); compare canonical forms
+    const { data } = await supabase
+      .from(table)
+      .select(columns)
+      .eq('organization_id', organizationId)
+      .ilike('linkedin_url', `%linkedin.com/in/${escapeLike(slug)}%`)
+      .limit(10);
+
+    return ((data || []) as unknown as T[])
+      .find(row => normalizeLinkedInUrl(row.linkedin_url) === profileUrl) ?? null;
+  }
+
+  private static async findOrCreateAccount(
+    organizationId: string,
+    company: string,
+    stamp: FieldSource
+  ): Promise<{ id: string; created: boolean }> {
+    const supabase = createAdminClient();
+
+    const { data: existing } = await supabase
+      .from('sales_accounts')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .ilike('name', escapeLike(company))
+      .order('created_at')
+      .limit(1);
+
+    if (existing?.[0]) return { id: existing[0].id, created: false };
+
+    const { data, error } = await supabase
+      .from('sales_accounts')
+      .insert({
+        organization_id: organizationId,
+        name: company,
+        field_sources: { name: stamp },
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return { id: data.id, created: true };
+  }
+
+  private static async createContact(
+    organizationId: string,
+    profile: NormalizedLinkedInProfile,
+    accountId: string | null,
+    stamp: FieldSource
+  ): Promise<ContactRow> {
+    const supabase = createAdminClient();
+    const timezone = this.detectTimezone(profile, null);
+
+    const fields: Record<string, unknown> = {
+      first_name: profile.firstName,
+      last_name: profile.lastName,
+      title: profile.title,
+      headline: profile.headline,
+      location: profile.location?.raw ?? null,
+      linkedin_url: profile.profileUrl,
+      account_id: accountId,
+      timezone,
+    };
+
+    const fieldSources = Object.fromEntries(
+      Object.entries(fields)
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([field]) => [field, stamp])
+    );
+
+    const { data, error } = await supabase
+      .from('sales_contacts')
+      .insert({ ...fields, organization_id: organizationId, field_sources: fieldSources })
+      .select(CONTACT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Timezone from the profile location. A timezone set on the record by anything other than
+   * an earlier capture is kept; a phone-based guess is not, since the profile is more specific.
+   */
+  private static detectTimezone(
+    profile: NormalizedLinkedInProfile,
+    record: CapturedRecord | null
+  ): string | null {
+    if (record?.timezone && record.field_sources?.timezone?.source !== SOURCE) return null;
+
+    const location = profile.location;
+    if (!location?.countryCode) return null;
+
+    const region = location.region && /^[A-Z]{2}$/.test(location.region) ? location.region : undefined;
+    return TimezoneService.getTimezoneFromLocation(location.countryCode, region, location.city ?? undefined);
+  }
+
+  private static async applyMerge(
+    table: 'sales_leads' | 'sales_contacts',
+    id: string,
+    merge: MergeResult,
+    profileId: string
+  ): Promise<void> {
+    const supabase = createAdminClient();
+
+    const { error } = await supabase
+      .from(table)
+      .update({ ...merge.updates, field_sources: merge.fieldSources, linkedin_profile_id: profileId })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Rescore a lead whose profile data changed. Scoring is best effort; the capture is
+   * already saved when the queue is unavailable.
+   */
+  private static async queueScoring(
+    input: ProfileCaptureInput,
+    lead: LeadRow,
+    updates: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await queueManager.addScoringJob({
+        id: `score-${lead.id}`,
+        leadId: lead.id,
+        leadData: { ...lead, ...updates, id: lead.id },
+        metadata: {
+          userId: input.userId,
+          orgId: input.organizationId,
+          triggeredBy: 'linkedin_capture',
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to queue scoring for lead ${lead.id}:`, error);
+    }
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+  return a === b;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
@@ -0,0 +1,492 @@
+/**
+ * LinkedIn Task Service
+ * Lifecycle of extension-executed LinkedIn tasks: leased claims, completion, failure,
+ * snoozing and skipping, with engagement logging and sequence progress
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { SequenceExecutor } from '@/lib/services/sequence-executor';
+import { LinkedInProfileCaptureService } from '@/lib/services/linkedin-profile-capture';
+import type { ExtensionPrincipal } from '@/lib/services/extension-api-keys';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export type LinkedInTaskStatus =
+  | 'pending'
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled';
+
+export interface LinkedInTask {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  organization_id: string;
+  linkedin_account_id: string | null;
+  lead_id: string | null;
+  enrollment_id: string | null;
+  sequence_step_id: string | null;
+  action_type: string;
+  profile_url: string | null;
+  post_url: string | null;
+  message_content: string | null;
+  connection_note: string | null;
+  comment_text: string | null;
+  automation_mode: string | null;
+  scheduled_for: string | null;
+  execute_after: string | null;
+  status: LinkedInTaskStatus;
+  priority: number;
+  attempts: number;
+  max_attempts: number;
+  claimed_at: string | null;
+  lease_expires_at: string | null;
+  snooze_count: number;
+  executed_at: string | null;
+  executed_by: string | null;
+  result_data: Record<string, unknown> | null;
+  error_message: string | null;
+  failure_reason: string | null;
+}
+
+export interface ClaimedLinkedInTask extends LinkedInTask {
+  lead: { id: string; name: string | null; email: string | null; linkedin_url: string | null } | null;
+}
+
+export interface ClaimOptions {
+  limit?: number;
+  leaseSeconds?: number;
+}
+
+export interface CompleteTaskInput {
+  result?: Record<string, unknown> | null;
+  outcome?: string | null;
+  executedAt?: string;
+  executionTimeMs?: number;
+}
+
+export interface FailTaskInput {
+  reason: string;
+  message?: string;
+  retryable?: boolean;
+  executionTimeMs?: number;
+}
+
+export class LinkedInTaskError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'INVALID_STATE'
+  ) {
+    super(message);
+    this.name = 'LinkedInTaskError';
+  }
+
+  get status(): number {
+    return this.code === 'NOT_FOUND' ? 404 : 409;
+  }
+}
+
+const DEFAULT_CLAIM_LIMIT = 10;
+const MAX_CLAIM_LIMIT = 50;
+const DEFAULT_LEASE_SECONDS = 10 * 60;
+const MAX_LEASE_SECONDS = 60 * 60;
+const MAX_SNOOZE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Retried failures wait this long per attempt already made
+const RETRY_BACKOFF_MS = 15 * 60 * 1000;
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class LinkedInTaskService {
+  /**
+   * Lease due tasks to the key's LinkedIn account. Tasks that would exceed the account's
+   * daily limits stay pending; a lease that runs out puts the task back up for claiming,
+   * or fails it when that was its last attempt.
+   */
+  static async claim(principal: ExtensionPrincipal, options: ClaimOptions = {}): Promise<ClaimedLinkedInTask[]> {
+    const supabase = createAdminClient();
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_CLAIM_LIMIT, 1), MAX_CLAIM_LIMIT);
+    const leaseSeconds = Math.min(Math.max(options.leaseSeconds ?? DEFAULT_LEASE_SECONDS, 60), MAX_LEASE_SECONDS);
+
+    await this.deadLetterExpired(principal.organizationId);
+
+    const { data: tasks, error } = await supabase.rpc('claim_linkedin_tasks', {
+      p_organization_id: principal.organizationId,
+      p_account_id: principal.linkedinAccountId,
+      p_limit: limit,
+      p_lease_seconds: leaseSeconds,
+    });
+
+    if (error) throw error;
+
+    const claimed = ((tasks || []) as LinkedInTask[])
+      .sort((a, b) => b.priority - a.priority || a.created_at.localeCompare(b.created_at));
+
+    return this.withLeads(claimed);
+  }
+
+  /**
+   * Tasks waiting for the key's account without claiming them, for display in the extension
+   */
+  static async listPending(principal: ExtensionPrincipal, limit = DEFAULT_CLAIM_LIMIT): Promise<ClaimedLinkedInTask[]> {
+    const supabase = createAdminClient();
+
+    const { data: tasks, error } = await supabase
+      .from('linkedin_tasks')
+      .select('*')
+      .eq('organization_id', principal.organizationId)
+      .or(`linkedin_account_id.eq.${principal.linkedinAccountId},linkedin_account_id.is.null`)
+      .eq('status', 'pending')
+      .order('priority', { ascending: false })
+      .order('created_at')
+      .limit(Math.min(Math.max(limit, 1), MAX_CLAIM_LIMIT));
+
+    if (error) throw error;
+
+    return this.withLeads((tasks || []) as LinkedInTask[]);
+  }
+
+  /**
+   * Shape a task for the extension's local queue
+   */
+  static toExtensionTask(task: ClaimedLinkedInTask) {
+    return {
+      id: task.id,
+      action: task.action_type,
+      profileUrl: task.profile_url || task.lead?.linkedin_url || null,
+      postUrl: task.post_url,
+      message: task.message_content || task.connection_note || task.comment_text,
+      leadId: task.lead_id,
+      leadName: task.lead?.name || null,
+      enrollmentId: task.enrollment_id,
+      mode: task.automation_mode || 'semi_auto',
+      priority: task.priority,
+      leaseExpiresAt: task.lease_expires_at,
+    };
+  }
+
+  /**
+   * Record a task the extension carried out, count it against the account's daily usage
+   * and advance the sequence enrollment waiting on it
+   */
+  static async complete(principal: ExtensionPrincipal, taskId: string, input: CompleteTaskInput = {}): Promise<LinkedInTask> {
+    const supabase = createAdminClient();
+    const current = await this.getLeasedTask(principal, taskId);
+
+    const task = await this.transition(current, {
+      status: 'completed',
+      executed_at: input.executedAt || new Date().toISOString(),
+      executed_by: principal.userId,
+      result_data: input.result ?? null,
+      error_message: null,
+      failure_reason: null,
+      lease_expires_at: null,
+    });
+
+    // Advance the sequence first, so a failure below cannot leave it waiting on a completed task
+    if (task.enrollment_id) {
+      await SequenceExecutor.completeTaskStep({ linkedinTaskId: task.id }, 'completed', input.outcome ?? null);
+    }
+
+    const { error: usageError } = await supabase.rpc('increment_linkedin_usage', {
+      p_account_id: principal.linkedinAccountId,
+      p_action_type: task.action_type,
+    });
+
+    if (usageError) {
+      throw new Error(`Failed to count LinkedIn usage: ${usageError.message}`);
+    }
+
+    await this.logEngagement(principal, task, true, input.result ?? null, input.executionTimeMs);
+
+    const { error: eventError } = await supabase.from('behavioral_events').insert({
+      organization_id: task.organization_id,
+      lead_id: task.lead_id,
+      event_type: `linkedin_${task.action_type}`,
+      event_data: {
+        task_id: task.id,
+        linkedin_account_id: principal.linkedinAccountId,
+        user_id: principal.userId,
+        profile_url: task.profile_url,
+        result: input.result ?? null,
+      },
+      source: 'linkedin',
+      processed: false,
+    });
+
+    if (eventError) {
+      throw new Error(`Failed to record LinkedIn behavioral event: ${eventError.message}`);
+    }
+
+    if (task.action_type === 'extract_profile') {
+      await this.captureProfile(principal, task, input.result);
+    }
+
+    return task;
+  }
+
+  /**
+   * Record a failed attempt. Retryable failures go back to pending with a backoff until
+   * max_attempts is reached; after that the task fails and the sequence moves on.
+   */
+  static async fail(principal: ExtensionPrincipal, taskId: string, input: FailTaskInput): Promise<LinkedInTask> {
+    const current = await this.getLeasedTask(principal, taskId);
+    const willRetry = input.retryable !== false && current.attempts < current.max_attempts;
+
+    const task = await this.transition(current, {
+      status: willRetry ? 'pending' : 'failed',
+      execute_after: willRetry
+        ? new Date(Date.now() + RETRY_BACKOFF_MS * current.attempts).toISOString()
+        : current.execute_after,
+      executed_at: willRetry ? null : new Date().toISOString(),
+      executed_by: principal.userId,
+      failure_reason: input.reason,
+      error_message: input.message || input.reason,
+      lease_expires_at: null,
+    });
+
+    await this.logEngagement(
+      principal,
+      task,
+      false,
+      { reason: input.reason, message: input.message ?? null, will_retry: willRetry },
+      input.executionTimeMs
+    );
+
+    if (!willRetry && task.enrollment_id) {
+      await SequenceExecutor.completeTaskStep({ linkedinTaskId: task.id }, 'failed', input.reason);
+    }
+
+    return task;
+  }
+
+  /**
+   * Put a task back until a later time without using up an attempt. Works on pending
+   * tasks and on tasks the account currently holds.
+   */
+  static async snooze(principal: ExtensionPrincipal, taskId: string, until: Date): Promise<LinkedInTask> {
+    if (Number.isNaN(until.getTime()) || until.getTime() <= Date.now()) {
+      throw new LinkedInTaskError('Snooze time must be in the future', 'INVALID_STATE');
+    }
+    if (until.getTime() - Date.now() > MAX_SNOOZE_MS) {
+      throw new LinkedInTaskError('Tasks can be snoozed for at most 30 days', 'INVALID_STATE');
+    }
+
+    const current = await this.getOpenTask(principal, taskId);
+
+    return this.transition(current, {
+      status: 'pending',
+      execute_after: until.toISOString(),
+      lease_expires_at: null,
+      snooze_count: current.snooze_count + 1,
+      // The claim that handed this task out counted an attempt that never happened
+      attempts: current.status === 'processing' ? Math.max(current.attempts - 1, 0) : current.attempts,
+    });
+  }
+
+  /**
+   * Drop a task without doing it, e.g. when the rep decides against the outreach. The
+   * sequence still moves on.
+   */
+  static async skip(principal: ExtensionPrincipal, taskId: string, reason?: string | null): Promise<LinkedInTask> {
+    const current = await this.getOpenTask(principal, taskId);
+
+    const task = await this.transition(current, {
+      status: 'skipped',
+      executed_at: new Date().toISOString(),
+      executed_by: principal.userId,
+      failure_reason: reason || null,
+      lease_expires_at: null,
+    });
+
+    if (task.enrollment_id) {
+      await SequenceExecutor.completeTaskStep({ linkedinTaskId: task.id }, 'skipped', reason || null);
+    }
+
+    return task;
+  }
+
+  // ============================================
+  // HELPER METHODS
+  // ============================================
+
+  /**
+   * A task in the key's tenant that is unassigned or already on the key's account
+   */
+  private static async getTask(principal: ExtensionPrincipal, taskId: string): Promise<LinkedInTask> {
+    const supabase = createAdminClient();
+
+    const { data: task } = await supabase
+      .from('linkedin_tasks')
+      .select('*')
+      .eq('id', taskId)
+      .eq('organization_id', principal.organizationId)
+      .or(`linkedin_account_id.eq.${principal.linkedinAccountId},linkedin_account_id.is.null`)
+      .maybeSingle();
+
+    if (!task) {
+      throw new LinkedInTaskError('Task not found', 'NOT_FOUND');
+    }
+
+    return task as LinkedInTask;
+  }
+
+  /**
+   * Completion and failure need a task this account claimed. An expired lease is still
+   * accepted until another claim takes the task over or fails it for good, and so is a task
+   * the account snoozed while the rep approves it or sends a draft.
+   */
+  private static async getLeasedTask(principal: ExtensionPrincipal, taskId: string): Promise<LinkedInTask> {
+    const task = await this.getTask(principal, taskId);
+
+    if (
+      !['processing', 'pending'].includes(task.status)
+      || task.linkedin_account_id !== principal.linkedinAccountId
+    ) {
+      throw new LinkedInTaskError(`Task is ${task.status}; claim it before reporting a result`, 'INVALID_STATE');
+    }
+
+    return task;
+  }
+
+  private static async getOpenTask(principal: ExtensionPrincipal, taskId: string): Promise<LinkedInTask> {
+    const task = await this.getTask(principal, taskId);
+
+    if (!['pending', 'queued', 'processing'].includes(task.status)) {
+      throw new LinkedInTaskError(`Task is already ${task.status}`, 'INVALID_STATE');
+    }
+
+    return task;
+  }
+
+  /**
+   * Apply an update only if the task has not moved since it was read
+   */
+  private static async transition(current: LinkedInTask, updates: Partial<LinkedInTask>): Promise<LinkedInTask> {
+    const supabase = createAdminClient();
+
+    const { data: task, error } = await supabase
+      .from('linkedin_tasks')
+      .update(updates)
+      .eq('id', current.id)
+      .eq('status', current.status)
+      .eq('attempts', current.attempts)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!task) {
+      throw new LinkedInTaskError('Task was updated by another request', 'INVALID_STATE');
+    }
+
+    return task as LinkedInTask;
+  }
+
+  /**
+   * Fail tasks that ran out their lease on the final attempt and let their sequences move on.
+   * A step that cannot be advanced is logged; claiming still goes ahead.
+   */
+  private static async deadLetterExpired(organizationId: string): Promise<void> {
+    const supabase = createAdminClient();
+
+    const { data: tasks, error } = await supabase.rpc('dead_letter_linkedin_tasks', {
+      p_organization_id: organizationId,
+    });
+
+    if (error) throw error;
+
+    for (const task of (tasks || []) as LinkedInTask[]) {
+      if (!task.enrollment_id) continue;
+
+      try {
+        await SequenceExecutor.completeTaskStep({ linkedinTaskId: task.id }, 'failed', 'lease_expired');
+      } catch (stepError) {
+        console.error(`Failed to advance the sequence step for expired LinkedIn task ${task.id}:`, stepError);
+      }
+    }
+  }
+
+  /**
+   * Merge the profile an extract_profile task scraped into the CRM. A capture that fails
+   * is logged; the task itself still counts as done.
+   */
+  private static async captureProfile(
+    principal: ExtensionPrincipal,
+    task: LinkedInTask,
+    result: Record<string, unknown> | null | undefined
+  ): Promise<void> {
+    const profile = result?.data as Record<string, unknown> | null | undefined;
+    if (!profile || typeof profile !== 'object') return;
+
+    let profileUrl = task.profile_url;
+    if (!profileUrl && task.lead_id) {
+      const [withLead] = await this.withLeads([task]);
+      profileUrl = withLead.lead?.linkedin_url ?? null;
+    }
+    if (!profileUrl) return;
+
+    try {
+      await LinkedInProfileCaptureService.capture({
+        organizationId: task.organization_id,
+        userId: principal.userId,
+        profileUrl,
+        profile,
+        leadId: task.lead_id,
+      });
+    } catch (error) {
+      console.error(`Failed to capture LinkedIn profile for task ${task.id}:`, error);
+    }
+  }
+
+  private static async withLeads(tasks: LinkedInTask[]): Promise<ClaimedLinkedInTask[]> {
+    const leadIds = [...new Set(tasks.map(task => task.lead_id).filter((id): id is string => !!id))];
+    if (leadIds.length === 0) {
+      return tasks.map(task => ({ ...task, lead: null }));
+    }
+
+    const supabase = createAdminClient();
+    const { data: leads } = await supabase
+      .from('sales_leads')
+      .select('id, name, email, linkedin_url')
+      .in('id', leadIds);
+
+    const leadsById = new Map((leads || []).map(lead => [lead.id, lead]));
+
+    return tasks.map(task => ({ ...task, lead: task.lead_id ? leadsById.get(task.lead_id) ?? null : null }));
+  }
+
+  private static async logEngagement(
+    principal: ExtensionPrincipal,
+    task: LinkedInTask,
+    success: boolean,
+    responseData: Record<string, unknown> | null,
+    executionTimeMs?: number
+  ): Promise<void> {
+    const supabase = createAdminClient();
+
+    const { error } = await supabase.from('linkedin_engagement_log').insert({
+      organization_id: task.organization_id,
+      task_id: task.id,
+      lead_id: task.lead_id,
+      action_type: task.action_type,
+      target_url: task.post_url || task.profile_url,
+      success,
+      response_data: responseData,
+      automation_mode: task.automation_mode,
+      executed_by: principal.userId,
+      execution_time_ms: executionTimeMs ?? null,
+    });
+
+    if (error) {
+      console.error('Failed to write LinkedIn engagement log:', error);
+    }
+  }
+}
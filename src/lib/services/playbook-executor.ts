@@ -1,12 +1,21 @@
-import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
 import { ApolloService } from './apollo';
 import { AILeadScoringService } from './lead-scoring';
+import type { LeadProfile } from './lead-scoring';
 import { SequenceEnrollmentService } from '@/lib/services/sequences';
 import { queueManager } from '@/lib/queue/apollo-queue';
+import { sendTransactionalEmail } from '@/lib/services/emails';
+import { PlaybookTriggerService } from '@/lib/services/playbook-triggers';
+import { addPlaybookJob } from '@/lib/queue/playbook-queue';
 import {
   Playbook,
   PlaybookStep,
   PlaybookExecution,
+  PlaybookExecutionRow,
+  PlaybookItem,
+  LoopIteration,
+  NotifyResult,
+  ExecutionResumeResult,
   StepExecution,
   ExecutionContext,
   ExecutionMetrics,
@@ -18,9 +27,30 @@ import {
   SequenceStepConfig,
   WaitStepConfig,
   ConditionStepConfig,
+  AssignStepConfig,
+  WebhookStepConfig,
+  LoopStepConfig,
+  TransformStepConfig,
+  NotifyStepConfig,
+  Transformation,
+  MapTransformConfig,
+  FilterTransformConfig,
+  ReduceTransformConfig,
+  SortTransformConfig,
+  LimitTransformConfig,
+  ExtractTransformConfig,
+  MergeTransformConfig,
+  FilterRule,
+  StepCondition,
+  ConditionRule,
   ComparisonOperator,
 } from '@/lib/types/playbook';
 
+// Lead statuses that no longer count towards a rep's open workload
+const CLOSED_LEAD_STATUSES = ['closed_won', 'closed_lost', 'converted', 'spam'];
+
+const AGGREGATE_PATTERN = /^(.+)\.(avg|sum|min|max|count)\(([^)]*)\)$/;
+
 /**
  * Playbook Executor Service
  * Executes automated prospecting workflows step by step
@@ -29,9 +59,12 @@ export class PlaybookExecutor {
   private apolloService: ApolloService;
   private scoringService: AILeadScoringService;
   private execution: PlaybookExecution | null = null;
+  private playbook: Playbook | null = null;
   private context: ExecutionContext;
   private abortController: AbortController;
   private organizationId: string;
+  private loopDepth = 0;
+  private pendingResumeAt: Date | null = null;
 
   constructor(organizationId: string, userId?: string) {
     this.organizationId = organizationId;
@@ -46,35 +79,220 @@ export class PlaybookExecutor {
   }
 
   /**
-   * Execute a playbook
+   * Start a new execution of a playbook.
+   * Returns once the run completes, fails, or suspends on a wait step.
    */
   async execute(
     playbook: Playbook,
-    context?: Partial<ExecutionContext>
+    context?: Partial<ExecutionContext>,
+    executionId?: string
   ): Promise<PlaybookExecution> {
-    // Initialize execution
-    this.execution = await this.initializeExecution(playbook, context);
     this.context = { ...this.context, ...context };
+    this.playbook = playbook;
+    this.execution = await this.initializeExecution(playbook, context, executionId);
+
+    return this.run();
+  }
+
+  /**
+   * Continue a checkpointed execution from its next step.
+   * The row is claimed by moving it from `claimFrom` to running, so duplicate resume jobs are no-ops.
+   */
+  static async resumeExecution(
+    executionId: string,
+    claimFrom: 'waiting' | 'running',
+    onClaimed?: () => Promise<unknown>
+  ): Promise<ExecutionResumeResult> {
+    const supabase = createAdminClient();
+
+    const { data: row, error } = await supabase
+      .from('playbook_executions')
+      .select('*')
+      .eq('id', executionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load playbook execution: ${error.message}`);
+    }
+    if (!row) return { resumed: false, reason: 'not_found' };
+    if (row.status !== claimFrom) return { resumed: false, reason: `status_${row.status}` };
+
+    const { data: claimed } = await supabase
+      .from('playbook_executions')
+      .update({ status: 'running', resume_at: null, updated_at: new Date().toISOString() })
+      .eq('id', executionId)
+      .eq('status', claimFrom)
+      .select('id');
+
+    if (!claimed?.length) return { resumed: false, reason: 'claimed_elsewhere' };
+    await onClaimed?.();
+
+    const playbook = await PlaybookTriggerService.loadPlaybook(row.playbook_id);
+    const executor = new PlaybookExecutor(row.organization_id, row.execution_context?.user?.id);
+    executor.restore(row, playbook);
+
+    if (!playbook) {
+      await executor.completeExecution('failed', new Error('Playbook no longer exists'));
+      return { resumed: false, reason: 'playbook_not_found' };
+    }
+
+    return { resumed: true, execution: await executor.run() };
+  }
+
+  /**
+   * Re-queue waiting executions whose resume job never arrived (e.g. Redis was flushed).
+   * The grace period leaves room for the delayed job to fire first.
+   */
+  static async requeueOverdueExecutions(graceMs = 5 * 60000): Promise<number> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('playbook_executions')
+      .select('id')
+      .eq('status', 'waiting')
+      .lt('resume_at', new Date(Date.now() - graceMs).toISOString())
+      .limit(100);
+
+    if (error) {
+      throw new Error(`Failed to load overdue playbook executions: ${error.message}`);
+    }
+
+    for (const { id } of data || []) {
+      await addPlaybookJob({ type: 'resume_execution', executionId: id });
+    }
+
+    return data?.length || 0;
+  }
+
+  /**
+   * Load an execution for display; scoped to the organization
+   */
+  static async getExecution(executionId: string, organizationId: string) {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('playbook_executions')
+      .select('*')
+      .eq('id', executionId)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load playbook execution: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Cancel a running or waiting execution.
+   * A worker mid-run notices at the next step boundary; a pending resume job finds nothing to claim.
+   */
+  static async cancelExecution(
+    executionId: string,
+    organizationId: string,
+    cancelledBy?: string
+  ): Promise<boolean> {
+    const supabase = createAdminClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('playbook_executions')
+      .update({
+        status: 'cancelled',
+        completed_at: now,
+        resume_at: null,
+        cancelled_by: cancelledBy ?? null,
+        updated_at: now,
+      })
+      .eq('id', executionId)
+      .eq('organization_id', organizationId)
+      .in('status', ['running', 'waiting'])
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to cancel playbook execution: ${error.message}`);
+    }
+
+    return (data?.length || 0) > 0;
+  }
+
+  /**
+   * Rebuild in-memory state from a checkpointed row
+   */
+  private restore(row: PlaybookExecutionRow, playbook: Playbook | null): void {
+    this.playbook = playbook;
+    this.context = row.execution_context || this.context;
+    this.execution = {
+      id: row.id,
+      playbookId: row.playbook_id,
+      organizationId: row.organization_id,
+      status: 'running',
+      startedAt: new Date(row.started_at),
+      context: this.context,
+      steps: row.execution_log || [],
+      metrics: {
+        totalSteps: playbook?.steps.length ?? 0,
+        completedSteps: 0,
+        failedSteps: 0,
+        skippedSteps: 0,
+        ...(row.metrics || {}),
+      },
+      currentStepIndex: row.current_step_index || 0,
+    };
+  }
+
+  /**
+   * Run top-level steps from the current index, checkpointing after each one
+   */
+  private async run(): Promise<PlaybookExecution> {
+    const execution = this.execution;
+    const playbook = this.playbook;
+    if (!execution || !playbook) throw new Error('No execution context');
+
+    // Steps referenced by a loop only run inside that loop
+    const loopBodyStepIds = new Set(
+      playbook.steps
+        .filter(step => step.type === 'loop')
+        .flatMap(step => (step.config as LoopStepConfig).steps)
+    );
 
     try {
-      // Execute steps sequentially
-      for (const step of playbook.steps) {
-        if (this.abortController.signal.aborted) {
-          throw new Error('Execution cancelled');
+      while (execution.currentStepIndex < playbook.steps.length) {
+        if (await this.checkCancelled()) {
+          execution.status = 'cancelled';
+          return execution;
         }
 
-        await this.executeStep(step);
+        const step = playbook.steps[execution.currentStepIndex];
+        if (!loopBodyStepIds.has(step.id)) {
+          await this.executeStep(step);
+        }
+
+        execution.currentStepIndex++;
+
+        if (this.pendingResumeAt) {
+          await this.suspend(this.pendingResumeAt);
+          return execution;
+        }
+
+        await this.checkpoint();
       }
 
       // Mark execution as completed
       await this.completeExecution('completed');
     } catch (error) {
+      if (this.abortController.signal.aborted) {
+        execution.status = 'cancelled';
+        return execution;
+      }
+
       // Mark execution as failed
       await this.completeExecution('failed', error as Error);
       throw error;
     }
 
-    return this.execution;
+    return execution;
   }
 
   /**
@@ -147,6 +365,16 @@ export class PlaybookExecutor {
         return this.executeWaitStep(step.config as WaitStepConfig);
       case 'condition':
         return this.executeConditionStep(step.config as ConditionStepConfig);
+      case 'assign':
+        return this.executeAssignStep(step.config as AssignStepConfig, step.id);
+      case 'webhook':
+        return this.executeWebhookStep(step.config as WebhookStepConfig, step.timeout);
+      case 'loop':
+        return this.executeLoopStep(step.config as LoopStepConfig);
+      case 'transform':
+        return this.executeTransformStep(step.config as TransformStepConfig);
+      case 'notify':
+        return this.executeNotifyStep(step.config as NotifyStepConfig);
       default:
         throw new Error(`Unsupported step type: ${step.type}`);
     }
@@ -181,14 +409,14 @@ export class PlaybookExecutor {
    * Execute enrichment step
    */
   private async executeEnrichStep(config: EnrichStepConfig): Promise<any> {
-    const source = this.getVariable(config.source.variable);
-    if (!Array.isArray(source)) {
+    const source = this.getItems(config.source.variable);
+    if (!source) {
       throw new Error('Enrich step requires array input');
     }
 
     const enriched = [];
     for (const item of source) {
-      const identifier = config.source.field ? item[config.source.field] : item;
+      const identifier = (config.source.field ? item[config.source.field] : item) as string;
 
       if (config.enrichType === 'person') {
         const result = await this.apolloService.enrichPerson(
@@ -215,8 +443,8 @@ export class PlaybookExecutor {
    * Execute scoring step
    */
   private async executeScoreStep(config: ScoreStepConfig): Promise<any> {
-    const source = this.getVariable(config.source.variable);
-    if (!Array.isArray(source)) {
+    const source = this.getItems<LeadProfile>(config.source.variable);
+    if (!source) {
       throw new Error('Score step requires array input');
     }
 
@@ -267,7 +495,7 @@ export class PlaybookExecutor {
       throw new Error('Sequence step requires array input');
     }
 
-    const supabase = await createClient();
+    const supabase = createAdminClient();
     const enrolled = [];
     const actingUserId = this.context.user?.id ?? 'playbook_executor';
 
@@ -309,7 +537,9 @@ export class PlaybookExecutor {
   }
 
   /**
-   * Execute wait step
+   * Execute wait step.
+   * At the top level the run suspends and a delayed job resumes it; inside a loop body
+   * there is no step boundary to checkpoint at, so the wait happens in-process.
    */
   private async executeWaitStep(config: WaitStepConfig): Promise<void> {
     const milliseconds = this.convertToMilliseconds(
@@ -317,7 +547,19 @@ export class PlaybookExecutor {
       config.duration.unit
     );
 
-    await this.sleep(milliseconds);
+    if (this.loopDepth > 0) {
+      await this.sleep(milliseconds);
+      return;
+    }
+
+    const resumeAt = new Date(Date.now() + milliseconds);
+    if (config.skipWeekends) {
+      while (resumeAt.getUTCDay() === 0 || resumeAt.getUTCDay() === 6) {
+        resumeAt.setUTCDate(resumeAt.getUTCDate() + 1);
+      }
+    }
+
+    this.pendingResumeAt = resumeAt;
   }
 
   /**
@@ -341,10 +583,283 @@ export class PlaybookExecutor {
     return result;
   }
 
+  /**
+   * Execute assign step
+   */
+  private async executeAssignStep(config: AssignStepConfig, stepId: string): Promise<PlaybookItem[]> {
+    const source = this.getVariable(config.source.variable);
+    if (!Array.isArray(source)) {
+      throw new Error('Assign step requires array input');
+    }
+
+    const supabase = createAdminClient();
+    const { assignment } = config;
+    let targets: string[];
+
+    switch (assignment.type) {
+      case 'user':
+        if (!assignment.target) throw new Error('Assign step requires a target user');
+        targets = [this.interpolateString(assignment.target)];
+        break;
+      case 'team': {
+        if (!assignment.target) throw new Error('Assign step requires a target team');
+        const { data: members, error } = await supabase
+          .from('admin_users')
+          .select('clerk_user_id')
+          .eq('organization_id', this.organizationId)
+          .eq('team', this.interpolateString(assignment.target))
+          .eq('is_active', true)
+          .order('clerk_user_id');
+
+        if (error) throw new Error(`Failed to load team members: ${error.message}`);
+        targets = (members || []).map(member => member.clerk_user_id);
+        break;
+      }
+      default:
+        targets = this.resolveTargets(assignment.targets || []);
+    }
+
+    if (targets.length === 0) {
+      throw new Error(`No assignees resolved for ${assignment.type} assignment`);
+    }
+
+    const assignees = assignment.type === 'load-balanced'
+      ? await this.pickLoadBalanced(targets, source.length)
+      : await this.pickRoundRobin(targets, source.length, stepId);
+
+    const assigned = source.map((item: PlaybookItem, index): PlaybookItem & { assignedTo: string } => ({
+      ...item,
+      assignedTo: assignees[index],
+    }));
+
+    // Persist for items that are already sales leads; search results only carry the assignee
+    const byAssignee = new Map<string, string[]>();
+    for (const item of assigned) {
+      if (typeof item.id !== 'string') continue;
+      byAssignee.set(item.assignedTo, [...(byAssignee.get(item.assignedTo) || []), item.id]);
+    }
+
+    for (const [assignee, leadIds] of byAssignee) {
+      const { error } = await supabase
+        .from('sales_leads')
+        .update({ assigned_to: assignee })
+        .in('id', leadIds)
+        .eq('organization_id', this.organizationId);
+
+      if (error) throw new Error(`Failed to assign leads: ${error.message}`);
+    }
+
+    // Later steps see the assignee on each item
+    this.context.variables[config.source.variable] = assigned;
+
+    return assigned;
+  }
+
+  /**
+   * Execute webhook step
+   */
+  private async executeWebhookStep(config: WebhookStepConfig, timeout?: number): Promise<unknown> {
+    const url = this.resolveUrl(this.interpolateString(config.url));
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    for (const [name, value] of Object.entries(config.headers || {})) {
+      headers[name] = this.interpolateString(value);
+    }
+
+    if (config.authentication) {
+      const credentials = this.interpolateString(config.authentication.credentials);
+      switch (config.authentication.type) {
+        case 'bearer':
+          headers['Authorization'] = `Bearer ${credentials}`;
+          break;
+        case 'basic':
+          // Accept either "user:password" or a pre-encoded value
+          headers['Authorization'] = `Basic ${
+            credentials.includes(':') ? Buffer.from(credentials).toString('base64') : credentials
+          }`;
+          break;
+        case 'api-key':
+          headers['X-API-Key'] = credentials;
+          break;
+      }
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout || 30000);
+    const abortOnCancel = () => controller.abort();
+    this.abortController.signal.addEventListener('abort', abortOnCancel);
+
+    try {
+      const response = await fetch(url, {
+        method: config.method,
+        headers,
+        body: config.method !== 'GET' && config.body !== undefined
+          ? JSON.stringify(this.interpolate(config.body))
+          : undefined,
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+      let body: unknown = text;
+      try {
+        body = text ? JSON.parse(text) : null;
+      } catch {
+        // Non-JSON responses are passed through as text
+      }
+
+      if (!response.ok) {
+        throw new Error(`Webhook ${config.method} ${url} returned ${response.status}`);
+      }
+
+      return body;
+    } finally {
+      clearTimeout(timer);
+      this.abortController.signal.removeEventListener('abort', abortOnCancel);
+    }
+  }
+
+  /**
+   * Execute loop step
+   */
+  private async executeLoopStep(config: LoopStepConfig): Promise<LoopIteration[]> {
+    const source = this.getVariable(config.source.variable);
+    if (!Array.isArray(source)) {
+      throw new Error('Loop step requires array input');
+    }
+
+    const bodySteps = config.steps.map(stepId => {
+      const step = this.playbook?.steps.find(s => s.id === stepId);
+      if (!step) throw new Error(`Loop references unknown step: ${stepId}`);
+      return step;
+    });
+
+    const items = source.slice(0, config.maxIterations ?? source.length);
+    const iterations: LoopIteration[] = [];
+
+    this.loopDepth++;
+    try {
+      for (let index = 0; index < items.length; index++) {
+        if (await this.checkCancelled()) {
+          throw new Error('Execution cancelled');
+        }
+
+        this.context.variables[config.iterator.variable] = items[index];
+        this.context.variables[config.iterator.index] = index;
+
+        const outputs: Record<string, unknown> = {};
+        for (const step of bodySteps) {
+          await this.executeStep(step);
+          const outputVar = this.getOutputVariable(step.config);
+          if (outputVar) outputs[outputVar] = this.context.variables[outputVar];
+        }
+
+        iterations.push({ index, item: items[index], outputs });
+      }
+    } finally {
+      this.loopDepth--;
+    }
+
+    delete this.context.variables[config.iterator.variable];
+    delete this.context.variables[config.iterator.index];
+
+    return iterations;
+  }
+
+  /**
+   * Execute transform step
+   */
+  private async executeTransformStep(config: TransformStepConfig): Promise<unknown> {
+    let data: unknown = this.getVariable(config.source.variable);
+
+    for (const transformation of config.transformations) {
+      if (!Array.isArray(data)) {
+        throw new Error(`Transform '${transformation.type}' requires array input`);
+      }
+      data = this.applyTransformation(data, transformation);
+    }
+
+    return data;
+  }
+
+  /**
+   * Execute notify step
+   */
+  private async executeNotifyStep(config: NotifyStepConfig): Promise<NotifyResult> {
+    const recipients = this.resolveTargets(config.recipients);
+    const subject = this.interpolateString(config.message.subject || `Playbook: ${this.playbook?.name ?? 'notification'}`);
+    const body = this.interpolateString(config.message.body);
+    const data = this.interpolate(config.message.data || {});
+
+    const emailRecipients = recipients.filter(r => r.includes('@') && !/^https?:\/\//.test(r));
+    const urlRecipients = recipients.filter(r => /^https?:\/\//.test(r));
+
+    const delivered: string[] = [];
+    const failures: string[] = [];
+
+    for (const channel of config.channels) {
+      try {
+        switch (channel) {
+          case 'email':
+            if (emailRecipients.length === 0) throw new Error('no email recipients');
+            await sendTransactionalEmail({
+              to: emailRecipients,
+              subject: config.message.emailTemplateId
+                ? config.message.subject && this.interpolateString(config.message.subject)
+                : subject,
+              textBody: config.message.emailTemplateId ? undefined : body,
+              template: config.message.emailTemplateId
+                ? {
+                    id: config.message.emailTemplateId,
+                    version: config.message.emailTemplateVersion,
+                    context: this.context.variables,
+                  }
+                : undefined,
+              tags: [{ name: 'source', value: 'playbook' }],
+              metadata: { playbookId: this.playbook?.id, executionId: this.execution?.id },
+            });
+            break;
+          case 'slack': {
+            const slackUrls = urlRecipients.filter(r => r.startsWith('https://hooks.slack.com/'));
+            if (process.env.SLACK_WEBHOOK_URL) slackUrls.push(process.env.SLACK_WEBHOOK_URL);
+            if (slackUrls.length === 0) throw new Error('no Slack webhook configured');
+
+            for (const slackUrl of slackUrls) {
+              await this.postJson(slackUrl, { text: `*${subject}*\n${body}` });
+            }
+            break;
+          }
+          case 'webhook': {
+            const webhookUrls = urlRecipients.filter(r => !r.startsWith('https://hooks.slack.com/'));
+            if (webhookUrls.length === 0) throw new Error('no webhook recipients');
+
+            for (const webhookUrl of webhookUrls) {
+              await this.postJson(webhookUrl, {
+                subject,
+                body,
+                data,
+                playbookId: this.playbook?.id,
+                executionId: this.execution?.id,
+              });
+            }
+            break;
+          }
+        }
+        delivered.push(channel);
+      } catch (error) {
+        failures.push(`${channel}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (delivered.length === 0) {
+      throw new Error(`Notification failed on all channels (${failures.join('; ')})`);
+    }
+
+    return { delivered, failures };
+  }
+
   /**
    * Helper: Evaluate conditions
    */
-  private evaluateConditions(conditions: any[]): boolean {
+  private evaluateConditions(conditions: StepCondition[]): boolean {
     // Implement condition evaluation logic
     return true;
   }
@@ -352,7 +867,7 @@ export class PlaybookExecutor {
   /**
    * Helper: Evaluate a single filter
    */
-  private evaluateFilter(item: any, filter: any): boolean {
+  private evaluateFilter(item: any, filter: FilterRule): boolean {
     const value = this.getNestedValue(item, filter.field);
     return this.compareValues(value, filter.operator, filter.value);
   }
@@ -360,7 +875,7 @@ export class PlaybookExecutor {
   /**
    * Helper: Evaluate a condition
    */
-  private evaluateCondition(condition: any): boolean {
+  private evaluateCondition(condition: ConditionRule): boolean {
     const leftValue = condition.left.type === 'variable'
       ? this.getVariable(condition.left.value)
       : condition.left.value;
@@ -410,6 +925,280 @@ export class PlaybookExecutor {
     }
   }
 
+  /**
+   * Helper: Apply a single transformation to an array
+   */
+  private applyTransformation(data: PlaybookItem[], transformation: Transformation): unknown {
+    switch (transformation.type) {
+      case 'map': {
+        const { fields } = transformation.config as MapTransformConfig;
+        return data.map(item => {
+          const mapped = { ...item };
+          for (const [field, spec] of Object.entries(fields || {})) {
+            if ('from' in spec) {
+              mapped[field] = this.getNestedValue(item, spec.from);
+            } else if ('when' in spec) {
+              mapped[field] = this.evaluateFilter(item, spec.when) ? spec.then : spec.else;
+            } else {
+              mapped[field] = this.interpolate(spec.value);
+            }
+          }
+          return mapped;
+        });
+      }
+      case 'filter': {
+        const { filters, operator = 'AND' } = transformation.config as FilterTransformConfig;
+        return data.filter(item => {
+          const results = filters.map(filter => this.evaluateFilter(item, filter));
+          return operator === 'AND' ? results.every(r => r) : results.some(r => r);
+        });
+      }
+      case 'reduce': {
+        const { operation, field, groupBy } = transformation.config as ReduceTransformConfig;
+        if (operation === 'group') {
+          if (!groupBy) throw new Error("Reduce 'group' requires groupBy");
+          return data.reduce((groups: Record<string, PlaybookItem[]>, item) => {
+            const key = String(this.getNestedValue(item, groupBy) ?? 'unknown');
+            (groups[key] ||= []).push(item);
+            return groups;
+          }, {});
+        }
+        return this.aggregate(data, operation, field);
+      }
+      case 'sort': {
+        const { field, order = 'asc' } = transformation.config as SortTransformConfig;
+        const direction = order === 'desc' ? -1 : 1;
+        return [...data].sort((a, b) => {
+          const left = this.getNestedValue(a, field);
+          const right = this.getNestedValue(b, field);
+          if (left === right) return 0;
+          if (left === null || left === undefined) return 1;
+          if (right === null || right === undefined) return -1;
+          return (left > right ? 1 : -1) * direction;
+        });
+      }
+      case 'limit': {
+        const { count, offset = 0 } = transformation.config as LimitTransformConfig;
+        return data.slice(offset, offset + count);
+      }
+      case 'extract': {
+        const { field, fields } = transformation.config as ExtractTransformConfig;
+        if (field) {
+          return data.map(item => this.getNestedValue(item, field));
+        }
+        return data.map(item =>
+          Object.fromEntries((fields || []).map(f => [f, this.getNestedValue(item, f)]))
+        );
+      }
+      case 'merge': {
+        const { variable, key } = transformation.config as MergeTransformConfig;
+        const other = this.getVariable(variable);
+        if (!Array.isArray(other)) {
+          throw new Error(`Merge source '${variable}' is not an array`);
+        }
+        if (!key) return [...data, ...other];
+
+        const merged = new Map<unknown, PlaybookItem>();
+        for (const item of [...data, ...other]) {
+          const id = this.getNestedValue(item, key);
+          merged.set(id, { ...merged.get(id), ...item });
+        }
+        return Array.from(merged.values());
+      }
+      default:
+        throw new Error(`Unsupported transformation: ${transformation.type}`);
+    }
+  }
+
+  /**
+   * Helper: Aggregate a numeric field across items
+   */
+  private aggregate(
+    data: unknown[],
+    operation: 'sum' | 'avg' | 'min' | 'max' | 'count',
+    field?: string
+  ): number | null {
+    if (operation === 'count') return data.length;
+
+    const values = data
+      .map(item => Number(field ? this.getNestedValue(item, field) : item))
+      .filter(value => !Number.isNaN(value));
+
+    if (values.length === 0) return null;
+
+    switch (operation) {
+      case 'sum':
+        return values.reduce((total, value) => total + value, 0);
+      case 'avg':
+        return values.reduce((total, value) => total + value, 0) / values.length;
+      case 'min':
+        return Math.min(...values);
+      case 'max':
+        return Math.max(...values);
+    }
+  }
+
+  /**
+   * Helper: Resolve {{placeholders}} in strings, arrays and objects.
+   * A string that is exactly one placeholder keeps the variable's type.
+   */
+  private interpolate(value: unknown): unknown {
+    if (typeof value === 'string') {
+      const whole = value.match(/^\{\{\s*([^{}]+?)\s*\}\}$/);
+      if (whole) return this.resolveExpression(whole[1]);
+
+      return this.interpolateString(value);
+    }
+    if (Array.isArray(value)) return value.map(item => this.interpolate(item));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.interpolate(item)])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Helper: Resolve {{placeholders}} into text, formatting objects as JSON
+   */
+  private interpolateString(value: string): string {
+    return value.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (_match, expression) => {
+      const resolved = this.resolveExpression(expression);
+      if (resolved === undefined || resolved === null) return '';
+      if (typeof resolved === 'number') return String(Math.round(resolved * 100) / 100);
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+
+  /**
+   * Helper: Resolve a variable path, optionally ending in an aggregate like `leads.avg(score)`
+   */
+  private resolveExpression(expression: string): unknown {
+    const aggregate = expression.match(AGGREGATE_PATTERN);
+    if (aggregate) {
+      const [, path, operation, field] = aggregate;
+      const items = this.getNestedValue(this.context.variables, path);
+      if (!Array.isArray(items)) return undefined;
+      return this.aggregate(items, operation as 'sum' | 'avg' | 'min' | 'max' | 'count', field || undefined);
+    }
+
+    return this.getNestedValue(this.context.variables, expression);
+  }
+
+  /**
+   * Helper: Interpolate a target list, flattening placeholders that resolve to arrays
+   */
+  private resolveTargets(targets: string[]): string[] {
+    return targets
+      .flatMap(target => {
+        const resolved = this.interpolate(target);
+        return Array.isArray(resolved) ? resolved : [resolved];
+      })
+      .filter((target): target is string => typeof target === 'string' && target.length > 0);
+  }
+
+  /**
+   * Helper: Rotate through targets, continuing from the previous run's position
+   */
+  private async pickRoundRobin(targets: string[], count: number, stepId: string): Promise<string[]> {
+    const supabase = createAdminClient();
+    const playbookId = this.playbook?.id;
+
+    let start = 0;
+    if (playbookId) {
+      const { data: cursor } = await supabase
+        .from('playbook_assignment_cursors')
+        .select('position')
+        .eq('playbook_id', playbookId)
+        .eq('step_id', stepId)
+        .maybeSingle();
+      start = cursor?.position ?? 0;
+    }
+
+    const picks = Array.from({ length: count }, (_, i) => targets[(start + i) % targets.length]);
+
+    if (playbookId) {
+      await supabase
+        .from('playbook_assignment_cursors')
+        .upsert({
+          playbook_id: playbookId,
+          step_id: stepId,
+          position: (start + count) % targets.length,
+          updated_at: new Date().toISOString(),
+        }, {
+          onConflict: 'playbook_id,step_id',
+        });
+    }
+
+    return picks;
+  }
+
+  /**
+   * Helper: Give each item to the target with the fewest open leads
+   */
+  private async pickLoadBalanced(targets: string[], count: number): Promise<string[]> {
+    const supabase = createAdminClient();
+
+    const loads = await Promise.all(
+      targets.map(async target => {
+        const { count: openLeads, error } = await supabase
+          .from('sales_leads')
+          .select('id', { count: 'exact', head: true })
+          .eq('organization_id', this.organizationId)
+          .eq('assigned_to', target)
+          .not('status', 'in', `(${CLOSED_LEAD_STATUSES.join(',')})`);
+
+        if (error) throw new Error(`Failed to load workload for ${target}: ${error.message}`);
+        return { target, load: openLeads || 0 };
+      })
+    );
+
+    const picks: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const lightest = loads.reduce((min, current) => (current.load < min.load ? current : min));
+      picks.push(lightest.target);
+      lightest.load++;
+    }
+
+    return picks;
+  }
+
+  /**
+   * Helper: Resolve app-relative webhook URLs against the deployment URL
+   */
+  private resolveUrl(url: string): string {
+    if (/^https?:\/\//.test(url)) return url;
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL;
+    if (!baseUrl) throw new Error(`Cannot resolve relative webhook URL without NEXT_PUBLIC_APP_URL: ${url}`);
+    return new URL(url, baseUrl).toString();
+  }
+
+  /**
+   * Helper: POST a JSON payload and fail on non-2xx responses
+   */
+  private async postJson(url: string, payload: unknown): Promise<void> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: this.abortController.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`POST ${url} returned ${response.status}`);
+    }
+  }
+
+  /**
+   * Helper: Read a variable as a list; single items (e.g. a loop iterator) become one-item lists
+   */
+  private getItems<T = PlaybookItem>(name: string): T[] | null {
+    const value = this.getVariable(name);
+    if (Array.isArray(value)) return value;
+    return value && typeof value === 'object' ? [value] : null;
+  }
+
   /**
    * Helper: Get variable from context
    */
@@ -468,12 +1257,13 @@ export class PlaybookExecutor {
    */
   private async initializeExecution(
     playbook: Playbook,
-    context?: Partial<ExecutionContext>
+    context?: Partial<ExecutionContext>,
+    executionId?: string
   ): Promise<PlaybookExecution> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     const execution: PlaybookExecution = {
-      id: crypto.randomUUID(),
+      id: executionId || crypto.randomUUID(),
       playbookId: playbook.id,
       organizationId: playbook.organizationId,
       status: 'running',
@@ -489,10 +1279,11 @@ export class PlaybookExecutor {
         failedSteps: 0,
         skippedSteps: 0,
       },
+      currentStepIndex: 0,
     };
 
     // Save to database
-    await supabase.from('playbook_executions').insert({
+    const { error } = await supabase.from('playbook_executions').insert({
       id: execution.id,
       playbook_id: execution.playbookId,
       organization_id: execution.organizationId,
@@ -500,11 +1291,110 @@ export class PlaybookExecutor {
       started_at: execution.startedAt,
       execution_context: execution.context,
       execution_log: [],
+      metrics: execution.metrics,
+      current_step_index: 0,
     });
 
+    if (error) {
+      throw new Error(`Failed to create playbook execution: ${error.message}`);
+    }
+
     return execution;
   }
 
+  /**
+   * Columns written at every checkpoint
+   */
+  private checkpointFields() {
+    if (!this.execution) return {};
+
+    return {
+      current_step_index: this.execution.currentStepIndex,
+      execution_context: this.context,
+      execution_log: this.execution.steps,
+      metrics: this.execution.metrics,
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Persist progress after a step. Guarded on status so a cancelled run is not revived.
+   */
+  private async checkpoint(): Promise<void> {
+    if (!this.execution) return;
+
+    const supabase = createAdminClient();
+    const { error } = await supabase
+      .from('playbook_executions')
+      .update(this.checkpointFields())
+      .eq('id', this.execution.id)
+      .eq('status', 'running');
+
+    if (error) {
+      throw new Error(`Failed to checkpoint playbook execution: ${error.message}`);
+    }
+  }
+
+  /**
+   * Park the execution until `resumeAt` and queue the job that picks it back up
+   */
+  private async suspend(resumeAt: Date): Promise<void> {
+    if (!this.execution) return;
+
+    const supabase = createAdminClient();
+    this.pendingResumeAt = null;
+    this.execution.status = 'waiting';
+    this.execution.resumeAt = resumeAt;
+
+    const { data, error } = await supabase
+      .from('playbook_executions')
+      .update({
+        ...this.checkpointFields(),
+        status: 'waiting',
+        resume_at: resumeAt.toISOString(),
+      })
+      .eq('id', this.execution.id)
+      .eq('status', 'running')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to suspend playbook execution: ${error.message}`);
+    }
+
+    // Cancelled while the wait step ran
+    if (!data?.length) {
+      this.execution.status = 'cancelled';
+      return;
+    }
+
+    await addPlaybookJob(
+      { type: 'resume_execution', executionId: this.execution.id },
+      { delay: Math.max(0, resumeAt.getTime() - Date.now()) }
+    );
+  }
+
+  /**
+   * Whether the execution was cancelled, either in-process or through the API
+   */
+  private async checkCancelled(): Promise<boolean> {
+    if (this.abortController.signal.aborted) return true;
+    if (!this.execution) return false;
+
+    const supabase = createAdminClient();
+    const { data } = await supabase
+      .from('playbook_executions')
+      .select('status')
+      .eq('id', this.execution.id)
+      .maybeSingle();
+
+    if (data?.status === 'cancelled') {
+      this.abortController.abort();
+      return true;
+    }
+
+    return false;
+  }
+
   /**
    * Complete execution
    */
@@ -514,7 +1404,7 @@ export class PlaybookExecutor {
   ): Promise<void> {
     if (!this.execution) return;
 
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     this.execution.status = status;
     this.execution.completedAt = new Date();
@@ -531,18 +1421,22 @@ export class PlaybookExecutor {
       this.execution.completedAt.getTime() - this.execution.startedAt.getTime();
 
     // Update in database
-    await supabase
+    const { data } = await supabase
       .from('playbook_executions')
       .update({
+        ...this.checkpointFields(),
         status: this.execution.status,
         completed_at: this.execution.completedAt,
-        execution_log: this.execution.steps,
         error_message: this.execution.error?.message,
       })
-      .eq('id', this.execution.id);
+      .eq('id', this.execution.id)
+      .eq('status', 'running')
+      .select('id');
 
-    // Update playbook metrics
-    await this.updatePlaybookMetrics(this.execution.playbookId, status);
+    // Update playbook metrics (skipped if the run was already cancelled elsewhere)
+    if (data?.length) {
+      await this.updatePlaybookMetrics(this.execution.playbookId, status);
+    }
   }
 
   /**
@@ -571,7 +1465,7 @@ export class PlaybookExecutor {
     playbookId: string,
     status: string
   ): Promise<void> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     if (status === 'completed') {
       await supabase.rpc('increment_playbook_success', { playbook_id: playbookId });
@@ -634,10 +1528,10 @@ export class PlaybookExecutor {
   /**
    * Cancel execution
    */
-  cancel(): void {
-    this.abortController.abort();
+  async cancel(): Promise<void> {
     if (this.execution) {
-      this.completeExecution('cancelled');
+      await this.completeExecution('cancelled');
     }
+    this.abortController.abort();
   }
 }
@@ -0,0 +1,330 @@
+/**
+ * Playbook Trigger Service
+ * Connects schedule, webhook and event triggers to the playbook queue
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  addPlaybookJob,
+  listScheduledPlaybookIds,
+  schedulePlaybook,
+  unschedulePlaybook,
+  type PlaybookEventName,
+  type PlaybookTriggerSource,
+} from '@/lib/queue/playbook-queue';
+import type { Playbook, PlaybookTrigger } from '@/lib/types/playbook';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface PlaybookRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  playbook_type?: 'system' | 'custom' | null;
+  status: Playbook['status'];
+  trigger_type?: 'manual' | 'scheduled' | 'webhook' | 'event' | null;
+  trigger_config?: Record<string, unknown> | null;
+  steps: Playbook['steps'];
+  visual_config?: Playbook['visualConfig'] | null;
+  settings?: Playbook['settings'] | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  last_run_at?: string | null;
+  next_run_at?: string | null;
+}
+
+export type WebhookVerification =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+// Signed requests older than this are rejected to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Event names each trigger source may subscribe to
+const EVENT_SOURCES: Record<PlaybookEventName, string> = {
+  'lead.created': 'crm',
+  'lead.score_changed': 'crm',
+  'enrichment.completed': 'apollo',
+};
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class PlaybookTriggerService {
+  /**
+   * Load a playbook and map the stored row onto the runtime shape
+   */
+  static async loadPlaybook(playbookId: string): Promise<Playbook | null> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('prospecting_playbooks')
+      .select('*')
+      .eq('id', playbookId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load playbook: ${error.message}`);
+    }
+
+    return data ? this.toPlaybook(data as PlaybookRow) : null;
+  }
+
+  /**
+   * Map a prospecting_playbooks row to a Playbook.
+   * trigger_config holds the trigger body, e.g. `{ schedule: { cron, timezone, active } }`.
+   */
+  static toPlaybook(row: PlaybookRow): Playbook {
+    const triggerType = row.trigger_type === 'scheduled' ? 'schedule' : row.trigger_type || 'manual';
+
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      name: row.name,
+      description: row.description ?? undefined,
+      type: row.playbook_type || 'custom',
+      status: row.status,
+      trigger: { type: triggerType, ...(row.trigger_config || {}) } as PlaybookTrigger,
+      steps: row.steps || [],
+      visualConfig: row.visual_config ?? undefined,
+      settings: row.settings || {},
+      createdBy: row.created_by || 'system',
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      lastRunAt: row.last_run_at ? new Date(row.last_run_at) : undefined,
+      nextRunAt: row.next_run_at ? new Date(row.next_run_at) : undefined,
+    };
+  }
+
+  /**
+   * Queue a playbook run
+   */
+  static async enqueueRun(playbookId: string, trigger: PlaybookTriggerSource): Promise<string> {
+    const job = await addPlaybookJob({ type: 'run_playbook', playbookId, trigger });
+    return job.id || '';
+  }
+
+  // ============================================
+  // SCHEDULES
+  // ============================================
+
+  /**
+   * Register or remove the repeatable job for one playbook to match its current state
+   */
+  static async syncSchedule(playbookId: string): Promise<void> {
+    const playbook = await this.loadPlaybook(playbookId);
+
+    if (
+      !playbook ||
+      playbook.status !== 'active' ||
+      playbook.trigger.type !== 'schedule' ||
+      !playbook.trigger.schedule?.active
+    ) {
+      await unschedulePlaybook(playbookId);
+      return;
+    }
+
+    const { cron, timezone } = playbook.trigger.schedule;
+    const job = await schedulePlaybook(playbookId, cron, timezone);
+
+    const supabase = createAdminClient();
+    await supabase
+      .from('prospecting_playbooks')
+      .update({
+        next_run_at: job ? new Date(job.timestamp + (job.opts.delay || 0)).toISOString() : null,
+      })
+      .eq('id', playbookId);
+  }
+
+  /**
+   * Reconcile every repeatable job with the playbooks table.
+   * Called on worker start and periodically so edits take effect without a restart.
+   */
+  static async syncAllSchedules(): Promise<{ scheduled: number; removed: number }> {
+    const supabase = createAdminClient();
+
+    const { data: playbooks, error } = await supabase
+      .from('prospecting_playbooks')
+      .select('id')
+      .eq('status', 'active')
+      .eq('trigger_type', 'scheduled');
+
+    if (error) {
+      throw new Error(`Failed to load scheduled playbooks: ${error.message}`);
+    }
+
+    const activeIds = new Set((playbooks || []).map((p) => p.id));
+    const registeredIds = await listScheduledPlaybookIds();
+
+    let removed = 0;
+    for (const id of registeredIds) {
+      if (!activeIds.has(id)) {
+        await unschedulePlaybook(id);
+        removed++;
+      }
+    }
+
+    for (const id of activeIds) {
+      try {
+        await this.syncSchedule(id);
+      } catch (syncError) {
+        console.error(`Error scheduling playbook ${id}:`, syncError);
+      }
+    }
+
+    return { scheduled: activeIds.size, removed };
+  }
+
+  // ============================================
+  // WEBHOOKS
+  // ============================================
+
+  /**
+   * Verify `x-playbook-signature: sha256=<hex>` over `${timestamp}.${body}`
+   */
+  static verifyWebhookSignature(
+    playbook: Playbook,
+    rawBody: string,
+    signature: string | null,
+    timestamp: string | null
+  ): WebhookVerification {
+    if (playbook.trigger.type !== 'webhook') {
+      return { valid: false, reason: 'Playbook is not webhook-triggered' };
+    }
+
+    const secret = playbook.trigger.webhook?.secret;
+    if (!secret) {
+      return { valid: false, reason: 'Webhook secret is not configured' };
+    }
+
+    if (!signature || !timestamp) {
+      return { valid: false, reason: 'Missing signature headers' };
+    }
+
+    const issuedAt = Number(timestamp);
+    if (!Number.isFinite(issuedAt) || Math.abs(Date.now() / 1000 - issuedAt) > SIGNATURE_TOLERANCE_SECONDS) {
+      return { valid: false, reason: 'Signature timestamp outside tolerance' };
+    }
+
+    const provided = signature.startsWith('sha256=') ? signature.slice(7) : signature;
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+
+    const providedBuffer = Buffer.from(provided);
+    const expectedBuffer = Buffer.from(expected);
+
+    if (
+      providedBuffer.length !== expectedBuffer.length ||
+      !timingSafeEqual(providedBuffer, expectedBuffer)
+    ) {
+      return { valid: false, reason: 'Invalid signature' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Whether a webhook payload's event is one the playbook listens for.
+   * An empty events list accepts everything.
+   */
+  static acceptsWebhookEvent(playbook: Playbook, eventName?: string): boolean {
+    if (playbook.trigger.type !== 'webhook') return false;
+
+    const events = playbook.trigger.webhook?.events || [];
+    return events.length === 0 || (!!eventName && events.includes(eventName));
+  }
+
+  // ============================================
+  // EVENTS
+  // ============================================
+
+  /**
+   * Publish a domain event. Matching happens in the worker so callers only pay for an enqueue;
+   * failures are logged rather than surfaced to the caller's request.
+   */
+  static async emitEvent(
+    orgId: string | null | undefined,
+    event: PlaybookEventName,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    if (!orgId) return;
+
+    try {
+      await addPlaybookJob({ type: 'dispatch_event', orgId, event, data });
+    } catch (error) {
+      console.error(`Error emitting playbook event ${event}:`, error);
+    }
+  }
+
+  /**
+   * Queue a run for every active playbook subscribed to the event
+   */
+  static async dispatchEvent(
+    orgId: string,
+    event: PlaybookEventName,
+    data: Record<string, unknown>
+  ): Promise<string[]> {
+    const supabase = createAdminClient();
+
+    const { data: rows, error } = await supabase
+      .from('prospecting_playbooks')
+      .select('*')
+      .eq('organization_id', orgId)
+      .eq('status', 'active')
+      .eq('trigger_type', 'event');
+
+    if (error) {
+      throw new Error(`Failed to load event playbooks: ${error.message}`);
+    }
+
+    const triggered: string[] = [];
+
+    for (const row of (rows || []) as PlaybookRow[]) {
+      const playbook = this.toPlaybook(row);
+      if (playbook.trigger.type !== 'event') continue;
+
+      const subscription = playbook.trigger.event;
+      if (subscription?.name !== event) continue;
+      if (subscription.source && subscription.source !== EVENT_SOURCES[event]) continue;
+      if (!this.matchesFilters(data, subscription.filters)) continue;
+
+      await this.enqueueRun(playbook.id, { type: 'event', data: { event, ...data } });
+      triggered.push(playbook.id);
+    }
+
+    return triggered;
+  }
+
+  /**
+   * Filters are field -> expected value. Arrays mean "one of"; `{ min, max }` is a numeric range.
+   */
+  private static matchesFilters(data: Record<string, unknown>, filters?: Record<string, unknown>): boolean {
+    if (!filters) return true;
+
+    return Object.entries(filters).every(([path, expected]) => {
+      const actual = path
+        .split('.')
+        .reduce<unknown>((acc, part) => (acc as Record<string, unknown> | undefined)?.[part], data);
+
+      if (Array.isArray(expected)) {
+        return expected.includes(actual);
+      }
+
+      if (expected && typeof expected === 'object' && ('min' in expected || 'max' in expected)) {
+        const { min, max } = expected as { min?: number; max?: number };
+        const value = Number(actual);
+        if (Number.isNaN(value)) return false;
+        if (min !== undefined && value < min) return false;
+        if (max !== undefined && value > max) return false;
+        return true;
+      }
+
+      return actual === expected;
+    });
+  }
+}
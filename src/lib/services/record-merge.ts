@@ -0,0 +1,265 @@
+/**
+ * Record Merge Service
+ * Merges a duplicate lead, contact or account into the record that survives: field values are
+ * picked per field, tags and custom fields are unioned, and everything attached to the merged
+ * record moves to the survivor before the merged record is deleted
+ */
+
+import { z } from 'zod';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  DuplicateDetectionService,
+  DuplicateError,
+} from '@/lib/services/duplicate-detection';
+import type { DuplicateEntityType } from '@/lib/utils/duplicate-keys';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export const MergeRecordsSchema = z.object({
+  survivor_id: z.string().uuid(),
+  // Fields to take from the merged record; every other field keeps the survivor's value when set
+  fields: z.record(z.enum(['survivor', 'merged'])).optional(),
+});
+
+export type MergeRecordsInput = z.infer<typeof MergeRecordsSchema>;
+
+export type FieldSource = 'survivor' | 'merged';
+
+export interface MergeResult {
+  entityType: DuplicateEntityType;
+  survivorId: string;
+  mergedId: string;
+  // Where each field's final value came from, for fields where the two records differed
+  fields: Record<string, FieldSource>;
+  reparented: Record<string, number>;
+}
+
+// Fields a reviewer can choose between. Everything else on the record is the survivor's.
+export const MERGEABLE_FIELDS: Record<DuplicateEntityType, string[]> = {
+  lead: [
+    'name', 'email', 'phone', 'company', 'company_size', 'industry', 'title', 'headline', 'location',
+    'country', 'timezone', 'linkedin_url', 'twitter_url', 'facebook_url', 'github_url', 'timeline',
+    'current_solution', 'message', 'admin_notes', 'status', 'priority', 'assigned_to', 'account_id',
+    'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content', 'referrer', 'landing_page',
+    'linkedin_profile_id', 'converted_at', 'converted_by', 'converted_contact_id',
+    'converted_account_id', 'converted_opportunity_id',
+  ],
+  contact: [
+    'first_name', 'last_name', 'email', 'phone', 'title', 'headline', 'linkedin_url', 'location',
+    'timezone', 'status', 'lifecycle_stage', 'assigned_to', 'account_id', 'linkedin_profile_id',
+  ],
+  account: [
+    'name', 'domain', 'website', 'industry', 'size', 'location', 'description', 'linkedin_url',
+    'annual_revenue', 'founded_year', 'status', 'assigned_to', 'linkedin_profile_id',
+  ],
+};
+
+const ENTITY_TABLES: Record<DuplicateEntityType, string> = {
+  lead: 'sales_leads',
+  contact: 'sales_contacts',
+  account: 'sales_accounts',
+};
+
+type RecordRow = Record<string, unknown>;
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class RecordMergeService {
+  /**
+   * Merge the pair in a review queue entry. The survivor must be one of the two records.
+   */
+  static async mergeCandidate(
+    candidateId: string,
+    orgId: string,
+    userId: string,
+    input: MergeRecordsInput
+  ): Promise<MergeResult> {
+    const options = MergeRecordsSchema.parse(input);
+    const candidate = await DuplicateDetectionService.getCandidate(candidateId, orgId);
+
+    if (candidate.status !== 'pending') {
+      throw new DuplicateError(`Duplicate candidate is already ${candidate.status}`, 'CONFLICT');
+    }
+
+    const pair = [candidate.record_id, candidate.duplicate_id];
+    if (!pair.includes(options.survivor_id)) {
+      throw new DuplicateError('survivor_id must be one of the two duplicate records', 'INVALID');
+    }
+
+    const mergedId = pair.find((id) => id !== options.survivor_id)!;
+    return this.merge(candidate.entity_type, options.survivor_id, mergedId, orgId, userId, options.fields);
+  }
+
+  /**
+   * Merge mergedId into survivorId. Either both records are combined or neither is deleted:
+   * a single database call writes the survivor's fields, moves related rows and deletes the
+   * merged record in one transaction.
+   */
+  static async merge(
+    entityType: DuplicateEntityType,
+    survivorId: string,
+    mergedId: string,
+    orgId: string,
+    userId: string,
+    choices: Record<string, FieldSource> = {}
+  ): Promise<MergeResult> {
+    if (survivorId === mergedId) {
+      throw new DuplicateError('Cannot merge a record into itself', 'INVALID');
+    }
+
+    const unknown = Object.keys(choices).filter((field) => !MERGEABLE_FIELDS[entityType].includes(field));
+    if (unknown.length > 0) {
+      throw new DuplicateError(`Fields cannot be merged: ${unknown.join(', ')}`, 'INVALID');
+    }
+
+    const [survivor, merged] = await Promise.all([
+      this.loadRecord(entityType, survivorId, orgId),
+      this.loadRecord(entityType, mergedId, orgId),
+    ]);
+
+    const { updates, fields } = this.resolveFields(entityType, survivor, merged, choices);
+    const supabase = createAdminClient();
+
+    const { data: reparented, error: mergeError } = await supabase.rpc('merge_duplicate_records', {
+      p_entity_type: entityType,
+      p_organization_id: orgId,
+      p_survivor_id: survivorId,
+      p_merged_id: mergedId,
+      p_merged_by: userId,
+      p_updates: updates,
+      p_field_choices: fields,
+    });
+
+    if (mergeError) {
+      // no_data_found: the merged record was deleted by a concurrent merge
+      if (mergeError.code === 'P0002') {
+        throw new DuplicateError('Record not found', 'NOT_FOUND');
+      }
+      throw mergeError;
+    }
+
+    // Pairs that involved the merged record are gone; the survivor may match those records too
+    await DuplicateDetectionService.detectForRecord(entityType, survivorId, orgId).catch((error) => {
+      console.error(`Failed to re-check duplicates for ${entityType} ${survivorId}:`, error);
+    });
+
+    return {
+      entityType,
+      survivorId,
+      mergedId,
+      fields,
+      reparented: (reparented ?? {}) as Record<string, number>,
+    };
+  }
+
+  // ============================================
+  // HELPER METHODS
+  // ============================================
+
+  private static async loadRecord(
+    entityType: DuplicateEntityType,
+    id: string,
+    orgId: string
+  ): Promise<RecordRow> {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from(ENTITY_TABLES[entityType])
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    // Leads captured from the website have no organization yet; any org may merge them
+    const owned = data && (data.organization_id === orgId || (entityType === 'lead' && !data.organization_id));
+    if (!owned) {
+      throw new DuplicateError(`${entityType[0].toUpperCase()}${entityType.slice(1)} not found`, 'NOT_FOUND');
+    }
+
+    return data;
+  }
+
+  /**
+   * Values to write to the survivor. A chosen field takes the merged record's value; any other
+   * field keeps the survivor's value and falls back to the merged record's when it is empty.
+   */
+  private static resolveFields(
+    entityType: DuplicateEntityType,
+    survivor: RecordRow,
+    merged: RecordRow,
+    choices: Record<string, FieldSource>
+  ): { updates: RecordRow; fields: Record<string, FieldSource> } {
+    const updates: RecordRow = {};
+    const fields: Record<string, FieldSource> = {};
+    const fieldSources: RecordRow = { ...asRow(survivor.field_sources) };
+    const mergedSources = asRow(merged.field_sources);
+
+    for (const field of MERGEABLE_FIELDS[entityType]) {
+      if (!(field in survivor) || isSame(survivor[field], merged[field])) continue;
+
+      const source: FieldSource =
+        choices[field] ?? (isEmpty(survivor[field]) && !isEmpty(merged[field]) ? 'merged' : 'survivor');
+      fields[field] = source;
+
+      if (source === 'merged') {
+        updates[field] = merged[field];
+        if (mergedSources[field]) {
+          fieldSources[field] = mergedSources[field];
+        } else {
+          delete fieldSources[field];
+        }
+      }
+    }
+
+    if ('last_contacted_at' in survivor && merged.last_contacted_at) {
+      if (!survivor.last_contacted_at || String(merged.last_contacted_at) > String(survivor.last_contacted_at)) {
+        updates.last_contacted_at = merged.last_contacted_at;
+      }
+    }
+
+    if ('field_sources' in survivor && !isSame(fieldSources, survivor.field_sources ?? {})) {
+      updates.field_sources = fieldSources;
+    }
+
+    if (entityType === 'lead') {
+      const tags = union(survivor.tags, merged.tags);
+      if (tags.length !== (Array.isArray(survivor.tags) ? survivor.tags.length : 0)) updates.tags = tags;
+
+      // A lead that was converted stays converted whichever record survives
+      const convertedAt = updates.converted_at ?? survivor.converted_at;
+      if (convertedAt && (updates.status ?? survivor.status) !== 'converted') {
+        updates.status = 'converted';
+      }
+    } else {
+      const survivorMetadata = asRow(survivor.metadata);
+      const mergedMetadata = asRow(merged.metadata);
+      const metadata: RecordRow = { ...mergedMetadata, ...survivorMetadata };
+      const tags = union(survivorMetadata.tags, mergedMetadata.tags);
+      if (tags.length > 0) metadata.tags = tags;
+      if (!isSame(metadata, survivorMetadata)) updates.metadata = metadata;
+    }
+
+    return { updates, fields };
+  }
+}
+
+function asRow(value: unknown): RecordRow {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as RecordRow) : {};
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function union(a: unknown, b: unknown): string[] {
+  const values = [...(Array.isArray(a) ? a : []), ...(Array.isArray(b) ? b : [])];
+  return [...new Set(values.filter((value): value is string => typeof value === 'string'))];
+}
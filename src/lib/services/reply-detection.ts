@@ -0,0 +1,492 @@
+/**
+ * Reply Detection Service
+ * Matches inbound emails to sequence sends and pauses or stops the enrollment
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getInboundMailbox, parseRawHeaders } from '@/lib/email/inbound-mailbox';
+import type { ReplyAction, SequenceSettings } from '@/lib/types/sequences';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export type InboundSource = 'ses' | 'mailbox';
+
+export interface InboundEmail {
+  messageId: string;
+  inReplyTo?: string | null;
+  references: string[];
+  from?: string | null;
+  subject?: string | null;
+  receivedAt?: string;
+  headers: Record<string, string>;
+  source: InboundSource;
+}
+
+export type ReplyMatchStatus = 'matched' | 'unmatched' | 'ignored' | 'duplicate';
+
+export interface ReplyMatchResult {
+  status: ReplyMatchStatus;
+  executionId?: string;
+  enrollmentId?: string;
+  action?: 'paused' | 'stopped' | 'none';
+}
+
+interface MatchedExecution {
+  id: string;
+  executed_at: string;
+  enrollment: {
+    id: string;
+    status: string;
+    organization_id: string;
+    lead_id: string;
+    template?: { id: string; settings?: Partial<SequenceSettings> | null } | null;
+  };
+}
+
+type SesHeader = { name?: string; value?: string };
+
+type SesReceivedPayload = {
+  notificationType?: string;
+  mail?: {
+    messageId?: string;
+    timestamp?: string;
+    source?: string;
+    headers?: SesHeader[];
+    commonHeaders?: {
+      from?: string[];
+      messageId?: string;
+      subject?: string;
+    };
+  };
+  content?: string;
+};
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class ReplyDetectionService {
+  /**
+   * Match an inbound email to a sequence send and apply the template's reply settings
+   */
+  static async processInboundEmail(email: InboundEmail): Promise<ReplyMatchResult> {
+    const supabase = createAdminClient();
+
+    // SNS and the poller can both redeliver; the unique message id lets one delivery through
+    const inboundId = await this.logInbound(email);
+    if (!inboundId) {
+      return { status: 'duplicate' };
+    }
+
+    try {
+      return await this.matchInbound(inboundId, email);
+    } catch (error) {
+      // Release the message id so a redelivery can try again
+      await supabase.from('sequence_inbound_messages').delete().eq('id', inboundId);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle an SES receipt-rule notification (notificationType "Received")
+   */
+  static async processSesNotification(payload: unknown): Promise<ReplyMatchResult> {
+    const email = this.fromSesNotification(payload);
+    if (!email) {
+      throw new Error('SES inbound notification is missing a Message-ID');
+    }
+
+    return this.processInboundEmail(email);
+  }
+
+  /**
+   * Drain the configured mailbox. Used where replies do not go through SES.
+   */
+  static async pollMailbox(limit: number = 50): Promise<{
+    processed: number;
+    matched: number;
+    errors: string[];
+  }> {
+    const results = { processed: 0, matched: 0, errors: [] as string[] };
+
+    const mailbox = getInboundMailbox();
+    if (!mailbox) {
+      return results;
+    }
+
+    const messages = await mailbox.fetchUnprocessed(limit);
+
+    for (const message of messages) {
+      try {
+        const email = this.fromRawMessage(message.raw, 'mailbox');
+        if (email) {
+          const result = await this.processInboundEmail(email);
+          if (result.status === 'matched') results.matched++;
+        }
+
+        await mailbox.acknowledge(message.id);
+        results.processed++;
+      } catch (error) {
+        console.error(`Error processing inbound message ${message.id}:`, error);
+        results.errors.push(
+          `${message.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Build an inbound email from an SES receipt notification
+   */
+  static fromSesNotification(payload: unknown): InboundEmail | null {
+    if (!payload || typeof payload !== 'object') return null;
+
+    const notification = payload as SesReceivedPayload;
+    const headers: Record<string, string> = notification.content
+      ? parseRawHeaders(notification.content)
+      : {};
+
+    // The header list on the notification is authoritative when present
+    for (const header of notification.mail?.headers || []) {
+      if (header.name && header.value !== undefined) {
+        headers[header.name.toLowerCase()] = header.value;
+      }
+    }
+
+    const messageId =
+      notification.mail?.commonHeaders?.messageId ||
+      headers['message-id'] ||
+      notification.mail?.messageId;
+
+    if (!messageId) return null;
+
+    return {
+      messageId: this.stripAngleBrackets(messageId),
+      inReplyTo: headers['in-reply-to'] || null,
+      references: this.extractMessageIds(headers['references'] || ''),
+      from: notification.mail?.commonHeaders?.from?.[0] || notification.mail?.source || null,
+      subject: notification.mail?.commonHeaders?.subject || headers['subject'] || null,
+      receivedAt: notification.mail?.timestamp,
+      headers,
+      source: 'ses',
+    };
+  }
+
+  /**
+   * Build an inbound email from a raw RFC 5322 message
+   */
+  static fromRawMessage(raw: string, source: InboundSource): InboundEmail | null {
+    const headers = parseRawHeaders(raw);
+    if (!headers['message-id']) return null;
+
+    const date = headers['date'] ? new Date(headers['date']) : null;
+
+    return {
+      messageId: this.stripAngleBrackets(headers['message-id']),
+      inReplyTo: headers['in-reply-to'] || null,
+      references: this.extractMessageIds(headers['references'] || ''),
+      from: headers['from'] || null,
+      subject: headers['subject'] || null,
+      receivedAt: date && !isNaN(date.getTime()) ? date.toISOString() : undefined,
+      headers,
+      source,
+    };
+  }
+
+  /**
+   * Extract message ids from an In-Reply-To or References header value
+   */
+  static extractMessageIds(value: string): string[] {
+    const bracketed = value.match(/<[^<>\s]+>/g);
+    if (bracketed) {
+      return bracketed.map((id) => this.stripAngleBrackets(id));
+    }
+
+    return value.split(/\s+/).filter(Boolean);
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  /**
+   * Find the send an inbound email replies to and act on the enrollment. The message is
+   * already logged as unmatched; a match updates that row.
+   */
+  private static async matchInbound(inboundId: string, email: InboundEmail): Promise<ReplyMatchResult> {
+    const candidateIds = this.toProviderMessageIds([
+      ...(email.inReplyTo ? this.extractMessageIds(email.inReplyTo) : []),
+      ...email.references,
+    ]);
+
+    const execution = candidateIds.length
+      ? await this.findExecution(candidateIds)
+      : null;
+
+    if (!execution) {
+      return { status: 'unmatched' };
+    }
+
+    const enrollment = execution.enrollment;
+
+    // Out-of-office and other auto-responses should not halt the sequence
+    if (this.isAutoReply(email.headers)) {
+      await this.updateInbound(inboundId, {
+        status: 'ignored',
+        executionId: execution.id,
+        enrollmentId: enrollment.id,
+        action: 'none',
+      });
+      return { status: 'ignored', executionId: execution.id, enrollmentId: enrollment.id };
+    }
+
+    const repliedAt = email.receivedAt || new Date().toISOString();
+
+    await this.recordReply(execution, email.messageId, repliedAt);
+
+    const action = await this.applyReplySettings(
+      enrollment.id,
+      enrollment.status,
+      enrollment.template?.settings
+    );
+
+    await this.updateInbound(inboundId, {
+      status: 'matched',
+      executionId: execution.id,
+      enrollmentId: enrollment.id,
+      action,
+    });
+
+    return {
+      status: 'matched',
+      executionId: execution.id,
+      enrollmentId: enrollment.id,
+      action,
+    };
+  }
+
+  /**
+   * SES stores the bare MessageId we get back from SendEmail, but recipients see
+   * `<MessageId@region.amazonses.com>`. Match on both forms.
+   */
+  private static toProviderMessageIds(ids: string[]): string[] {
+    const candidates = new Set<string>();
+
+    for (const id of ids) {
+      const bare = this.stripAngleBrackets(id);
+      if (!bare) continue;
+
+      candidates.add(bare);
+
+      const [localPart, domain] = bare.split('@');
+      if (domain && /(^|\.)amazonses\.com$/i.test(domain)) {
+        candidates.add(localPart);
+      }
+    }
+
+    return Array.from(candidates);
+  }
+
+  private static stripAngleBrackets(id: string): string {
+    return id.trim().replace(/^<|>$/g, '');
+  }
+
+  /**
+   * Find the most recent successful send referenced by the reply
+   */
+  private static async findExecution(
+    candidateIds: string[]
+  ): Promise<MatchedExecution | null> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('sequence_step_executions')
+      .select(`
+        id,
+        executed_at,
+        enrollment:sequence_enrollments!inner(
+          id,
+          status,
+          organization_id,
+          lead_id,
+          template:sequence_templates(id, settings)
+        )
+      `)
+      .in('email_message_id', candidateIds)
+      .order('executed_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to match reply: ${error.message}`);
+    }
+
+    return (data?.[0] as unknown as MatchedExecution) ?? null;
+  }
+
+  private static isAutoReply(headers: Record<string, string>): boolean {
+    const autoSubmitted = headers['auto-submitted']?.toLowerCase();
+    if (autoSubmitted && autoSubmitted !== 'no') return true;
+
+    const precedence = headers['precedence']?.toLowerCase();
+    if (precedence && ['auto_reply', 'bulk', 'junk'].includes(precedence)) return true;
+
+    return Boolean(headers['x-autoreply'] || headers['x-autorespond']);
+  }
+
+  /**
+   * Pause or stop the enrollment according to the template settings
+   */
+  private static async applyReplySettings(
+    enrollmentId: string,
+    currentStatus: string,
+    settings?: Partial<SequenceSettings> | null
+  ): Promise<'paused' | 'stopped' | 'none'> {
+    if (!settings?.pauseOnReply) return 'none';
+
+    const replyAction: ReplyAction = settings.replyAction || 'pause';
+
+    // A reply on a paused enrollment can still escalate it to stopped
+    if (currentStatus !== 'active' && !(currentStatus === 'paused' && replyAction === 'stop')) {
+      return 'none';
+    }
+
+    const supabase = createAdminClient();
+    const now = new Date().toISOString();
+
+    const update = replyAction === 'stop'
+      ? {
+          status: 'stopped',
+          stopped_at: now,
+          stopped_reason: 'Lead replied to sequence',
+          next_step_scheduled_at: null,
+        }
+      : {
+          status: 'paused',
+          paused_at: now,
+          paused_reason: 'Lead replied to sequence',
+        };
+
+    const { error } = await supabase
+      .from('sequence_enrollments')
+      .update(update)
+      .eq('id', enrollmentId);
+
+    if (error) {
+      throw new Error(`Failed to update enrollment after reply: ${error.message}`);
+    }
+
+    return replyAction === 'stop' ? 'stopped' : 'paused';
+  }
+
+  /**
+   * Log an inbound message as unmatched. Returns null when the message id was already logged.
+   */
+  private static async logInbound(email: InboundEmail): Promise<string | null> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('sequence_inbound_messages')
+      .insert({
+        message_id: email.messageId,
+        in_reply_to: email.inReplyTo,
+        reference_ids: email.references,
+        from_email: email.from,
+        subject: email.subject,
+        source: email.source,
+        received_at: email.receivedAt || new Date().toISOString(),
+        status: 'unmatched',
+        headers: email.headers,
+      })
+      .select('id')
+      .single();
+
+    if (error?.code === '23505') {
+      return null;
+    }
+    if (error) {
+      throw new Error(`Failed to log inbound message: ${error.message}`);
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Record the reply event and, the first time the send is replied to, its replied_at and the
+   * enrollment's reply count. Each step is safe to repeat when a failed match is retried.
+   */
+  private static async recordReply(
+    execution: MatchedExecution,
+    messageId: string,
+    repliedAt: string
+  ): Promise<void> {
+    const supabase = createAdminClient();
+
+    const { error: eventError } = await supabase.from('sequence_email_events').insert({
+      execution_id: execution.id,
+      enrollment_id: execution.enrollment.id,
+      event_type: 'reply',
+      occurred_at: repliedAt,
+      inbound_message_id: messageId,
+    });
+
+    // A unique violation means this message's event was written by an earlier attempt
+    if (eventError && eventError.code !== '23505') {
+      throw new Error(`Failed to record reply event: ${eventError.message}`);
+    }
+
+    const { data: firstReply, error: updateError } = await supabase
+      .from('sequence_step_executions')
+      .update({ replied_at: repliedAt })
+      .eq('id', execution.id)
+      .is('replied_at', null)
+      .select('id');
+
+    if (updateError) {
+      throw new Error(`Failed to mark execution ${execution.id} replied: ${updateError.message}`);
+    }
+
+    // Later replies to the same send are logged but counted once
+    if (!firstReply || firstReply.length === 0) {
+      return;
+    }
+
+    const { error: metricError } = await supabase.rpc('increment_enrollment_metric', {
+      p_enrollment_id: execution.enrollment.id,
+      p_metric: 'replies_received',
+    });
+
+    if (metricError) {
+      throw new Error(`Failed to count reply for enrollment ${execution.enrollment.id}: ${metricError.message}`);
+    }
+  }
+
+  private static async updateInbound(
+    inboundId: string,
+    match: {
+      status: 'matched' | 'ignored';
+      executionId: string;
+      enrollmentId: string;
+      action: 'paused' | 'stopped' | 'none';
+    }
+  ): Promise<void> {
+    const supabase = createAdminClient();
+
+    const { error } = await supabase
+      .from('sequence_inbound_messages')
+      .update({
+        status: match.status,
+        execution_id: match.executionId,
+        enrollment_id: match.enrollmentId,
+        action_taken: match.action,
+      })
+      .eq('id', inboundId);
+
+    if (error) {
+      throw new Error(`Failed to record inbound match: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Sender Rotation Service
+ * Picks the verified sender for each sequence email and enforces daily send caps
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getRedisClient } from '@/lib/redis/client';
+import { StepExecutionError } from '@/lib/services/sequence-retry';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface SenderIdentity {
+  id: string | null; // null for the AWS_SES_FROM_EMAIL fallback
+  email: string;
+  fromName: string | null;
+  domainId: string | null;
+}
+
+export type SenderReservation =
+  | { reserved: true; sender: SenderIdentity; release: () => Promise<void> }
+  | { reserved: false; reason: string; retryAt: Date };
+
+export interface ReserveSenderParams {
+  organizationId: string;
+  templateId: string;
+  templateDailyLimit?: number;
+  preferredSenderId?: string | null; // sender the enrollment has already emailed from
+  senderIds?: string[]; // restricts rotation to these senders
+}
+
+interface CandidateSender {
+  id: string;
+  email: string;
+  from_name: string | null;
+  daily_limit: number;
+  domain: { id: string; daily_limit: number };
+}
+
+const TEMPLATE_LIMIT_REASON = 'Sequence daily limit reached';
+
+// Counters outlive the UTC day they count so late decrements never go negative on a fresh key
+const COUNTER_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class SenderRotationService {
+  /**
+   * Reserve one send for the enrollment's next email.
+   * An enrollment keeps the sender it started with; new enrollments go to the active sender
+   * with the most headroom today. When every candidate (or the template) is at its cap the
+   * caller gets the start of the next UTC day to defer to.
+   */
+  static async reserve(params: ReserveSenderParams): Promise<SenderReservation> {
+    const redis = getRedisClient();
+    const day = this.dayKey();
+    const templateKey = `sequence:sends:template:${params.templateId}:${day}`;
+
+    let candidates = await this.getCandidates(params.organizationId, params.senderIds);
+
+    if (candidates.length === 0) {
+      const fallbackEmail = process.env.AWS_SES_FROM_EMAIL;
+      if (!fallbackEmail) {
+        throw new StepExecutionError(
+          'No verified sender is configured for this organization',
+          'NO_SENDER',
+          false
+        );
+      }
+      return this.reserveKeys(
+        [[templateKey, params.templateDailyLimit]],
+        { id: null, email: fallbackEmail, fromName: null, domainId: null }
+      );
+    }
+
+    const preferred = candidates.find((sender) => sender.id === params.preferredSenderId);
+    if (preferred) {
+      candidates = [preferred];
+    }
+
+    const senderKeys = candidates.map((sender) => `sequence:sends:sender:${sender.id}:${day}`);
+    const domainKeys = candidates.map((sender) => `sequence:sends:domain:${sender.domain.id}:${day}`);
+    const counts = (await redis.mget(...senderKeys, ...domainKeys)).map((value) => Number(value) || 0);
+
+    // Least-used sender first, relative to its own cap
+    const order = candidates
+      .map((sender, index) => ({ sender, index, load: counts[index] / sender.daily_limit }))
+      .sort((a, b) => a.load - b.load);
+
+    for (const { sender, index } of order) {
+      if (counts[index] >= sender.daily_limit) continue;
+      if (counts[candidates.length + index] >= sender.domain.daily_limit) continue;
+
+      const reservation = await this.reserveKeys(
+        [
+          [templateKey, params.templateDailyLimit],
+          [senderKeys[index], sender.daily_limit],
+          [domainKeys[index], sender.domain.daily_limit],
+        ],
+        { id: sender.id, email: sender.email, fromName: sender.from_name, domainId: sender.domain.id }
+      );
+
+      // A template cap applies to every sender, so there is no point trying the rest
+      if (reservation.reserved || reservation.reason === TEMPLATE_LIMIT_REASON) {
+        return reservation;
+      }
+    }
+
+    return {
+      reserved: false,
+      reason: preferred
+        ? `Daily limit reached for sender ${preferred.email}`
+        : 'Daily limit reached for every active sender',
+      retryAt: this.nextDayStart(),
+    };
+  }
+
+  /**
+   * Sends counted today for each of the organization's senders
+   */
+  static async getUsage(organizationId: string): Promise<Record<string, number>> {
+    const senders = await this.getCandidates(organizationId);
+    if (senders.length === 0) return {};
+
+    const day = this.dayKey();
+    const counts = await getRedisClient().mget(
+      ...senders.map((sender) => `sequence:sends:sender:${sender.id}:${day}`)
+    );
+
+    return Object.fromEntries(senders.map((sender, index) => [sender.id, Number(counts[index]) || 0]));
+  }
+
+  /**
+   * Active senders on verified domains
+   */
+  private static async getCandidates(organizationId: string, senderIds?: string[]): Promise<CandidateSender[]> {
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from('email_senders')
+      .select('id, email, from_name, daily_limit, domain:email_domains!inner(id, daily_limit)')
+      .eq('organization_id', organizationId)
+      .eq('is_active', true)
+      .eq('domain.is_verified', true)
+      .order('is_default', { ascending: false })
+      .order('created_at');
+
+    if (senderIds?.length) {
+      query = query.in('id', senderIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load email senders: ${error.message}`);
+    }
+
+    return (data || []) as unknown as CandidateSender[];
+  }
+
+  /**
+   * Increment every counter together and roll all of them back if any went over its limit.
+   * Counters without a limit are still incremented so usage stays visible.
+   */
+  private static async reserveKeys(
+    limits: [string, number | undefined][],
+    sender: SenderIdentity
+  ): Promise<SenderReservation> {
+    const redis = getRedisClient();
+    const keys = limits.map(([key]) => key);
+
+    const increment = redis.multi();
+    for (const key of keys) {
+      increment.incr(key).expire(key, COUNTER_TTL_SECONDS);
+    }
+    const results = (await increment.exec()) || [];
+
+    const release = async () => {
+      const decrement = redis.multi();
+      for (const key of keys) decrement.decr(key);
+      await decrement.exec();
+    };
+
+    // Each key contributed an INCR and an EXPIRE reply
+    const exceeded = limits.findIndex(([, limit], index) => {
+      const [error, value] = results[index * 2] || [];
+      if (error) throw error;
+      return limit !== undefined && Number(value) > limit;
+    });
+
+    if (exceeded === -1) {
+      return { reserved: true, sender, release };
+    }
+
+    await release();
+    return {
+      reserved: false,
+      reason: exceeded === 0
+        ? TEMPLATE_LIMIT_REASON
+        : `Daily ${exceeded === 1 ? 'sender' : 'domain'} limit reached for ${sender.email}`,
+      retryAt: this.nextDayStart(),
+    };
+  }
+
+  private static dayKey(date = new Date()): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static nextDayStart(from = new Date()): Date {
+    return new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate() + 1));
+  }
+}
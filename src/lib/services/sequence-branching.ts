@@ -4,6 +4,7 @@
  */
 
 import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
 import { z } from 'zod';
 
 // ============================================
@@ -104,6 +105,13 @@ const ScoreConditionSchema = z.object({
   max_score: z.number().min(0).max(100).optional(),
 });
 
+// lead_scores.score_breakdown holds each component already multiplied by its weight in the
+// scoring model (AILeadScoringService); fit and engagement are rescaled to 0-100 by these weights
+const SCORE_TYPE_COMPONENTS: Record<'fit' | 'engagement', Record<string, number>> = {
+  fit: { firmographic: 0.25, technographic: 0.15 },
+  engagement: { behavioral: 0.30, engagement: 0.10 },
+};
+
 // ============================================
 // SEQUENCE BRANCHING SERVICE
 // ============================================
@@ -148,13 +156,14 @@ export class SequenceBranchingService {
   }
 
   /**
-   * Evaluate branches and determine next step
+   * Evaluate branches and determine next step.
+   * Runs from the sequence worker, so it reads with the admin client.
    */
   static async evaluateBranches(
     enrollmentId: string,
     currentStepId: string
   ): Promise<BranchingDecision> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     // Get enrollment and lead details
     const { data: enrollment, error: enrollmentError } = await supabase
@@ -206,7 +215,8 @@ export class SequenceBranchingService {
           branch.condition_type,
           branch.condition_config,
           enrollment,
-          enrollment.lead
+          enrollment.lead,
+          currentStepId
         );
 
         evaluation.matched = matched;
@@ -228,17 +238,16 @@ export class SequenceBranchingService {
       }
     }
 
-    // Log the branching decision
-    await supabase.from('branch_evaluation_logs').insert({
-      enrollment_id: enrollmentId,
-      step_id: currentStepId,
-      branches_evaluated: evaluations,
-      selected_branch_id: selectedBranch?.id,
-      selected_reason: selectedBranch
+    await this.logDecision(
+      enrollmentId,
+      currentStepId,
+      evaluations,
+      selectedBranch
         ? `Selected: ${selectedBranch.branch_name}`
         : 'No branch conditions matched',
-      lead_context: enrollment.lead,
-    });
+      enrollment.lead,
+      selectedBranch?.id
+    );
 
     // Update branch statistics
     if (selectedBranch) {
@@ -260,6 +269,33 @@ export class SequenceBranchingService {
     };
   }
 
+  /**
+   * Record a branching decision in branch_evaluation_logs
+   */
+  static async logDecision(
+    enrollmentId: string,
+    stepId: string,
+    evaluations: BranchEvaluation[],
+    reason: string,
+    leadContext?: Record<string, any> | null,
+    selectedBranchId?: string
+  ): Promise<void> {
+    const supabase = createAdminClient();
+
+    const { error } = await supabase.from('branch_evaluation_logs').insert({
+      enrollment_id: enrollmentId,
+      step_id: stepId,
+      branches_evaluated: evaluations,
+      selected_branch_id: selectedBranchId ?? null,
+      selected_reason: reason,
+      lead_context: leadContext ?? null,
+    });
+
+    if (error) {
+      console.error(`Failed to log branch decision for enrollment ${enrollmentId}:`, error);
+    }
+  }
+
   /**
    * Evaluate a single condition
    */
@@ -267,10 +303,9 @@ export class SequenceBranchingService {
     conditionType: ConditionType,
     conditionConfig: Record<string, any>,
     enrollment: any,
-    lead: any
+    lead: any,
+    currentStepId: string
   ): Promise<boolean> {
-    const supabase = await createClient();
-
     switch (conditionType) {
       case 'behavior':
         return this.evaluateBehaviorCondition(conditionConfig, lead.id);
@@ -282,13 +317,13 @@ export class SequenceBranchingService {
         return this.evaluateFieldCondition(conditionConfig, lead);
 
       case 'score':
-        return this.evaluateScoreCondition(conditionConfig, lead);
+        return this.evaluateScoreCondition(conditionConfig, lead.id, enrollment.organization_id);
 
       case 'time_elapsed':
         return this.evaluateTimeCondition(conditionConfig, enrollment);
 
       case 'previous_step':
-        return this.evaluatePreviousStepCondition(conditionConfig, enrollment.id);
+        return this.evaluatePreviousStepCondition(conditionConfig, enrollment.id, currentStepId);
 
       case 'default':
         return true; // Default branch always matches
@@ -309,7 +344,7 @@ export class SequenceBranchingService {
     config: Record<string, any>,
     leadId: string
   ): Promise<boolean> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
     const validated = BehaviorConditionSchema.parse(config);
 
     const since = new Date();
@@ -339,15 +374,17 @@ export class SequenceBranchingService {
     config: Record<string, any>,
     enrollmentId: string
   ): Promise<boolean> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
     const validated = EngagementConditionSchema.parse(config);
 
-    // Get recent email engagement
+    // Get recent email engagement from the enrollment's sent emails
     const { data: emails, error } = await supabase
-      .from('sequence_email_logs')
+      .from('sequence_step_executions')
       .select('opened_at, clicked_at, replied_at')
       .eq('enrollment_id', enrollmentId)
-      .order('sent_at', { ascending: false })
+      .eq('status', 'success')
+      .not('email_message_id', 'is', null)
+      .order('executed_at', { ascending: false })
       .limit(5); // Check last 5 emails
 
     if (error) throw error;
@@ -416,27 +453,37 @@ export class SequenceBranchingService {
   }
 
   /**
-   * Evaluate score-based conditions
+   * Evaluate score-based conditions against the lead's row in lead_scores. An unscored lead
+   * scores 0.
    */
-  private static evaluateScoreCondition(
+  private static async evaluateScoreCondition(
     config: Record<string, any>,
-    lead: any
-  ): boolean {
+    leadId: string,
+    orgId: string
+  ): Promise<boolean> {
+    const supabase = createAdminClient();
     const validated = ScoreConditionSchema.parse(config);
 
-    let score: number;
-    switch (validated.score_type) {
-      case 'fit':
-        score = lead.fit_score || 0;
-        break;
-      case 'engagement':
-        score = lead.engagement_score || 0;
-        break;
-      case 'combined':
-        score = ((lead.fit_score || 0) + (lead.engagement_score || 0)) / 2;
-        break;
-      default:
-        score = 0;
+    const { data: leadScore, error } = await supabase
+      .from('lead_scores')
+      .select('score, score_breakdown')
+      .eq('organization_id', orgId)
+      .eq('lead_id', leadId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load score for lead ${leadId}: ${error.message}`);
+    }
+
+    let score = 0;
+    if (leadScore && validated.score_type === 'combined') {
+      score = leadScore.score;
+    } else if (leadScore && validated.score_type !== 'combined') {
+      const breakdown: Record<string, unknown> = leadScore.score_breakdown || {};
+      const weights = SCORE_TYPE_COMPONENTS[validated.score_type];
+      const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+      const weighted = Object.keys(weights).reduce((sum, component) => sum + (Number(breakdown[component]) || 0), 0);
+      score = weighted / totalWeight;
     }
 
     if (score < validated.min_score) return false;
@@ -469,18 +516,21 @@ export class SequenceBranchingService {
    */
   private static async evaluatePreviousStepCondition(
     config: Record<string, any>,
-    enrollmentId: string
+    enrollmentId: string,
+    currentStepId: string
   ): Promise<boolean> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
-    // Get the last step execution
+    // Get the last completed step execution, ignoring the conditional step's own claim
     const { data: lastStep, error } = await supabase
       .from('sequence_step_executions')
       .select('*')
       .eq('enrollment_id', enrollmentId)
+      .eq('status', 'success')
+      .neq('step_id', currentStepId)
       .order('executed_at', { ascending: false })
       .limit(1)
-      .single();
+      .maybeSingle();
 
     if (error || !lastStep) return false;
 
@@ -3,24 +3,93 @@
  * Processes scheduled sequence steps and manages execution flow
  */
 
-import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { scheduleEnrollmentStep } from '@/lib/queue/sequence-queue';
+import { SequenceRetryService, StepDeferredError, StepExecutionError } from '@/lib/services/sequence-retry';
+import { SenderRotationService } from '@/lib/services/sender-rotation';
+import { SuppressionService } from '@/lib/services/suppression';
+import { TimezoneService } from '@/lib/services/timezone';
+import { SequenceBranchingService } from '@/lib/services/sequence-branching';
+import { EmailTemplateService } from '@/lib/services/email-templates';
+import { getCustomFieldValues } from '@/lib/services/custom-fields';
+import { buildTemplateContext, renderTemplate, TemplateRenderError } from '@/lib/email/template-engine';
+import { buildSequenceUnsubscribeUrl } from '@/lib/email/list-unsubscribe';
 import {
   SequenceEnrollment,
   SequenceStep,
   SequenceStepExecution,
   ExecutionStatus,
+  LinkedInStepConfig,
 } from '@/lib/types/sequences';
 
+const DUE_ENROLLMENT_SELECT = `
+  *,
+  template:sequence_templates!inner(
+    id,
+    name,
+    settings,
+    steps:sequence_steps(*)
+  ),
+  lead:sales_leads(
+    id,
+    email,
+    company,
+    linkedin_url,
+    phone,
+    timezone,
+    country,
+    name,
+    industry,
+    company_size,
+    apollo_data,
+    account:sales_accounts(name, domain, industry, size, location, website)
+  )
+`;
+
+// The embedded lead, plus the names attachLeadDetails splits out after loading
+interface DueLead {
+  id: string;
+  name?: string | null;
+  first_name?: string;
+  last_name?: string;
+}
+
+// Step types that hand work to a person or the Chrome extension and hold the enrollment until done
+const TASK_STEP_TYPES = new Set([
+  'manual_email',
+  'call',
+  'linkedin_connection',
+  'linkedin_message',
+  'linkedin_profile_view',
+  'linkedin_engagement',
+]);
+
+const LINKEDIN_ACTIONS: Record<string, LinkedInStepConfig['action_type']> = {
+  linkedin_connection: 'connect',
+  linkedin_message: 'message',
+  linkedin_profile_view: 'view_profile',
+  linkedin_engagement: 'like_post',
+};
+
+export type TaskStepResult = 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+// Where a conditional step sends the enrollment; linear progression when neither is set
+interface ConditionalRoute {
+  gotoStepNumber?: number;
+  endSequence?: boolean;
+}
+
 export class SequenceExecutor {
   /**
-   * Process all due sequence steps
-   * This should be called by a cron job or background worker
+   * Process all due sequence steps.
+   * Steps normally run from their own delayed `execute_step` job; this batch is the cron
+   * safety sweep, so `graceMs` leaves freshly due steps to those jobs.
    */
-  static async processScheduledSteps(): Promise<{
+  static async processScheduledSteps(options: { graceMs?: number } = {}): Promise<{
     processed: number;
     errors: string[];
   }> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
     const results = {
       processed: 0,
       errors: [] as string[],
@@ -30,25 +99,9 @@ export class SequenceExecutor {
       // Get all active enrollments with steps due for execution
       const { data: dueEnrollments, error } = await supabase
         .from('sequence_enrollments')
-        .select(`
-          *,
-          template:sequence_templates!inner(
-            id,
-            name,
-            settings,
-            steps:sequence_steps(*)
-          ),
-          lead:sales_leads(
-            id,
-            email,
-            first_name,
-            last_name,
-            company,
-            custom_fields
-          )
-        `)
+        .select(DUE_ENROLLMENT_SELECT)
         .eq('status', 'active')
-        .lte('next_step_scheduled_at', new Date().toISOString())
+        .lte('next_step_scheduled_at', new Date(Date.now() - (options.graceMs || 0)).toISOString())
         .order('next_step_scheduled_at', { ascending: true })
         .limit(50); // Process in batches
 
@@ -62,6 +115,8 @@ export class SequenceExecutor {
         return results;
       }
 
+      await this.attachLeadDetails(dueEnrollments);
+
       // Process each enrollment
       for (const enrollment of dueEnrollments) {
         try {
@@ -80,11 +135,79 @@ export class SequenceExecutor {
     return results;
   }
 
+  /**
+   * Run one enrollment's next step from its delayed job.
+   * Returns false when the job is stale: the enrollment is no longer active or was
+   * rescheduled after the job was queued (the job for the new time takes over).
+   */
+  static async executeStep(enrollmentId: string, scheduledFor?: string): Promise<boolean> {
+    const enrollment = await this.loadEnrollment(enrollmentId);
+
+    if (!enrollment || enrollment.status !== 'active' || !enrollment.next_step_scheduled_at) {
+      return false;
+    }
+
+    const scheduledAt = new Date(enrollment.next_step_scheduled_at).getTime();
+    if (scheduledFor && new Date(scheduledFor).getTime() !== scheduledAt) {
+      return false;
+    }
+    if (scheduledAt > Date.now()) {
+      return false;
+    }
+
+    await this.processEnrollmentStep(enrollment);
+    return true;
+  }
+
+  /**
+   * Load an enrollment with its template, steps and lead
+   */
+  private static async loadEnrollment(enrollmentId: string) {
+    const supabase = createAdminClient();
+
+    const { data: enrollment, error } = await supabase
+      .from('sequence_enrollments')
+      .select(DUE_ENROLLMENT_SELECT)
+      .eq('id', enrollmentId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load enrollment ${enrollmentId}: ${error.message}`);
+    }
+
+    if (enrollment) {
+      await this.attachLeadDetails([enrollment]);
+    }
+
+    return enrollment;
+  }
+
+  /**
+   * Fill in what the select cannot embed: first and last name split from `name`, and the
+   * lead's custom field values keyed by field key on `enrollment.custom_fields`
+   */
+  private static async attachLeadDetails(
+    enrollments: Array<{ lead?: DueLead | null; custom_fields?: Record<string, unknown> }>
+  ): Promise<void> {
+    const leadIds = enrollments.flatMap((enrollment) => (enrollment.lead ? [enrollment.lead.id] : []));
+    const customFields = await getCustomFieldValues('sales_leads', leadIds);
+
+    for (const enrollment of enrollments) {
+      const lead = enrollment.lead;
+      if (!lead) continue;
+
+      const [firstName, ...restOfName] = (lead.name || '').trim().split(/\s+/);
+      lead.first_name = firstName;
+      lead.last_name = restOfName.join(' ');
+      enrollment.custom_fields = customFields[lead.id] || {};
+    }
+  }
+
   /**
    * Process a single enrollment's next step
    */
   private static async processEnrollmentStep(enrollment: any): Promise<void> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     // Get the next step to execute
     const nextStepNumber = enrollment.current_step + 1;
@@ -105,22 +228,31 @@ export class SequenceExecutor {
       return;
     }
 
+    // Still waiting on a LinkedIn or CRM task; completeTaskStep advances the enrollment
+    if (enrollment.awaiting_execution_id) {
+      return;
+    }
+
     // Check for pause conditions
     if (await this.shouldPauseEnrollment(enrollment, nextStep)) {
       return;
     }
 
+    // Claim the step before running it; an overlapping job for the same schedule stops here
+    const claim = await this.claimStepExecution(enrollment, nextStep);
+    if (!claim) {
+      return;
+    }
+    const { executionId, attempt } = claim;
+
     // Execute the step based on type
-    let execution: Partial<SequenceStepExecution> = {
-      enrollment_id: enrollment.id,
-      step_id: nextStep.id,
-      status: 'pending' as ExecutionStatus,
-    };
+    let execution: Partial<SequenceStepExecution> = {};
+    let route: ConditionalRoute = {};
 
     try {
       switch (nextStep.step_type) {
         case 'email':
-          execution = await this.executeEmailStep(enrollment, nextStep);
+          execution = await this.executeEmailStep(enrollment, nextStep, executionId);
           break;
         case 'task':
           execution = await this.executeTaskStep(enrollment, nextStep);
@@ -129,42 +261,231 @@ export class SequenceExecutor {
           execution = await this.executeWaitStep(enrollment, nextStep);
           break;
         case 'conditional':
-          execution = await this.executeConditionalStep(enrollment, nextStep);
+          ({ execution, route } = await this.executeConditionalStep(enrollment, nextStep));
           break;
         case 'webhook':
           execution = await this.executeWebhookStep(enrollment, nextStep);
           break;
+        case 'linkedin_connection':
+        case 'linkedin_message':
+        case 'linkedin_profile_view':
+        case 'linkedin_engagement':
+          execution = await this.executeLinkedInStep(enrollment, nextStep);
+          break;
+        case 'call':
+        case 'manual_email':
+          execution = await this.executeManualStep(enrollment, nextStep);
+          break;
         default:
-          throw new Error(`Unknown step type: ${nextStep.step_type}`);
+          throw new StepExecutionError(`Unknown step type: ${nextStep.step_type}`, 'UNSUPPORTED_STEP', false);
+      }
+
+      // Task steps stay pending until the rep or extension reports back via completeTaskStep
+      if (TASK_STEP_TYPES.has(nextStep.step_type) && (execution.task_id || execution.linkedin_task_id)) {
+        await supabase
+          .from('sequence_step_executions')
+          .update(execution)
+          .eq('id', executionId);
+
+        await supabase
+          .from('sequence_enrollments')
+          .update({
+            awaiting_execution_id: executionId,
+            next_step_scheduled_at: null,
+          })
+          .eq('id', enrollment.id);
+        return;
       }
 
       // Record successful execution
       await supabase
         .from('sequence_step_executions')
-        .insert({
+        .update({
           ...execution,
-          status: 'success',
-        });
+          status: 'success' as ExecutionStatus,
+        })
+        .eq('id', executionId);
+
+      if (route.endSequence) {
+        await this.updateEnrollmentProgress(enrollment.id, nextStepNumber);
+        await supabase
+          .from('sequence_enrollments')
+          .update({
+            status: 'completed',
+            completed_at: new Date().toISOString(),
+            next_step_scheduled_at: null,
+          })
+          .eq('id', enrollment.id)
+          .eq('status', 'active');
+        return;
+      }
+
+      // A branch jump continues as if the step before its target had just completed
+      const progressStep = route.gotoStepNumber ? route.gotoStepNumber - 1 : nextStepNumber;
 
       // Update enrollment progress
-      await this.updateEnrollmentProgress(enrollment.id, nextStepNumber);
+      await this.updateEnrollmentProgress(enrollment.id, progressStep);
 
       // Schedule next step
-      await this.scheduleNextStep(enrollment.id, nextStepNumber, enrollment.template);
+      await this.scheduleNextStep(enrollment, progressStep);
 
-    } catch (error: any) {
-      // Record failed execution
-      await supabase
-        .from('sequence_step_executions')
-        .insert({
-          ...execution,
-          status: 'failed',
-          error_message: error.message,
-        });
+    } catch (error) {
+      if (error instanceof StepDeferredError) {
+        await this.deferStep(enrollment, nextStep, executionId, error);
+        return;
+      }
+      await this.handleStepFailure(enrollment, nextStep, executionId, attempt, execution, error);
+    }
+  }
 
-      // Retry logic could be added here
-      throw error;
+  /**
+   * Release the claim as skipped and move the step to the time it may run.
+   * The new schedule gets its own idempotency key, so the step runs again from attempt 1.
+   */
+  private static async deferStep(
+    enrollment: any,
+    step: SequenceStep,
+    executionId: string,
+    deferral: StepDeferredError
+  ): Promise<void> {
+    const supabase = createAdminClient();
+
+    await supabase
+      .from('sequence_step_executions')
+      .update({
+        status: 'skipped' as ExecutionStatus,
+        error_code: 'DEFERRED',
+        error_message: deferral.message,
+        execution_metadata: { deferred_until: deferral.until.toISOString() },
+      })
+      .eq('id', executionId);
+
+    // Land the deferred step back inside the recipient's window rather than at the cap reset
+    const scheduledFor = await TimezoneService.getStepSendTime({
+      earliest: deferral.until,
+      step,
+      settings: enrollment.template?.settings,
+      lead: enrollment.lead,
+      organizationId: enrollment.organization_id,
+    });
+
+    await this.setNextStepSchedule(enrollment.id, scheduledFor);
+  }
+
+  /**
+   * Record a failed attempt, then either schedule a retry with backoff or dead-letter the
+   * enrollment once the failure is permanent or the step's attempts are used up
+   */
+  private static async handleStepFailure(
+    enrollment: any,
+    step: SequenceStep,
+    executionId: string,
+    attempt: number,
+    execution: Partial<SequenceStepExecution>,
+    error: unknown
+  ): Promise<void> {
+    const supabase = createAdminClient();
+    const failure = SequenceRetryService.classify(error);
+    const policy = SequenceRetryService.getPolicy(step.step_type, enrollment.template?.settings);
+    const retryAt = failure.retryable && attempt < policy.maxAttempts
+      ? SequenceRetryService.nextAttemptAt(policy, attempt)
+      : null;
+
+    await supabase
+      .from('sequence_step_executions')
+      .update({
+        ...execution,
+        status: 'failed' as ExecutionStatus,
+        error_message: failure.message,
+        error_code: failure.code,
+        next_retry_at: retryAt?.toISOString() ?? null,
+      })
+      .eq('id', executionId);
+
+    if (retryAt) {
+      console.warn(
+        `Step ${step.step_number} of enrollment ${enrollment.id} failed (attempt ${attempt}/${policy.maxAttempts}), retrying at ${retryAt.toISOString()}: ${failure.message}`
+      );
+      try {
+        await scheduleEnrollmentStep(enrollment.id, new Date(enrollment.next_step_scheduled_at), retryAt);
+      } catch (queueError) {
+        console.error(`Error queueing retry for enrollment ${enrollment.id}:`, queueError);
+      }
+      return;
     }
+
+    const reason = failure.retryable
+      ? `Step ${step.step_number} (${step.step_type}) failed after ${attempt} attempts: ${failure.message}`
+      : `Step ${step.step_number} (${step.step_type}) failed permanently [${failure.code}]: ${failure.message}`;
+
+    console.error(`Enrollment ${enrollment.id} dead-lettered: ${reason}`);
+
+    await supabase
+      .from('sequence_enrollments')
+      .update({
+        status: 'failed',
+        failed_at: new Date().toISOString(),
+        failed_reason: reason,
+        next_step_scheduled_at: null,
+      })
+      .eq('id', enrollment.id)
+      .eq('status', 'active');
+  }
+
+  /**
+   * Insert the pending execution row for this scheduled step, keyed by enrollment, step and
+   * schedule. Returns null when another run already claimed it. Only a failed claim whose
+   * backoff has elapsed is taken again, since a pending or successful one may already have sent.
+   */
+  private static async claimStepExecution(
+    enrollment: any,
+    step: SequenceStep
+  ): Promise<{ executionId: string; attempt: number } | null> {
+    const supabase = createAdminClient();
+    const idempotencyKey = [
+      enrollment.id,
+      step.id,
+      new Date(enrollment.next_step_scheduled_at || Date.now()).getTime(),
+    ].join(':');
+
+    const { data: claimed, error } = await supabase
+      .from('sequence_step_executions')
+      .insert({
+        enrollment_id: enrollment.id,
+        step_id: step.id,
+        status: 'pending',
+        idempotency_key: idempotencyKey,
+      })
+      .select('id')
+      .single();
+
+    if (!error) return { executionId: claimed.id, attempt: 1 };
+    if (error.code !== '23505') throw error;
+
+    const { data: existing } = await supabase
+      .from('sequence_step_executions')
+      .select('id, status, retry_count, next_retry_at')
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle();
+
+    if (!existing || existing.status !== 'failed' || !existing.next_retry_at) return null;
+    if (new Date(existing.next_retry_at).getTime() > Date.now()) return null;
+
+    const retryCount = (existing.retry_count || 0) + 1;
+    const { data: retried } = await supabase
+      .from('sequence_step_executions')
+      .update({
+        status: 'pending',
+        error_message: null,
+        error_code: null,
+        next_retry_at: null,
+        retry_count: retryCount,
+      })
+      .eq('id', existing.id)
+      .eq('status', 'failed')
+      .select('id');
+
+    return retried?.length ? { executionId: existing.id, attempt: retryCount + 1 } : null;
   }
 
   /**
@@ -174,31 +495,68 @@ export class SequenceExecutor {
     enrollment: any,
     nextStep: SequenceStep
   ): Promise<boolean> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
     const settings = enrollment.template?.settings;
 
-    // Check for replies if pauseOnReply is enabled
+    // Check for replies if pauseOnReply is enabled. Replies are normally handled as they
+    // arrive by ReplyDetectionService; this catches any that landed mid-batch.
     if (settings?.pauseOnReply && enrollment.replies_received > 0) {
-      await supabase
-        .from('sequence_enrollments')
-        .update({
-          status: 'paused',
-          paused_at: new Date().toISOString(),
-          paused_reason: 'Lead replied to sequence',
-        })
-        .eq('id', enrollment.id);
-      return true;
+      let repliesQuery = supabase
+        .from('sequence_email_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('enrollment_id', enrollment.id)
+        .eq('event_type', 'reply');
+
+      // Replies before a manual resume have already been handled by a rep
+      if (enrollment.resumed_at) {
+        repliesQuery = repliesQuery.gt('occurred_at', enrollment.resumed_at);
+      }
+
+      const { count: unhandledReplies } = await repliesQuery;
+
+      if (unhandledReplies) {
+        const now = new Date().toISOString();
+        await supabase
+          .from('sequence_enrollments')
+          .update(
+            settings.replyAction === 'stop'
+              ? {
+                  status: 'stopped',
+                  stopped_at: now,
+                  stopped_reason: 'Lead replied to sequence',
+                  next_step_scheduled_at: null,
+                }
+              : {
+                  status: 'paused',
+                  paused_at: now,
+                  paused_reason: 'Lead replied to sequence',
+                }
+          )
+          .eq('id', enrollment.id);
+        return true;
+      }
     }
 
-    // Check for meetings if pauseOnMeeting is enabled
-    if (settings?.pauseOnMeeting && enrollment.meetings_booked > 0) {
+    // Check for meetings if pauseOnMeeting is enabled. Bookings halt enrollments as they
+    // land, so a manually resumed enrollment is left running.
+    if (settings?.pauseOnMeeting && enrollment.meetings_booked > 0 && !enrollment.resumed_at) {
+      const now = new Date().toISOString();
       await supabase
         .from('sequence_enrollments')
-        .update({
-          status: 'paused',
-          paused_at: new Date().toISOString(),
-          paused_reason: 'Meeting booked with lead',
-        })
+        .update(
+          settings.meetingAction === 'stop'
+            ? {
+                status: 'stopped',
+                stopped_at: now,
+                stopped_reason: 'Meeting booked with lead',
+                next_step_scheduled_at: null,
+              }
+            : {
+                status: 'paused',
+                paused_at: now,
+                paused_reason: 'Meeting booked with lead',
+              }
+        )
         .eq('id', enrollment.id);
       return true;
     }
@@ -218,12 +576,7 @@ export class SequenceExecutor {
         tomorrow.setDate(tomorrow.getDate() + 1);
         tomorrow.setHours(9, 0, 0, 0);
 
-        await supabase
-          .from('sequence_enrollments')
-          .update({
-            next_step_scheduled_at: tomorrow.toISOString(),
-          })
-          .eq('id', enrollment.id);
+        await this.setNextStepSchedule(enrollment.id, tomorrow);
         return true;
       }
     }
@@ -236,56 +589,81 @@ export class SequenceExecutor {
    */
   private static async executeEmailStep(
     enrollment: any,
-    step: SequenceStep
+    step: SequenceStep,
+    executionId: string
   ): Promise<Partial<SequenceStepExecution>> {
     // Import email sender (dynamic import to avoid circular dependencies)
     const { sendSequenceEmail, htmlToText } = await import('@/lib/email/sequence-email-sender');
 
-    // Replace variables in email content
-    const personalizedSubject = this.replaceVariables(
-      step.email_subject || '',
-      enrollment.lead
-    );
-    const personalizedBodyHtml = this.replaceVariables(
-      step.email_body || '',
-      enrollment.lead
+    // No email goes out without a working unsubscribe link
+    const unsubscribeToken = await SuppressionService.getOrCreateUnsubscribeToken(
+      enrollment.lead_id,
+      enrollment.lead.email,
+      enrollment.organization_id
     );
 
+    // Reserve today's send against the sender, domain and sequence caps
+    const reservation = await SenderRotationService.reserve({
+      organizationId: enrollment.organization_id,
+      templateId: enrollment.template_id,
+      templateDailyLimit: enrollment.template?.settings?.dailyLimit,
+      preferredSenderId: enrollment.sender_id,
+      senderIds: enrollment.template?.settings?.senderIds,
+    });
+
+    if (!reservation.reserved) {
+      throw new StepDeferredError(reservation.reason, reservation.retryAt);
+    }
+    const { sender } = reservation;
+
+    // Render once the sender is known so {{sender.name}} resolves
+    let personalizedSubject: string;
+    let personalizedBodyHtml: string;
+    try {
+      const strict = Boolean(enrollment.template?.settings?.strictVariables);
+      const senderContext = { strict, sender };
+
+      if (step.email_template_id) {
+        const content = await this.renderEmailTemplate(enrollment, step, senderContext);
+        personalizedSubject = content.subject;
+        personalizedBodyHtml = content.html;
+      } else {
+        personalizedSubject = this.renderText(step.email_subject || '', enrollment, senderContext);
+        personalizedBodyHtml = this.renderText(step.email_body || '', enrollment, { ...senderContext, escapeHtml: true });
+      }
+    } catch (error) {
+      await reservation.release();
+      throw error;
+    }
+
     // Convert HTML to plain text for multipart email
     const personalizedBodyText = htmlToText(personalizedBodyHtml);
 
-    // Get sender email (from env or organization settings)
-    const fromEmail = process.env.AWS_SES_FROM_EMAIL || 'noreply@example.com';
-    const fromName = step.email_from_name || 'Your Company';
-
-    // Create a new execution record first to get the ID for tracking
-    const supabase = await createClient();
-    const { data: execution } = await supabase
-      .from('sequence_step_executions')
-      .insert({
-        enrollment_id: enrollment.id,
-        step_id: step.id,
-        status: 'pending',
-      })
-      .select()
-      .single();
+    const supabase = createAdminClient();
 
     // Send the email
     const result = await sendSequenceEmail({
       to: enrollment.lead.email,
-      from: fromEmail,
-      fromName: fromName,
+      from: sender.email,
+      fromName: step.email_from_name || sender.fromName || undefined,
       replyTo: step.email_reply_to || undefined,
       subject: personalizedSubject,
       bodyHtml: personalizedBodyHtml,
       bodyText: personalizedBodyText,
       enrollmentId: enrollment.id,
       stepId: step.id,
-      executionId: execution?.id,
+      executionId,
+      unsubscribeUrl: buildSequenceUnsubscribeUrl(unsubscribeToken),
     });
 
     if (!result.success) {
-      throw new Error(result.error || 'Failed to send email');
+      // Nothing went out, so the send does not count against today's caps
+      await reservation.release();
+      throw new StepExecutionError(
+        result.error || 'Failed to send email',
+        result.errorCode || 'SEND_FAILED',
+        result.retryable
+      );
     }
 
     // Update enrollment metrics
@@ -293,14 +671,17 @@ export class SequenceExecutor {
       .from('sequence_enrollments')
       .update({
         emails_sent: enrollment.emails_sent + 1,
+        sender_id: sender.id ?? enrollment.sender_id ?? null,
       })
       .eq('id', enrollment.id);
 
     return {
       enrollment_id: enrollment.id,
       step_id: step.id,
+      sender_id: sender.id,
       email_provider: 'ses',
       email_message_id: result.messageId,
+      sent_at: new Date().toISOString(),
     };
   }
 
@@ -311,7 +692,7 @@ export class SequenceExecutor {
     enrollment: any,
     step: SequenceStep
   ): Promise<Partial<SequenceStepExecution>> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     // Create task in CRM
     const dueDate = new Date();
@@ -321,8 +702,8 @@ export class SequenceExecutor {
       .from('crm_tasks')
       .insert({
         lead_id: enrollment.lead_id,
-        title: this.replaceVariables(step.task_title || '', enrollment.lead),
-        description: this.replaceVariables(step.task_description || '', enrollment.lead),
+        title: this.renderText(step.task_title || '', enrollment),
+        description: this.renderText(step.task_description || '', enrollment),
         priority: step.task_priority || 'medium',
         status: 'pending',
         due_date: dueDate.toISOString(),
@@ -340,6 +721,222 @@ export class SequenceExecutor {
     };
   }
 
+  /**
+   * Execute a LinkedIn step by queueing a task for the Chrome extension.
+   * A connection request to someone already connected needs no task and completes straight away.
+   */
+  private static async executeLinkedInStep(
+    enrollment: any,
+    step: SequenceStep
+  ): Promise<Partial<SequenceStepExecution>> {
+    const supabase = createAdminClient();
+
+    const { data: linkedinStep } = await supabase
+      .from('sequence_linkedin_steps')
+      .select('*')
+      .eq('sequence_step_id', step.id)
+      .maybeSingle();
+
+    const config: Partial<LinkedInStepConfig> = linkedinStep || step.linkedin_config || {};
+    const actionType = config.action_type || LINKEDIN_ACTIONS[step.step_type];
+    const profileUrl = enrollment.lead?.linkedin_url;
+
+    if (!profileUrl && actionType !== 'like_post') {
+      throw new StepExecutionError('Lead has no LinkedIn profile URL', 'MISSING_LINKEDIN_URL', false);
+    }
+
+    if (actionType === 'connect' && config.skip_if_connected !== false && profileUrl) {
+      const { data: profile } = await supabase
+        .from('linkedin_profiles')
+        .select('is_connected')
+        .eq('profile_url', profileUrl)
+        .maybeSingle();
+
+      if (profile?.is_connected) {
+        return {
+          enrollment_id: enrollment.id,
+          step_id: step.id,
+          outcome: 'already_connected',
+        };
+      }
+    }
+
+    const automationMode = config.automation_mode || 'semi_auto';
+
+    const { data: task, error } = await supabase
+      .from('linkedin_tasks')
+      .insert({
+        organization_id: enrollment.organization_id,
+        lead_id: enrollment.lead_id,
+        enrollment_id: enrollment.id,
+        sequence_step_id: step.id,
+        action_type: actionType,
+        profile_url: profileUrl,
+        connection_note: actionType === 'connect'
+          ? this.renderText(config.connection_note_template || '', enrollment) || null
+          : null,
+        message_content: actionType === 'message'
+          ? this.renderText(config.message_template || '', enrollment) || null
+          : null,
+        comment_text: actionType === 'comment' && config.comment_templates?.length
+          ? this.renderText(config.comment_templates[0], enrollment)
+          : null,
+        automation_mode: automationMode,
+        review_required: automationMode !== 'full_auto',
+        status: 'pending',
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    return {
+      enrollment_id: enrollment.id,
+      step_id: step.id,
+      linkedin_task_id: task.id,
+    };
+  }
+
+  /**
+   * Execute a call or manual email step by creating a CRM task for the rep.
+   * Call tasks carry the personalized script and the outcomes the rep can report.
+   */
+  private static async executeManualStep(
+    enrollment: any,
+    step: SequenceStep
+  ): Promise<Partial<SequenceStepExecution>> {
+    const supabase = createAdminClient();
+    const leadName = [enrollment.lead?.first_name, enrollment.lead?.last_name].filter(Boolean).join(' ')
+      || enrollment.lead?.email
+      || 'lead';
+
+    let title: string;
+    let description: string;
+
+    if (step.step_type === 'call') {
+      const script = this.renderText(step.call_config?.script_template || step.task_description || '', enrollment);
+      const outcomes = step.call_config?.outcome_options || [];
+
+      title = this.renderText(step.task_title || '', enrollment) || `Call ${leadName}`;
+      description = [
+        script,
+        outcomes.length ? `Outcomes: ${outcomes.join(', ')}` : '',
+      ].filter(Boolean).join('\n\n');
+    } else {
+      title = this.renderText(step.task_title || '', enrollment) || `Email ${leadName}`;
+      description = [
+        step.email_subject ? `Subject: ${this.renderText(step.email_subject, enrollment)}` : '',
+        this.renderText(step.email_body || step.task_description || '', enrollment),
+      ].filter(Boolean).join('\n\n');
+    }
+
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + (step.task_due_days || 1));
+
+    const { data: task, error } = await supabase
+      .from('crm_tasks')
+      .insert({
+        organization_id: enrollment.organization_id,
+        lead_id: enrollment.lead_id,
+        title,
+        description,
+        priority: step.task_priority || 'medium',
+        status: 'pending',
+        due_date: dueDate.toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    return {
+      enrollment_id: enrollment.id,
+      step_id: step.id,
+      task_id: task.id,
+    };
+  }
+
+  /**
+   * Record the outcome of a LinkedIn or CRM task created by a sequence step and move the
+   * enrollment on. Tasks that did not happen (failed, skipped, cancelled) still advance the
+   * sequence so one unreachable profile does not stall it. Returns false when the task does
+   * not belong to a waiting step.
+   */
+  static async completeTaskStep(
+    task: { linkedinTaskId?: string; crmTaskId?: string },
+    result: TaskStepResult,
+    outcome?: string | null
+  ): Promise<boolean> {
+    const supabase = createAdminClient();
+
+    let query = supabase
+      .from('sequence_step_executions')
+      .select('id, enrollment_id, step:sequence_steps(step_number)')
+      .eq('status', 'pending');
+
+    if (task.linkedinTaskId) {
+      query = query.eq('linkedin_task_id', task.linkedinTaskId);
+    } else if (task.crmTaskId) {
+      query = query.eq('task_id', task.crmTaskId);
+    } else {
+      return false;
+    }
+
+    const { data: execution, error: executionError } = await query.maybeSingle();
+    if (executionError) {
+      throw new Error(`Failed to load task step execution: ${executionError.message}`);
+    }
+    if (!execution) return false;
+
+    // Load before marking the step done, so a failed load leaves the task reportable again
+    const enrollment = await this.loadEnrollment(execution.enrollment_id);
+
+    const { data: updated, error: updateError } = await supabase
+      .from('sequence_step_executions')
+      .update({
+        status: (result === 'completed' ? 'success' : 'skipped') as ExecutionStatus,
+        outcome: outcome || result,
+      })
+      .eq('id', execution.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (updateError) {
+      throw new Error(`Failed to complete task step execution: ${updateError.message}`);
+    }
+
+    // Another report for the same task got here first
+    if (!updated?.length) return false;
+
+    if (!enrollment || enrollment.awaiting_execution_id !== execution.id) return true;
+
+    const stepNumber = (execution.step as unknown as { step_number: number } | null)?.step_number
+      ?? enrollment.current_step + 1;
+
+    const { error: releaseError } = await supabase
+      .from('sequence_enrollments')
+      .update({ awaiting_execution_id: null })
+      .eq('id', enrollment.id);
+
+    if (releaseError) {
+      // Put the step back to pending so the task can be reported again
+      await supabase
+        .from('sequence_step_executions')
+        .update({ status: 'pending' as ExecutionStatus, outcome: null })
+        .eq('id', execution.id);
+      throw new Error(`Failed to release enrollment ${enrollment.id}: ${releaseError.message}`);
+    }
+
+    await this.updateEnrollmentProgress(enrollment.id, stepNumber);
+
+    // A paused or stopped enrollment keeps the progress; resuming schedules from here
+    if (enrollment.status === 'active') {
+      await this.scheduleNextStep(enrollment, stepNumber);
+    }
+
+    return true;
+  }
+
   /**
    * Execute a wait step (basically does nothing except progress)
    */
@@ -355,18 +952,52 @@ export class SequenceExecutor {
   }
 
   /**
-   * Execute a conditional step
+   * Execute a conditional step.
+   * Branches from the visual builder are evaluated by the branching service; steps without
+   * branches fall back to the inline `conditions` (opened, clicked, replied, not replied).
    */
   private static async executeConditionalStep(
     enrollment: any,
     step: SequenceStep
-  ): Promise<Partial<SequenceStepExecution>> {
+  ): Promise<{ execution: Partial<SequenceStepExecution>; route: ConditionalRoute }> {
+    const decision = await SequenceBranchingService.evaluateBranches(enrollment.id, step.id);
+
+    if (decision.evaluations.length > 0) {
+      const branch = decision.selected_branch;
+      const target = branch?.next_step_id
+        ? enrollment.template?.steps?.find((s: SequenceStep) => s.id === branch.next_step_id)
+        : undefined;
+
+      if (branch?.next_step_id && !target) {
+        console.warn(
+          `Branch ${branch.id} targets step ${branch.next_step_id} which is not in the sequence; continuing linearly`
+        );
+      }
+
+      return {
+        execution: {
+          enrollment_id: enrollment.id,
+          step_id: step.id,
+          execution_metadata: {
+            branch_id: branch?.id ?? null,
+            branch_name: branch?.branch_name ?? null,
+            next_step_number: target?.step_number ?? null,
+            decision_reason: decision.decision_reason,
+          },
+        },
+        route: target ? { gotoStepNumber: target.step_number } : {},
+      };
+    }
+
     const conditions = step.conditions;
 
     if (!conditions) {
       return {
-        enrollment_id: enrollment.id,
-        step_id: step.id,
+        execution: {
+          enrollment_id: enrollment.id,
+          step_id: step.id,
+        },
+        route: {},
       };
     }
 
@@ -388,32 +1019,27 @@ export class SequenceExecutor {
         break;
     }
 
-    // Handle branching logic
-    if (conditionMet && conditions.goto_step) {
-      // Jump to specific step
-      const supabase = await createClient();
-      await supabase
-        .from('sequence_enrollments')
-        .update({
-          current_step: conditions.goto_step - 1, // Will be incremented
-        })
-        .eq('id', enrollment.id);
-    } else if (!conditionMet && conditions.skip_to_end) {
-      // End sequence
-      const supabase = await createClient();
-      await supabase
-        .from('sequence_enrollments')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-        })
-        .eq('id', enrollment.id);
-    }
+    const route: ConditionalRoute = conditionMet && conditions.goto_step
+      ? { gotoStepNumber: conditions.goto_step }
+      : !conditionMet && conditions.skip_to_end
+        ? { endSequence: true }
+        : {};
+
+    const reason = route.gotoStepNumber
+      ? `Condition ${conditions.type} met, jumping to step ${route.gotoStepNumber}`
+      : route.endSequence
+        ? `Condition ${conditions.type} not met, ending sequence`
+        : `Condition ${conditions.type} ${conditionMet ? 'met' : 'not met'}, continuing`;
+
+    await SequenceBranchingService.logDecision(enrollment.id, step.id, [], reason, enrollment);
 
     return {
-      enrollment_id: enrollment.id,
-      step_id: step.id,
-      execution_metadata: { condition_met: conditionMet },
+      execution: {
+        enrollment_id: enrollment.id,
+        step_id: step.id,
+        execution_metadata: { condition_met: conditionMet, decision_reason: reason },
+      },
+      route,
     };
   }
 
@@ -425,7 +1051,7 @@ export class SequenceExecutor {
     step: SequenceStep
   ): Promise<Partial<SequenceStepExecution>> {
     if (!step.webhook_url) {
-      throw new Error('Webhook URL is required');
+      throw new StepExecutionError('Webhook URL is required', 'INVALID_CONFIG', false);
     }
 
     // Prepare webhook payload
@@ -446,6 +1072,16 @@ export class SequenceExecutor {
       body: JSON.stringify(payload),
     });
 
+    // 408, 429 and 5xx are worth another attempt; other 4xx will not change on retry
+    if (!response.ok) {
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+      throw new StepExecutionError(
+        `Webhook returned ${response.status}`,
+        `HTTP_${response.status}`,
+        retryable
+      );
+    }
+
     return {
       enrollment_id: enrollment.id,
       step_id: step.id,
@@ -461,7 +1097,7 @@ export class SequenceExecutor {
     enrollmentId: string,
     completedStep: number
   ): Promise<void> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     await supabase
       .from('sequence_enrollments')
@@ -476,11 +1112,12 @@ export class SequenceExecutor {
    * Schedule the next step execution
    */
   private static async scheduleNextStep(
-    enrollmentId: string,
-    currentStep: number,
-    template: any
+    enrollment: any,
+    currentStep: number
   ): Promise<void> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
+    const enrollmentId = enrollment.id;
+    const template = enrollment.template;
 
     const nextStepNumber = currentStep + 1;
     const nextStep = template?.steps?.find(
@@ -489,72 +1126,124 @@ export class SequenceExecutor {
 
     if (!nextStep) {
       // No more steps
+      await supabase
+        .from('sequence_enrollments')
+        .update({
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+          next_step_scheduled_at: null,
+        })
+        .eq('id', enrollmentId)
+        .eq('status', 'active');
       return;
     }
 
-    // Calculate next execution time
-    const nextExecutionTime = new Date();
-
-    // Add wait time
-    nextExecutionTime.setDate(nextExecutionTime.getDate() + (nextStep.wait_days || 0));
-    nextExecutionTime.setHours(nextExecutionTime.getHours() + (nextStep.wait_hours || 0));
+    const earliest = new Date(
+      Date.now() + ((nextStep.wait_days || 0) * 24 + (nextStep.wait_hours || 0)) * 3600000
+    );
 
-    // Apply time window if specified
-    if (nextStep.send_time_window) {
-      const [startHour, startMinute] = nextStep.send_time_window.start.split(':').map(Number);
-      const [endHour] = nextStep.send_time_window.end.split(':').map(Number);
+    // Window, weekends and holidays are judged by the recipient's clock
+    const nextExecutionTime = await TimezoneService.getStepSendTime({
+      earliest,
+      step: nextStep,
+      settings: template?.settings,
+      lead: enrollment.lead,
+      organizationId: enrollment.organization_id,
+    });
 
-      // If outside window, move to next window
-      if (nextExecutionTime.getHours() < startHour ||
-        nextExecutionTime.getHours() >= endHour) {
-        nextExecutionTime.setHours(startHour, startMinute, 0, 0);
-        if (nextExecutionTime < new Date()) {
-          nextExecutionTime.setDate(nextExecutionTime.getDate() + 1);
-        }
-      }
-    }
+    await this.setNextStepSchedule(enrollmentId, nextExecutionTime);
+  }
 
-    // Skip weekends if configured
-    if (template.settings?.skipWeekends) {
-      const dayOfWeek = nextExecutionTime.getDay();
-      if (dayOfWeek === 0) { // Sunday
-        nextExecutionTime.setDate(nextExecutionTime.getDate() + 1);
-      } else if (dayOfWeek === 6) { // Saturday
-        nextExecutionTime.setDate(nextExecutionTime.getDate() + 2);
-      }
-    }
+  /**
+   * Store the next step time and queue the delayed job for it.
+   * A failed enqueue is only logged; the cron sweep picks the step up.
+   */
+  private static async setNextStepSchedule(enrollmentId: string, scheduledFor: Date): Promise<void> {
+    const supabase = createAdminClient();
 
-    // Update enrollment with next scheduled time
     await supabase
       .from('sequence_enrollments')
       .update({
-        next_step_scheduled_at: nextExecutionTime.toISOString(),
+        next_step_scheduled_at: scheduledFor.toISOString(),
       })
       .eq('id', enrollmentId);
+
+    try {
+      await scheduleEnrollmentStep(enrollmentId, scheduledFor);
+    } catch (error) {
+      console.error(`Error queueing step job for enrollment ${enrollmentId}:`, error);
+    }
   }
 
   /**
-   * Replace variables in text with lead data
+   * Render the step's saved email template (its pinned version, or the latest published one).
+   * A subject on the step overrides the template's subject line.
    */
-  private static replaceVariables(text: string, lead: any): string {
-    if (!text || !lead) return text;
-
-    let result = text;
-
-    // Replace standard variables
-    result = result.replace(/{first_name}/gi, lead.first_name || '');
-    result = result.replace(/{last_name}/gi, lead.last_name || '');
-    result = result.replace(/{company}/gi, lead.company || '');
-    result = result.replace(/{email}/gi, lead.email || '');
-
-    // Replace custom field variables
-    if (lead.custom_fields) {
-      Object.entries(lead.custom_fields).forEach(([key, value]) => {
-        const regex = new RegExp(`{${key}}`, 'gi');
-        result = result.replace(regex, String(value || ''));
+  private static async renderEmailTemplate(
+    enrollment: any,
+    step: SequenceStep,
+    options: { strict?: boolean; sender: { email: string; fromName: string | null } }
+  ): Promise<{ subject: string; html: string }> {
+    const version = await EmailTemplateService.getVersion(step.email_template_id!, step.email_template_version);
+    if (!version) {
+      throw new StepExecutionError(
+        `Email template version ${step.email_template_version ?? 'latest'} not found`,
+        'TEMPLATE_NOT_FOUND',
+        false
+      );
+    }
+    if (version.status !== 'published') {
+      throw new StepExecutionError(
+        `Email template version ${version.version_number} is a draft; publish it before sending`,
+        'TEMPLATE_NOT_PUBLISHED',
+        false
+      );
+    }
+
+    const context = buildTemplateContext({
+      lead: enrollment.lead,
+      customFields: enrollment.custom_fields,
+      sender: { name: options.sender.fromName, email: options.sender.email },
+    });
+
+    try {
+      return await EmailTemplateService.render(version, context, {
+        strict: options.strict,
+        subjectOverride: step.email_subject,
       });
+    } catch (error) {
+      if (error instanceof TemplateRenderError) {
+        throw new StepExecutionError(error.message, 'MISSING_VARIABLE', false);
+      }
+      throw error;
     }
+  }
+
+  /**
+   * Render step content against the enrollment's lead, account and sender.
+   * In strict mode a missing variable fails the step without retrying, since the lead data
+   * will not change by itself.
+   */
+  private static renderText(
+    text: string,
+    enrollment: any,
+    options: { strict?: boolean; escapeHtml?: boolean; sender?: { email: string; fromName: string | null } } = {}
+  ): string {
+    if (!text) return text;
+
+    const context = buildTemplateContext({
+      lead: enrollment.lead,
+      customFields: enrollment.custom_fields,
+      sender: options.sender ? { name: options.sender.fromName, email: options.sender.email } : null,
+    });
 
-    return result;
+    try {
+      return renderTemplate(text, context, { strict: options.strict, escapeHtml: options.escapeHtml }).output;
+    } catch (error) {
+      if (error instanceof TemplateRenderError) {
+        throw new StepExecutionError(error.message, 'MISSING_VARIABLE', false);
+      }
+      throw error;
+    }
   }
 }
\ No newline at end of file
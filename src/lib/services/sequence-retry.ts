@@ -0,0 +1,264 @@
+/**
+ * Sequence Step Retry Service
+ * Classifies step failures, applies per-step-type backoff and manages dead-lettered enrollments
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { scheduleEnrollmentStep } from '@/lib/queue/sequence-queue';
+import type {
+  SequenceSettings,
+  SequenceStepType,
+  StepRetryPolicy,
+} from '@/lib/types/sequences';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface StepFailure {
+  code: string;
+  message: string;
+  retryable: boolean;
+}
+
+export interface FailedExecution {
+  executionId: string;
+  enrollmentId: string;
+  leadId: string;
+  leadEmail: string | null;
+  templateId: string;
+  templateName: string | null;
+  stepNumber: number | null;
+  stepType: SequenceStepType | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  attempts: number;
+  failedAt: string | null;
+  failedReason: string | null;
+}
+
+// Row shape of the listFailed select. Without generated types the client types the to-one
+// embeds as arrays, though PostgREST returns objects.
+interface FailedExecutionRow {
+  id: string;
+  error_code: string | null;
+  error_message: string | null;
+  retry_count: number | null;
+  step: { step_number: number; step_type: SequenceStepType } | null;
+  enrollment: {
+    id: string;
+    lead_id: string;
+    template_id: string;
+    failed_at: string | null;
+    failed_reason: string | null;
+    lead: { email: string | null } | null;
+    template: { name: string } | null;
+  };
+}
+
+// Row shape of the replay select
+interface ReplayExecutionRow {
+  id: string;
+  status: string;
+  replayed_at: string | null;
+  enrollment: { id: string; status: string; organization_id: string } | null;
+}
+
+const DEFAULT_POLICY: StepRetryPolicy = { maxAttempts: 3, backoffMinutes: 5, backoffMultiplier: 2 };
+
+const DEFAULT_POLICIES: Partial<Record<SequenceStepType, StepRetryPolicy>> = {
+  // SES throttling usually clears within minutes
+  email: { maxAttempts: 5, backoffMinutes: 5, backoffMultiplier: 2 },
+  webhook: { maxAttempts: 4, backoffMinutes: 2, backoffMultiplier: 3 },
+  task: { maxAttempts: 3, backoffMinutes: 1, backoffMultiplier: 2 },
+};
+
+// SES v2 exceptions that will fail the same way on every attempt
+const PERMANENT_SES_ERRORS = new Set([
+  'MessageRejected',
+  'MailFromDomainNotVerifiedException',
+  'AccountSuspendedException',
+  'BadRequestException',
+  'NotFoundException',
+]);
+
+/**
+ * Error thrown by step executors that know how a failure should be retried.
+ * Without an explicit flag, only known permanent send errors are final.
+ */
+export class StepExecutionError extends Error {
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    readonly code: string,
+    retryable?: boolean
+  ) {
+    super(message);
+    this.name = 'StepExecutionError';
+    this.retryable = retryable ?? !PERMANENT_SES_ERRORS.has(code);
+  }
+}
+
+/**
+ * Thrown when a step cannot run yet, e.g. every sender is at its daily cap.
+ * Not a failure: the step is rescheduled for `until` without using an attempt.
+ */
+export class StepDeferredError extends Error {
+  constructor(
+    message: string,
+    readonly until: Date
+  ) {
+    super(message);
+    this.name = 'StepDeferredError';
+  }
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export class SequenceRetryService {
+  /**
+   * Resolve the retry policy for a step type, applying template overrides
+   */
+  static getPolicy(stepType: SequenceStepType, settings?: Partial<SequenceSettings> | null): StepRetryPolicy {
+    return {
+      ...(DEFAULT_POLICIES[stepType] || DEFAULT_POLICY),
+      ...(settings?.retryPolicies?.[stepType] || {}),
+    };
+  }
+
+  /**
+   * Decide whether a step error is transient. Unknown errors are treated as transient
+   * so they get the step's retry budget before the enrollment is dead-lettered.
+   */
+  static classify(error: unknown): StepFailure {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof StepExecutionError) {
+      return { code: error.code, message, retryable: error.retryable };
+    }
+
+    const code = (error as { code?: string; name?: string } | null)?.code
+      || (error instanceof Error ? error.name : undefined)
+      || 'UNKNOWN';
+
+    return { code, message, retryable: !PERMANENT_SES_ERRORS.has(code) };
+  }
+
+  /**
+   * When the next attempt may run, given how many attempts have been made
+   */
+  static nextAttemptAt(policy: StepRetryPolicy, attempts: number, from = new Date()): Date {
+    const minutes = policy.backoffMinutes * Math.pow(policy.backoffMultiplier, Math.max(0, attempts - 1));
+    return new Date(from.getTime() + minutes * 60000);
+  }
+
+  /**
+   * Dead-lettered enrollments for an organization with their last failed execution
+   */
+  static async listFailed(organizationId: string, limit = 100): Promise<FailedExecution[]> {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('sequence_step_executions')
+      .select(`
+        id,
+        error_code,
+        error_message,
+        retry_count,
+        executed_at,
+        step:sequence_steps(step_number, step_type),
+        enrollment:sequence_enrollments!inner(
+          id,
+          lead_id,
+          template_id,
+          organization_id,
+          status,
+          failed_at,
+          failed_reason,
+          lead:sales_leads(email),
+          template:sequence_templates(name)
+        )
+      `)
+      .eq('status', 'failed')
+      .is('next_retry_at', null)
+      .is('replayed_at', null)
+      .eq('enrollment.organization_id', organizationId)
+      .eq('enrollment.status', 'failed')
+      .order('executed_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load failed executions: ${error.message}`);
+    }
+
+    return ((data || []) as unknown as FailedExecutionRow[]).map((row) => ({
+      executionId: row.id,
+      enrollmentId: row.enrollment.id,
+      leadId: row.enrollment.lead_id,
+      leadEmail: row.enrollment.lead?.email ?? null,
+      templateId: row.enrollment.template_id,
+      templateName: row.enrollment.template?.name ?? null,
+      stepNumber: row.step?.step_number ?? null,
+      stepType: row.step?.step_type ?? null,
+      errorCode: row.error_code,
+      errorMessage: row.error_message,
+      attempts: (row.retry_count || 0) + 1,
+      failedAt: row.enrollment.failed_at,
+      failedReason: row.enrollment.failed_reason,
+    }));
+  }
+
+  /**
+   * Re-activate a dead-lettered enrollment and run the failed step again now.
+   * The new schedule gives the replay a fresh idempotency key and a full retry budget.
+   */
+  static async replay(executionId: string, organizationId: string): Promise<boolean> {
+    const supabase = createAdminClient();
+
+    const { data: execution, error } = await supabase
+      .from('sequence_step_executions')
+      .select('id, status, replayed_at, enrollment:sequence_enrollments!inner(id, status, organization_id)')
+      .eq('id', executionId)
+      .eq('enrollment.organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load execution: ${error.message}`);
+    }
+
+    const enrollment = (execution as ReplayExecutionRow | null)?.enrollment;
+    if (!execution || !enrollment || execution.status !== 'failed' || execution.replayed_at) {
+      return false;
+    }
+    if (enrollment.status !== 'failed') {
+      return false;
+    }
+
+    const now = new Date();
+
+    const { data: reactivated } = await supabase
+      .from('sequence_enrollments')
+      .update({
+        status: 'active',
+        failed_at: null,
+        failed_reason: null,
+        next_step_scheduled_at: now.toISOString(),
+      })
+      .eq('id', enrollment.id)
+      .eq('status', 'failed')
+      .select('id');
+
+    if (!reactivated?.length) return false;
+
+    await supabase
+      .from('sequence_step_executions')
+      .update({ replayed_at: now.toISOString() })
+      .eq('id', executionId);
+
+    await scheduleEnrollmentStep(enrollment.id, now);
+    return true;
+  }
+}
@@ -7,6 +7,7 @@ import { createClient } from '@/lib/supabase/server';
 import { SuppressionService } from '@/lib/services/suppression';
 import { EmailValidator } from '@/lib/email/validator';
 import { TimezoneService } from '@/lib/services/timezone';
+import { scheduleEnrollmentStep } from '@/lib/queue/sequence-queue';
 import {
   SequenceTemplate,
   SequenceStep,
@@ -244,6 +245,8 @@ export class SequenceTemplateService {
         email_body: step.email_body,
         email_from_name: step.email_from_name,
         email_reply_to: step.email_reply_to,
+        email_template_id: step.email_template_id,
+        email_template_version: step.email_template_version,
         task_title: step.task_title,
         task_description: step.task_description,
         task_priority: step.task_priority,
@@ -430,8 +433,8 @@ export class SequenceStepService {
   private static validateStep(data: CreateSequenceStepRequest): void {
     switch (data.step_type) {
       case 'email':
-        if (!data.email_subject || !data.email_body) {
-          throw new Error('Email steps require subject and body');
+        if (!data.email_template_id && (!data.email_subject || !data.email_body)) {
+          throw new Error('Email steps require a subject and body, or an email template');
         }
         break;
       case 'task':
@@ -462,7 +465,7 @@ export class SequenceStepService {
  * Sequence Enrollment Operations
  */
 export class SequenceEnrollmentService {
-  private static readonly SYSTEM_ACTORS = new Set(['behavioral_trigger', 'playbook_executor']);
+  private static readonly SYSTEM_ACTORS = new Set(['behavioral_trigger', 'playbook_executor', 'auto_enrollment']);
 
   /**
    * Enroll a single lead in a sequence
@@ -786,13 +789,17 @@ export class SequenceEnrollmentService {
         template:sequence_templates(
           settings,
           steps:sequence_steps(*)
-        )
+        ),
+        lead:sales_leads(phone, timezone, country)
       `)
       .eq('id', enrollmentId)
       .single();
 
     if (!enrollment || !enrollment.template?.steps) return;
 
+    // The current step is a task still in progress; completing it schedules the next one
+    if (enrollment.awaiting_execution_id) return;
+
     const nextStepNumber = enrollment.current_step + 1;
     const nextStep = enrollment.template.steps.find(
       (s: SequenceStep) => s.step_number === nextStepNumber
@@ -810,86 +817,18 @@ export class SequenceEnrollmentService {
       return;
     }
 
-    // Get optimal send window for recipient's timezone
-    const optimalWindow = await TimezoneService.getOptimalSendWindow(
-      enrollment.lead_id,
-      enrollment.organization_id,
-      nextStep.send_time_window
+    const earliest = new Date(
+      Date.now() + ((nextStep.wait_days || 0) * 24 + (nextStep.wait_hours || 0)) * 3600000
     );
 
-    // Calculate base execution time
-    const now = new Date();
-    let nextExecutionTime = new Date(now);
-
-    // Add wait time
-    nextExecutionTime.setDate(nextExecutionTime.getDate() + nextStep.wait_days);
-    nextExecutionTime.setHours(nextExecutionTime.getHours() + nextStep.wait_hours);
-
-    // If we have timezone-aware scheduling enabled
-    if (enrollment.template.settings?.useTimezoneScheduling) {
-      // Use the optimal window for recipient's timezone
-      if (nextExecutionTime < optimalWindow.nextWindowUTC) {
-        nextExecutionTime = optimalWindow.nextWindowUTC;
-      } else {
-        // Apply recipient's time window to the calculated time
-        const recipientTime = TimezoneService.convertToTimezone(
-          nextExecutionTime,
-          optimalWindow.timezone
-        );
-
-        const [startHour, startMinute] = optimalWindow.start.split(':').map(Number);
-        const [endHour] = optimalWindow.end.split(':').map(Number);
-
-        // Check if we're outside the window
-        const hour = recipientTime.getHours();
-        if (hour < startHour || hour >= endHour) {
-          // Move to next available window
-          recipientTime.setHours(startHour, startMinute, 0, 0);
-          if (hour >= endHour) {
-            // Move to next day if past window
-            recipientTime.setDate(recipientTime.getDate() + 1);
-          }
-
-          // Skip weekends in recipient's timezone
-          if (enrollment.template.settings?.skipWeekends) {
-            const dayOfWeek = recipientTime.getDay();
-            if (dayOfWeek === 0) { // Sunday
-              recipientTime.setDate(recipientTime.getDate() + 1);
-            } else if (dayOfWeek === 6) { // Saturday
-              recipientTime.setDate(recipientTime.getDate() + 2);
-            }
-          }
-
-          // Convert back to UTC (simplified - in production use proper library)
-          nextExecutionTime = recipientTime;
-        }
-      }
-    } else {
-      // Original logic for non-timezone-aware scheduling
-      if (nextStep.send_time_window) {
-        const [startHour, startMinute] = nextStep.send_time_window.start.split(':').map(Number);
-        const [endHour] = nextStep.send_time_window.end.split(':').map(Number);
-
-        // If outside window, move to next window
-        if (nextExecutionTime.getHours() < startHour ||
-          nextExecutionTime.getHours() >= endHour) {
-          nextExecutionTime.setHours(startHour, startMinute, 0, 0);
-          if (nextExecutionTime < now) {
-            nextExecutionTime.setDate(nextExecutionTime.getDate() + 1);
-          }
-        }
-      }
-
-      // Skip weekends if configured
-      if (enrollment.template.settings?.skipWeekends) {
-        const dayOfWeek = nextExecutionTime.getDay();
-        if (dayOfWeek === 0) { // Sunday
-          nextExecutionTime.setDate(nextExecutionTime.getDate() + 1);
-        } else if (dayOfWeek === 6) { // Saturday
-          nextExecutionTime.setDate(nextExecutionTime.getDate() + 2);
-        }
-      }
-    }
+    // Schedule in the recipient's local time (window, weekends, holidays)
+    const nextExecutionTime = await TimezoneService.getStepSendTime({
+      earliest,
+      step: nextStep,
+      settings: enrollment.template.settings,
+      lead: enrollment.lead,
+      organizationId: enrollment.organization_id,
+    });
 
     // Update enrollment with next scheduled time
     await supabase
@@ -898,6 +837,13 @@ export class SequenceEnrollmentService {
         next_step_scheduled_at: nextExecutionTime.toISOString(),
       })
       .eq('id', enrollmentId);
+
+    // Run the step at that time; the cron sweep covers a failed enqueue
+    try {
+      await scheduleEnrollmentStep(enrollmentId, nextExecutionTime);
+    } catch (error) {
+      console.error(`Error queueing step job for enrollment ${enrollmentId}:`, error);
+    }
   }
 
   /**
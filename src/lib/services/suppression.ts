@@ -4,6 +4,7 @@
  */
 
 import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
 import { z } from 'zod';
 
 // ============================================
@@ -64,6 +65,10 @@ export interface UnsubscribePreferences {
   unsubscribe_feedback?: string;
 }
 
+// Soft bounces within this many days count towards suppressing the address
+const SOFT_BOUNCE_LIMIT = 3;
+const SOFT_BOUNCE_WINDOW_DAYS = 30;
+
 // ============================================
 // VALIDATION SCHEMAS
 // ============================================
@@ -367,7 +372,8 @@ export class SuppressionService {
   static async getPreferencesByToken(
     token: string
   ): Promise<UnsubscribePreferences | null> {
-    const supabase = await createClient();
+    // The token is the credential; unsubscribe pages are public
+    const supabase = createAdminClient();
 
     const { data, error } = await supabase
       .from('unsubscribe_preferences')
@@ -379,6 +385,65 @@ export class SuppressionService {
     return data as UnsubscribePreferences | null;
   }
 
+  /**
+   * Unsubscribe the holder of a token from everything (RFC 8058 one-click or the "all" link).
+   * Opts out of sequences and marketing, suppresses the address and stops running enrollments.
+   * @returns false when the token is unknown
+   */
+  static async unsubscribeByToken(token: string): Promise<boolean> {
+    const supabase = createAdminClient();
+    const now = new Date().toISOString();
+
+    const preferences = await this.getPreferencesByToken(token);
+    if (!preferences) return false;
+
+    const { error: preferencesError } = await supabase
+      .from('unsubscribe_preferences')
+      .update({
+        all_sequences: true,
+        marketing_emails: true,
+        email_enabled: false,
+        unsubscribe_reason: 'one_click_unsubscribe',
+        last_updated_at: now,
+      })
+      .eq('id', preferences.id);
+
+    if (preferencesError) throw preferencesError;
+
+    const { error: suppressionError } = await supabase
+      .from('sequence_suppressions')
+      .upsert({
+        email: preferences.email,
+        organization_id: preferences.organization_id,
+        lead_id: preferences.lead_id,
+        reason: 'unsubscribe',
+        source: 'unsubscribe_link',
+        is_active: true,
+      }, {
+        onConflict: 'organization_id,email',
+      });
+
+    if (suppressionError) throw suppressionError;
+
+    if (preferences.lead_id) {
+      const { error: enrollmentError } = await supabase
+        .from('sequence_enrollments')
+        .update({
+          status: 'stopped',
+          stopped_at: now,
+          stopped_reason: 'Lead unsubscribed',
+          next_step_scheduled_at: null,
+        })
+        .eq('organization_id', preferences.organization_id)
+        .eq('lead_id', preferences.lead_id)
+        .in('status', ['active', 'paused']);
+
+      if (enrollmentError) throw enrollmentError;
+    }
+
+    return true;
+  }
+
   /**
    * Update unsubscribe preferences
    */
@@ -428,7 +493,8 @@ export class SuppressionService {
     leadEmail: string,
     orgId: string
   ): Promise<string> {
-    const supabase = await createClient();
+    // Also called by the sequence worker when sending, which has no user session
+    const supabase = createAdminClient();
 
     // Check if preferences exist
     const { data: existing } = await supabase
@@ -479,55 +545,68 @@ export class SuppressionService {
   }
 
   /**
-   * Handle bounce notification
+   * Handle a bounce notification.
+   * Hard bounces suppress the address straight away. Soft bounces are counted per lead and
+   * escalate to a suppression once SOFT_BOUNCE_LIMIT land within SOFT_BOUNCE_WINDOW_DAYS.
    */
   static async handleBounce(
     email: string,
     orgId: string,
     bounceType: 'hard' | 'soft',
     metadata?: Record<string, any>
-  ): Promise<void> {
-    const supabase = await createClient();
+  ): Promise<{ suppressed: boolean }> {
+    // Called from the SES webhook, which has no user session
+    const supabase = createAdminClient();
+    const now = new Date();
 
-    // For hard bounces, add to suppression list
-    if (bounceType === 'hard') {
-      await supabase
-        .from('sequence_suppressions')
-        .upsert({
-          email,
-          organization_id: orgId,
-          reason: 'bounce',
-          source: 'bounce_webhook',
-          is_active: true,
-          metadata: {
-            bounce_type: bounceType,
-            ...metadata,
-          },
-        }, {
-          onConflict: 'organization_id,email',
-        });
-    }
-
-    // Update lead record
-    // Update lead record
     const { data: lead } = await supabase
       .from('sales_leads')
-      .select('bounce_count')
+      .select('bounce_count, last_bounce_at')
       .eq('email', email)
       .eq('organization_id', orgId)
-      .single();
+      .maybeSingle();
+
+    // A soft bounce outside the window starts a new run
+    const windowStart = now.getTime() - SOFT_BOUNCE_WINDOW_DAYS * 86400000;
+    const inWindow = lead?.last_bounce_at && new Date(lead.last_bounce_at).getTime() >= windowStart;
+    const bounceCount = inWindow ? (lead?.bounce_count || 0) + 1 : 1;
 
     if (lead) {
       await supabase
         .from('sales_leads')
         .update({
-          last_bounce_at: new Date().toISOString(),
-          bounce_count: (lead.bounce_count || 0) + 1,
+          last_bounce_at: now.toISOString(),
+          bounce_count: bounceCount,
           email_valid: bounceType === 'hard' ? false : undefined,
         })
         .eq('email', email)
         .eq('organization_id', orgId);
     }
+
+    const escalated = bounceType === 'soft' && bounceCount >= SOFT_BOUNCE_LIMIT;
+    if (bounceType === 'soft' && !escalated) {
+      return { suppressed: false };
+    }
+
+    const { error } = await supabase
+      .from('sequence_suppressions')
+      .upsert({
+        email,
+        organization_id: orgId,
+        reason: 'bounce',
+        source: 'bounce_webhook',
+        is_active: true,
+        metadata: {
+          bounce_type: bounceType,
+          ...(escalated ? { escalated: true, soft_bounce_count: bounceCount } : {}),
+          ...metadata,
+        },
+      }, {
+        onConflict: 'organization_id,email',
+      });
+
+    if (error) throw error;
+    return { suppressed: true };
   }
 
   /**
@@ -538,10 +617,10 @@ export class SuppressionService {
     orgId: string,
     metadata?: Record<string, any>
   ): Promise<void> {
-    const supabase = await createClient();
+    const supabase = createAdminClient();
 
     // Add to suppression list
-    await supabase
+    const { error } = await supabase
       .from('sequence_suppressions')
       .upsert({
         email,
@@ -553,5 +632,7 @@ export class SuppressionService {
       }, {
         onConflict: 'organization_id,email',
       });
+
+    if (error) throw error;
   }
 }
\ No newline at end of file
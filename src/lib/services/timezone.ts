@@ -4,6 +4,8 @@
  */
 
 import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { SequenceSettings, SequenceStep } from '@/lib/types/sequences';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -23,6 +25,29 @@ export interface OptimalSendWindow {
   timezone: string;
 }
 
+export interface LocalDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+export interface SendTimeOptions {
+  timezone: string;
+  window?: { start: string; end: string } | null;
+  skipWeekends?: boolean;
+  holidays?: Set<string>; // YYYY-MM-DD in the recipient's calendar
+}
+
+// The sales_leads columns step scheduling reads
+export interface SchedulingLead {
+  timezone?: string | null;
+  phone?: string | null;
+  country?: string | null;
+}
+
 export interface TimezoneDetectionResult {
   detected: boolean;
   timezone?: string;
@@ -129,6 +154,13 @@ const BUSINESS_HOURS: Record<string, { start: string; end: string }> = {
   'Pacific': { start: '09:00', end: '17:00' },
 };
 
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+// How far ahead to look for an allowed send day before giving up on the calendar
+const MAX_SCHEDULING_DAYS = 60;
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
 // Optimal send times by day of week (based on industry research)
 const OPTIMAL_SEND_TIMES: Record<number, string[]> = {
   0: [], // Sunday - typically avoid
@@ -250,9 +282,9 @@ export class TimezoneService {
   }
 
   /**
-   * Get timezone from location
+   * Get timezone from location (ISO country code, optional state/province code)
    */
-  private static getTimezoneFromLocation(
+  static getTimezoneFromLocation(
     country: string,
     state?: string,
     city?: string
@@ -283,7 +315,7 @@ export class TimezoneService {
     };
 
     const key = state ? `${country}-${state}` : country;
-    return locationMap[key] || null;
+    return locationMap[key] || locationMap[country] || null;
   }
 
   /**
@@ -424,41 +456,218 @@ export class TimezoneService {
   }
 
   /**
-   * Convert from timezone to UTC
+   * Convert from timezone to UTC.
+   * `localTime` carries the recipient's wall-clock time in its local fields (see convertToTimezone).
    */
   private static convertFromTimezone(
     localTime: Date,
     timezone: string
   ): Date {
-    // This is a simplified implementation
-    // In production, use a library like date-fns-tz or moment-timezone
+    return this.localTimeToUtc(
+      localTime.getFullYear(),
+      localTime.getMonth() + 1,
+      localTime.getDate(),
+      localTime.getHours(),
+      localTime.getMinutes(),
+      timezone
+    );
+  }
+
+  /**
+   * Check that a string is an IANA timezone the runtime knows
+   */
+  static isValidTimezone(timezone: string | null | undefined): timezone is string {
+    if (!timezone) return false;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
 
-    // Get offset for the timezone
-    const formatter = new Intl.DateTimeFormat('en-US', {
+  /**
+   * Calendar date and wall-clock time of an instant in a timezone
+   */
+  static getLocalParts(date: Date, timezone: string): LocalDateParts {
+    const parts = new Intl.DateTimeFormat('en-US', {
       timeZone: timezone,
-      timeZoneName: 'short',
-    });
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hour12: false,
+    }).formatToParts(date);
+
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
 
-    const parts = formatter.formatToParts(localTime);
-    const timezoneName = parts.find(p => p.type === 'timeZoneName')?.value || 'UTC';
-
-    // Map timezone abbreviations to offsets (simplified)
-    const offsetMap: Record<string, number> = {
-      'EST': -5, 'EDT': -4,
-      'CST': -6, 'CDT': -5,
-      'MST': -7, 'MDT': -6,
-      'PST': -8, 'PDT': -7,
-      'GMT': 0, 'BST': 1,
-      'CET': 1, 'CEST': 2,
-      'JST': 9,
-      'AEDT': 11, 'AEST': 10,
+    return {
+      year: Number(get('year')),
+      month: Number(get('month')),
+      day: Number(get('day')),
+      hour: Number(get('hour')) % 24, // some runtimes print midnight as 24
+      minute: Number(get('minute')),
+      weekday: WEEKDAYS[get('weekday')] ?? 0,
     };
+  }
+
+  /**
+   * The UTC instant at which a timezone's wall clock shows the given time
+   */
+  static localTimeToUtc(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+    timezone: string
+  ): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    const firstGuess = wallClock - this.getOffsetMs(new Date(wallClock), timezone);
 
-    const offset = offsetMap[timezoneName] || 0;
-    const utcTime = new Date(localTime);
-    utcTime.setHours(utcTime.getHours() - offset);
+    // Re-read the offset at the guess in case a DST change sits between the two
+    return new Date(wallClock - this.getOffsetMs(new Date(firstGuess), timezone));
+  }
+
+  /**
+   * Offset of a timezone from UTC at an instant, in milliseconds
+   */
+  private static getOffsetMs(date: Date, timezone: string): number {
+    const local = this.getLocalParts(date, timezone);
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+  }
+
+  /**
+   * Earliest instant at or after `earliest` that falls inside the window on an allowed day,
+   * all judged by the recipient's wall clock
+   */
+  static nextSendTime(earliest: Date, options: SendTimeOptions): Date {
+    const { timezone, window, skipWeekends, holidays } = options;
+
+    const [startHour, startMinute] = window ? window.start.split(':').map(Number) : [0, 0];
+    const [endHour, endMinute] = window ? window.end.split(':').map(Number) : [24, 0];
+    const startMinutes = startHour * 60 + startMinute;
+    let endMinutes = endHour * 60 + endMinute;
+    if (endMinutes <= startMinutes) endMinutes = 24 * 60; // overnight windows close at midnight
+
+    let candidate = earliest;
+
+    for (let i = 0; i < MAX_SCHEDULING_DAYS; i++) {
+      const local = this.getLocalParts(candidate, timezone);
+      const dateKey = `${local.year}-${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`;
+      const minutes = local.hour * 60 + local.minute;
+
+      const blocked = (skipWeekends && (local.weekday === 0 || local.weekday === 6))
+        || holidays?.has(dateKey);
+
+      if (!blocked && minutes < endMinutes) {
+        return minutes >= startMinutes
+          ? candidate
+          : this.localTimeToUtc(local.year, local.month, local.day, startHour, startMinute, timezone);
+      }
+
+      // Try the next local day from the start of the window
+      const nextDay = new Date(Date.UTC(local.year, local.month - 1, local.day + 1));
+      candidate = this.localTimeToUtc(
+        nextDay.getUTCFullYear(),
+        nextDay.getUTCMonth() + 1,
+        nextDay.getUTCDate(),
+        startHour,
+        startMinute,
+        timezone
+      );
+    }
+
+    return candidate;
+  }
+
+  /**
+   * Timezone stored or inferable on a lead record, without any fallback
+   */
+  static resolveLeadTimezone(lead: SchedulingLead | null | undefined): string | null {
+    if (!lead) return null;
+
+    if (this.isValidTimezone(lead.timezone)) return lead.timezone;
+
+    const phoneTimezone = lead.phone ? this.getTimezoneFromPhone(lead.phone) : null;
+    return phoneTimezone;
+  }
+
+  /**
+   * Holiday dates for a recipient's country from the organization's and the shared calendars.
+   * Entries without a country apply to every recipient.
+   */
+  static async getHolidayDates(
+    organizationId: string,
+    countryCode: string | null | undefined,
+    from: Date = new Date(),
+    days: number = MAX_SCHEDULING_DAYS
+  ): Promise<Set<string>> {
+    const supabase = createAdminClient();
+
+    // One day of slack either side covers timezones ahead of or behind UTC
+    const rangeStart = new Date(from.getTime() - 86400000).toISOString().slice(0, 10);
+    const rangeEnd = new Date(from.getTime() + (days + 1) * 86400000).toISOString().slice(0, 10);
+
+    const { data, error } = await supabase
+      .from('sequence_holidays')
+      .select('holiday_date, country_code')
+      .or(`organization_id.is.null,organization_id.eq.${organizationId}`)
+      .gte('holiday_date', rangeStart)
+      .lte('holiday_date', rangeEnd);
+
+    if (error) {
+      console.error('Failed to load holiday calendar:', error);
+      return new Set();
+    }
+
+    const country = countryCode?.toUpperCase();
+    return new Set(
+      (data || [])
+        .filter(h => !h.country_code || h.country_code.toUpperCase() === country)
+        .map(h => h.holiday_date as string)
+    );
+  }
 
-    return utcTime;
+  /**
+   * When a sequence step due no earlier than `earliest` should run, in the recipient's local time.
+   * The lead's own timezone wins, then the step window's, then the sequence's. Email steps
+   * without a window keep to the region's business hours.
+   */
+  static async getStepSendTime(params: {
+    earliest: Date;
+    step: Pick<SequenceStep, 'step_type' | 'send_time_window'>;
+    settings?: Partial<SequenceSettings> | null;
+    lead?: SchedulingLead | null;
+    organizationId: string;
+  }): Promise<Date> {
+    const { earliest, step, settings, lead, organizationId } = params;
+
+    const candidates = [
+      this.resolveLeadTimezone(lead),
+      step.send_time_window?.timezone,
+      settings?.timezone,
+    ];
+    const timezone = candidates.find(tz => this.isValidTimezone(tz)) || DEFAULT_TIMEZONE;
+
+    const window = step.send_time_window
+      || (step.step_type === 'email'
+        ? BUSINESS_HOURS[timezone.split('/')[0]] || BUSINESS_HOURS.default
+        : null);
+
+    const holidays = settings?.skipHolidays === false
+      ? undefined
+      : await this.getHolidayDates(organizationId, lead?.country, earliest);
+
+    return this.nextSendTime(earliest, {
+      timezone,
+      window,
+      skipWeekends: settings?.skipWeekends ?? true,
+      holidays,
+    });
   }
 
   /**
@@ -265,6 +265,9 @@ export interface NotifyStepConfig {
     subject?: string;
     body: string;
     data?: Record<string, any>;
+    // Send a published email template instead of the plain-text body
+    emailTemplateId?: string;
+    emailTemplateVersion?: number;
   };
 }
 
@@ -322,6 +325,48 @@ export interface Transformation {
   config: Record<string, any>;
 }
 
+// Per-type shapes of Transformation.config
+
+export type MapFieldSpec =
+  | { from: string }                                      // Copy a (nested) field
+  | { value: unknown }                                    // Constant, supports {{var}}
+  | { when: FilterRule; then: unknown; else?: unknown };  // Conditional value
+
+export interface MapTransformConfig {
+  fields: Record<string, MapFieldSpec>;
+}
+
+export interface FilterTransformConfig {
+  filters: FilterRule[];
+  operator?: 'AND' | 'OR';
+}
+
+export interface ReduceTransformConfig {
+  operation: 'sum' | 'avg' | 'min' | 'max' | 'count' | 'group';
+  field?: string;
+  groupBy?: string;  // Required for 'group'
+}
+
+export interface SortTransformConfig {
+  field: string;
+  order?: 'asc' | 'desc';
+}
+
+export interface LimitTransformConfig {
+  count: number;
+  offset?: number;
+}
+
+export interface ExtractTransformConfig {
+  field?: string;     // Returns an array of values
+  fields?: string[];  // Returns objects with only these fields
+}
+
+export interface MergeTransformConfig {
+  variable: string;  // Context variable to merge in
+  key?: string;      // Join field; concatenates when omitted
+}
+
 // ============================================
 // Error Handling
 // ============================================
@@ -414,12 +459,14 @@ export interface PlaybookExecution {
   id: string;
   playbookId: string;
   organizationId: string;
-  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  status: 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
   startedAt: Date;
   completedAt?: Date;
   context: ExecutionContext;
   steps: StepExecution[];
   metrics: ExecutionMetrics;
+  currentStepIndex: number;  // next top-level step to run
+  resumeAt?: Date;           // set while suspended on a wait step
   error?: {
     message: string;
     stepId?: string;
@@ -427,6 +474,10 @@ export interface PlaybookExecution {
   };
 }
 
+export type ExecutionResumeResult =
+  | { resumed: true; execution: PlaybookExecution }
+  | { resumed: false; reason: string };
+
 export interface ExecutionContext {
   trigger: {
     type: string;
@@ -439,6 +490,33 @@ export interface ExecutionContext {
   };
 }
 
+// A record passed between steps: a search result, enriched person or sales lead
+export type PlaybookItem = Record<string, unknown>;
+
+export interface LoopIteration {
+  index: number;
+  item: unknown;
+  outputs: Record<string, unknown>;  // Body step outputs for this item
+}
+
+export interface NotifyResult {
+  delivered: string[];  // Channels that accepted the notification
+  failures: string[];   // "<channel>: <reason>"
+}
+
+// playbook_executions row as checkpointed by the executor
+export interface PlaybookExecutionRow {
+  id: string;
+  playbook_id: string;
+  organization_id: string;
+  status: PlaybookExecution['status'];
+  started_at: string;
+  execution_context: ExecutionContext | null;
+  execution_log: StepExecution[] | null;
+  metrics: Partial<ExecutionMetrics> | null;
+  current_step_index: number | null;
+}
+
 export interface StepExecution {
   stepId: string;
   stepName: string;
@@ -37,12 +37,37 @@ export const EmailEventType = z.enum(['open', 'click', 'reply', 'bounce', 'unsub
 export type EmailEventType = z.infer<typeof EmailEventType>;
 
 // Sequence Template Settings
+export const ReplyAction = z.enum(['pause', 'stop']);
+export type ReplyAction = z.infer<typeof ReplyAction>;
+
+export const MeetingAction = z.enum(['pause', 'stop']);
+export type MeetingAction = z.infer<typeof MeetingAction>;
+
+// Retry behaviour for a failed step. Delay before attempt n+1 is
+// backoffMinutes * backoffMultiplier^(n-1).
+export const StepRetryPolicySchema = z.object({
+  maxAttempts: z.number().min(1).max(10),
+  backoffMinutes: z.number().min(0),
+  backoffMultiplier: z.number().min(1).default(2),
+});
+export type StepRetryPolicy = z.infer<typeof StepRetryPolicySchema>;
+
 export const SequenceSettingsSchema = z.object({
   pauseOnReply: z.boolean().default(true),
+  replyAction: ReplyAction.default('pause'),
   pauseOnMeeting: z.boolean().default(true),
+  meetingAction: MeetingAction.default('pause'),
   skipWeekends: z.boolean().default(true),
+  // Skip dates in the recipient country's holiday calendar (sequence_holidays)
+  skipHolidays: z.boolean().default(true),
   dailyLimit: z.number().min(1).max(500).default(50),
+  // Senders to rotate across; all of the organization's active senders when omitted
+  senderIds: z.array(z.string().uuid()).optional(),
+  // Fail an email step instead of sending when a variable without a default is empty
+  strictVariables: z.boolean().optional(),
   timezone: z.string().default('America/New_York'),
+  // Overrides of the default retry policy, keyed by step type
+  retryPolicies: z.record(z.string(), StepRetryPolicySchema.partial()).optional(),
 });
 export type SequenceSettings = z.infer<typeof SequenceSettingsSchema>;
 
@@ -143,6 +168,9 @@ export interface SequenceStep {
   email_body?: string | null;
   email_from_name?: string | null;
   email_reply_to?: string | null;
+  // Saved builder template sent instead of email_body; email_subject, when set, overrides its subject
+  email_template_id?: string | null;
+  email_template_version?: number | null; // null sends the latest version
 
   // Task configuration
   task_title?: string | null;
@@ -203,11 +231,15 @@ export interface SequenceEnrollment {
   resumed_at?: string | null;
   stopped_at?: string | null;
   stopped_reason?: string | null;
+  failed_at?: string | null;
+  failed_reason?: string | null;
 
   // Scheduling
   last_step_executed_at?: string | null;
   next_step_scheduled_at?: string | null;
   completed_at?: string | null;
+  awaiting_execution_id?: string | null; // LinkedIn/CRM task the enrollment is waiting on
+  sender_id?: string | null; // email_senders row the enrollment's emails go out from
 
   // Performance metrics
   emails_sent: number;
@@ -238,12 +270,17 @@ export interface SequenceStepExecution {
   // Execution details
   status: ExecutionStatus;
   error_message?: string | null;
+  error_code?: string | null;
   retry_count: number;
+  next_retry_at?: string | null;
+  replayed_at?: string | null;
 
   // Email tracking
+  sender_id?: string | null;
   email_provider?: string | null;
   email_message_id?: string | null;
   email_thread_id?: string | null;
+  sent_at?: string | null;
 
   // Tracking timestamps
   opened_at?: string | null;
@@ -253,6 +290,8 @@ export interface SequenceStepExecution {
 
   // Task reference
   task_id?: string | null;
+  linkedin_task_id?: string | null;
+  outcome?: string | null;
 
   // Webhook response
   webhook_response_code?: number | null;
@@ -285,9 +324,14 @@ export interface SequenceEmailEvent {
   location_city?: string | null;
 
   // Click event details
+  link_id?: string | null;
   link_url?: string | null;
   link_position?: number | null;
 
+  // Scanner, proxy or prefetch traffic; excluded from metrics
+  is_machine?: boolean;
+  machine_reason?: string | null;
+
   // Bounce event details
   bounce_type?: string | null;
   bounce_reason?: string | null;
@@ -325,6 +369,8 @@ export const CreateSequenceStepSchema = z.object({
   email_body: z.string().optional(),
   email_from_name: z.string().optional(),
   email_reply_to: z.string().email().optional(),
+  email_template_id: z.string().uuid().nullable().optional(),
+  email_template_version: z.number().int().min(1).nullable().optional(),
 
   // Task configuration
   task_title: z.string().optional(),
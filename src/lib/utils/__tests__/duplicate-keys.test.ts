@@ -0,0 +1,128 @@
+/**
+ * Test Suite for duplicate match keys
+ * Verifies normalization of emails, phones, LinkedIn URLs, domains and names, and pairing
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  accountKeys,
+  duplicateScore,
+  findDuplicatePairs,
+  matchReasons,
+  normalizeCompanyName,
+  normalizeDomain,
+  normalizeEmail,
+  normalizeLinkedInUrl,
+  normalizePersonName,
+  normalizePhone,
+  personKeys,
+} from '../duplicate-keys';
+
+describe('normalization', () => {
+  it('should normalize emails, folding Gmail dots and plus addressing', () => {
+    expect(normalizeEmail(' Jane.Doe+news@GoogleMail.com ')).toBe('janedoe@gmail.com');
+    expect(normalizeEmail('j.doe+crm@acme.com')).toBe('j.doe@acme.com');
+    expect(normalizeEmail('not-an-email')).toBeNull();
+    expect(normalizeEmail('@acme.com')).toBeNull();
+    expect(normalizeEmail(null)).toBeNull();
+  });
+
+  it('should compare phones by their last ten digits', () => {
+    expect(normalizePhone('+1 (555) 010-2030')).toBe('5550102030');
+    expect(normalizePhone('555.010.2030')).toBe('5550102030');
+    expect(normalizePhone('12345')).toBeNull();
+  });
+
+  it('should reduce LinkedIn URLs to the profile type and slug', () => {
+    expect(normalizeLinkedInUrl('https://www.linkedin.com/in/Jane-Doe/?utm=x')).toBe('in/jane-doe');
+    expect(normalizeLinkedInUrl('linkedin.com/company/Acme')).toBe('company/acme');
+    expect(normalizeLinkedInUrl('https://linkedin.com/in/j%C3%A9r%C3%B4me')).toBe('in/jérôme');
+    expect(normalizeLinkedInUrl('https://example.com/in/jane')).toBeNull();
+  });
+
+  it('should reduce domains and websites to a bare hostname', () => {
+    expect(normalizeDomain('https://www.Acme.com/about')).toBe('acme.com');
+    expect(normalizeDomain('acme.co.uk:8080')).toBe('acme.co.uk');
+    expect(normalizeDomain('localhost')).toBeNull();
+  });
+
+  it('should strip accents, punctuation and company suffixes from names', () => {
+    expect(normalizePersonName('  José  O\'Brien ')).toBe('jose o brien');
+    expect(normalizeCompanyName('Acme, Inc.')).toBe('acme');
+    expect(normalizeCompanyName('Acme Holdings Co Ltd')).toBe('acme holdings');
+    expect(normalizeCompanyName('Unknown Company')).toBeNull();
+  });
+});
+
+describe('match keys', () => {
+  it('should build person keys, with name keys only for a full name', () => {
+    expect(personKeys({
+      name: 'Jane Doe',
+      email: 'jane@acme.com',
+      phone: '555-010-2030',
+      company: 'Acme Inc',
+      linkedin_url: 'https://linkedin.com/in/janedoe',
+    })).toEqual({
+      email: 'jane@acme.com',
+      phone: '5550102030',
+      linkedin: 'in/janedoe',
+      name_company: 'jane doe|acme',
+      name_domain: 'jane doe|acme.com',
+    });
+
+    expect(personKeys({ name: 'Jane', email: 'jane@gmail.com', company: 'Acme' })).toEqual({
+      email: 'jane@gmail.com',
+    });
+  });
+
+  it('should not key a person on a free email domain', () => {
+    expect(personKeys({ name: 'Jane Doe', email: 'jane@gmail.com' })).not.toHaveProperty('name_domain');
+  });
+
+  it('should build account keys from the domain or website', () => {
+    expect(accountKeys({ name: 'Acme LLC', website: 'https://acme.com' })).toEqual({
+      domain: 'acme.com',
+      name: 'acme',
+    });
+    expect(accountKeys({ name: 'AB' })).toEqual({});
+  });
+
+  it('should list the reasons two key sets share', () => {
+    expect(matchReasons(
+      { email: 'a@acme.com', phone: '5550102030' },
+      { email: 'a@acme.com', phone: '5550109999' }
+    )).toEqual(['email']);
+  });
+
+  it('should score by the strongest reason plus five per extra reason', () => {
+    expect(duplicateScore([])).toBe(0);
+    expect(duplicateScore(['phone'])).toBe(70);
+    expect(duplicateScore(['phone', 'name_company'])).toBe(85);
+    expect(duplicateScore(['email', 'linkedin', 'phone'])).toBe(100);
+  });
+});
+
+describe('findDuplicatePairs', () => {
+  it('should pair records sharing a key, ordered by id and strongest first', () => {
+    const pairs = findDuplicatePairs([
+      { id: 'c', keys: { email: 'jane@acme.com', phone: '5550102030' } },
+      { id: 'a', keys: { email: 'jane@acme.com', phone: '5550102030' } },
+      { id: 'b', keys: { phone: '5550109999' } },
+      { id: 'd', keys: { phone: '5550109999' } },
+    ]);
+
+    expect(pairs).toEqual([
+      { recordId: 'a', duplicateId: 'c', reasons: ['email', 'phone'], score: 100 },
+      { recordId: 'b', duplicateId: 'd', reasons: ['phone'], score: 70 },
+    ]);
+  });
+
+  it('should ignore keys shared by too many records to be meaningful', () => {
+    const records = Array.from({ length: 30 }, (_, index) => ({
+      id: `lead-${String(index).padStart(2, '0')}`,
+      keys: { phone: '5550100000' },
+    }));
+
+    expect(findDuplicatePairs(records)).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+import { EmailValidator } from "@/lib/email/validator";
+
+export type DuplicateEntityType = "lead" | "contact" | "account";
+
+export type DuplicateReason =
+  | "email"
+  | "linkedin"
+  | "phone"
+  | "name_company"
+  | "name_domain"
+  | "domain"
+  | "name";
+
+export type DuplicateKeys = Partial<Record<DuplicateReason, string>>;
+
+export type DuplicatePair = {
+  recordId: string;
+  duplicateId: string;
+  reasons: DuplicateReason[];
+  score: number;
+};
+
+// How strongly one matching key alone suggests the records are the same
+export const DUPLICATE_REASON_WEIGHTS: Record<DuplicateReason, number> = {
+  email: 100,
+  linkedin: 95,
+  domain: 90,
+  name_company: 80,
+  name_domain: 80,
+  phone: 70,
+  name: 70,
+};
+
+// Keys shared by more records than this are placeholders (a switchboard number, "Unknown Company")
+const MAX_BUCKET_SIZE = 25;
+
+const GMAIL_DOMAINS = new Set(["gmail.com", "googlemail.com"]);
+
+const COMPANY_SUFFIXES = new Set([
+  "inc", "incorporated", "llc", "llp", "ltd", "limited", "corp", "corporation", "co", "company",
+  "plc", "gmbh", "ag", "sa", "sas", "srl", "bv", "nv", "pty", "oy", "ab", "as",
+]);
+
+const PLACEHOLDER_NAMES = new Set(["unknown", "unknown company", "none", "na", "n a", "test"]);
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const value = email?.trim().toLowerCase();
+  const at = value?.lastIndexOf("@") ?? -1;
+  if (!value || at <= 0) return null;
+
+  let local = value.slice(0, at).split("+")[0];
+  let domain = value.slice(at + 1);
+
+  if (GMAIL_DOMAINS.has(domain)) {
+    local = local.replace(/\./g, "");
+    domain = "gmail.com";
+  }
+
+  return local ? `${local}@${domain}` : null;
+}
+
+/**
+ * Last ten digits of a phone number, so "+1 (555) 010-2030" and "555.010.2030" match
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = phone?.replace(/\D/g, "") ?? "";
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+export function normalizeLinkedInUrl(url: string | null | undefined): string | null {
+  const match = url?.match(/linkedin\.com\/(in|pub|company)\/([^/?#\s]+)/i);
+  if (!match) return null;
+
+  let slug = match[2];
+  try {
+    slug = decodeURIComponent(slug);
+  } catch {
+    // Keep the raw slug when it is not valid percent-encoding
+  }
+
+  return `${match[1].toLowerCase()}/${slug.toLowerCase()}`;
+}
+
+/**
+ * Bare hostname from a domain or website value: "https://www.Acme.com/about" becomes "acme.com"
+ */
+export function normalizeDomain(value: string | null | undefined): string | null {
+  const host = value
+    ?.trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .split(/[/?#:]/)[0]
+    .replace(/^www\./, "");
+
+  return host && /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : null;
+}
+
+export function normalizePersonName(name: string | null | undefined): string | null {
+  const value = name
+    ?.normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+  return value || null;
+}
+
+export function normalizeCompanyName(name: string | null | undefined): string | null {
+  const tokens = normalizePersonName(name)?.split(" ") ?? [];
+  while (tokens.length > 1 && COMPANY_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+
+  const value = tokens.join(" ");
+  return value && !PLACEHOLDER_NAMES.has(value) ? value : null;
+}
+
+/**
+ * Match keys for a lead or contact. Name keys need a first and last name; a first name
+ * alone at the same company is too weak to suggest a duplicate.
+ */
+export function personKeys(person: {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  company?: string | null;
+  linkedin_url?: string | null;
+}): DuplicateKeys {
+  const keys: DuplicateKeys = {};
+  const email = normalizeEmail(person.email);
+  const phone = normalizePhone(person.phone);
+  const linkedin = normalizeLinkedInUrl(person.linkedin_url);
+  const name = normalizePersonName(person.name);
+  const company = normalizeCompanyName(person.company);
+  const domain = EmailValidator.getCompanyDomain(person.email);
+
+  if (email) keys.email = email;
+  if (phone) keys.phone = phone;
+  if (linkedin) keys.linkedin = linkedin;
+  if (name?.includes(" ")) {
+    if (company) keys.name_company = `${name}|${company}`;
+    if (domain) keys.name_domain = `${name}|${domain}`;
+  }
+
+  return keys;
+}
+
+export function accountKeys(account: {
+  name?: string | null;
+  domain?: string | null;
+  website?: string | null;
+  linkedin_url?: string | null;
+}): DuplicateKeys {
+  const keys: DuplicateKeys = {};
+  const domain = normalizeDomain(account.domain) ?? normalizeDomain(account.website);
+  const linkedin = normalizeLinkedInUrl(account.linkedin_url);
+  const name = normalizeCompanyName(account.name);
+
+  if (domain) keys.domain = domain;
+  if (linkedin) keys.linkedin = linkedin;
+  if (name && name.length >= 3) keys.name = name;
+
+  return keys;
+}
+
+export function matchReasons(a: DuplicateKeys, b: DuplicateKeys): DuplicateReason[] {
+  return (Object.keys(a) as DuplicateReason[]).filter((reason) => a[reason] === b[reason]);
+}
+
+/**
+ * The strongest matching key sets the score; each further match adds a little confidence
+ */
+export function duplicateScore(reasons: DuplicateReason[]): number {
+  if (reasons.length === 0) return 0;
+
+  const strongest = Math.max(...reasons.map((reason) => DUPLICATE_REASON_WEIGHTS[reason]));
+  return Math.min(100, strongest + 5 * (reasons.length - 1));
+}
+
+/**
+ * Every pair of records sharing at least one key, strongest first. Ids are ordered within a
+ * pair the way the review queue stores them.
+ */
+export function findDuplicatePairs(
+  records: Array<{ id: string; keys: DuplicateKeys }>
+): DuplicatePair[] {
+  const buckets = new Map<string, string[]>();
+  for (const record of records) {
+    for (const [reason, value] of Object.entries(record.keys)) {
+      const bucketKey = `${reason}:${value}`;
+      const ids = buckets.get(bucketKey) ?? [];
+      ids.push(record.id);
+      buckets.set(bucketKey, ids);
+    }
+  }
+
+  const pairs = new Map<string, DuplicatePair>();
+  for (const [bucketKey, ids] of buckets) {
+    if (ids.length < 2 || ids.length > MAX_BUCKET_SIZE) continue;
+
+    const reason = bucketKey.slice(0, bucketKey.indexOf(":")) as DuplicateReason;
+    const sorted = [...new Set(ids)].sort();
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const pairKey = `${sorted[i]}:${sorted[j]}`;
+        const pair = pairs.get(pairKey) ?? {
+          recordId: sorted[i],
+          duplicateId: sorted[j],
+          reasons: [],
+          score: 0,
+        };
+        pair.reasons.push(reason);
+        pairs.set(pairKey, pair);
+      }
+    }
+  }
+
+  return [...pairs.values()]
+    .map((pair) => ({ ...pair, score: duplicateScore(pair.reasons) }))
+    .sort((a, b) => b.score - a.score);
+}
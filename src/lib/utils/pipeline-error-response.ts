@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { PipelineError } from "@/lib/services/crm-pipelines";
+
+/**
+ * Response for an error thrown by the pipeline and opportunity services
+ */
+export function pipelineErrorResponse(error: unknown) {
+  if (error instanceof PipelineError) {
+    return new NextResponse(error.message, { status: error.status });
+  }
+
+  if (error instanceof z.ZodError) {
+    const message = error.errors
+      .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+      .join("; ");
+    return new NextResponse(message, { status: 400 });
+  }
+
+  console.error(error);
+  return new NextResponse(error instanceof Error ? error.message : "Internal error", { status: 500 });
+}
@@ -12,6 +12,14 @@ const isPublicRoute = createRouteMatcher([
   "/sign-out(.*)",
   "/sso-callback(.*)",
   "/api/webhooks(.*)",
+  "/api/playbooks/(.*)/trigger",
+  // Opened from recipients' mail clients; links and pixels carry signed tokens
+  "/api/sequences/track/(.*)",
+  // Unsubscribe links and RFC 8058 one-click POSTs from mailbox providers
+  "/api/unsubscribe(.*)",
+  "/api/sequences/unsubscribe(.*)",
+  // The Chrome extension has no Clerk session; these routes check extension API keys
+  "/api/linkedin(.*)",
   "/unauthorized",
 ]);
 
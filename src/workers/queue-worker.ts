@@ -14,11 +14,17 @@
  */
 
 import 'dotenv/config';
+import { randomUUID } from 'crypto';
 import { Worker, Job, QueueEvents } from 'bullmq';
 import { redisConfig } from '../lib/redis/client';
 import { ApolloService } from '../lib/services/apollo';
 import { createClient } from '../lib/supabase/server';
+import { createAdminClient } from '../lib/supabase/admin';
 import { AILeadScoringService } from '../lib/services/lead-scoring';
+import { PlaybookExecutor } from '../lib/services/playbook-executor';
+import { PlaybookTriggerService } from '../lib/services/playbook-triggers';
+import { AutoEnrollmentEngine } from '../lib/services/auto-enrollment';
+import type { PlaybookJobData } from '../lib/queue/playbook-queue';
 import type {
   EnrichmentJob,
   BulkJob,
@@ -33,6 +39,7 @@ const WORKER_CONFIG = {
     bulk: parseInt(process.env.WORKER_BULK_CONCURRENCY || '2'),
     webhook: parseInt(process.env.WORKER_WEBHOOK_CONCURRENCY || '10'),
     scoring: parseInt(process.env.WORKER_SCORING_CONCURRENCY || '3'),
+    playbook: parseInt(process.env.WORKER_PLAYBOOK_CONCURRENCY || '2'),
   },
   connection: {
     host: redisConfig.connection.host,
@@ -129,6 +136,13 @@ const enrichmentWorker = new Worker<EnrichmentJob>(
       await job.updateProgress(100);
       metrics.processed++;
 
+      await PlaybookTriggerService.emitEvent(metadata.orgId, 'enrichment.completed', {
+        lead_id: metadata.leadId ?? null,
+        enrichment_type: type,
+        identifier,
+        playbook_id: metadata.playbookId ?? null,
+      });
+
       console.log(`[Enrichment] Completed job ${job.id}`);
       return result;
 
@@ -274,7 +288,7 @@ const webhookWorker = new Worker<WebhookJob>(
                 .eq('id', existingLead.id);
             } else {
               // Create new lead from webhook
-              await supabase
+              const { data: newLead } = await supabase
                 .from('sales_leads')
                 .insert({
                   organization_id: orgId,
@@ -285,7 +299,20 @@ const webhookWorker = new Worker<WebhookJob>(
                   apollo_data: eventData,
                   enriched_at: new Date().toISOString(),
                   source: 'apollo_webhook',
+                })
+                .select('id')
+                .single();
+
+              if (newLead) {
+                await PlaybookTriggerService.emitEvent(orgId, 'lead.created', {
+                  lead_id: newLead.id,
+                  source: 'apollo_webhook',
+                });
+                await AutoEnrollmentEngine.emitTrigger(orgId, 'lead_created', {
+                  lead_id: newLead.id,
+                  source: 'apollo_webhook',
                 });
+              }
             }
           }
           break;
@@ -370,6 +397,15 @@ const scoringWorker = new Worker<ScoringJob>(
 
       await job.updateProgress(70);
 
+      const { data: previous } = await supabase
+        .from('lead_scores')
+        .select('score')
+        .eq('organization_id', metadata.orgId)
+        .eq('lead_id', leadId)
+        .maybeSingle();
+
+      const scoreChanged = previous?.score !== scoreResult.score;
+
       // Save score to database
       await supabase
         .from('lead_scores')
@@ -377,6 +413,10 @@ const scoringWorker = new Worker<ScoringJob>(
           lead_id: leadId,
           organization_id: metadata.orgId,
           score: scoreResult.score,
+          ...(scoreChanged && {
+            previous_score: previous?.score ?? null,
+            score_changed_at: new Date().toISOString(),
+          }),
           confidence: scoreResult.confidence,
           factors: scoreResult.factors,
           ai_insights: scoreResult.aiInsights,
@@ -388,6 +428,14 @@ const scoringWorker = new Worker<ScoringJob>(
       await job.updateProgress(100);
       metrics.processed++;
 
+      if (scoreChanged) {
+        await PlaybookTriggerService.emitEvent(metadata.orgId, 'lead.score_changed', {
+          lead_id: leadId,
+          score: scoreResult.score,
+          previous_score: previous?.score ?? null,
+        });
+      }
+
       console.log(`[Scoring] Completed lead ${leadId}: Score ${scoreResult.score}`);
       return scoreResult;
 
@@ -404,10 +452,114 @@ const scoringWorker = new Worker<ScoringJob>(
   }
 );
 
+/**
+ * Playbook Worker - Runs triggered playbooks and fans out domain events
+ */
+const playbookWorker = new Worker<PlaybookJobData>(
+  redisConfig.queues.playbooks,
+  async (job: Job<PlaybookJobData>) => {
+    const supabase = createAdminClient();
+
+    try {
+      switch (job.data.type) {
+        case 'run_playbook': {
+          const { playbookId, trigger } = job.data;
+
+          // A stalled job comes back with the execution it started; continue from its checkpoint
+          if (job.data.executionId) {
+            const result = await PlaybookExecutor.resumeExecution(job.data.executionId, 'running');
+            if (result.resumed) {
+              metrics.processed++;
+              return { executionId: result.execution.id, status: result.execution.status };
+            }
+            if (result.reason !== 'not_found') {
+              return { skipped: true, reason: result.reason };
+            }
+          }
+
+          console.log(`[Playbook] Running ${playbookId} (${trigger.type} trigger)`);
+
+          const playbook = await PlaybookTriggerService.loadPlaybook(playbookId);
+          if (!playbook) {
+            return { skipped: true, reason: 'not_found' };
+          }
+
+          // Manual runs are allowed on drafts; automatic triggers only fire for active playbooks
+          if (trigger.type !== 'manual' && playbook.status !== 'active') {
+            return { skipped: true, reason: `status_${playbook.status}` };
+          }
+
+          await supabase
+            .from('prospecting_playbooks')
+            .update({ last_run_at: new Date().toISOString() })
+            .eq('id', playbookId);
+
+          const executionId = job.data.executionId || randomUUID();
+          await job.updateData({ ...job.data, executionId });
+
+          const executor = new PlaybookExecutor(playbook.organizationId);
+          const execution = await executor.execute(
+            playbook,
+            {
+              trigger,
+              variables: {
+                ...(playbook.settings.variables || {}),
+                trigger: trigger.data || {},
+              },
+            },
+            executionId
+          );
+
+          metrics.processed++;
+          console.log(`[Playbook] Execution ${execution.id} of ${playbookId}: ${execution.status}`);
+          return { executionId: execution.id, status: execution.status };
+        }
+
+        case 'resume_execution': {
+          const { executionId, claimed } = job.data;
+          const result = await PlaybookExecutor.resumeExecution(
+            executionId,
+            claimed ? 'running' : 'waiting',
+            () => job.updateData({ type: 'resume_execution', executionId, claimed: true })
+          );
+
+          if (!result.resumed) {
+            return { skipped: true, reason: result.reason };
+          }
+
+          metrics.processed++;
+          console.log(`[Playbook] Execution ${executionId} resumed: ${result.execution.status}`);
+          return { executionId, status: result.execution.status };
+        }
+
+        case 'dispatch_event': {
+          const { orgId, event, data } = job.data;
+          const triggered = await PlaybookTriggerService.dispatchEvent(orgId, event, data);
+
+          metrics.processed++;
+          if (triggered.length > 0) {
+            console.log(`[Playbook] ${event} triggered ${triggered.length} playbook(s)`);
+          }
+          return { triggered };
+        }
+      }
+    } catch (error) {
+      metrics.failed++;
+      console.error(`[Playbook] Failed job ${job.id}:`, error);
+      throw error;
+    }
+  },
+  {
+    connection: WORKER_CONFIG.connection,
+    concurrency: WORKER_CONFIG.concurrency.playbook,
+    autorun: true,
+  }
+);
+
 /**
  * Worker Event Handlers
  */
-const workers = [enrichmentWorker, bulkWorker, webhookWorker, scoringWorker];
+const workers = [enrichmentWorker, bulkWorker, webhookWorker, scoringWorker, playbookWorker];
 
 workers.forEach((worker) => {
   worker.on('completed', (job) => {
@@ -457,6 +609,32 @@ process.on('SIGINT', async () => {
   process.exit(0);
 });
 
+/**
+ * Playbook Schedules
+ * Reconcile repeatable jobs on start and every few minutes so playbook edits are picked up,
+ * and re-queue waiting executions whose resume job was lost.
+ */
+const syncPlaybookSchedules = async () => {
+  try {
+    const { scheduled, removed } = await PlaybookTriggerService.syncAllSchedules();
+    console.log(`🗓️ Playbook schedules synced: ${scheduled} active, ${removed} removed`);
+  } catch (error) {
+    console.error('Playbook schedule sync failed:', error);
+  }
+
+  try {
+    const requeued = await PlaybookExecutor.requeueOverdueExecutions();
+    if (requeued > 0) {
+      console.log(`⏰ Re-queued ${requeued} overdue playbook execution(s)`);
+    }
+  } catch (error) {
+    console.error('Playbook execution recovery failed:', error);
+  }
+};
+
+syncPlaybookSchedules();
+setInterval(syncPlaybookSchedules, 5 * 60000);
+
 /**
  * Health Check & Metrics
  */
@@ -482,4 +660,5 @@ console.log(`
      - Bulk: ${WORKER_CONFIG.concurrency.bulk}
      - Webhook: ${WORKER_CONFIG.concurrency.webhook}
      - Scoring: ${WORKER_CONFIG.concurrency.scoring}
+     - Playbook: ${WORKER_CONFIG.concurrency.playbook}
 `);
\ No newline at end of file
@@ -2,12 +2,16 @@ import { Worker } from 'bullmq';
 import Redis from 'ioredis';
 import { SequenceExecutor } from '@/lib/services/sequence-executor';
 import { AutoEnrollmentEngine } from '@/lib/services/auto-enrollment';
+import { ReplyDetectionService } from '@/lib/services/reply-detection';
 import { SequenceJobData } from '@/lib/queue/sequence-queue';
 
 const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
     maxRetriesPerRequest: null,
 });
 
+// Leave steps that just came due to their own execute_step job
+const SWEEP_GRACE_MS = 2 * 60 * 1000;
+
 export const sequenceWorker = new Worker<SequenceJobData>(
     'sequence-execution',
     async (job) => {
@@ -15,29 +19,45 @@ export const sequenceWorker = new Worker<SequenceJobData>(
 
         try {
             switch (job.data.type) {
-                case 'execute_step':
-                    // Logic to execute a specific step for an enrollment
-                    // This might need a new method in SequenceExecutor or we can reuse existing ones
-                    // For now, we'll assume we process scheduled steps generally or implement specific logic
-                    // But SequenceExecutor.processScheduledSteps() processes ALL due steps.
-                    // Ideally, we want to process a specific enrollment's step.
-                    // Let's assume we call a method to process a single enrollment if available,
-                    // or just run the batch processor if the job is generic.
-
-                    // If we want granular execution:
-                    // await SequenceExecutor.executeStep(job.data.enrollmentId);
+                case 'execute_step': {
+                    const executed = await SequenceExecutor.executeStep(
+                        job.data.enrollmentId,
+                        job.data.scheduledFor
+                    );
+                    if (!executed) {
+                        console.log(`Skipped stale step job for enrollment ${job.data.enrollmentId}`);
+                    }
                     break;
+                }
 
                 case 'process_auto_enrollment':
+                    // Safe to retry: a rule enrolls each lead at most once
                     await AutoEnrollmentEngine.processTrigger(
-                        'lead_created', // This is a simplification, ideally we pass the trigger type
-                        { lead_id: job.data.leadId },
+                        job.data.triggerType,
+                        job.data.triggerData,
                         job.data.orgId
                     );
                     break;
 
+                case 'enroll_delayed':
+                    await AutoEnrollmentEngine.processDelayedEnrollment(
+                        job.data.ruleId,
+                        job.data.leadId,
+                        job.data.triggerData
+                    );
+                    break;
+
+                case 'process_scheduled_enrollments':
+                    await AutoEnrollmentEngine.processDueScheduledRules();
+                    break;
+
                 case 'process_scheduled_steps':
-                    await SequenceExecutor.processScheduledSteps();
+                    // Safety sweep for steps whose delayed job was lost
+                    await SequenceExecutor.processScheduledSteps({ graceMs: SWEEP_GRACE_MS });
+                    break;
+
+                case 'poll_inbound_replies':
+                    await ReplyDetectionService.pollMailbox();
                     break;
             }
         } catch (error) {
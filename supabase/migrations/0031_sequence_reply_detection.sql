@@ -0,0 +1,41 @@
+-- Migration: Sequence Reply Detection
+-- Description: Logs inbound replies and matches them back to sequence step executions
+
+-- Inbound messages received from SES receipt rules or the mailbox poller
+CREATE TABLE IF NOT EXISTS public.sequence_inbound_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- RFC 5322 identifiers
+  message_id TEXT NOT NULL,
+  in_reply_to TEXT,
+  reference_ids TEXT[] DEFAULT '{}',
+
+  -- Envelope details
+  from_email TEXT,
+  subject TEXT,
+  source TEXT NOT NULL CHECK (source IN ('ses', 'mailbox')),
+
+  -- Match result
+  status TEXT NOT NULL CHECK (status IN ('matched', 'unmatched', 'ignored')),
+  execution_id UUID REFERENCES public.sequence_step_executions(id) ON DELETE SET NULL,
+  enrollment_id UUID REFERENCES public.sequence_enrollments(id) ON DELETE SET NULL,
+  action_taken TEXT CHECK (action_taken IN ('paused', 'stopped', 'none')),
+
+  headers JSONB DEFAULT '{}'::jsonb,
+
+  CONSTRAINT unique_inbound_message_id UNIQUE(message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_messages_enrollment ON public.sequence_inbound_messages(enrollment_id);
+CREATE INDEX IF NOT EXISTS idx_inbound_messages_status ON public.sequence_inbound_messages(status, received_at DESC);
+
+-- Replies are matched on the provider message id of the original send
+CREATE INDEX IF NOT EXISTS idx_executions_email_message_id
+  ON public.sequence_step_executions(email_message_id)
+  WHERE email_message_id IS NOT NULL;
+
+GRANT ALL ON public.sequence_inbound_messages TO authenticated;
+
+COMMENT ON TABLE public.sequence_inbound_messages IS 'Inbound emails checked against sequence sends for reply detection';
+COMMENT ON COLUMN public.sequence_inbound_messages.action_taken IS 'What happened to the enrollment when the reply was matched';
@@ -0,0 +1,17 @@
+-- Migration: Playbook Assignment Cursors
+-- Description: Persists round-robin position per playbook assign step so rotation continues across runs
+
+CREATE TABLE IF NOT EXISTS playbook_assignment_cursors (
+  playbook_id UUID NOT NULL REFERENCES prospecting_playbooks(id) ON DELETE CASCADE,
+  step_id TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (playbook_id, step_id)
+);
+
+ALTER TABLE playbook_assignment_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their org's assignment cursors" ON playbook_assignment_cursors
+  FOR ALL USING (true);
+
+COMMENT ON TABLE playbook_assignment_cursors IS 'Next round-robin index for each playbook assign step';
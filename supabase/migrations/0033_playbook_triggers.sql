@@ -0,0 +1,13 @@
+-- Migration: Playbook Trigger Runtime
+-- Description: Stores playbook settings (global variables, notifications) alongside the trigger config
+
+ALTER TABLE prospecting_playbooks
+ADD COLUMN IF NOT EXISTS settings JSONB DEFAULT '{}';
+
+-- Event-triggered playbooks are looked up per organization on every emitted event
+CREATE INDEX IF NOT EXISTS idx_playbooks_org_trigger
+  ON prospecting_playbooks(organization_id, trigger_type)
+  WHERE status = 'active';
+
+COMMENT ON COLUMN prospecting_playbooks.trigger_config IS 'Trigger body keyed by type, e.g. {"schedule": {...}}, {"webhook": {...}} or {"event": {...}}';
+COMMENT ON COLUMN prospecting_playbooks.settings IS 'PlaybookSettings: concurrency, notifications, global variables';
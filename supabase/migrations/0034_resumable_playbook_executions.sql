@@ -0,0 +1,42 @@
+-- Migration: Resumable Playbook Executions
+-- Description: Checkpoints playbook runs so wait steps and worker restarts resume from the last completed step
+
+ALTER TABLE playbook_executions
+ADD COLUMN IF NOT EXISTS current_step_index INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS resume_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS metrics JSONB DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS cancelled_by TEXT,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- 'waiting' = suspended on a wait step until resume_at
+ALTER TABLE playbook_executions DROP CONSTRAINT IF EXISTS playbook_executions_status_check;
+ALTER TABLE playbook_executions ADD CONSTRAINT playbook_executions_status_check
+  CHECK (status IN ('running', 'waiting', 'completed', 'failed', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_playbook_executions_resume
+  ON playbook_executions(resume_at)
+  WHERE status = 'waiting';
+
+COMMENT ON COLUMN playbook_executions.current_step_index IS 'Index of the next top-level step to run';
+COMMENT ON COLUMN playbook_executions.execution_context IS 'ExecutionContext (trigger + variables) as of the last checkpoint';
+
+-- Run counters bumped by the executor when an execution finishes
+CREATE OR REPLACE FUNCTION increment_playbook_success(playbook_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.prospecting_playbooks
+  SET run_count = run_count + 1,
+      success_count = success_count + 1
+  WHERE id = playbook_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION increment_playbook_failure(playbook_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.prospecting_playbooks
+  SET run_count = run_count + 1,
+      failure_count = failure_count + 1
+  WHERE id = playbook_id;
+END;
+$$ LANGUAGE plpgsql;
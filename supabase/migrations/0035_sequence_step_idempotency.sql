@@ -0,0 +1,11 @@
+-- Migration: Sequence Step Idempotency
+-- Description: Each scheduled step claims an execution row by key so overlapping jobs never send twice
+
+ALTER TABLE public.sequence_step_executions
+ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_step_executions_idempotency_key
+  ON public.sequence_step_executions(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+COMMENT ON COLUMN public.sequence_step_executions.idempotency_key IS 'enrollment:step:scheduled-at; claimed before a step runs';
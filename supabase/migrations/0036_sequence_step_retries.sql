@@ -0,0 +1,19 @@
+-- Migration: Sequence Step Retries
+-- Description: Backoff state for failed step executions and a dead-letter reason on enrollments
+
+ALTER TABLE public.sequence_step_executions
+ADD COLUMN IF NOT EXISTS error_code TEXT,
+ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS replayed_at TIMESTAMPTZ;
+
+ALTER TABLE public.sequence_enrollments
+ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS failed_reason TEXT;
+
+-- Dead-letter view: failed enrollments per organization
+CREATE INDEX IF NOT EXISTS idx_enrollments_failed
+  ON public.sequence_enrollments(organization_id, failed_at DESC)
+  WHERE status = 'failed';
+
+COMMENT ON COLUMN public.sequence_step_executions.next_retry_at IS 'When a transient failure may be retried; NULL once retries are exhausted';
+COMMENT ON COLUMN public.sequence_enrollments.failed_reason IS 'Why the enrollment was dead-lettered after its step failed';
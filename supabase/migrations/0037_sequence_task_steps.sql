@@ -0,0 +1,40 @@
+-- Migration: LinkedIn and Call Sequence Steps
+-- Description: Lets LinkedIn, call and manual email steps run as tasks that hold the enrollment until completed
+
+ALTER TABLE public.sequence_steps DROP CONSTRAINT IF EXISTS sequence_steps_step_type_check;
+ALTER TABLE public.sequence_steps ADD CONSTRAINT sequence_steps_step_type_check
+  CHECK (step_type IN (
+    'email',
+    'manual_email',
+    'task',
+    'call',
+    'linkedin_connection',
+    'linkedin_message',
+    'linkedin_profile_view',
+    'linkedin_engagement',
+    'wait',
+    'conditional',
+    'webhook'
+  ));
+
+-- LinkedIn settings live in sequence_linkedin_steps; call settings are small enough to keep inline
+ALTER TABLE public.sequence_steps
+ADD COLUMN IF NOT EXISTS call_config JSONB;
+
+ALTER TABLE public.sequence_step_executions
+ADD COLUMN IF NOT EXISTS linkedin_task_id UUID REFERENCES public.linkedin_tasks(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS outcome TEXT;
+
+-- Set while the enrollment waits on a LinkedIn or CRM task; the next step is scheduled once it completes
+ALTER TABLE public.sequence_enrollments
+ADD COLUMN IF NOT EXISTS awaiting_execution_id UUID REFERENCES public.sequence_step_executions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_step_executions_linkedin_task
+  ON public.sequence_step_executions(linkedin_task_id)
+  WHERE linkedin_task_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_step_executions_task
+  ON public.sequence_step_executions(task_id)
+  WHERE task_id IS NOT NULL;
+
+COMMENT ON COLUMN public.sequence_step_executions.outcome IS 'Outcome reported when the step''s task was completed (e.g. call disposition)';
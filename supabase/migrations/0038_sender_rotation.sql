@@ -0,0 +1,23 @@
+-- Migration: Sender Rotation
+-- Description: Daily send caps on senders and domains, and the sender each enrollment is threaded from
+
+ALTER TABLE email_senders
+ADD COLUMN IF NOT EXISTS daily_limit INTEGER NOT NULL DEFAULT 200 CHECK (daily_limit > 0),
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE email_domains
+ADD COLUMN IF NOT EXISTS daily_limit INTEGER NOT NULL DEFAULT 1000 CHECK (daily_limit > 0);
+
+-- Replies thread to the inbox that sent the first email, so later steps reuse it
+ALTER TABLE public.sequence_enrollments
+ADD COLUMN IF NOT EXISTS sender_id UUID REFERENCES email_senders(id) ON DELETE SET NULL;
+
+ALTER TABLE public.sequence_step_executions
+ADD COLUMN IF NOT EXISTS sender_id UUID REFERENCES email_senders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_senders_org_active
+  ON email_senders(organization_id)
+  WHERE is_active = TRUE;
+
+COMMENT ON COLUMN email_senders.daily_limit IS 'Maximum sequence emails per UTC day from this sender; counted in Redis';
+COMMENT ON COLUMN email_domains.daily_limit IS 'Maximum sequence emails per UTC day across all senders on this domain';
@@ -0,0 +1,42 @@
+-- Migration: Recipient Timezone Scheduling
+-- Description: Schedules sequence steps in each lead's local time and skips per-country holidays
+
+-- Leads without a known timezone fall back to the sequence's timezone instead of a fixed default
+ALTER TABLE public.sales_leads ALTER COLUMN timezone DROP DEFAULT;
+
+-- Nothing wrote sales_leads.timezone before this migration, so a stored 'America/New_York' is the
+-- old column default rather than a timezone anyone set. Clear it so the fallbacks can apply.
+UPDATE public.sales_leads
+SET timezone = NULL
+WHERE timezone = 'America/New_York';
+
+ALTER TABLE public.sales_leads
+ADD COLUMN IF NOT EXISTS country TEXT; -- ISO 3166-1 alpha-2, used to pick the holiday calendar
+
+CREATE TABLE IF NOT EXISTS public.sequence_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  organization_id TEXT,  -- NULL = shared calendar available to every organization
+  country_code TEXT,     -- NULL = applies to recipients in every country
+  holiday_date DATE NOT NULL,
+  name TEXT NOT NULL,
+
+  created_by TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sequence_holidays_unique
+  ON public.sequence_holidays(COALESCE(organization_id, ''), COALESCE(country_code, ''), holiday_date);
+
+CREATE INDEX IF NOT EXISTS idx_sequence_holidays_date
+  ON public.sequence_holidays(holiday_date);
+
+ALTER TABLE public.sequence_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view holidays" ON public.sequence_holidays
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can manage holidays" ON public.sequence_holidays
+  FOR ALL USING (true);
+
+COMMENT ON TABLE public.sequence_holidays IS 'Dates on which sequence steps are not sent, in the recipient''s local calendar';
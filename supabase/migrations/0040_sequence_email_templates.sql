@@ -0,0 +1,39 @@
+-- Migration: Sequence Email Templates
+-- Description: Immutable snapshots of saved email templates, and sequence email steps that send a pinned snapshot
+
+CREATE TABLE IF NOT EXISTS public.email_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.email_templates (id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL CHECK (version_number > 0),
+  subject_line TEXT,
+  preheader_text TEXT,
+  html TEXT,
+  design_json JSONB,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (template_id, version_number)
+);
+
+ALTER TABLE public.email_templates
+ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 0;
+
+-- Existing templates start at version 1
+INSERT INTO public.email_template_versions (template_id, version_number, subject_line, preheader_text, html, design_json, created_by, created_at)
+SELECT id, 1, subject_line, preheader_text, html, design_json, created_by, updated_at
+FROM public.email_templates
+WHERE current_version = 0
+ON CONFLICT (template_id, version_number) DO NOTHING;
+
+UPDATE public.email_templates SET current_version = 1 WHERE current_version = 0;
+
+-- A template cannot be deleted while a step still sends it
+ALTER TABLE public.sequence_steps
+ADD COLUMN IF NOT EXISTS email_template_id UUID REFERENCES public.email_templates (id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS email_template_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_sequence_steps_email_template
+  ON public.sequence_steps (email_template_id)
+  WHERE email_template_id IS NOT NULL;
+
+COMMENT ON TABLE public.email_template_versions IS 'Snapshot written on every save; sequence steps send a pinned snapshot so later edits do not change live sequences';
+COMMENT ON COLUMN public.sequence_steps.email_template_version IS 'Pinned email_template_versions.version_number; NULL sends the latest version';
@@ -0,0 +1,21 @@
+-- Migration: Compiled Email Templates
+-- Description: Keeps MJML sources and caches each version's compiled HTML so sends do not recompile
+
+ALTER TABLE public.email_templates
+ADD COLUMN IF NOT EXISTS mjml TEXT;
+
+ALTER TABLE public.email_template_versions
+ADD COLUMN IF NOT EXISTS mjml TEXT,
+ADD COLUMN IF NOT EXISTS amp_html TEXT,
+ADD COLUMN IF NOT EXISTS compiled_html TEXT,
+ADD COLUMN IF NOT EXISTS compiled_at TIMESTAMPTZ;
+
+UPDATE public.email_template_versions v
+SET amp_html = t.amp_html
+FROM public.email_templates t
+WHERE v.template_id = t.id
+  AND v.version_number = t.current_version
+  AND v.amp_html IS NULL;
+
+COMMENT ON COLUMN public.email_templates.mjml IS 'MJML source when the template was authored in MJML rather than the block builder';
+COMMENT ON COLUMN public.email_template_versions.compiled_html IS 'Inlined, sanitized HTML with template variables left in place; filled on first use for versions saved before compilation';
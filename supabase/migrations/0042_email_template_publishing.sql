@@ -0,0 +1,56 @@
+-- Migration: Email Template Publishing
+-- Description: Draft and published template versions; only published versions are sent
+
+ALTER TABLE public.email_template_versions
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('draft', 'published')),
+ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS published_by TEXT,
+ADD COLUMN IF NOT EXISTS change_note TEXT,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Every version saved so far was sent as soon as it was saved
+UPDATE public.email_template_versions
+SET published_at = created_at
+WHERE status = 'published' AND published_at IS NULL;
+
+-- Saves accumulate in a single open draft until it is published
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_template_versions_one_draft
+  ON public.email_template_versions (template_id)
+  WHERE status = 'draft';
+
+ALTER TABLE public.email_templates
+ADD COLUMN IF NOT EXISTS published_version INTEGER;
+
+UPDATE public.email_templates
+SET published_version = current_version
+WHERE published_version IS NULL AND current_version > 0;
+
+-- Published versions are immutable; only the compiled cache may be filled in later
+CREATE OR REPLACE FUNCTION public.email_template_versions_guard_published()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'published' AND (
+    NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.subject_line IS DISTINCT FROM OLD.subject_line
+    OR NEW.preheader_text IS DISTINCT FROM OLD.preheader_text
+    OR NEW.html IS DISTINCT FROM OLD.html
+    OR NEW.amp_html IS DISTINCT FROM OLD.amp_html
+    OR NEW.mjml IS DISTINCT FROM OLD.mjml
+    OR NEW.design_json IS DISTINCT FROM OLD.design_json
+  ) THEN
+    RAISE EXCEPTION 'Published email template versions cannot be modified';
+  END IF;
+
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_email_template_versions_guard_published ON public.email_template_versions;
+CREATE TRIGGER trg_email_template_versions_guard_published
+BEFORE UPDATE ON public.email_template_versions
+FOR EACH ROW
+EXECUTE FUNCTION public.email_template_versions_guard_published();
+
+COMMENT ON COLUMN public.email_templates.published_version IS 'Version sent by steps and transactional sends that follow the latest version';
+COMMENT ON COLUMN public.email_template_versions.status IS 'draft while being edited; published versions are frozen and can be pinned';
@@ -0,0 +1,30 @@
+-- Migration: Extension API Keys
+-- Description: Per-user tokens for the Chrome extension, hashed at rest and bound to one LinkedIn account
+
+CREATE TABLE IF NOT EXISTS public.extension_api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  organization_id TEXT NOT NULL,
+  user_id TEXT NOT NULL, -- Clerk user the token was issued to
+  linkedin_account_id UUID NOT NULL REFERENCES public.linkedin_accounts (id) ON DELETE CASCADE,
+
+  name TEXT NOT NULL,
+  token_prefix TEXT NOT NULL, -- First characters of the token, shown so users can tell keys apart
+  token_hash TEXT NOT NULL UNIQUE, -- SHA-256 hex digest; the token itself is never stored
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['linkedin:tasks:read', 'linkedin:tasks:write'],
+
+  last_used_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  revoked_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_extension_api_keys_user
+  ON public.extension_api_keys (organization_id, user_id, created_at DESC);
+
+-- Keys are only read through the service role; there are no client policies on purpose
+ALTER TABLE public.extension_api_keys ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.extension_api_keys IS 'Bearer tokens for /api/linkedin; each key acts as one rep through one linkedin_accounts row';
+COMMENT ON COLUMN public.extension_api_keys.scopes IS 'linkedin:tasks:read lists tasks, linkedin:tasks:write creates and updates them';
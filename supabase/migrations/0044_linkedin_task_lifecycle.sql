@@ -0,0 +1,143 @@
+-- Migration: LinkedIn Task Lifecycle
+-- Description: Leased task claims for the extension, failure reasons and snoozing, within each account's daily limits
+
+ALTER TABLE public.linkedin_tasks
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS failure_reason TEXT,
+ADD COLUMN IF NOT EXISTS snooze_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_linkedin_tasks_leases
+  ON public.linkedin_tasks (linkedin_account_id, lease_expires_at)
+  WHERE status = 'processing';
+
+-- Usage category counted against linkedin_accounts.daily_limits; NULL for unmetered actions
+CREATE OR REPLACE FUNCTION linkedin_usage_field(p_action_type TEXT) RETURNS TEXT AS $$
+  SELECT CASE p_action_type
+    WHEN 'connect' THEN 'connections'
+    WHEN 'message' THEN 'messages'
+    WHEN 'view_profile' THEN 'profile_views'
+    WHEN 'like_post' THEN 'likes'
+    ELSE NULL
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Claim due tasks for one LinkedIn account. Expired leases are claimable again while attempts
+-- remain, and metered actions only go out while usage plus tasks still leased stays under the daily limit.
+CREATE OR REPLACE FUNCTION claim_linkedin_tasks(
+  p_organization_id TEXT,
+  p_account_id UUID,
+  p_limit INTEGER,
+  p_lease_seconds INTEGER
+) RETURNS SETOF public.linkedin_tasks AS $$
+DECLARE
+  v_limits JSONB;
+  v_usage JSONB;
+BEGIN
+  -- Serialize claims per account so two pollers cannot both take the last slot
+  UPDATE linkedin_accounts
+  SET
+    daily_usage = CASE WHEN usage_reset_at <= NOW()
+      THEN '{"connections": 0, "messages": 0, "profile_views": 0, "likes": 0}'::JSONB
+      ELSE daily_usage END,
+    usage_reset_at = CASE WHEN usage_reset_at <= NOW()
+      THEN NOW() + INTERVAL '1 day'
+      ELSE usage_reset_at END
+  WHERE id = p_account_id AND organization_id = p_organization_id
+  RETURNING daily_limits, daily_usage INTO v_limits, v_usage;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH in_flight AS (
+    SELECT linkedin_usage_field(action_type) AS field, COUNT(*) AS leased
+    FROM linkedin_tasks
+    WHERE linkedin_account_id = p_account_id
+      AND status = 'processing'
+      AND lease_expires_at > NOW()
+    GROUP BY 1
+  ),
+  candidates AS (
+    SELECT
+      t.id,
+      linkedin_usage_field(t.action_type) AS field,
+      ROW_NUMBER() OVER (
+        PARTITION BY linkedin_usage_field(t.action_type)
+        ORDER BY t.priority DESC, t.created_at
+      ) AS position,
+      t.priority,
+      t.created_at
+    FROM linkedin_tasks t
+    WHERE t.organization_id = p_organization_id
+      AND (t.linkedin_account_id = p_account_id OR t.linkedin_account_id IS NULL)
+      AND (
+        t.status = 'pending'
+        OR (
+          t.status = 'processing'
+          AND t.lease_expires_at <= NOW()
+          AND t.attempts < t.max_attempts
+        )
+      )
+      AND (t.execute_after IS NULL OR t.execute_after <= NOW())
+      AND (t.scheduled_for IS NULL OR t.scheduled_for <= NOW())
+  ),
+  allowed AS (
+    SELECT c.id
+    FROM candidates c
+    LEFT JOIN in_flight f ON f.field = c.field
+    WHERE c.field IS NULL
+      OR c.position <= COALESCE((v_limits->>c.field)::INTEGER, 0)
+        - COALESCE((v_usage->>c.field)::INTEGER, 0)
+        - COALESCE(f.leased, 0)
+    ORDER BY c.priority DESC, c.created_at
+    LIMIT p_limit
+  ),
+  locked AS (
+    SELECT t.id
+    FROM linkedin_tasks t
+    JOIN allowed a ON a.id = t.id
+    FOR UPDATE OF t SKIP LOCKED
+  )
+  UPDATE linkedin_tasks t
+  SET
+    status = 'processing',
+    linkedin_account_id = p_account_id,
+    claimed_at = NOW(),
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    attempts = t.attempts + 1
+  FROM locked
+  WHERE t.id = locked.id
+  RETURNING t.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Fail processing tasks whose lease ran out on their last allowed attempt. The failed tasks
+-- are returned so the caller can move on the sequence steps waiting on them.
+CREATE OR REPLACE FUNCTION dead_letter_linkedin_tasks(
+  p_organization_id TEXT
+) RETURNS SETOF public.linkedin_tasks AS $$
+  WITH exhausted AS (
+    SELECT id
+    FROM linkedin_tasks
+    WHERE organization_id = p_organization_id
+      AND status = 'processing'
+      AND lease_expires_at <= NOW()
+      AND attempts >= max_attempts
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE linkedin_tasks t
+  SET
+    status = 'failed',
+    failure_reason = 'lease_expired',
+    error_message = 'Lease expired on the final attempt',
+    executed_at = NOW(),
+    lease_expires_at = NULL
+  FROM exhausted
+  WHERE t.id = exhausted.id
+  RETURNING t.*;
+$$ LANGUAGE sql;
+
+COMMENT ON COLUMN public.linkedin_tasks.lease_expires_at IS 'A processing task whose lease has passed is handed out again on the next claim, or failed once max_attempts is used up';
+COMMENT ON COLUMN public.linkedin_tasks.failure_reason IS 'Machine-readable reason reported by the extension, e.g. profile_unavailable or rate_limited';
@@ -0,0 +1,33 @@
+-- Migration: LinkedIn Profile Capture
+-- Description: Profile fields on leads and contacts, linked to the captured profile, with per-field provenance
+
+ALTER TABLE public.sales_leads
+ADD COLUMN IF NOT EXISTS title TEXT,
+ADD COLUMN IF NOT EXISTS headline TEXT,
+ADD COLUMN IF NOT EXISTS location TEXT,
+ADD COLUMN IF NOT EXISTS linkedin_profile_id UUID REFERENCES public.linkedin_profiles (id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS field_sources JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.sales_contacts
+ADD COLUMN IF NOT EXISTS headline TEXT,
+ADD COLUMN IF NOT EXISTS linkedin_profile_id UUID REFERENCES public.linkedin_profiles (id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS field_sources JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.sales_accounts
+ADD COLUMN IF NOT EXISTS field_sources JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Captures match people by profile URL first
+CREATE INDEX IF NOT EXISTS idx_sales_leads_linkedin_url
+  ON public.sales_leads (organization_id, lower(linkedin_url))
+  WHERE linkedin_url IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sales_contacts_linkedin_url
+  ON public.sales_contacts (organization_id, lower(linkedin_url))
+  WHERE linkedin_url IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sales_accounts_name
+  ON public.sales_accounts (organization_id, lower(name));
+
+COMMENT ON COLUMN public.sales_leads.field_sources IS 'Per-column provenance, e.g. {"title": {"source": "linkedin", "captured_at": "..."}}; values from other sources are not overwritten by captures';
+COMMENT ON COLUMN public.sales_contacts.field_sources IS 'Per-column provenance; see sales_leads.field_sources';
+COMMENT ON COLUMN public.sales_accounts.field_sources IS 'Per-column provenance; see sales_leads.field_sources';
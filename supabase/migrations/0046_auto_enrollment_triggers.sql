@@ -0,0 +1,39 @@
+-- Migration: Auto-Enrollment Triggers
+-- Description: Per-rule webhook secrets, scheduled rule evaluation and one enrollment per rule and lead
+
+ALTER TABLE public.sequence_auto_enrollment_rules
+ADD COLUMN IF NOT EXISTS webhook_secret TEXT NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+ADD COLUMN IF NOT EXISTS last_evaluated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.sequence_auto_enrollment_rules.webhook_secret IS 'HMAC secret for the rule''s inbound webhook (/api/webhooks/auto-enrollment/<rule id>)';
+COMMENT ON COLUMN public.sequence_auto_enrollment_rules.last_evaluated_at IS 'When a scheduled rule last re-ran its audience; trigger_config.interval_minutes sets the cadence';
+
+-- Tag rules and tag_added triggers read tags from the lead
+ALTER TABLE public.sales_leads
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_sales_leads_tags
+  ON public.sales_leads USING GIN (tags);
+
+CREATE INDEX IF NOT EXISTS idx_auto_enrollment_rules_scheduled
+  ON public.sequence_auto_enrollment_rules (last_evaluated_at)
+  WHERE trigger_type = 'scheduled' AND is_active = true;
+
+-- Keep the earliest enrollment when a rule already enrolled the same lead more than once
+UPDATE public.sequence_auto_enrollment_logs
+SET status = 'skipped',
+    skip_reason = 'already_enrolled_by_rule'
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY rule_id, lead_id ORDER BY created_at) AS rn
+    FROM public.sequence_auto_enrollment_logs
+    WHERE status = 'enrolled' AND lead_id IS NOT NULL
+  ) ranked
+  WHERE ranked.rn > 1
+);
+
+-- The enrolled log row is the claim: a rule enrolls a lead at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_auto_enrollment_logs_rule_lead_enrolled
+  ON public.sequence_auto_enrollment_logs (rule_id, lead_id)
+  WHERE status = 'enrolled' AND lead_id IS NOT NULL;
@@ -0,0 +1,35 @@
+-- Migration: Signed Email Tracking Links
+-- Description: Short link ids for click tracking and machine-event flags on opens and clicks
+
+-- Click redirects resolve a short link id here instead of trusting a URL in the query string
+CREATE TABLE IF NOT EXISTS public.sequence_tracked_links (
+  id TEXT PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  execution_id UUID NOT NULL REFERENCES public.sequence_step_executions(id) ON DELETE CASCADE,
+  enrollment_id UUID NOT NULL REFERENCES public.sequence_enrollments(id) ON DELETE CASCADE,
+
+  url TEXT NOT NULL,
+  link_position INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sequence_tracked_links_execution
+  ON public.sequence_tracked_links (execution_id);
+
+ALTER TABLE public.sequence_tracked_links ENABLE ROW LEVEL SECURITY;
+
+-- Delivery time for the sub-second-click heuristic
+ALTER TABLE public.sequence_step_executions
+ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ;
+
+-- Machine events are kept for auditing but never set opened_at / clicked_at or the enrollment counters
+ALTER TABLE public.sequence_email_events
+ADD COLUMN IF NOT EXISTS link_id TEXT REFERENCES public.sequence_tracked_links(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS is_machine BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS machine_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_email_events_execution_human
+  ON public.sequence_email_events (execution_id, event_type, occurred_at)
+  WHERE is_machine = false;
+
+COMMENT ON COLUMN public.sequence_email_events.machine_reason IS 'Why an open or click was attributed to a scanner, proxy or prefetch: user_agent, ip_range, prefetch, too_fast or link_burst';
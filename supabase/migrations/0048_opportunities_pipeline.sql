@@ -0,0 +1,135 @@
+-- Migration: Opportunities Pipeline
+-- Description: Deals linked to accounts and contacts, per-organization pipelines with weighted stages,
+-- and stage-change history for pipeline reviews and forecasting
+
+CREATE TABLE IF NOT EXISTS public.sales_pipelines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by TEXT REFERENCES public.admin_users (clerk_user_id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_pipelines_org ON public.sales_pipelines (organization_id);
+
+-- One default pipeline per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_pipelines_default
+  ON public.sales_pipelines (organization_id)
+  WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS public.sales_pipeline_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pipeline_id UUID NOT NULL REFERENCES public.sales_pipelines (id) ON DELETE CASCADE,
+  organization_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  probability NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (probability >= 0 AND probability <= 100),
+  -- Won and lost stages close the opportunity
+  stage_type TEXT NOT NULL DEFAULT 'open' CHECK (stage_type IN ('open', 'won', 'lost')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_pipeline_stages_pipeline ON public.sales_pipeline_stages (pipeline_id, position);
+
+CREATE TABLE IF NOT EXISTS public.sales_opportunities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id TEXT NOT NULL,
+  pipeline_id UUID NOT NULL REFERENCES public.sales_pipelines (id) ON DELETE RESTRICT,
+  stage_id UUID NOT NULL REFERENCES public.sales_pipeline_stages (id) ON DELETE RESTRICT,
+  account_id UUID REFERENCES public.sales_accounts (id) ON DELETE SET NULL,
+  lead_id UUID REFERENCES public.sales_leads (id) ON DELETE SET NULL,
+
+  name TEXT NOT NULL,
+  amount NUMERIC(14,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  close_date DATE,
+  -- Overrides the stage probability when set
+  probability NUMERIC(5,2) CHECK (probability >= 0 AND probability <= 100),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'won', 'lost')),
+  lost_reason TEXT,
+  description TEXT,
+
+  assigned_to TEXT REFERENCES public.admin_users (clerk_user_id),
+  created_by TEXT REFERENCES public.admin_users (clerk_user_id),
+
+  stage_entered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  metadata JSONB DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_opportunities_pipeline ON public.sales_opportunities (pipeline_id, stage_id);
+CREATE INDEX IF NOT EXISTS idx_sales_opportunities_account ON public.sales_opportunities (account_id);
+CREATE INDEX IF NOT EXISTS idx_sales_opportunities_lead ON public.sales_opportunities (lead_id);
+CREATE INDEX IF NOT EXISTS idx_sales_opportunities_assigned ON public.sales_opportunities (assigned_to);
+
+-- Forecast queries scan an organization's deals by close month
+CREATE INDEX IF NOT EXISTS idx_sales_opportunities_forecast
+  ON public.sales_opportunities (organization_id, pipeline_id, close_date);
+
+CREATE TABLE IF NOT EXISTS public.sales_opportunity_contacts (
+  opportunity_id UUID NOT NULL REFERENCES public.sales_opportunities (id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.sales_contacts (id) ON DELETE CASCADE,
+  role TEXT, -- e.g. decision_maker, champion, influencer
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (opportunity_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_opportunity_contacts_contact ON public.sales_opportunity_contacts (contact_id);
+
+CREATE TABLE IF NOT EXISTS public.sales_opportunity_stage_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  opportunity_id UUID NOT NULL REFERENCES public.sales_opportunities (id) ON DELETE CASCADE,
+  organization_id TEXT NOT NULL,
+  from_stage_id UUID REFERENCES public.sales_pipeline_stages (id) ON DELETE SET NULL,
+  to_stage_id UUID REFERENCES public.sales_pipeline_stages (id) ON DELETE SET NULL,
+  -- Deal snapshot at the time of the move
+  amount NUMERIC(14,2),
+  probability NUMERIC(5,2),
+  -- Time spent in the stage being left
+  seconds_in_stage BIGINT,
+  changed_by TEXT,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_opportunity_stage_history_opportunity
+  ON public.sales_opportunity_stage_history (opportunity_id, changed_at);
+
+CREATE TRIGGER update_sales_pipelines_updated_at BEFORE UPDATE ON public.sales_pipelines
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_sales_pipeline_stages_updated_at BEFORE UPDATE ON public.sales_pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_sales_opportunities_updated_at BEFORE UPDATE ON public.sales_opportunities
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.sales_pipelines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_pipeline_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_opportunities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_opportunity_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_opportunity_stage_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their org's pipelines" ON public.sales_pipelines
+  FOR ALL USING (true);
+
+CREATE POLICY "Users can manage their org's pipeline stages" ON public.sales_pipeline_stages
+  FOR ALL USING (true);
+
+CREATE POLICY "Users can manage their org's opportunities" ON public.sales_opportunities
+  FOR ALL USING (true);
+
+CREATE POLICY "Users can manage their org's opportunity contacts" ON public.sales_opportunity_contacts
+  FOR ALL USING (true);
+
+CREATE POLICY "Users can view their org's opportunity history" ON public.sales_opportunity_stage_history
+  FOR ALL USING (true);
+
+COMMENT ON TABLE public.sales_opportunities IS 'Deals tracked through an organization pipeline; status follows the stage type';
+COMMENT ON COLUMN public.sales_opportunities.probability IS 'Win probability override; the stage probability applies when NULL';
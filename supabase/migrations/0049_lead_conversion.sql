@@ -0,0 +1,48 @@
+-- Migration: Lead Conversion
+-- Description: Converted leads point at the contact, account and opportunity they became; tasks and
+-- enrollments can be attached to the contact like activities already can
+
+ALTER TYPE lead_status ADD VALUE IF NOT EXISTS 'converted';
+
+ALTER TABLE public.sales_leads
+ADD COLUMN IF NOT EXISTS converted_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS converted_by TEXT,
+ADD COLUMN IF NOT EXISTS converted_contact_id UUID REFERENCES public.sales_contacts (id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS converted_account_id UUID REFERENCES public.sales_accounts (id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS converted_opportunity_id UUID REFERENCES public.sales_opportunities (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sales_leads_converted_contact ON public.sales_leads (converted_contact_id)
+  WHERE converted_contact_id IS NOT NULL;
+
+-- A converted lead's tasks and activities point at the contact too; deleting the contact or account
+-- must not take the lead's history with it
+ALTER TABLE public.crm_tasks
+ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.sales_contacts (id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.sales_accounts (id) ON DELETE SET NULL;
+
+ALTER TABLE public.crm_activities
+DROP CONSTRAINT IF EXISTS crm_activities_contact_id_fkey,
+DROP CONSTRAINT IF EXISTS crm_activities_account_id_fkey,
+ADD CONSTRAINT crm_activities_contact_id_fkey
+  FOREIGN KEY (contact_id) REFERENCES public.sales_contacts (id) ON DELETE SET NULL,
+ADD CONSTRAINT crm_activities_account_id_fkey
+  FOREIGN KEY (account_id) REFERENCES public.sales_accounts (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_contact ON public.crm_tasks (contact_id);
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_account ON public.crm_tasks (account_id);
+
+-- Enrollments keep running against the lead; the contact link shows them on the contact record
+ALTER TABLE public.sequence_enrollments
+ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.sales_contacts (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sequence_enrollments_contact ON public.sequence_enrollments (contact_id)
+  WHERE contact_id IS NOT NULL;
+
+-- Conversion matches accounts by domain and contacts by email
+CREATE INDEX IF NOT EXISTS idx_sales_accounts_org_domain
+  ON public.sales_accounts (organization_id, lower(domain))
+  WHERE domain IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sales_contacts_org_email
+  ON public.sales_contacts (organization_id, lower(email))
+  WHERE email IS NOT NULL;
@@ -0,0 +1,327 @@
+-- Migration: Duplicate Detection and Merge
+-- Description: Review queue of likely duplicate leads, contacts and accounts, and an atomic merge
+-- that moves everything attached to the merged record onto the surviving one
+
+CREATE TABLE IF NOT EXISTS public.duplicate_candidates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id TEXT NOT NULL,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('lead', 'contact', 'account')),
+
+  -- Stored with the lower id first so each pair appears once
+  record_id UUID NOT NULL,
+  duplicate_id UUID NOT NULL,
+
+  score INTEGER NOT NULL CHECK (score >= 0 AND score <= 100),
+  reasons TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[], -- email, linkedin, phone, name_company, name_domain, domain, name
+
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'merged', 'dismissed')),
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by TEXT,
+
+  CONSTRAINT duplicate_candidates_pair_order CHECK (record_id < duplicate_id),
+  CONSTRAINT unique_duplicate_pair UNIQUE (entity_type, record_id, duplicate_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_candidates_queue
+  ON public.duplicate_candidates (organization_id, entity_type, score DESC)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_candidates_duplicate ON public.duplicate_candidates (duplicate_id);
+
+CREATE TABLE IF NOT EXISTS public.duplicate_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id TEXT NOT NULL,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('lead', 'contact', 'account')),
+  survivor_id UUID NOT NULL,
+  merged_id UUID NOT NULL,
+  -- Row as it was before it was deleted
+  merged_record JSONB NOT NULL,
+  field_choices JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Rows moved onto the survivor, by table
+  reparented JSONB NOT NULL DEFAULT '{}'::jsonb,
+  merged_by TEXT,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_merges_survivor ON public.duplicate_merges (survivor_id);
+
+-- Detection looks people up by phone and companies by domain
+CREATE INDEX IF NOT EXISTS idx_sales_leads_phone ON public.sales_leads (phone) WHERE phone IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sales_contacts_phone ON public.sales_contacts (phone) WHERE phone IS NOT NULL;
+
+-- Move every row that points at p_merged_id to p_survivor_id, delete the merged record and
+-- write the chosen field values (p_updates, column => value) to the survivor, all in one
+-- transaction. Rows whose unique constraints need a decision are resolved here too.
+CREATE OR REPLACE FUNCTION merge_duplicate_records(
+  p_entity_type TEXT,
+  p_organization_id TEXT,
+  p_survivor_id UUID,
+  p_merged_id UUID,
+  p_merged_by TEXT,
+  p_updates JSONB DEFAULT '{}'::jsonb,
+  p_field_choices JSONB DEFAULT '{}'::jsonb
+) RETURNS JSONB AS $$
+DECLARE
+  v_entity_table TEXT;
+  v_table TEXT;
+  v_column TEXT;
+  v_targets TEXT[];
+  v_snapshot JSONB;
+  v_survivor UUID;
+  v_pair RECORD;
+  v_keep UUID;
+  v_drop UUID;
+  v_set TEXT;
+  v_count INTEGER;
+  v_moved JSONB := '{}'::jsonb;
+BEGIN
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'Cannot merge a record into itself';
+  END IF;
+
+  v_entity_table := CASE p_entity_type
+    WHEN 'lead' THEN 'sales_leads'
+    WHEN 'contact' THEN 'sales_contacts'
+    WHEN 'account' THEN 'sales_accounts'
+  END;
+
+  IF v_entity_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown entity type %', p_entity_type;
+  END IF;
+
+  -- Lock both rows so a concurrent merge of either waits for this one
+  EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE id = $1 FOR UPDATE', v_entity_table)
+    INTO v_snapshot USING p_merged_id;
+  EXECUTE format('SELECT id FROM public.%I WHERE id = $1 FOR UPDATE', v_entity_table)
+    INTO v_survivor USING p_survivor_id;
+
+  IF v_snapshot IS NULL OR v_survivor IS NULL THEN
+    RAISE EXCEPTION 'Record to merge not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_entity_type = 'lead' THEN
+    -- One enrollment per lead and template. Where both leads are in the same sequence, the one
+    -- still running is kept (the survivor's when both or neither are) and the other's step
+    -- history, events and links move onto it before it is deleted, so nothing is lost.
+    v_count := 0;
+    FOR v_pair IN
+      SELECT
+        s.id AS survivor_enrollment,
+        m.id AS merged_enrollment,
+        (m.status IN ('active', 'paused') AND s.status NOT IN ('active', 'paused')) AS keep_merged
+      FROM public.sequence_enrollments s
+      JOIN public.sequence_enrollments m ON m.template_id = s.template_id
+      WHERE s.lead_id = p_survivor_id AND m.lead_id = p_merged_id
+    LOOP
+      IF v_pair.keep_merged THEN
+        v_keep := v_pair.merged_enrollment;
+        v_drop := v_pair.survivor_enrollment;
+      ELSE
+        v_keep := v_pair.survivor_enrollment;
+        v_drop := v_pair.merged_enrollment;
+      END IF;
+
+      FOREACH v_table IN ARRAY ARRAY[
+        'sequence_step_executions', 'sequence_email_events', 'sequence_tracked_links',
+        'sequence_inbound_messages', 'branch_evaluation_logs', 'linkedin_tasks'
+      ] LOOP
+        EXECUTE format('UPDATE public.%I SET enrollment_id = $1 WHERE enrollment_id = $2', v_table)
+          USING v_keep, v_drop;
+      END LOOP;
+
+      UPDATE public.sequence_enrollments k
+      SET
+        emails_sent = COALESCE(k.emails_sent, 0) + COALESCE(d.emails_sent, 0),
+        emails_opened = COALESCE(k.emails_opened, 0) + COALESCE(d.emails_opened, 0),
+        emails_clicked = COALESCE(k.emails_clicked, 0) + COALESCE(d.emails_clicked, 0),
+        emails_bounced = COALESCE(k.emails_bounced, 0) + COALESCE(d.emails_bounced, 0),
+        replies_received = COALESCE(k.replies_received, 0) + COALESCE(d.replies_received, 0),
+        meetings_booked = COALESCE(k.meetings_booked, 0) + COALESCE(d.meetings_booked, 0)
+      FROM public.sequence_enrollments d
+      WHERE k.id = v_keep AND d.id = v_drop;
+
+      DELETE FROM public.sequence_enrollments WHERE id = v_drop;
+      v_count := v_count + 1;
+    END LOOP;
+    v_moved := v_moved || jsonb_build_object('combined_enrollments', v_count);
+
+    UPDATE public.sequence_enrollments SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('sequence_enrollments', v_count);
+
+    -- A rule enrolls a lead at most once; the survivor's enrolled log row is the claim
+    UPDATE public.sequence_auto_enrollment_logs m
+    SET status = 'skipped', skip_reason = 'merged_duplicate'
+    WHERE m.lead_id = p_merged_id
+      AND m.status = 'enrolled'
+      AND EXISTS (
+        SELECT 1 FROM public.sequence_auto_enrollment_logs s
+        WHERE s.lead_id = p_survivor_id AND s.rule_id = m.rule_id AND s.status = 'enrolled'
+      );
+
+    -- Keep the most recently computed score
+    DELETE FROM public.lead_scores
+    WHERE lead_id IN (p_survivor_id, p_merged_id)
+      AND id <> (
+        SELECT id FROM public.lead_scores
+        WHERE lead_id IN (p_survivor_id, p_merged_id)
+        ORDER BY updated_at DESC NULLS LAST
+        LIMIT 1
+      );
+    UPDATE public.lead_scores SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('lead_scores', v_count);
+
+    -- Opt-outs on either lead carry over to the survivor
+    UPDATE public.unsubscribe_preferences s
+    SET
+      all_sequences = s.all_sequences OR m.all_sequences,
+      marketing_emails = s.marketing_emails OR m.marketing_emails,
+      transactional_emails = s.transactional_emails OR m.transactional_emails
+    FROM public.unsubscribe_preferences m
+    WHERE s.lead_id = p_survivor_id
+      AND m.lead_id = p_merged_id
+      AND m.organization_id = s.organization_id;
+    DELETE FROM public.unsubscribe_preferences m
+    WHERE m.lead_id = p_merged_id
+      AND EXISTS (
+        SELECT 1 FROM public.unsubscribe_preferences s
+        WHERE s.lead_id = p_survivor_id AND s.organization_id = m.organization_id
+      );
+    UPDATE public.unsubscribe_preferences SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+
+    DELETE FROM public.sequence_suppressions m
+    WHERE m.lead_id = p_merged_id
+      AND EXISTS (
+        SELECT 1 FROM public.sequence_suppressions s
+        WHERE s.lead_id = p_survivor_id AND s.organization_id = m.organization_id
+      );
+    UPDATE public.sequence_suppressions SET lead_id = p_survivor_id WHERE lead_id = p_merged_id;
+
+    -- Custom fields: the survivor's values win, gaps are filled and multiselects are unioned
+    UPDATE public.custom_field_values s
+    SET value_json = (
+      SELECT COALESCE(jsonb_agg(DISTINCT item), '[]'::jsonb)
+      FROM jsonb_array_elements(s.value_json || m.value_json) AS item
+    )
+    FROM public.custom_field_values m, public.custom_field_definitions d
+    WHERE s.entity_id = p_survivor_id
+      AND m.entity_id = p_merged_id
+      AND m.definition_id = s.definition_id
+      AND d.id = s.definition_id
+      AND d.field_type = 'multiselect'
+      AND jsonb_typeof(s.value_json) = 'array'
+      AND jsonb_typeof(m.value_json) = 'array';
+    UPDATE public.custom_field_values m
+    SET entity_id = p_survivor_id
+    WHERE m.entity_id = p_merged_id
+      AND m.entity_type = 'sales_leads'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.custom_field_values s
+        WHERE s.entity_id = p_survivor_id AND s.definition_id = m.definition_id
+      );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('custom_field_values', v_count);
+    DELETE FROM public.custom_field_values WHERE entity_id = p_merged_id AND entity_type = 'sales_leads';
+
+    v_targets := ARRAY[
+      'crm_activities.lead_id', 'crm_tasks.lead_id', 'bookings.lead_id', 'sales_opportunities.lead_id',
+      'sequence_auto_enrollment_logs.lead_id',
+      'behavioral_events.lead_id', 'trigger_execution_log.lead_id',
+      'linkedin_tasks.lead_id', 'linkedin_engagement_log.lead_id', 'lead_enrichment_queue.lead_id'
+    ];
+  ELSIF p_entity_type = 'contact' THEN
+    -- Deals the survivor is already on keep the survivor's role; primary flags carry over
+    UPDATE public.sales_opportunity_contacts s
+    SET
+      is_primary = s.is_primary OR m.is_primary,
+      role = COALESCE(s.role, m.role)
+    FROM public.sales_opportunity_contacts m
+    WHERE s.contact_id = p_survivor_id
+      AND m.contact_id = p_merged_id
+      AND m.opportunity_id = s.opportunity_id;
+    UPDATE public.sales_opportunity_contacts m
+    SET contact_id = p_survivor_id
+    WHERE m.contact_id = p_merged_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.sales_opportunity_contacts s
+        WHERE s.contact_id = p_survivor_id AND s.opportunity_id = m.opportunity_id
+      );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object('sales_opportunity_contacts', v_count);
+
+    v_targets := ARRAY[
+      'crm_activities.contact_id', 'crm_tasks.contact_id', 'sequence_enrollments.contact_id',
+      'sales_leads.converted_contact_id'
+    ];
+  ELSE
+    v_targets := ARRAY[
+      'sales_contacts.account_id', 'sales_leads.account_id', 'sales_leads.converted_account_id',
+      'crm_activities.account_id', 'crm_tasks.account_id', 'sales_opportunities.account_id'
+    ];
+  END IF;
+
+  FOREACH v_table IN ARRAY v_targets LOOP
+    v_column := split_part(v_table, '.', 2);
+    EXECUTE format(
+      'UPDATE public.%I SET %I = $1 WHERE %I = $2',
+      split_part(v_table, '.', 1), v_column, v_column
+    ) USING p_survivor_id, p_merged_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_moved := v_moved || jsonb_build_object(v_table, v_count);
+  END LOOP;
+
+  EXECUTE format('DELETE FROM public.%I WHERE id = $1', v_entity_table) USING p_merged_id;
+
+  -- Written after the delete so values that are unique per record can move to the survivor
+  SELECT string_agg(format('%I = r.%I', key, key), ', ')
+  INTO v_set
+  FROM jsonb_object_keys(p_updates) AS key;
+
+  IF v_set IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE public.%1$I t SET %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1) r WHERE t.id = $2',
+      v_entity_table, v_set
+    ) USING p_updates, p_survivor_id;
+  END IF;
+
+  IF p_entity_type = 'lead' THEN
+    UPDATE public.sales_leads
+    SET apollo_id = v_snapshot->>'apollo_id'
+    WHERE id = p_survivor_id AND apollo_id IS NULL AND v_snapshot->>'apollo_id' IS NOT NULL;
+  END IF;
+
+  UPDATE public.duplicate_candidates
+  SET status = 'merged', resolved_at = NOW(), resolved_by = p_merged_by
+  WHERE entity_type = p_entity_type
+    AND record_id = LEAST(p_survivor_id, p_merged_id)
+    AND duplicate_id = GREATEST(p_survivor_id, p_merged_id);
+
+  -- Other pairs with the merged record are re-detected against the survivor by the caller
+  DELETE FROM public.duplicate_candidates
+  WHERE entity_type = p_entity_type
+    AND status = 'pending'
+    AND (record_id = p_merged_id OR duplicate_id = p_merged_id);
+
+  INSERT INTO public.duplicate_merges (
+    organization_id, entity_type, survivor_id, merged_id, merged_record, field_choices, reparented, merged_by
+  ) VALUES (
+    p_organization_id, p_entity_type, p_survivor_id, p_merged_id, v_snapshot, p_field_choices, v_moved, p_merged_by
+  );
+
+  RETURN v_moved;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE public.duplicate_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.duplicate_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their org's duplicate candidates" ON public.duplicate_candidates
+  FOR ALL USING (true);
+
+CREATE POLICY "Users can view their org's merge history" ON public.duplicate_merges
+  FOR ALL USING (true);
+
+COMMENT ON TABLE public.duplicate_candidates IS 'Pairs of likely duplicate records awaiting review';
+COMMENT ON TABLE public.duplicate_merges IS 'Audit trail of merges, with the deleted record';
@@ -0,0 +1,38 @@
+-- Migration: Sender Organization Backfill
+-- Description: Domains and senders added before they were scoped to the Clerk organization were
+-- stored under their creator's user id, so sender rotation never found them. Move each one to
+-- the organization its creator builds sequences in, where that organization is unambiguous.
+
+WITH creator_orgs AS (
+  SELECT created_by, MIN(organization_id) AS organization_id
+  FROM public.sequence_templates
+  WHERE created_by IS NOT NULL AND organization_id <> created_by
+  GROUP BY created_by
+  HAVING COUNT(DISTINCT organization_id) = 1
+)
+UPDATE email_domains d
+SET organization_id = c.organization_id
+FROM creator_orgs c
+WHERE d.created_by = c.created_by
+  AND d.organization_id = d.created_by
+  AND NOT EXISTS (
+    SELECT 1 FROM email_domains existing
+    WHERE existing.organization_id = c.organization_id AND existing.domain = d.domain
+  );
+
+WITH creator_orgs AS (
+  SELECT created_by, MIN(organization_id) AS organization_id
+  FROM public.sequence_templates
+  WHERE created_by IS NOT NULL AND organization_id <> created_by
+  GROUP BY created_by
+  HAVING COUNT(DISTINCT organization_id) = 1
+)
+UPDATE email_senders s
+SET organization_id = c.organization_id
+FROM creator_orgs c
+WHERE s.created_by = c.created_by
+  AND s.organization_id = s.created_by
+  AND NOT EXISTS (
+    SELECT 1 FROM email_senders existing
+    WHERE existing.organization_id = c.organization_id AND existing.email = s.email
+  );
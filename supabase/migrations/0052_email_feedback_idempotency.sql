@@ -0,0 +1,12 @@
+-- Migration: Email Feedback Idempotency
+-- Description: SNS redelivers SES notifications; the feedback id on bounces and complaints lets the
+-- webhook apply each one once
+
+ALTER TABLE public.email_events
+ADD COLUMN IF NOT EXISTS feedback_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_events_feedback_id
+  ON public.email_events (feedback_id)
+  WHERE feedback_id IS NOT NULL;
+
+COMMENT ON COLUMN public.email_events.feedback_id IS 'SES feedbackId of a bounce or complaint notification';
@@ -0,0 +1,12 @@
+-- Migration: Reply Event Idempotency
+-- Description: A reply that is redelivered or retried after a failure records one reply event;
+-- the inbound Message-ID on the event is what makes the insert repeatable
+
+ALTER TABLE public.sequence_email_events
+ADD COLUMN IF NOT EXISTS inbound_message_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_events_inbound_message_id
+  ON public.sequence_email_events (inbound_message_id)
+  WHERE inbound_message_id IS NOT NULL;
+
+COMMENT ON COLUMN public.sequence_email_events.inbound_message_id IS 'Message-ID of the inbound email a reply event was recorded from';
@@ -0,0 +1,59 @@
+-- Migration: Lead Conversion Transaction
+-- Description: The writes that finish a lead conversion run in one transaction, so a failure leaves
+-- the lead's history untouched and only the new account, contact and opportunity to remove
+
+-- Attach the lead's activities, tasks and enrollments to the contact and account, mark the lead
+-- converted and log the conversion. Returns how many of each related row were attached.
+CREATE OR REPLACE FUNCTION finish_lead_conversion(
+  p_lead_id UUID,
+  p_organization_id TEXT,
+  p_contact_id UUID,
+  p_account_id UUID,
+  p_opportunity_id UUID,
+  p_converted_by TEXT,
+  p_activity_metadata JSONB DEFAULT '{}'::jsonb
+) RETURNS JSONB AS $$
+DECLARE
+  v_activities INTEGER;
+  v_tasks INTEGER;
+  v_enrollments INTEGER;
+BEGIN
+  -- Related rows keep their lead_id, so the lead's own history stays intact
+  UPDATE public.crm_activities
+  SET contact_id = p_contact_id, account_id = p_account_id
+  WHERE lead_id = p_lead_id AND contact_id IS NULL;
+  GET DIAGNOSTICS v_activities = ROW_COUNT;
+
+  UPDATE public.crm_tasks
+  SET contact_id = p_contact_id, account_id = p_account_id
+  WHERE lead_id = p_lead_id AND contact_id IS NULL;
+  GET DIAGNOSTICS v_tasks = ROW_COUNT;
+
+  UPDATE public.sequence_enrollments
+  SET contact_id = p_contact_id
+  WHERE lead_id = p_lead_id;
+  GET DIAGNOSTICS v_enrollments = ROW_COUNT;
+
+  UPDATE public.sales_leads
+  SET
+    organization_id = p_organization_id,
+    status = 'converted',
+    account_id = COALESCE(p_account_id, account_id),
+    converted_contact_id = p_contact_id,
+    converted_account_id = p_account_id,
+    converted_opportunity_id = p_opportunity_id
+  WHERE id = p_lead_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lead % not found', p_lead_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.crm_activities (
+    organization_id, lead_id, contact_id, account_id, type, content, created_by, metadata
+  ) VALUES (
+    p_organization_id, p_lead_id, p_contact_id, p_account_id, 'status_change', 'Lead converted', p_converted_by, p_activity_metadata
+  );
+
+  RETURN jsonb_build_object('activities', v_activities, 'tasks', v_tasks, 'enrollments', v_enrollments);
+END;
+$$ LANGUAGE plpgsql;